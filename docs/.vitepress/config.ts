@@ -67,15 +67,20 @@ const sidebar = [
       { text: 'Route Groups', link: '/features/route-groups' },
       { text: 'Named Routes', link: '/features/named-routes' },
       { text: 'Resource Routes', link: '/features/resource-routes' },
+      { text: 'Content Negotiation', link: '/features/content-negotiation' },
+      { text: 'API Versioning', link: '/features/api-versioning' },
+      { text: 'OpenAPI & API Explorer', link: '/features/openapi' },
       { text: 'Action Handlers', link: '/features/action-handlers' },
       { text: 'View Rendering', link: '/features/view-rendering' },
       { text: 'Middleware', link: '/features/middleware' },
       { text: 'WebSockets', link: '/features/websockets' },
+      { text: 'Reverse Proxy', link: '/features/reverse-proxy' },
       { text: 'Cookie Handling', link: '/features/cookie-handling' },
       { text: 'File Streaming', link: '/features/file-streaming' },
       { text: 'CSRF Protection', link: '/features/csrf-protection' },
       { text: 'Domain Routing', link: '/features/domain-routing' },
       { text: 'Authentication', link: '/features/authentication' },
+      { text: 'Authorization', link: '/features/authorization' },
       { text: 'Session Management', link: '/features/session-management' },
     ],
   },
@@ -0,0 +1,8 @@
+export {
+  type ApiKeyHits,
+  type ApiKeyRecord,
+  type ApiKeyStore,
+  MemoryApiKeyStore,
+  SQLiteApiKeyStore,
+  type SQLiteApiKeyStoreOptions,
+} from './stores'
@@ -0,0 +1,291 @@
+/**
+ * API Key Stores
+ *
+ * Persistence backends for `ApiKeyManager`. Stores only ever see key
+ * hashes and the visible prefix, never the keys themselves.
+ */
+
+import { Database } from 'bun:sqlite'
+
+/**
+ * A stored API key
+ */
+export interface ApiKeyRecord {
+  /**
+   * Random identifier embedded in the key, used to look it up
+   */
+  id: string
+  /**
+   * The start of the key, safe to show so users can tell their keys apart
+   */
+  prefix: string
+  /**
+   * SHA-256 hash of the full key, hex encoded
+   */
+  hash: string
+  owner: string
+  scopes: string[]
+  /**
+   * Timestamps in milliseconds
+   */
+  createdAt: number
+  expiresAt: number | null
+  lastUsedAt: number | null
+  /**
+   * Requests allowed per window, the window in seconds
+   */
+  rateLimit: { max: number, window: number } | null
+}
+
+/**
+ * Requests counted in the key's current rate limit window
+ */
+export interface ApiKeyHits {
+  hits: number
+  windowStart: number
+}
+
+export interface ApiKeyStore {
+  get: (id: string) => Promise<ApiKeyRecord | null>
+  /**
+   * Insert a new key. Returns false, leaving the store unchanged, when its id is taken.
+   */
+  add: (record: ApiKeyRecord) => Promise<boolean>
+  /**
+   * Insert or update a key, keeping its rate limit counter
+   */
+  set: (record: ApiKeyRecord) => Promise<void>
+  delete: (id: string) => Promise<boolean>
+  list: (owner?: string) => Promise<ApiKeyRecord[]>
+  touch: (id: string, usedAt: number) => Promise<void>
+  /**
+   * Count a request in a fixed window of `window` milliseconds, starting a new window once it has passed
+   */
+  hit: (id: string, window: number, now: number) => Promise<ApiKeyHits>
+}
+
+/**
+ * In-memory API key store
+ *
+ * Keys are lost on restart. Useful for tests and single-process development.
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private records = new Map<string, ApiKeyRecord>()
+  private hits = new Map<string, ApiKeyHits>()
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.records.get(id)
+    return record ? structuredClone(record) : null
+  }
+
+  async add(record: ApiKeyRecord): Promise<boolean> {
+    if (this.records.has(record.id)) {
+      return false
+    }
+    this.records.set(record.id, structuredClone(record))
+    return true
+  }
+
+  async set(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.hits.delete(id)
+    return this.records.delete(id)
+  }
+
+  async list(owner?: string): Promise<ApiKeyRecord[]> {
+    return [...this.records.values()]
+      .filter(record => owner === undefined || record.owner === owner)
+      .map(record => structuredClone(record))
+  }
+
+  async touch(id: string, usedAt: number): Promise<void> {
+    const record = this.records.get(id)
+    if (record) {
+      record.lastUsedAt = usedAt
+    }
+  }
+
+  async hit(id: string, window: number, now: number): Promise<ApiKeyHits> {
+    const current = this.hits.get(id)
+    const next = current && current.windowStart + window > now
+      ? { hits: current.hits + 1, windowStart: current.windowStart }
+      : { hits: 1, windowStart: now }
+    this.hits.set(id, next)
+    return { ...next }
+  }
+}
+
+export interface SQLiteApiKeyStoreOptions {
+  /**
+   * Database file, or ':memory:' for an in-memory database
+   * @default 'api-keys.sqlite'
+   */
+  filename?: string
+
+  /**
+   * Use an existing database connection instead of opening `filename`
+   */
+  database?: Database
+
+  /**
+   * Table used to store keys
+   * @default 'api_keys'
+   */
+  table?: string
+}
+
+interface ApiKeyRow {
+  id: string
+  prefix: string
+  hash: string
+  owner: string
+  scopes: string
+  created_at: number
+  expires_at: number | null
+  last_used_at: number | null
+  rate_limit_max: number | null
+  rate_limit_window: number | null
+}
+
+/**
+ * SQLite API key store backed by `bun:sqlite`
+ *
+ * Keys survive restarts and rate limits are shared by every process on the host.
+ */
+export class SQLiteApiKeyStore implements ApiKeyStore {
+  private db: Database
+  private statements: {
+    get: ReturnType<Database['prepare']>
+    add: ReturnType<Database['prepare']>
+    set: ReturnType<Database['prepare']>
+    delete: ReturnType<Database['prepare']>
+    all: ReturnType<Database['prepare']>
+    byOwner: ReturnType<Database['prepare']>
+    touch: ReturnType<Database['prepare']>
+    hit: ReturnType<Database['prepare']>
+  }
+
+  constructor(options: SQLiteApiKeyStoreOptions = {}) {
+    const table = options.table ?? 'api_keys'
+    if (!/^\w+$/.test(table)) {
+      throw new Error(`Invalid API key table name: ${table}`)
+    }
+
+    this.db = options.database ?? new Database(options.filename ?? 'api-keys.sqlite')
+
+    // Wait for other processes holding the lock instead of failing at once
+    this.db.exec('PRAGMA busy_timeout = 5000')
+    this.db.exec('PRAGMA journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        prefix TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        last_used_at INTEGER,
+        rate_limit_max INTEGER,
+        rate_limit_window INTEGER,
+        hits INTEGER NOT NULL DEFAULT 0,
+        window_start INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_owner ON ${table}(owner)`)
+
+    const columns = 'id, prefix, hash, owner, scopes, created_at, expires_at, last_used_at, rate_limit_max, rate_limit_window'
+    this.statements = {
+      get: this.db.prepare(`SELECT ${columns} FROM ${table} WHERE id = ?`),
+      add: this.db.prepare(`INSERT INTO ${table} (${columns}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(id) DO NOTHING`),
+      set: this.db.prepare(`
+        INSERT INTO ${table} (${columns}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          prefix = excluded.prefix, hash = excluded.hash, owner = excluded.owner, scopes = excluded.scopes,
+          created_at = excluded.created_at, expires_at = excluded.expires_at, last_used_at = excluded.last_used_at,
+          rate_limit_max = excluded.rate_limit_max, rate_limit_window = excluded.rate_limit_window
+      `),
+      delete: this.db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+      all: this.db.prepare(`SELECT ${columns} FROM ${table} ORDER BY created_at`),
+      byOwner: this.db.prepare(`SELECT ${columns} FROM ${table} WHERE owner = ? ORDER BY created_at`),
+      touch: this.db.prepare(`UPDATE ${table} SET last_used_at = ? WHERE id = ?`),
+      // Both assignments see the old window_start
+      hit: this.db.prepare(`
+        UPDATE ${table} SET
+          hits = CASE WHEN window_start + ?1 > ?2 THEN hits + 1 ELSE 1 END,
+          window_start = CASE WHEN window_start + ?1 > ?2 THEN window_start ELSE ?2 END
+        WHERE id = ?3
+        RETURNING hits, window_start
+      `),
+    }
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const row = this.statements.get.get(id) as ApiKeyRow | null
+    return row ? toRecord(row) : null
+  }
+
+  async add(record: ApiKeyRecord): Promise<boolean> {
+    return this.statements.add.run(...toRow(record)).changes > 0
+  }
+
+  async set(record: ApiKeyRecord): Promise<void> {
+    this.statements.set.run(...toRow(record))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.statements.delete.run(id).changes > 0
+  }
+
+  async list(owner?: string): Promise<ApiKeyRecord[]> {
+    const rows = (owner === undefined ? this.statements.all.all() : this.statements.byOwner.all(owner)) as ApiKeyRow[]
+    return rows.map(toRecord)
+  }
+
+  async touch(id: string, usedAt: number): Promise<void> {
+    this.statements.touch.run(usedAt, id)
+  }
+
+  async hit(id: string, window: number, now: number): Promise<ApiKeyHits> {
+    const row = this.statements.hit.get(window, now, id) as { hits: number, window_start: number } | null
+    return row ? { hits: row.hits, windowStart: row.window_start } : { hits: 1, windowStart: now }
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+function toRow(record: ApiKeyRecord): [string, string, string, string, string, number, number | null, number | null, number | null, number | null] {
+  return [
+    record.id,
+    record.prefix,
+    record.hash,
+    record.owner,
+    JSON.stringify(record.scopes),
+    record.createdAt,
+    record.expiresAt,
+    record.lastUsedAt,
+    record.rateLimit?.max ?? null,
+    record.rateLimit?.window ?? null,
+  ]
+}
+
+function toRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    prefix: row.prefix,
+    hash: row.hash,
+    owner: row.owner,
+    scopes: JSON.parse(row.scopes) as string[],
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    rateLimit: row.rate_limit_max !== null && row.rate_limit_window !== null
+      ? { max: row.rate_limit_max, window: row.rate_limit_window }
+      : null,
+  }
+}
@@ -1,14 +1,30 @@
-import type { EnhancedRequest, JwtPayload } from './types'
+import type { webcrypto } from 'node:crypto'
+import type { ApiKeyRecord, ApiKeyStore } from './api-keys/stores'
+import type { EnhancedRequest, JwtHeader, JwtPayload } from './types'
+import { Buffer } from 'node:buffer'
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { SQLiteApiKeyStore } from './api-keys/stores'
+
+type JsonWebKey = webcrypto.JsonWebKey
 
 // Types
 export interface JwtVerifyOptions {
   issuer?: string
   audience?: string
   subject?: string
+  /**
+   * Algorithms accepted. Unsigned `none` tokens are only accepted when listed.
+   * @default every algorithm except 'none'
+   */
   algorithms?: string[]
   expiresIn?: string | number
   notBefore?: string | number
   ignoreExpiration?: boolean
+  /**
+   * Seconds of clock difference allowed when checking `exp`, `nbf` and `iat`
+   * @default 0
+   */
+  clockTolerance?: number
   allowInvalidAsymmetricKeyTypes?: boolean
 }
 
@@ -30,6 +46,43 @@ export interface ApiKeyOptions {
   source?: 'header' | 'query' | 'cookie'
   keyName?: string
   keyPrefix?: string
+  /**
+   * Where key hashes are kept
+   * @default a SQLiteApiKeyStore in 'api-keys.sqlite'
+   */
+  store?: ApiKeyStore
+}
+
+export interface ApiKeyCreateOptions {
+  /**
+   * Lifetime in seconds
+   */
+  expiresIn?: number
+  /**
+   * Requests allowed per window, the window in seconds
+   */
+  rateLimit?: { max: number, window: number }
+}
+
+/**
+ * A stored key as seen by the application. The key itself isn't kept.
+ */
+export interface ApiKeyInfo {
+  id: string
+  prefix: string
+  owner: string
+  scopes: string[]
+  createdAt: Date
+  expiresAt?: Date
+  lastUsedAt?: Date
+  rateLimit?: { max: number, window: number }
+}
+
+export interface ApiKeyRateLimit {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: Date
 }
 
 export interface OAuth2Config {
@@ -45,50 +98,283 @@ export interface OAuth2Config {
 // Re-export JwtPayload from types for backwards compatibility
 export type { JwtPayload }
 
+const JWT_ALGORITHMS = ['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256', 'PS384', 'PS512']
+
 // Base64URL encoding/decoding functions
-function base64UrlEncode(str: string): string {
-  return btoa(str)
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/, '')
+function base64UrlEncode(data: string | Uint8Array): string {
+  return Buffer.from(data).toString('base64url')
 }
 
 function base64UrlDecode(str: string): string {
-  str = str.replace(/-/g, '+').replace(/_/g, '/')
-  while (str.length % 4) {
-    str += '='
+  return Buffer.from(str, 'base64url').toString('utf8')
+}
+
+export type JwtAlgorithm = JwtHeader['alg']
+
+/**
+ * Keys a `JWT` signs and verifies tokens with
+ */
+export interface JwtKeyOptions {
+  /**
+   * Shared secret for the HS algorithms
+   */
+  secret?: string | Uint8Array
+  /**
+   * Key signing tokens with the RS, ES and PS algorithms, as a PKCS#8 PEM
+   * string, a JWK or a CryptoKey. Tokens are verified with its public part
+   * unless `publicKey` or `jwks` is set.
+   */
+  privateKey?: string | JsonWebKey | CryptoKey
+  /**
+   * Key verifying RS, ES and PS signatures, as an SPKI PEM string, a JWK or a CryptoKey
+   */
+  publicKey?: string | JsonWebKey | CryptoKey
+  /**
+   * Key set verifying tokens by their `kid` header
+   */
+  jwks?: JwksKeySet
+  /**
+   * `kid` header of signed tokens
+   */
+  keyId?: string
+  /**
+   * Algorithm tokens are signed with
+   * @default 'HS256' with a secret, otherwise 'RS256'
+   */
+  algorithm?: JwtAlgorithm
+}
+
+export interface JwksOptions {
+  /**
+   * Keys given up front
+   */
+  keys?: JsonWebKey[]
+  /**
+   * JSON file holding a `{ "keys": [...] }` key set
+   */
+  file?: string
+  /**
+   * Endpoint serving a key set, e.g. an identity provider's `/.well-known/jwks.json`
+   */
+  url?: string
+  /**
+   * Seconds a loaded key set is used before it's loaded again
+   * @default 600
+   */
+  cacheTtl?: number
+  /**
+   * Minimum seconds between loads triggered by tokens with an unknown `kid`,
+   * which is how rotated keys are picked up
+   * @default 30
+   */
+  cooldown?: number
+}
+
+interface AlgorithmParams {
+  importParams: webcrypto.HmacImportParams | webcrypto.RsaHashedImportParams | webcrypto.EcKeyImportParams
+  signParams: webcrypto.AlgorithmIdentifier | webcrypto.RsaPssParams | webcrypto.EcdsaParams
+  kty: 'oct' | 'RSA' | 'EC'
+}
+
+function algorithmParams(alg: string): AlgorithmParams | null {
+  const match = /^([HREP]S)(256|384|512)$/.exec(alg)
+  if (!match) {
+    return null
+  }
+
+  const bits = Number(match[2])
+  const hash = `SHA-${bits}`
+  switch (match[1]) {
+    case 'HS':
+      return { importParams: { name: 'HMAC', hash }, signParams: 'HMAC', kty: 'oct' }
+    case 'RS':
+      return { importParams: { name: 'RSASSA-PKCS1-v1_5', hash }, signParams: 'RSASSA-PKCS1-v1_5', kty: 'RSA' }
+    case 'PS':
+      return { importParams: { name: 'RSA-PSS', hash }, signParams: { name: 'RSA-PSS', saltLength: bits / 8 }, kty: 'RSA' }
+    default: {
+      const namedCurve = bits === 512 ? 'P-521' : `P-${bits}`
+      return { importParams: { name: 'ECDSA', namedCurve }, signParams: { name: 'ECDSA', hash }, kty: 'EC' }
+    }
   }
-  return atob(str)
 }
 
 /**
- * Simple JWT implementation for signing and verifying tokens
+ * Import a key for an algorithm from PEM, JWK or raw secret bytes
+ */
+async function importKey(key: string | Uint8Array | JsonWebKey | CryptoKey, alg: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  const params = algorithmParams(alg)
+  if (!params) {
+    throw new Error(`Unsupported algorithm ${alg}`)
+  }
+
+  if (key instanceof CryptoKey) {
+    return key
+  }
+
+  if (params.kty === 'oct') {
+    const secret = typeof key === 'string' ? new TextEncoder().encode(key) : key
+    if (!(secret instanceof Uint8Array)) {
+      throw new TypeError(`${alg} needs a secret`)
+    }
+    return crypto.subtle.importKey('raw', new Uint8Array(secret), params.importParams, false, [usage])
+  }
+
+  if (typeof key === 'string') {
+    const pem = /-----BEGIN (PRIVATE|PUBLIC) KEY-----([\s\S]+?)-----END \1 KEY-----/.exec(key)
+    if (!pem) {
+      throw new Error('Keys must be PKCS#8 or SPKI PEM strings')
+    }
+    const format = pem[1] === 'PRIVATE' ? 'pkcs8' : 'spki'
+    const der = Buffer.from(pem[2].replace(/\s+/g, ''), 'base64')
+    if (format === 'pkcs8' && usage === 'verify') {
+      // Verify with the public half of a private key
+      const privateKey = await crypto.subtle.importKey('pkcs8', der, params.importParams, true, ['sign'])
+      return importKey(publicJwk(await crypto.subtle.exportKey('jwk', privateKey)), alg, usage)
+    }
+    return crypto.subtle.importKey(format, der, params.importParams, false, [usage])
+  }
+
+  if (key instanceof Uint8Array) {
+    throw new TypeError(`${alg} needs a PEM, JWK or CryptoKey`)
+  }
+
+  const jwk = usage === 'verify' ? publicJwk(key) : key
+  // Key sets may carry fields WebCrypto rejects for the usage asked for
+  return crypto.subtle.importKey('jwk', { ...jwk, key_ops: undefined, use: undefined }, params.importParams, false, [usage])
+}
+
+function publicJwk({ kty, n, e, crv, x, y, kid, alg }: JsonWebKey & { kid?: string }): JsonWebKey {
+  return kty === 'EC' ? { kty, crv, x, y, kid, alg } as JsonWebKey : { kty, n, e, kid, alg } as JsonWebKey
+}
+
+/**
+ * A set of public keys, loaded from a JWKS file or endpoint, that verifies
+ * tokens by their `kid` header. The set is reloaded when its cache expires
+ * and when a token names a key it doesn't have yet.
+ */
+export class JwksKeySet {
+  private keys: (JsonWebKey & { kid?: string })[]
+  private loadedAt = 0
+  private loading: Promise<void> | null = null
+  private imported = new Map<string, Promise<CryptoKey>>()
+  private options: Required<Omit<JwksOptions, 'file' | 'url' | 'keys'>> & Pick<JwksOptions, 'file' | 'url'>
+
+  constructor(options: JwksOptions) {
+    if (!options.keys && !options.file && !options.url) {
+      throw new Error('A key set needs keys, a file or a url')
+    }
+
+    this.keys = options.keys ?? []
+    this.options = {
+      file: options.file,
+      url: options.url,
+      cacheTtl: options.cacheTtl ?? 600,
+      cooldown: options.cooldown ?? 30,
+    }
+  }
+
+  /**
+   * Keys that can verify a token signed with `alg`, the one named `kid` when given
+   */
+  async getKeys(alg: JwtAlgorithm, kid?: string): Promise<CryptoKey[]> {
+    const age = Date.now() - this.loadedAt
+    if (this.isRemote() && age >= this.options.cacheTtl * 1000) {
+      await this.reload()
+    }
+
+    let matches = this.matching(alg, kid)
+    // A key missing from the set may have just been rotated in
+    if (matches.length === 0 && kid && this.isRemote() && Date.now() - this.loadedAt >= this.options.cooldown * 1000) {
+      await this.reload()
+      matches = this.matching(alg, kid)
+    }
+
+    return Promise.all(matches.map((jwk) => {
+      const cacheKey = `${alg}:${JSON.stringify(jwk)}`
+      if (!this.imported.has(cacheKey)) {
+        this.imported.set(cacheKey, importKey(jwk, alg, 'verify'))
+      }
+      return this.imported.get(cacheKey)!
+    }))
+  }
+
+  /**
+   * Load the key set from its file or endpoint
+   */
+  async reload(): Promise<void> {
+    this.loading ??= (async () => {
+      try {
+        const set = this.options.file
+          ? await Bun.file(this.options.file).json() as { keys?: JsonWebKey[] }
+          : await fetchJwks(this.options.url!)
+        if (!Array.isArray(set.keys)) {
+          throw new TypeError('Key set has no keys')
+        }
+        this.keys = set.keys
+        this.imported.clear()
+      }
+      finally {
+        // Failed loads wait for the cooldown too rather than hammering the source
+        this.loadedAt = Date.now()
+        this.loading = null
+      }
+    })()
+    return this.loading
+  }
+
+  private isRemote(): boolean {
+    return Boolean(this.options.file || this.options.url)
+  }
+
+  private matching(alg: JwtAlgorithm, kid?: string): JsonWebKey[] {
+    const params = algorithmParams(alg)
+    return this.keys.filter(key => key.kty === params?.kty
+      && (!kid || key.kid === kid)
+      && (!key.alg || key.alg === alg)
+      && (!key.use || key.use === 'sig'))
+  }
+}
+
+async function fetchJwks(url: string): Promise<{ keys?: JsonWebKey[] }> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } })
+  if (!response.ok) {
+    throw new Error(`Loading key set failed: ${response.status} ${response.statusText}`)
+  }
+  return await response.json() as { keys?: JsonWebKey[] }
+}
+
+/**
+ * JWT signing and verification with WebCrypto, for the HS, RS, ES and PS algorithms
  */
 export class JWT {
-  private secret: string
+  private keys: JwtKeyOptions
+  private imported = new Map<string, Promise<CryptoKey>>()
 
-  constructor(secret: string) {
-    this.secret = secret
+  constructor(secret: string | JwtKeyOptions) {
+    this.keys = typeof secret === 'string' ? { secret } : secret
   }
 
   /**
    * Sign payload into a JWT token
    */
-  sign(payload: Record<string, any>, options: JwtSignOptions = {}): string {
+  async sign(payload: Record<string, any>, options: JwtSignOptions = {}): Promise<string> {
+    const alg = options.algorithm ?? this.keys.algorithm ?? (this.keys.secret !== undefined ? 'HS256' : 'RS256')
+    const kid = options.keyid ?? this.keys.keyId
+
     // Default header
     const header = {
-      alg: options.algorithm || 'HS256',
+      alg,
       typ: 'JWT',
+      ...(kid ? { kid } : {}),
       ...options.header,
     }
 
     // Prepare payload with registered claims
     const now = Math.floor(Date.now() / 1000)
 
-    const jwtPayload: JwtPayload = {
-      ...payload,
-      iat: now,
-    }
+    const jwtPayload: JwtPayload = options.noTimestamp
+      ? { ...payload }
+      : { ...payload, iat: now }
 
     // Add registered claims from options
     if (options.expiresIn) {
@@ -120,10 +406,8 @@ export class JWT {
     const encodedHeader = base64UrlEncode(JSON.stringify(header))
     const encodedPayload = base64UrlEncode(JSON.stringify(jwtPayload))
 
-    // Create signature - Note: In a production environment, you'd use Bun's crypto APIs
-    // or a proper JWT library. This is a simplified implementation.
     const data = `${encodedHeader}.${encodedPayload}`
-    const signature = this.createSignature(data, this.secret, header.alg)
+    const signature = alg === 'none' ? '' : base64UrlEncode(await this.createSignature(data, alg))
 
     // Return the JWT
     return `${data}.${signature}`
@@ -132,7 +416,7 @@ export class JWT {
   /**
    * Verify a JWT token and return the decoded payload
    */
-  verify(token: string, options: JwtVerifyOptions = {}): Record<string, any> | null {
+  async verify(token: string, options: JwtVerifyOptions = {}): Promise<JwtPayload | null> {
     try {
       const parts = token.split('.')
 
@@ -143,35 +427,42 @@ export class JWT {
       const [encodedHeader, encodedPayload, signature] = parts
 
       // Decode header and payload
-      const header = JSON.parse(base64UrlDecode(encodedHeader))
-      const payload = JSON.parse(base64UrlDecode(encodedPayload))
+      const header = JSON.parse(base64UrlDecode(encodedHeader)) as JwtHeader
+      const payload = JSON.parse(base64UrlDecode(encodedPayload)) as JwtPayload
 
-      // Verify algorithm if specified
-      if (options.algorithms && !options.algorithms.includes(header.alg)) {
+      // Unsigned tokens are only accepted when asked for by name
+      const algorithms = options.algorithms ?? JWT_ALGORITHMS
+      if (!algorithms.includes(header.alg)) {
         throw new Error(`Algorithm ${header.alg} not allowed`)
       }
 
-      // Verify signature - Note: In a production environment, you'd use Bun's crypto APIs
-      // or a proper JWT library. This is a simplified implementation.
+      // Extensions a token marks critical must be understood, and none are
+      if (header.crit) {
+        throw new Error('Unsupported critical header')
+      }
+
       const data = `${encodedHeader}.${encodedPayload}`
-      const expectedSignature = this.createSignature(data, this.secret, header.alg)
+      const valid = header.alg === 'none'
+        ? signature === ''
+        : await this.verifySignature(data, Uint8Array.from(Buffer.from(signature, 'base64url')), header.alg, header.kid)
 
-      if (signature !== expectedSignature) {
+      if (!valid) {
         throw new Error('Invalid signature')
       }
 
-      // Verify time-based claims
+      // Verify time-based claims, allowing for clocks that are slightly apart
       const now = Math.floor(Date.now() / 1000)
+      const tolerance = options.clockTolerance ?? 0
 
-      if (payload.exp && !options.ignoreExpiration && now >= payload.exp) {
+      if (payload.exp !== undefined && !options.ignoreExpiration && now >= payload.exp + tolerance) {
         throw new Error('Token expired')
       }
 
-      if (payload.nbf && now < payload.nbf) {
+      if (payload.nbf !== undefined && now < payload.nbf - tolerance) {
         throw new Error('Token not active yet')
       }
 
-      if (payload.iat && payload.iat > now) {
+      if (payload.iat !== undefined && payload.iat > now + tolerance) {
         throw new Error('Token used before issued')
       }
 
@@ -181,7 +472,7 @@ export class JWT {
       }
 
       // Verify audience
-      if (options.audience && payload.aud !== options.audience) {
+      if (options.audience && !(Array.isArray(payload.aud) ? payload.aud : [payload.aud]).includes(options.audience)) {
         throw new Error('Invalid audience')
       }
 
@@ -220,15 +511,60 @@ export class JWT {
     }
   }
 
+  private async createSignature(data: string, alg: JwtAlgorithm): Promise<Uint8Array> {
+    const params = algorithmParams(alg)
+    if (!params) {
+      throw new Error(`Unsupported algorithm ${alg}`)
+    }
+
+    const material = params.kty === 'oct' ? this.keys.secret : this.keys.privateKey
+    if (material === undefined) {
+      throw new Error(`No ${params.kty === 'oct' ? 'secret' : 'private key'} to sign ${alg} tokens with`)
+    }
+
+    const key = await this.key(material, alg, 'sign')
+    return new Uint8Array(await crypto.subtle.sign(params.signParams, key, new TextEncoder().encode(data)))
+  }
+
+  private async verifySignature(data: string, signature: Uint8Array<ArrayBuffer>, alg: JwtAlgorithm, kid?: string): Promise<boolean> {
+    const params = algorithmParams(alg)
+    if (!params) {
+      return false
+    }
+
+    if (params.kty === 'oct') {
+      if (this.keys.secret === undefined) {
+        return false
+      }
+      // Compare in constant time so the signature can't be guessed byte by byte
+      const expected = await this.createSignature(data, alg)
+      return expected.length === signature.length && timingSafeEqual(expected, signature)
+    }
+
+    const keys = this.keys.jwks
+      ? await this.keys.jwks.getKeys(alg, kid)
+      : [this.keys.publicKey ?? this.keys.privateKey].filter(key => key !== undefined).map(key => this.key(key, alg, 'verify'))
+
+    for (const key of keys) {
+      if (await crypto.subtle.verify(params.signParams, await key, signature, new TextEncoder().encode(data))) {
+        return true
+      }
+    }
+    return false
+  }
+
   /**
-   * Simple signature creation - Note: This is NOT secure for production
-   * In a real app, use Bun's crypto functionality or a dedicated JWT library
+   * Import a configured key once per algorithm and usage
    */
-  private createSignature(data: string, secret: string, algorithm: string): string {
-    // This is a placeholder. In a real implementation, you'd use
-    // proper HMAC or RSA signing based on the algorithm.
-    // For demonstration purposes only!
-    return base64UrlEncode(JSON.stringify({ data, secret: secret.slice(0, 5), alg: algorithm }))
+  private key(material: string | Uint8Array | JsonWebKey | CryptoKey, alg: JwtAlgorithm, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+    const cacheKey = `${alg}:${usage}:${material === this.keys.secret ? 'secret' : material === this.keys.privateKey ? 'private' : 'public'}`
+    if (!this.imported.has(cacheKey)) {
+      const key = importKey(material, alg, usage)
+      // Let a key that failed to import be tried again
+      key.catch(() => this.imported.delete(cacheKey))
+      this.imported.set(cacheKey, key)
+    }
+    return this.imported.get(cacheKey)!
   }
 
   /**
@@ -254,15 +590,24 @@ export class JWT {
   }
 }
 
+// Random bytes in the visible part of API keys, used to look them up
+const KEY_ID_BYTES = 6
+
+// Fresh ids tried when a generated one is already taken
+const KEY_ID_ATTEMPTS = 5
+
 /**
  * API Key manager to generate, validate and handle API keys
+ *
+ * Keys are stored as SHA-256 hashes next to a visible prefix, so a leaked
+ * store or heap dump doesn't reveal usable keys.
  */
 export class ApiKeyManager {
-  private keys: Map<string, { owner: string, scopes: string[], expiresAt?: Date }>
+  private keyStore?: ApiKeyStore
   private options: ApiKeyOptions
 
   constructor(options: ApiKeyOptions = {}) {
-    this.keys = new Map()
+    this.keyStore = options.store
     this.options = {
       source: 'header',
       keyName: 'X-API-Key',
@@ -271,58 +616,133 @@ export class ApiKeyManager {
     }
   }
 
+  private get store(): ApiKeyStore {
+    // Opened on first use, so managers only extracting keys don't create a database
+    this.keyStore ??= new SQLiteApiKeyStore()
+    return this.keyStore
+  }
+
   /**
-   * Generate a new API key
+   * Generate a new API key. The key is only returned here, it can't be recovered later.
    */
-  generateKey(owner: string, scopes: string[] = [], expiresIn?: number): string {
-    // In a real implementation, use a secure random generator
-    const key = `${this.options.keyPrefix}${this.randomString(32)}`
+  async generateKey(owner: string, scopes: string[] = [], options: number | ApiKeyCreateOptions = {}): Promise<string> {
+    const { expiresIn, rateLimit } = typeof options === 'number' ? { expiresIn: options } : options
+
+    // Ids are short enough to collide, and must never replace another owner's key
+    for (let attempt = 0; attempt < KEY_ID_ATTEMPTS; attempt++) {
+      const id = randomBytes(KEY_ID_BYTES).toString('hex')
+      const prefix = `${this.options.keyPrefix}${id}`
+      const key = `${prefix}_${randomBytes(24).toString('base64url')}`
+      const now = Date.now()
+
+      const added = await this.store.add({
+        id,
+        prefix,
+        hash: hashApiKey(key),
+        owner,
+        scopes,
+        createdAt: now,
+        expiresAt: expiresIn ? now + expiresIn * 1000 : null,
+        lastUsedAt: null,
+        rateLimit: rateLimit ?? null,
+      })
+      if (added) {
+        return key
+      }
+    }
 
-    // Store key information
-    this.keys.set(key, {
-      owner,
-      scopes,
-      expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 1000) : undefined,
-    })
+    throw new Error(`Could not generate an unused API key id in ${KEY_ID_ATTEMPTS} attempts`)
+  }
 
-    return key
+  /**
+   * Look up a key that hasn't expired and record its use
+   */
+  async verifyKey(key: string): Promise<ApiKeyInfo | null> {
+    const record = await this.findRecord(key)
+    const now = Date.now()
+    if (!record || (record.expiresAt !== null && record.expiresAt <= now)) {
+      return null
+    }
+
+    await this.store.touch(record.id, now)
+    return toApiKeyInfo({ ...record, lastUsedAt: now })
   }
 
   /**
    * Validate an API key
    */
-  validateKey(key: string, requiredScopes: string[] = []): boolean {
-    const keyInfo = this.keys.get(key)
-
-    if (!keyInfo) {
-      return false
-    }
+  async validateKey(key: string, requiredScopes: string[] = []): Promise<boolean> {
+    const info = await this.verifyKey(key)
+    return info !== null && requiredScopes.every(scope => info.scopes.includes(scope))
+  }
 
-    // Check expiration
-    if (keyInfo.expiresAt && keyInfo.expiresAt < new Date()) {
-      return false
-    }
+  /**
+   * Get key information
+   */
+  async getKeyInfo(key: string): Promise<ApiKeyInfo | null> {
+    const record = await this.findRecord(key)
+    return record ? toApiKeyInfo(record) : null
+  }
 
-    // Check scopes
-    if (requiredScopes.length > 0) {
-      return requiredScopes.every(scope => keyInfo.scopes.includes(scope))
-    }
+  /**
+   * List keys, optionally only those of one owner
+   */
+  async listKeys(owner?: string): Promise<ApiKeyInfo[]> {
+    return (await this.store.list(owner)).map(toApiKeyInfo)
+  }
 
-    return true
+  /**
+   * Revoke an API key, given the key itself or its id
+   */
+  async revokeKey(key: string): Promise<boolean> {
+    const record = await this.findRecord(key)
+    return this.store.delete(record?.id ?? key)
   }
 
   /**
-   * Get key information
+   * Replace a key with a new one with the same owner, scopes and rate limit.
+   * The old key keeps working for `gracePeriod` seconds so clients can switch over.
    */
-  getKeyInfo(key: string): { owner: string, scopes: string[], expiresAt?: Date } | null {
-    return this.keys.get(key) || null
+  async rotateKey(key: string, options: { gracePeriod?: number, expiresIn?: number } = {}): Promise<string | null> {
+    const record = await this.findRecord(key)
+    const now = Date.now()
+    if (!record || (record.expiresAt !== null && record.expiresAt <= now)) {
+      return null
+    }
+
+    const replacement = await this.generateKey(record.owner, record.scopes, {
+      expiresIn: options.expiresIn,
+      rateLimit: record.rateLimit ?? undefined,
+    })
+
+    const gracePeriod = options.gracePeriod ?? 0
+    if (gracePeriod > 0) {
+      const graceEnd = now + gracePeriod * 1000
+      await this.store.set({ ...record, expiresAt: record.expiresAt === null ? graceEnd : Math.min(record.expiresAt, graceEnd) })
+    }
+    else {
+      await this.store.delete(record.id)
+    }
+
+    return replacement
   }
 
   /**
-   * Revoke an API key
+   * Count a request against the key's rate limit, or return null for keys without one
    */
-  revokeKey(key: string): boolean {
-    return this.keys.delete(key)
+  async consumeRateLimit(info: ApiKeyInfo): Promise<ApiKeyRateLimit | null> {
+    if (!info.rateLimit) {
+      return null
+    }
+
+    const { max, window } = info.rateLimit
+    const { hits, windowStart } = await this.store.hit(info.id, window * 1000, Date.now())
+    return {
+      allowed: hits <= max,
+      limit: max,
+      remaining: Math.max(0, max - hits),
+      resetAt: new Date(windowStart + window * 1000),
+    }
   }
 
   /**
@@ -352,18 +772,40 @@ export class ApiKeyManager {
   }
 
   /**
-   * Generate a random string for keys
+   * Find the stored key matching a full key
    */
-  private randomString(length: number): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-    let result = ''
+  private async findRecord(key: string): Promise<ApiKeyRecord | null> {
+    const keyPrefix = this.options.keyPrefix ?? ''
+    const idLength = KEY_ID_BYTES * 2
+    if (!key.startsWith(keyPrefix) || key[keyPrefix.length + idLength] !== '_') {
+      return null
+    }
 
-    // This is a simple implementation - for production, use crypto.getRandomValues()
-    for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length))
+    const record = await this.store.get(key.slice(keyPrefix.length, keyPrefix.length + idLength))
+    if (!record) {
+      return null
     }
 
-    return result
+    const expected = Buffer.from(record.hash, 'hex')
+    const actual = Buffer.from(hashApiKey(key), 'hex')
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? record : null
+  }
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+function toApiKeyInfo(record: ApiKeyRecord): ApiKeyInfo {
+  return {
+    id: record.id,
+    prefix: record.prefix,
+    owner: record.owner,
+    scopes: record.scopes,
+    createdAt: new Date(record.createdAt),
+    expiresAt: record.expiresAt !== null ? new Date(record.expiresAt) : undefined,
+    lastUsedAt: record.lastUsedAt !== null ? new Date(record.lastUsedAt) : undefined,
+    rateLimit: record.rateLimit ?? undefined,
   }
 }
 
@@ -458,10 +900,12 @@ export class OAuth2Helper {
  */
 const Auth: {
   JWT: typeof JWT
+  JwksKeySet: typeof JwksKeySet
   ApiKeyManager: typeof ApiKeyManager
   OAuth2Helper: typeof OAuth2Helper
 } = {
   JWT,
+  JwksKeySet,
   ApiKeyManager,
   OAuth2Helper,
 }
@@ -0,0 +1,226 @@
+/**
+ * Authorization Gates and Policies
+ *
+ * Abilities are checked against callbacks registered with `define()` and
+ * against policy classes registered per model. Policies take precedence
+ * over abilities of the same name, and anything not allowed is denied.
+ */
+
+import type { EnhancedRequest, User } from '../types'
+import { AuthorizationException } from '../errors/exceptions'
+
+/**
+ * Decides an ability for a user, given the arguments passed to the check
+ */
+export type AbilityCallback<TUser = User> = (user: TUser, ...args: any[]) => boolean | Promise<boolean>
+
+/**
+ * Runs before every check. Returning a boolean decides the check, returning
+ * nothing falls through to policies and abilities.
+ */
+export type BeforeCallback<TUser = User> = (user: TUser, ability: string, args: unknown[]) => boolean | void | Promise<boolean | void>
+
+/**
+ * A policy groups the abilities of one model as methods, named after the
+ * ability in camelCase (`view-any` is checked by `viewAny`). The optional
+ * `before` method runs first, like a gate's before callbacks.
+ */
+export interface Policy<TUser = User> {
+  before?: (user: TUser, ability: string, ...args: any[]) => boolean | void | Promise<boolean | void>
+}
+
+export type PolicyClass<TUser = User> = new () => Policy<TUser>
+
+/**
+ * A model class, or the name of a model as bound to route parameters
+ */
+export type PolicyTarget = string | (abstract new (...args: any[]) => unknown)
+
+export class AuthorizationGate {
+  private abilities = new Map<string, AbilityCallback<any>>()
+  private policies = new Map<PolicyTarget, Policy<any> | PolicyClass<any>>()
+  private instances = new Map<PolicyTarget, Policy<any>>()
+  private beforeCallbacks: BeforeCallback<any>[] = []
+
+  /**
+   * Define an ability
+   */
+  define<TUser = User>(ability: string, callback: AbilityCallback<TUser>): this {
+    this.abilities.set(ability, callback)
+    return this
+  }
+
+  /**
+   * Register the policy for a model class, or for a model by its route parameter name
+   */
+  policy<TUser = User>(model: PolicyTarget, policy: Policy<TUser> | PolicyClass<TUser>): this {
+    this.policies.set(model, policy)
+    this.instances.delete(model)
+    return this
+  }
+
+  /**
+   * Register a callback that runs before every check
+   */
+  before<TUser = User>(callback: BeforeCallback<TUser>): this {
+    this.beforeCallbacks.push(callback)
+    return this
+  }
+
+  /**
+   * Whether an ability is defined
+   */
+  has(ability: string): boolean {
+    return this.abilities.has(ability)
+  }
+
+  /**
+   * Get the policy for a model class, a model instance or a model name
+   */
+  getPolicyFor(model: unknown): Policy | undefined {
+    if (typeof model === 'string' || typeof model === 'function') {
+      return this.resolvePolicy(model as PolicyTarget)
+    }
+
+    if (model && typeof model === 'object') {
+      for (let proto = Object.getPrototypeOf(model); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+        const policy = this.resolvePolicy(proto.constructor)
+        if (policy) {
+          return policy
+        }
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Check an ability. The policy is picked by `model` when given, which is how
+   * models bound as plain objects find theirs, and otherwise by the first argument.
+   */
+  async check(user: User | null | undefined, ability: string, args: unknown[] = [], model?: string): Promise<boolean> {
+    // Guests are denied everything
+    if (!user) {
+      return false
+    }
+
+    for (const callback of this.beforeCallbacks) {
+      const result = await callback(user, ability, args)
+      if (typeof result === 'boolean') {
+        return result
+      }
+    }
+
+    const policy = (model !== undefined ? this.getPolicyFor(model) : undefined) ?? this.getPolicyFor(args[0])
+    if (policy) {
+      const result = await policy.before?.(user, ability, ...args)
+      if (typeof result === 'boolean') {
+        return result
+      }
+
+      const method = (policy as Record<string, unknown>)[methodName(ability)]
+      if (typeof method === 'function') {
+        return await method.call(policy, user, ...args) === true
+      }
+    }
+
+    const callback = this.abilities.get(ability)
+    if (callback) {
+      return await callback(user, ...args) === true
+    }
+
+    return false
+  }
+
+  async allows(user: User | null | undefined, ability: string, ...args: unknown[]): Promise<boolean> {
+    return this.check(user, ability, args)
+  }
+
+  async denies(user: User | null | undefined, ability: string, ...args: unknown[]): Promise<boolean> {
+    return !(await this.check(user, ability, args))
+  }
+
+  /**
+   * Check an ability, throwing an AuthorizationException when it's denied
+   */
+  async authorize(user: User | null | undefined, ability: string, ...args: unknown[]): Promise<void> {
+    if (!(await this.check(user, ability, args))) {
+      throw unauthorized(ability)
+    }
+  }
+
+  /**
+   * Bind the gate to a user
+   */
+  forUser(user: User | null | undefined): {
+    allows: (ability: string, ...args: unknown[]) => Promise<boolean>
+    denies: (ability: string, ...args: unknown[]) => Promise<boolean>
+    authorize: (ability: string, ...args: unknown[]) => Promise<void>
+  } {
+    return {
+      allows: (ability, ...args) => this.allows(user, ability, ...args),
+      denies: (ability, ...args) => this.denies(user, ability, ...args),
+      authorize: (ability, ...args) => this.authorize(user, ability, ...args),
+    }
+  }
+
+  /**
+   * Remove all abilities, policies and before callbacks
+   */
+  flush(): void {
+    this.abilities.clear()
+    this.policies.clear()
+    this.instances.clear()
+    this.beforeCallbacks = []
+  }
+
+  private resolvePolicy(model: PolicyTarget): Policy | undefined {
+    let instance = this.instances.get(model)
+    if (!instance) {
+      const Registered = this.policies.get(model)
+      if (!Registered) {
+        return undefined
+      }
+      instance = typeof Registered === 'function' ? new Registered() : Registered
+      this.instances.set(model, instance)
+    }
+    return instance
+  }
+}
+
+/**
+ * The default gate, used by routers unless they're given another
+ */
+export const Gate: AuthorizationGate = new AuthorizationGate()
+
+/**
+ * Check an ability for the request's user. A string as first argument names
+ * a route-bound model, which is passed on in its place.
+ */
+export async function requestCan(gate: AuthorizationGate, req: EnhancedRequest, ability: string, args: unknown[] = []): Promise<boolean> {
+  const [first, ...rest] = args
+  if (typeof first !== 'string') {
+    return gate.check(req.user, ability, args)
+  }
+
+  const bound = boundModel(req, first)
+  return gate.check(req.user, ability, bound === undefined ? rest : [bound, ...rest], first)
+}
+
+/**
+ * The model bound to a route parameter, by model binding middleware or by implicit binding
+ */
+export function boundModel(req: EnhancedRequest, name: string): unknown {
+  if (req.models && name in req.models) {
+    return req.models[name]
+  }
+  return req.params && name in req.params ? (req as unknown as Record<string, unknown>)[name] : undefined
+}
+
+export function unauthorized(ability: string): AuthorizationException {
+  return new AuthorizationException('This action is unauthorized', [ability])
+}
+
+function methodName(ability: string): string {
+  return ability.replace(/[-_.\s]+(\w)/g, (_, char: string) => char.toUpperCase())
+}
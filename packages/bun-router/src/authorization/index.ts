@@ -0,0 +1,11 @@
+export {
+  type AbilityCallback,
+  AuthorizationGate,
+  type BeforeCallback,
+  boundModel,
+  Gate,
+  type Policy,
+  type PolicyClass,
+  type PolicyTarget,
+  requestCan,
+} from './gate'
@@ -53,6 +53,7 @@ export class SQLiteCache {
   private preparedStatements!: {
     get: any
     set: any
+    setnx: any
     delete: any
     exists: any
     clear: any
@@ -131,24 +132,10 @@ export class SQLiteCache {
     const startTime = performance.now()
 
     try {
-      const serialized = JSON.stringify(value)
+      const { value: finalValue, size, compressed } = this.encode(value)
       const expires = Date.now() + ((ttl || this.config.defaultTTL) * 1000)
       const created = Date.now()
 
-      let finalValue = serialized
-      let compressed = false
-      let size = serialized.length
-
-      // Compress if enabled and value is large enough
-      if (this.config.compression && serialized.length > 1024) {
-        const compressedValue = this.compress(serialized)
-        if (compressedValue && compressedValue.length < serialized.length) {
-          finalValue = compressedValue
-          compressed = true
-          size = compressedValue.length
-        }
-      }
-
       // Check if we need to evict entries
       this.evictIfNeeded(size)
 
@@ -303,10 +290,32 @@ export class SQLiteCache {
    * Set value only if key doesn't exist
    */
   setnx<T = any>(key: string, value: T, ttl?: number): boolean {
-    if (this.has(key)) {
+    try {
+      const { value: finalValue, size, compressed } = this.encode(value)
+      const now = Date.now()
+      const expires = now + ((ttl || this.config.defaultTTL) * 1000)
+
+      this.evictIfNeeded(size)
+
+      // One statement, so connections sharing the file can't both claim the
+      // key. An expired entry is replaced, a live one left alone.
+      const result = this.preparedStatements.setnx.run(key, finalValue, expires, now, now, size, compressed ? 1 : 0, now)
+
+      this.updateCacheStats()
+      return result.changes > 0
+    }
+    catch (error) {
+      console.error('Cache setnx error:', error)
       return false
     }
-    return this.set(key, value, ttl)
+  }
+
+  /**
+   * Run `fn` in an immediate transaction, holding the write lock so reads
+   * and writes made in it can't interleave with other connections
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn).immediate()
   }
 
   /**
@@ -432,6 +441,16 @@ export class SQLiteCache {
         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `),
 
+      setnx: this.db.query(`
+        INSERT INTO cache
+        (key, value, expires, created, accessed, hits, size, compressed)
+        VALUES (?, ?, ?, ?, ?, 0, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          value = excluded.value, expires = excluded.expires, created = excluded.created,
+          accessed = excluded.accessed, hits = 0, size = excluded.size, compressed = excluded.compressed
+        WHERE cache.expires <= ?
+      `),
+
       delete: this.db.query('DELETE FROM cache WHERE key = ?'),
 
       exists: this.db.query('SELECT 1 FROM cache WHERE key = ? AND expires > ?'),
@@ -542,6 +561,22 @@ export class SQLiteCache {
     this.stats.averageAccessTime = (this.stats.averageAccessTime + responseTime) / 2
   }
 
+  /**
+   * Serialize a value, compressing it if enabled and large enough
+   */
+  private encode(value: unknown): { value: string, size: number, compressed: boolean } {
+    const serialized = JSON.stringify(value)
+
+    if (this.config.compression && serialized.length > 1024) {
+      const compressedValue = this.compress(serialized)
+      if (compressedValue && compressedValue.length < serialized.length) {
+        return { value: compressedValue, size: compressedValue.length, compressed: true }
+      }
+    }
+
+    return { value: serialized, size: serialized.length, compressed: false }
+  }
+
   /**
    * Compress string value
    */
@@ -0,0 +1,358 @@
+import type { Router } from '../router/router'
+import type { JsonSchema, Route } from '../types'
+import fs from 'node:fs/promises'
+import process from 'node:process'
+import { chalk } from './colors'
+import { buildOpenAPIDocument } from './openapi'
+
+/**
+ * Options for the client:generate command
+ */
+export interface ClientGenerateOptions {
+  output?: string
+  /**
+   * Default base URL of the generated client
+   */
+  baseUrl?: string
+  /**
+   * Module the generated client imports `ExtractRouteParams` from
+   * @default 'bun-router'
+   */
+  typesImport?: string
+}
+
+/**
+ * Generate a typed fetch client for the application's named routes
+ */
+export async function generateClient(options: ClientGenerateOptions): Promise<void> {
+  try {
+    // Try to load router instance from the application
+    const routesFile = `${process.cwd()}/routes/index.ts`
+    const { router } = await import(routesFile)
+
+    if (!router) {
+      console.error(chalk.red(`Could not find router instance in ${routesFile}.`))
+      process.exit(1)
+    }
+
+    const outputPath = options.output || 'api-client.ts'
+    const source = createClientSource(router, options)
+
+    await fs.writeFile(outputPath, source)
+    console.log(chalk.green(`✨ API client generated at ${outputPath}`))
+  }
+  catch (error: any) {
+    if (error.code === 'ERR_MODULE_NOT_FOUND') {
+      console.error(chalk.red(`Routes file not found at ${process.cwd()}/routes/index.ts`))
+      console.error(chalk.yellow('Make sure your routes are defined and exported as "router" in routes/index.ts'))
+    }
+    else {
+      console.error(chalk.red(`Error generating API client: ${error.message}`))
+    }
+    throw error
+  }
+}
+
+const IDENTIFIER = /^[A-Z_$][\w$]*$/i
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value)
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : quote(name)
+}
+
+function typeName(name: string): string {
+  const sanitized = name.replace(/[^\w$]/g, '_')
+  return /^\d/.test(sanitized) ? `_${sanitized}` : sanitized
+}
+
+/**
+ * TypeScript type for a JSON Schema
+ */
+export function schemaToTypeScript(schema: JsonSchema | undefined, indent: string = ''): string {
+  if (!schema || typeof schema !== 'object') {
+    return 'unknown'
+  }
+
+  if (schema.$ref) {
+    return typeName(schema.$ref.split('/').pop()!)
+  }
+  if (schema.const !== undefined) {
+    return literal(schema.const)
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(literal).join(' | ')
+  }
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    return (schema.oneOf || schema.anyOf).map((member: JsonSchema) => schemaToTypeScript(member, indent)).join(' | ')
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.map((member: JsonSchema) => schemaToTypeScript(member, indent)).join(' & ')
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => schemaToTypeScript({ ...schema, type }, indent)).join(' | ')
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string'
+    case 'integer':
+    case 'number':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'null':
+      return 'null'
+    case 'array':
+      return `Array<${schemaToTypeScript(schema.items, indent)}>`
+  }
+
+  if (schema.type === 'object' || schema.properties) {
+    if (!schema.properties) {
+      const values = typeof schema.additionalProperties === 'object' ? schemaToTypeScript(schema.additionalProperties, indent) : 'unknown'
+      return `Record<string, ${values}>`
+    }
+
+    const lines = Object.entries(schema.properties).map(([name, property]) => {
+      const optional = schema.required?.includes(name) ? '' : '?'
+      return `${indent}  ${propertyKey(name)}${optional}: ${schemaToTypeScript(property, `${indent}  `)}`
+    })
+    return `{\n${lines.join('\n')}\n${indent}}`
+  }
+
+  return 'unknown'
+}
+
+interface ClientMethod {
+  name: string
+  route: Route
+  operation: any
+}
+
+/**
+ * Signature and call for one client method
+ */
+function renderMethod({ route, operation }: ClientMethod, indent: string): string {
+  const parts: string[] = []
+  let inputRequired = false
+
+  if (/\{[^}]+\}/.test(route.path)) {
+    // Optional segments like {id?} can be left out
+    const required = /\{[^}?]+\}/.test(route.path)
+    parts.push(`params${required ? '' : '?'}: PathParams<${quote(route.path)}>`)
+    inputRequired = required
+  }
+
+  const queryParameters: any[] = (operation.parameters || []).filter((parameter: any) => parameter.in === 'query')
+  if (queryParameters.length > 0) {
+    const required = queryParameters.some(parameter => parameter.required)
+    const fields = queryParameters.map(parameter => `${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${schemaToTypeScript(parameter.schema)}`)
+    parts.push(`query${required ? '' : '?'}: { ${fields.join(', ')} }`)
+    inputRequired ||= required
+  }
+
+  const requestBody = operation.requestBody
+  if (requestBody) {
+    const schema = Object.values(requestBody.content as Record<string, { schema?: JsonSchema }>)[0]?.schema
+    parts.push(`body${requestBody.required ? '' : '?'}: ${schemaToTypeScript(schema, indent)}`)
+    inputRequired ||= requestBody.required
+  }
+
+  // The first documented success response types the result
+  const success = Object.entries(operation.responses || {}).find(([status]) => status.startsWith('2')) as [string, any] | undefined
+  let result = 'unknown'
+  if (success?.[0] === '204') {
+    result = 'void'
+  }
+  else if (success?.[1].content) {
+    result = schemaToTypeScript((Object.values(success[1].content)[0] as { schema?: JsonSchema }).schema, indent)
+  }
+
+  const input = parts.length > 0 ? `{ ${parts.join(', ')} } & RequestOptions` : 'RequestOptions'
+  const argument = `input${inputRequired ? '' : '?'}: ${input}`
+
+  return `(${argument}): Promise<${result}> => request<${result}>(${quote(route.method)}, ${quote(route.path)}, input)`
+}
+
+interface MethodNode {
+  method?: ClientMethod
+  children: Map<string, MethodNode>
+}
+
+function renderChildren(node: MethodNode, indent: string): string {
+  return [...node.children.entries()].map(([key, child]) => `${indent}${propertyKey(key)}: ${renderNode(child, indent)},`).join('\n')
+}
+
+/**
+ * A method, a namespace of methods, or both when one route name prefixes
+ * others (`users` and `users.show` give a callable `client.users` with a `show` method)
+ */
+function renderNode(node: MethodNode, indent: string): string {
+  const namespace = node.children.size > 0 ? `{\n${renderChildren(node, `${indent}  `)}\n${indent}}` : ''
+  if (!node.method) {
+    return namespace
+  }
+
+  const method = renderMethod(node.method, indent)
+  return namespace ? `Object.assign(${method}, ${namespace})` : method
+}
+
+/**
+ * Nest methods by the segments of their route names, e.g. users.show -> client.users.show()
+ */
+function buildMethodTree(methods: ClientMethod[]): MethodNode {
+  const root: MethodNode = { children: new Map() }
+
+  for (const method of methods) {
+    let node = root
+    for (const segment of method.name.split('.')) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { children: new Map() })
+      }
+      node = node.children.get(segment)!
+    }
+    node.method = method
+  }
+
+  return root
+}
+
+/**
+ * Source of a typed fetch client with one method per named route. Path
+ * parameters, request bodies and query strings are typed from the route
+ * path and validation rules, and results from `router.responds()`.
+ */
+export function createClientSource(router: Router, options: ClientGenerateOptions = {}): string {
+  const routes = new Map<string, Route>()
+  for (const route of router.routes) {
+    // Later registrations win, as in router.route()
+    if (route.name) {
+      routes.set(route.name, route)
+    }
+  }
+
+  const entries = [...routes.values()].map(route => ({ route, path: route.path }))
+  const document = buildOpenAPIDocument(entries, { tags: false, security: false }, router)
+
+  const methods: ClientMethod[] = [...routes.entries()].map(([name, route]) => ({
+    name,
+    route,
+    operation: document.paths[route.path][route.method.toLowerCase()],
+  }))
+
+  const schemaTypes = Object.entries(document.components.schemas as Record<string, JsonSchema>)
+    .map(([name, schema]) => `export type ${typeName(name)} = ${schemaToTypeScript(schema)}\n`)
+    .join('\n')
+
+  return `/**
+ * This file is auto-generated.
+ * DO NOT EDIT THIS FILE DIRECTLY.
+ * To update, run 'bun router client:generate'
+ */
+
+import type { ExtractRouteParams } from '${options.typesImport || 'bun-router'}'
+
+${schemaTypes}
+export interface ApiClientOptions {
+  /**
+   * Prepended to every route path
+   */
+  baseUrl?: string
+  /**
+   * Headers sent with every request, e.g. an Authorization header
+   */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>)
+  fetch?: typeof fetch
+}
+
+export interface RequestOptions {
+  headers?: HeadersInit
+  signal?: AbortSignal
+}
+
+/**
+ * Thrown for responses outside the 2xx range
+ */
+export class ApiError extends Error {
+  constructor(public readonly status: number, public readonly body: unknown, public readonly response: Response) {
+    super(\`Request failed with status \${status}\`)
+    this.name = 'ApiError'
+  }
+}
+
+// Optional segments like {id?} become optional keys without the ?
+type PathParams<P extends string> = {
+  [K in keyof ExtractRouteParams<P> as K extends \`\${string}?\` ? never : K]: string | number
+} & {
+  [K in keyof ExtractRouteParams<P> as K extends \`\${infer Name}?\` ? Name : never]?: string | number
+}
+
+interface RequestInput extends RequestOptions {
+  params?: Record<string, string | number>
+  query?: Record<string, unknown>
+  body?: unknown
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? ${quote(options.baseUrl || '')}).replace(/\\/$/, '')
+  const fetcher = options.fetch ?? fetch
+
+  async function request<T>(method: string, path: string, input: RequestInput = {}): Promise<T> {
+    const params = input.params || {}
+    const url = path
+      .replace(/\\/\\{(\\w+)\\?\\}/g, (_, name: string) => params[name] == null ? '' : \`/\${encodeURIComponent(String(params[name]))}\`)
+      .replace(/\\{(\\w+)\\}/g, (_, name: string) => encodeURIComponent(String(params[name])))
+
+    const query = new URLSearchParams()
+    for (const [name, value] of Object.entries(input.query || {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item != null) {
+          query.append(name, String(item))
+        }
+      }
+    }
+
+    const defaults = typeof options.headers === 'function' ? await options.headers() : options.headers
+    const headers = new Headers(defaults)
+    new Headers(input.headers).forEach((value, name) => headers.set(name, value))
+    headers.set('Accept', headers.get('Accept') || 'application/json')
+
+    let body: BodyInit | undefined
+    if (input.body instanceof FormData || input.body instanceof Blob || typeof input.body === 'string') {
+      body = input.body
+    }
+    else if (input.body !== undefined) {
+      body = JSON.stringify(input.body)
+      headers.set('Content-Type', headers.get('Content-Type') || 'application/json')
+    }
+
+    const search = query.toString()
+    const response = await fetcher(\`\${baseUrl}\${url}\${search ? \`?\${search}\` : ''}\`, { method, headers, body, signal: input.signal })
+
+    const text = response.status === 204 ? '' : await response.text()
+    let data: unknown = text || undefined
+    if (text && response.headers.get('Content-Type')?.includes('json')) {
+      data = JSON.parse(text)
+    }
+
+    if (!response.ok) {
+      throw new ApiError(response.status, data, response)
+    }
+
+    return data as T
+  }
+
+  return {
+${renderChildren(buildMethodTree(methods), '    ')}
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+`
+}
@@ -1,3 +1,4 @@
+import type { ClientGenerateOptions } from './client'
 import type { GenerateMiddlewareTypesOptions, MapMiddlewareOptions } from './middleware'
 import type { OpenAPIOptions } from './openapi'
 import type { GenerateRouterTypesOptions } from './router'
@@ -5,6 +6,7 @@ import type { GenerateRouteTypesOptions, RouteListOptions } from './routes'
 import process from 'node:process'
 import { CLI } from '@stacksjs/clapp'
 import { version } from '../../package.json'
+import { generateClient } from './client'
 import { generateMiddlewareMap, generateMiddlewareTypes, watchDirectoryForMiddleware, watchMiddlewareDirectory } from './middleware'
 import { generateOpenAPISpec } from './openapi'
 import { generateRouterTypes, watchRouterFiles } from './router'
@@ -25,6 +27,7 @@ export function createCLI(): CLI {
   registerMiddlewareCommands(cli)
   registerRouterCommands(cli)
   registerOpenAPICommands(cli)
+  registerClientCommands(cli)
   registerUtilityCommands(cli)
 
   // Add help command
@@ -44,9 +47,11 @@ function registerRouteCommands(cli: CLI): void {
     .option('--path <path>', 'Filter routes by path prefix')
     .option('--except-vendor', 'Exclude vendor routes')
     .option('--only-vendor', 'Show only vendor routes')
+    .option('--api-version <version>', 'Show only routes served by an API version')
     .example('router route:list')
     .example('router route:list -v')
     .example('router route:list --path=/api')
+    .example('router route:list --api-version=v2')
     .action(async (options: RouteListOptions) => {
       try {
         await displayRoutes(options)
@@ -178,8 +183,10 @@ function registerOpenAPICommands(cli: CLI): void {
     .option('--servers <urls>', 'Comma-separated list of server URLs')
     .option('--tags', 'Group endpoints by tags', { default: true })
     .option('--security', 'Include security schemes if available', { default: true })
+    .option('--api-version <version>', 'Only generate the specification for one API version')
     .example('router openapi')
     .example('router openapi --output api-spec.json')
+    .example('router openapi --api-version v2')
     .example('router openapi --title "My API" --version 2.0')
     .example('router openapi --servers http://localhost:3000,https://api.example.com')
     .action(async (options: OpenAPIOptions) => {
@@ -193,6 +200,28 @@ function registerOpenAPICommands(cli: CLI): void {
     })
 }
 
+/**
+ * Register API client commands
+ */
+function registerClientCommands(cli: CLI): void {
+  cli
+    .command('client:generate', 'Generate a typed fetch client for named routes')
+    .option('--output <file>', 'Output file path', { default: 'api-client.ts' })
+    .option('--base-url <url>', 'Default base URL of the client')
+    .option('--types-import <module>', 'Module to import route parameter types from', { default: 'bun-router' })
+    .example('router client:generate')
+    .example('router client:generate --output src/api/client.ts --base-url https://api.example.com')
+    .action(async (options: ClientGenerateOptions) => {
+      try {
+        await generateClient(options)
+      }
+      catch (error: any) {
+        console.error(`Failed to generate API client: ${error.message}`)
+        process.exit(1)
+      }
+    })
+}
+
 /**
  * Register utility commands for debugging and development
  */
@@ -280,6 +309,7 @@ function registerUtilityCommands(cli: CLI): void {
     })
 }
 
+export * from './client'
 export * from './middleware'
 export * from './openapi'
 export * from './router'
@@ -1,7 +1,24 @@
+import type { Router } from '../router/router'
+import type { ApiVersion, VersionedRouteEntry } from '../routing/api-versioning'
+import type { JsonSchema, Route, RouteResponse, SecurityScheme } from '../types'
+import type { ValidationMiddleware, ValidationRules } from '../validation/validator'
 import fs from 'node:fs/promises'
+import path from 'node:path'
 import process from 'node:process'
+import { routesForVersion, toDate } from '../routing/api-versioning'
+import { extractParamNames } from '../utils'
+import { fieldToJsonSchema, rulesToJsonSchema } from '../validation/json-schema'
 import { chalk } from './colors'
 
+/**
+ * Security schemes for the requirements inferred from middleware names
+ */
+const SECURITY_SCHEMES: Record<string, SecurityScheme> = {
+  BearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+  ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+  BasicAuth: { type: 'http', scheme: 'basic' },
+}
+
 /**
  * Options for the openapi command
  */
@@ -14,6 +31,10 @@ export interface OpenAPIOptions {
   servers?: string
   tags?: boolean
   security?: boolean
+  /**
+   * Only generate the specification for this API version
+   */
+  apiVersion?: string
 }
 
 /**
@@ -30,93 +51,27 @@ export async function generateOpenAPISpec(options: OpenAPIOptions): Promise<void
       process.exit(1)
     }
 
-    // Get routes from router
-    const routes = (router as any).routes || []
-
-    if (routes.length === 0) {
+    if (router.routes.length === 0) {
       console.log(chalk.yellow('No routes defined. Creating empty OpenAPI specification.'))
     }
 
-    // Filter API routes - typically these start with /api or have type 'api'
-    const apiRoutes = routes.filter((route: any) => {
-      return route.type === 'api' || route.path.startsWith('/api')
-    })
+    const outputPath = options.output || 'openapi.json'
 
-    // Define base structure for OpenAPI spec
-    const openapi: any = {
-      openapi: '3.0.3',
-      info: {
-        title: options.title || 'API Documentation',
-        version: options.version || '1.0.0',
-        description: options.description || 'Generated API documentation',
-      },
-      servers: generateServers(options),
-      paths: {},
-      components: {
-        schemas: {},
-        securitySchemes: {},
-      },
-      tags: [],
+    // Routes registered with router.version() get one specification per version
+    const versions: Map<string, ApiVersion> = router.apiVersions
+    if (versions.size === 0) {
+      await writeSpec(outputPath, createOpenAPIDocument(router, options))
     }
-
-    // Collect unique tags if enabled
-    const uniqueTags = new Set<string>()
-
-    // Process routes and add them to the paths
-    for (const route of apiRoutes) {
-      const pathItem: any = openapi.paths[route.path] || {}
-
-      // Extract tag from route path or route metadata
-      let tag = ''
-      if (options.tags !== false) {
-        tag = route.tag || extractTagFromPath(route.path)
-        uniqueTags.add(tag)
-      }
-
-      // Convert route to OpenAPI operation
-      const operation: any = {
-        summary: route.summary || `${route.method.toUpperCase()} ${route.path}`,
-        description: route.description || '',
-        operationId: route.name || generateOperationId(route.method, route.path),
-        parameters: generateParameters(route),
-        responses: generateResponses(route),
-      }
-
-      // Add tag if available
-      if (tag) {
-        operation.tags = [tag]
-      }
-
-      // Add request body for applicable methods
-      if (['post', 'put', 'patch'].includes(route.method.toLowerCase())) {
-        operation.requestBody = generateRequestBody(route)
-      }
-
-      // Add security if enabled and available in route
-      if (options.security !== false && route.middleware) {
-        const securityItems = extractSecurityFromMiddleware(route.middleware)
-        if (securityItems.length > 0) {
-          operation.security = securityItems
+    else {
+      for (const version of versions.values()) {
+        if (options.apiVersion && options.apiVersion !== version.name) {
+          continue
         }
-      }
 
-      // Add operation to path
-      pathItem[route.method.toLowerCase()] = operation
-      openapi.paths[route.path] = pathItem
-    }
-
-    // Add tags to OpenAPI spec if enabled
-    if (options.tags !== false) {
-      openapi.tags = Array.from(uniqueTags).map(tag => ({
-        name: tag,
-        description: `Operations related to ${tag}`,
-      }))
+        await writeSpec(versionedOutputPath(outputPath, version.name), createOpenAPIDocument(router, { ...options, apiVersion: version.name }))
+      }
     }
 
-    // Write the OpenAPI spec to the output file
-    const outputPath = options.output || 'openapi.json'
-    await fs.writeFile(outputPath, JSON.stringify(openapi, null, 2))
-    console.log(chalk.green(`✨ OpenAPI specification generated at ${outputPath}`))
     console.log(chalk.blue(`Import this file into Postman, Swagger UI, or other API tools to explore your API.`))
   }
   catch (error: any) {
@@ -131,6 +86,150 @@ export async function generateOpenAPISpec(options: OpenAPIOptions): Promise<void
   }
 }
 
+/**
+ * Build the OpenAPI 3.1 document for a router's API routes. With
+ * `options.apiVersion`, only that version (including routes inherited
+ * through `fallbackTo`) and unversioned routes are described.
+ */
+export function createOpenAPIDocument(router: Router, options: OpenAPIOptions = {}): any {
+  // API routes are typically prefixed with /api or registered with type 'api'
+  const isApiRoute = (route: Route) => route.type === 'api' || route.path.startsWith('/api')
+
+  if (!options.apiVersion) {
+    const entries = router.routes.filter(isApiRoute).map(route => ({ route, path: route.path }))
+    return buildOpenAPIDocument(entries, options, router)
+  }
+
+  const version = router.apiVersions.get(options.apiVersion)
+  if (!version) {
+    throw new Error(`Unknown API version "${options.apiVersion}"`)
+  }
+
+  const entries = [
+    ...routesForVersion(router.routes, router.apiVersions, version.name).filter(entry => isApiRoute(entry.route)),
+    ...router.routes.filter(route => !route.version && isApiRoute(route)).map(route => ({ route, path: route.path })),
+  ]
+  return buildOpenAPIDocument(entries, options, router, version)
+}
+
+/**
+ * Build the OpenAPI document for a set of routes, optionally for one API version
+ */
+export function buildOpenAPIDocument(entries: VersionedRouteEntry[], options: OpenAPIOptions, router: Router, apiVersion?: ApiVersion): any {
+  // Define base structure for OpenAPI spec
+  const openapi: any = {
+    openapi: '3.1.0',
+    info: {
+      title: options.title || 'API Documentation',
+      version: apiVersion?.name || options.version || '1.0.0',
+      description: options.description || 'Generated API documentation',
+    },
+    servers: generateServers(options),
+    paths: {},
+    components: {
+      schemas: Object.fromEntries(router.schemas),
+      securitySchemes: { ...router.config.docs?.security },
+    },
+    tags: [],
+  }
+
+  // Sunset dates have no OpenAPI field - expose them as an extension
+  const sunsetAt = apiVersion ? toDate(apiVersion.sunsetAt) : undefined
+  if (sunsetAt) {
+    openapi.info['x-sunset'] = sunsetAt.toISOString()
+  }
+
+  // Collect unique tags if enabled
+  const uniqueTags = new Set<string>()
+
+  // Process routes and add them to the paths
+  for (const { route: source, path: routePath } of entries) {
+    const route = { ...(source as any), path: routePath }
+    const pathItem: any = openapi.paths[route.path] || {}
+    const method = route.method.toLowerCase()
+    const operationId = route.name || generateOperationId(route.method, route.path)
+    const rules = validationRules(route.middleware)
+    const hasBody = ['post', 'put', 'patch'].includes(method)
+
+    // Extract tag from route path or route metadata
+    let tag = ''
+    if (options.tags !== false) {
+      tag = route.tag || extractTagFromPath(route.path)
+      uniqueTags.add(tag)
+    }
+
+    // Convert route to OpenAPI operation
+    const operation: any = {
+      summary: route.summary || `${route.method.toUpperCase()} ${route.path}`,
+      description: route.description || '',
+      operationId,
+      parameters: generateParameters(route, rules, !hasBody),
+      responses: generateResponses(route),
+    }
+
+    // Add tag if available
+    if (tag) {
+      operation.tags = [tag]
+    }
+
+    // Operations of a deprecated version are deprecated too
+    if (source.version && apiVersion?.deprecatedAt) {
+      operation.deprecated = true
+    }
+
+    // Validated fields other than path parameters form the request body
+    if (hasBody) {
+      operation.requestBody = generateRequestBody(route, rules, operationId, openapi.components)
+    }
+
+    if (rules) {
+      operation.responses['400'] = validationErrorResponse(openapi.components)
+    }
+
+    // Add security if enabled and available in route
+    if (options.security !== false && route.middleware) {
+      const securityItems = extractSecurityFromMiddleware(route.middleware)
+      if (securityItems.length > 0) {
+        operation.security = securityItems
+        for (const item of securityItems) {
+          const name = Object.keys(item)[0]
+          openapi.components.securitySchemes[name] ??= SECURITY_SCHEMES[name]
+        }
+      }
+    }
+
+    // Add operation to path
+    pathItem[method] = operation
+    openapi.paths[route.path] = pathItem
+  }
+
+  // Add tags to OpenAPI spec if enabled
+  if (options.tags !== false) {
+    openapi.tags = Array.from(uniqueTags).map(tag => ({
+      name: tag,
+      description: `Operations related to ${tag}`,
+    }))
+  }
+
+  return openapi
+}
+
+/**
+ * Write an OpenAPI document to disk
+ */
+async function writeSpec(outputPath: string, openapi: any): Promise<void> {
+  await fs.writeFile(outputPath, JSON.stringify(openapi, null, 2))
+  console.log(chalk.green(`✨ OpenAPI specification generated at ${outputPath}`))
+}
+
+/**
+ * Insert the API version before the extension, e.g. openapi.json -> openapi.v2.json
+ */
+function versionedOutputPath(outputPath: string, version: string): string {
+  const extension = path.extname(outputPath)
+  return `${outputPath.slice(0, outputPath.length - extension.length)}.${version}${extension}`
+}
+
 /**
  * Generate server objects for OpenAPI spec
  */
@@ -196,184 +295,184 @@ function generateOperationId(method: string, path: string): string {
 }
 
 /**
- * Generate OpenAPI parameters from route path
+ * Validation rules attached to a route through createValidationMiddleware
  */
-function generateParameters(route: any): any[] {
-  const parameters = []
+function validationRules(middleware: unknown[] = []): ValidationRules | undefined {
+  const rules = middleware
+    .map(mw => (mw as Partial<ValidationMiddleware> | undefined)?.validationRules)
+    .filter((value): value is ValidationRules => !!value)
 
-  // Path parameters
-  const pathParams = route.path.match(/\{([^}]+)\}/g)
-  if (pathParams) {
-    for (const param of pathParams) {
-      const paramName = param.slice(1, -1)
-      parameters.push({
-        name: paramName,
-        in: 'path',
-        required: true,
-        schema: {
-          type: 'string',
-        },
-        description: `Path parameter: ${paramName}`,
-      })
-    }
-  }
+  return rules.length > 0 ? Object.assign({}, ...rules) : undefined
+}
 
-  // Add query parameters if defined in the route
-  if (route.params && route.params.query) {
-    for (const [name, schema] of Object.entries(route.params.query)) {
-      parameters.push({
-        name,
-        in: 'query',
-        schema: mapSchemaType(schema as any),
-        required: (schema as any).required === true,
-        description: (schema as any).description || `Query parameter: ${name}`,
-      })
-    }
+/**
+ * Reference a named schema, or pass an inline schema through
+ */
+function schemaRef(schema: JsonSchema | string | undefined): JsonSchema {
+  if (typeof schema === 'string') {
+    return { $ref: `#/components/schemas/${schema}` }
   }
+  return schema || {}
+}
 
-  return parameters
+/**
+ * PascalCase component name from an operation ID, e.g. users.store -> UsersStore
+ */
+function componentName(operationId: string): string {
+  return operationId
+    .split(/[^a-z0-9]+/i)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
 }
 
 /**
- * Map schema type to OpenAPI schema
+ * Add a schema to `components.schemas` and return a reference to it.
+ * Identical schemas share one component.
  */
-function mapSchemaType(schema: any): any {
-  if (!schema || typeof schema !== 'object') {
-    return { type: 'string' }
+function registerComponent(components: any, name: string, schema: JsonSchema): JsonSchema {
+  const serialized = JSON.stringify(schema)
+  const existing = Object.keys(components.schemas).find(key => JSON.stringify(components.schemas[key]) === serialized)
+  if (existing) {
+    return { $ref: `#/components/schemas/${existing}` }
   }
 
-  const openApiSchema: any = {}
-
-  if (schema.type) {
-    openApiSchema.type = schema.type
+  let unique = name
+  for (let suffix = 2; components.schemas[unique]; suffix++) {
+    unique = `${name}${suffix}`
   }
 
-  if (schema.format) {
-    openApiSchema.format = schema.format
-  }
+  components.schemas[unique] = schema
+  return { $ref: `#/components/schemas/${unique}` }
+}
+
+/**
+ * Generate OpenAPI parameters from the route path and, for methods without a
+ * body, the validated query fields
+ */
+function generateParameters(route: any, rules: ValidationRules | undefined, rulesInQuery: boolean): any[] {
+  const parameters = []
+  const pathParams = extractParamNames(route.path)
 
-  if (schema.enum) {
-    openApiSchema.enum = schema.enum
+  for (const name of pathParams) {
+    const schema: JsonSchema = rules?.[name] ? fieldToJsonSchema(rules[name]) : { type: 'string' }
+
+    // where() constraints are regular expressions for the segment
+    const constraint = route.constraints && !Array.isArray(route.constraints) ? route.constraints[name] : undefined
+    if (constraint && !schema.pattern) {
+      schema.pattern = `^${constraint}$`
+    }
+
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema,
+      description: `Path parameter: ${name}`,
+    })
   }
 
-  if (schema.default !== undefined) {
-    openApiSchema.default = schema.default
+  if (rules && rulesInQuery) {
+    const schema = rulesToJsonSchema(withoutFields(rules, pathParams))
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: schema.required?.includes(name) ?? false,
+        schema: property,
+      })
+    }
   }
 
-  return openApiSchema
+  return parameters
+}
+
+function withoutFields(rules: ValidationRules, fields: string[]): ValidationRules {
+  return Object.fromEntries(Object.entries(rules).filter(([field]) => !fields.includes(field.split('.')[0])))
 }
 
 /**
- * Generate responses object for OpenAPI
+ * Generate responses object for OpenAPI from the responses declared with `router.responds()`
  */
 function generateResponses(route: any): any {
-  const responses: any = {
-    200: {
-      description: 'Successful response',
+  const declared: Record<number, RouteResponse> = route.responses || {}
+  const responses: any = {}
+
+  for (const [status, response] of Object.entries(declared)) {
+    const contentType = response.contentType || route.produces?.[0] || 'application/json'
+    responses[status] = {
+      description: response.description || `Response with status ${status}`,
       content: {
-        'application/json': {
-          schema: {},
+        [contentType]: {
+          schema: schemaRef(response.schema),
         },
       },
-    },
+    }
   }
 
-  // Add common error responses
-  responses['400'] = {
-    description: 'Bad request',
-    content: {
-      'application/json': {
-        schema: {
-          type: 'object',
-          properties: {
-            error: { type: 'string' },
-          },
-        },
-      },
-    },
+  // Undocumented routes still need one response to be valid OpenAPI
+  if (Object.keys(responses).length === 0) {
+    responses['200'] = { description: 'Successful response' }
   }
 
-  responses['401'] = {
-    description: 'Unauthorized',
-    content: {
-      'application/json': {
-        schema: {
-          type: 'object',
-          properties: {
-            error: { type: 'string' },
-          },
-        },
-      },
-    },
-  }
+  return responses
+}
 
-  responses['404'] = {
-    description: 'Not found',
-    content: {
-      'application/json': {
-        schema: {
-          type: 'object',
-          properties: {
-            error: { type: 'string' },
+/**
+ * The 400 response ValidationException produces
+ */
+function validationErrorResponse(components: any): any {
+  components.schemas.ValidationError ??= {
+    type: 'object',
+    properties: {
+      error: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', const: 'VALIDATION_ERROR' },
+          message: { type: 'string' },
+          statusCode: { type: 'integer' },
+          timestamp: { type: 'string', format: 'date-time' },
+          requestId: { type: 'string' },
+          fields: {
+            type: 'object',
+            additionalProperties: { type: 'array', items: { type: 'string' } },
           },
         },
+        required: ['code', 'message', 'fields'],
       },
     },
+    required: ['error'],
   }
 
-  responses['500'] = {
-    description: 'Server error',
+  return {
+    description: 'Validation failed',
     content: {
       'application/json': {
-        schema: {
-          type: 'object',
-          properties: {
-            error: { type: 'string' },
-          },
-        },
+        schema: { $ref: '#/components/schemas/ValidationError' },
       },
     },
   }
-
-  // Add custom responses from route if available
-  if (route.responses) {
-    for (const [status, response] of Object.entries(route.responses)) {
-      responses[status] = {
-        description: (response as any).description || `Response with status ${status}`,
-        content: {
-          'application/json': {
-            schema: (response as any).schema || {},
-          },
-        },
-      }
-    }
-  }
-
-  return responses
 }
 
 /**
- * Generate request body object for OpenAPI
+ * Generate request body object for OpenAPI from the route's validation rules
  */
-function generateRequestBody(route: any): any {
-  // Default empty request body
-  const requestBody: any = {
-    required: true,
-    content: {
-      'application/json': {
-        schema: {
-          type: 'object',
-        },
-      },
-    },
+function generateRequestBody(route: any, rules: ValidationRules | undefined, operationId: string, components: any): any {
+  let schema: JsonSchema = { type: 'object' }
+  let required = false
+
+  if (rules) {
+    const bodyRules = withoutFields(rules, extractParamNames(route.path))
+    const bodySchema = rulesToJsonSchema(bodyRules)
+    required = (bodySchema.required?.length ?? 0) > 0
+    schema = registerComponent(components, `${componentName(operationId)}Request`, bodySchema)
   }
 
-  // Add schema from route if available
-  if (route.params && route.params.body) {
-    requestBody.content['application/json'].schema = route.params.body
+  const mediaTypes: string[] = route.consumes?.length ? route.consumes : ['application/json']
+  return {
+    required,
+    content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }])),
   }
-
-  return requestBody
 }
 
 /**
@@ -385,20 +484,18 @@ function extractSecurityFromMiddleware(middleware: any[]): any[] {
   // Check for common auth middleware like jwt, oauth, apiKey, etc.
   for (const mw of middleware) {
     const name = typeof mw === 'string' ? mw : mw.name
+    const lower = name?.toLowerCase() || ''
 
-    if (name && name.toLowerCase().includes('auth')) {
+    if (lower.includes('auth')) {
       // Add security scheme based on middleware type
-      if (name.toLowerCase().includes('jwt')) {
-        securityItems.push({ BearerAuth: [] })
-      }
-      else if (name.toLowerCase().includes('apikey')) {
+      if (lower.includes('apikey')) {
         securityItems.push({ ApiKeyAuth: [] })
       }
-      else if (name.toLowerCase().includes('basic')) {
+      else if (lower.includes('basic')) {
         securityItems.push({ BasicAuth: [] })
       }
       else {
-        securityItems.push({ [name]: [] })
+        securityItems.push({ BearerAuth: [] })
       }
     }
   }
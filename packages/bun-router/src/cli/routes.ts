@@ -1,6 +1,9 @@
+import type { ApiVersion, VersionedRouteEntry } from '../routing/api-versioning'
+import type { Route } from '../types'
 import fs from 'node:fs/promises'
 import path from 'node:path'
 import process from 'node:process'
+import { routesForVersion, toDate } from '../routing/api-versioning'
 import { chalk } from './colors'
 
 /**
@@ -12,6 +15,7 @@ export interface RouteListOptions {
   path?: string
   exceptVendor?: boolean
   onlyVendor?: boolean
+  apiVersion?: string
 }
 
 /**
@@ -44,55 +48,38 @@ export async function displayRoutes(options: RouteListOptions): Promise<void> {
       return
     }
 
-    // Filter routes based on options
-    let filteredRoutes = routes
+    // Routes registered with router.version() are listed per version, including inherited ones
+    const versions: Map<string, ApiVersion> = (router as any).apiVersions || new Map()
+    const sections: Array<{ title: string, entries: VersionedRouteEntry[] }> = []
 
-    if (options.path) {
-      filteredRoutes = filteredRoutes.filter((route: any) =>
-        route.path.startsWith(options.path),
-      )
-    }
-
-    // Display route table
-    console.log(chalk.bold('\nRoutes:'))
-    console.log(chalk.dim('+-----------------+-------------------------+------------------+----------------+'))
-    console.log(chalk.dim('| ') + chalk.bold('Method') + chalk.dim('          | ') + chalk.bold('URI') + chalk.dim('                     | ') + chalk.bold('Name') + chalk.dim('             | ') + chalk.bold('Handler') + chalk.dim('         |'))
-    console.log(chalk.dim('+-----------------+-------------------------+------------------+----------------+'))
-
-    filteredRoutes.forEach((route: any) => {
-      const method = padString(route.method, 15)
-      const path = padString(route.path, 23)
-      const name = padString(route.name || '', 16)
-
-      let handler: string
-      if (typeof route.handler === 'string') {
-        handler = route.handler
-      }
-      else if (typeof route.handler === 'function') {
-        handler = route.handler.name ? `${route.handler.name}()` : 'Anonymous Function'
-      }
-      else {
-        handler = 'Class Handler'
+    if (versions.size > 0) {
+      for (const version of versions.values()) {
+        if (!options.apiVersion || options.apiVersion === version.name) {
+          sections.push({ title: versionTitle(version), entries: routesForVersion(routes, versions, version.name) })
+        }
       }
 
-      handler = padString(handler, 14)
+      const unversioned = routes.filter((route: Route) => !route.version)
+      if (!options.apiVersion && unversioned.length > 0) {
+        sections.push({ title: 'Unversioned routes', entries: unversioned.map((route: Route) => ({ route, path: route.path })) })
+      }
+    }
+    else {
+      sections.push({ title: 'Routes', entries: routes.map((route: Route) => ({ route, path: route.path })) })
+    }
 
-      console.log(chalk.dim('| ')
-        + getMethodColor(route.method)(method) + chalk.dim(' | ')
-        + chalk.green(path) + chalk.dim(' | ')
-        + chalk.yellow(name) + chalk.dim(' | ')
-        + chalk.blue(handler) + chalk.dim(' |'))
+    let total = 0
+    for (const section of sections) {
+      // Filter routes based on options
+      const entries = options.path
+        ? section.entries.filter(entry => entry.path.startsWith(options.path!))
+        : section.entries
 
-      // Show middleware if verbose flag is set
-      if (options.verbose && route.middleware && route.middleware.length > 0) {
-        console.log(chalk.dim('|                 | ') + chalk.dim('Middleware: ')
-          + route.middleware.map((m: any) => typeof m === 'string' ? m : m.name || 'Anonymous').join(', ')
-          + chalk.dim('                                           |'))
-      }
-    })
+      displayRouteTable(section.title, entries, options)
+      total += entries.length
+    }
 
-    console.log(chalk.dim('+-----------------+-------------------------+------------------+----------------+'))
-    console.log(`\nShowing ${filteredRoutes.length} routes`)
+    console.log(`\nShowing ${total} routes`)
   }
   catch (error: any) {
     console.error(chalk.red(`Error: ${error.message}`))
@@ -101,6 +88,76 @@ export async function displayRoutes(options: RouteListOptions): Promise<void> {
   }
 }
 
+/**
+ * Print one table of routes
+ */
+function displayRouteTable(title: string, entries: VersionedRouteEntry[], options: RouteListOptions): void {
+  console.log(chalk.bold(`\n${title}:`))
+  console.log(chalk.dim('+-----------------+-------------------------+------------------+----------------+'))
+  console.log(chalk.dim('| ') + chalk.bold('Method') + chalk.dim('          | ') + chalk.bold('URI') + chalk.dim('                     | ') + chalk.bold('Name') + chalk.dim('             | ') + chalk.bold('Handler') + chalk.dim('         |'))
+  console.log(chalk.dim('+-----------------+-------------------------+------------------+----------------+'))
+
+  entries.forEach(({ route, path: routePath, inheritedFrom }) => {
+    const method = padString(route.method, 15)
+    const path = padString(routePath, 23)
+    const name = padString(route.name || '', 16)
+
+    let handler: string
+    if (typeof route.handler === 'string') {
+      handler = route.handler
+    }
+    else if (typeof route.handler === 'function') {
+      handler = route.handler.name ? `${route.handler.name}()` : 'Anonymous Function'
+    }
+    else {
+      handler = 'Class Handler'
+    }
+
+    // Inherited routes run the older version's handler
+    if (inheritedFrom) {
+      handler = `${inheritedFrom}: ${handler}`
+    }
+
+    handler = padString(handler, 14)
+
+    console.log(chalk.dim('| ')
+      + getMethodColor(route.method)(method) + chalk.dim(' | ')
+      + (inheritedFrom ? chalk.dim(path) : chalk.green(path)) + chalk.dim(' | ')
+      + chalk.yellow(name) + chalk.dim(' | ')
+      + chalk.blue(handler) + chalk.dim(' |'))
+
+    // Show middleware if verbose flag is set
+    if (options.verbose && route.middleware && route.middleware.length > 0) {
+      console.log(chalk.dim('|                 | ') + chalk.dim('Middleware: ')
+        + route.middleware.map((m: any) => typeof m === 'string' ? m : m.name || 'Anonymous').join(', ')
+        + chalk.dim('                                           |'))
+    }
+  })
+
+  console.log(chalk.dim('+-----------------+-------------------------+------------------+----------------+'))
+}
+
+/**
+ * Section title for an API version, e.g. "API v1 (deprecated 2025-01-01, sunset 2025-07-01)"
+ */
+function versionTitle(version: ApiVersion): string {
+  const notes: string[] = []
+  const deprecatedAt = toDate(version.deprecatedAt)
+  const sunsetAt = toDate(version.sunsetAt)
+
+  if (deprecatedAt) {
+    notes.push(`deprecated ${deprecatedAt.toISOString().slice(0, 10)}`)
+  }
+  if (sunsetAt) {
+    notes.push(`sunset ${sunsetAt.toISOString().slice(0, 10)}`)
+  }
+  if (version.fallbackTo) {
+    notes.push(`falls back to ${version.fallbackTo}`)
+  }
+
+  return notes.length > 0 ? `API ${version.name} (${notes.join(', ')})` : `API ${version.name}`
+}
+
 /**
  * Generate TypeScript types for route names
  */
@@ -265,6 +265,13 @@ export class Container {
     return scope
   }
 
+  /**
+   * Drop the instances cached for a scope, e.g. when a request finishes
+   */
+  disposeScope(scopeId: string): void {
+    this.scopedInstances.delete(scopeId)
+  }
+
   /**
    * Get all bindings
    */
@@ -387,7 +394,9 @@ export class Container {
       }
       else {
         instance = this.createNewInstance<T>(binding, context)
-        if (!scopedMap) {
+
+        // Look the map up again - resolving dependencies may have created it
+        if (!this.scopedInstances.has(context.requestId)) {
           this.scopedInstances.set(context.requestId, new Map())
         }
         this.scopedInstances.get(context.requestId)!.set(binding.token, instance)
@@ -540,6 +549,7 @@ export class Container {
   ): T {
     // Check for injectable metadata
     const metadata = Reflect.getMetadata?.(INJECTABLE_METADATA_KEY, constructor) as InjectableMetadata
+      || (constructor as any)[INJECTABLE_METADATA_KEY] as InjectableMetadata
 
     const binding: Binding<T> = {
       token: constructor,
@@ -551,7 +561,9 @@ export class Container {
     }
 
     this.register(binding)
-    return this.resolveInternal<T>(constructor, context)
+
+    // The token is already being resolved - resolving it again would look like a cycle
+    return this.createInstance<T>(binding, context)
   }
 
   /**
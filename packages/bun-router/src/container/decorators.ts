@@ -4,16 +4,16 @@
  */
 
 import type { ResolutionContext } from './container'
-import { Container } from './container'
+import { Container, INJECT_METADATA_KEY, INJECTABLE_METADATA_KEY, OPTIONAL_METADATA_KEY, TAGGED_METADATA_KEY } from './container'
+
+// Injection keys are shared with the container so it sees @Inject constructor metadata
+export { INJECT_METADATA_KEY, INJECTABLE_METADATA_KEY, OPTIONAL_METADATA_KEY, TAGGED_METADATA_KEY }
 
 // Metadata keys with explicit types
-export const INJECTABLE_METADATA_KEY: unique symbol = Symbol('injectable')
-export const INJECT_METADATA_KEY: unique symbol = Symbol('inject')
-export const OPTIONAL_METADATA_KEY: unique symbol = Symbol('optional')
-export const TAGGED_METADATA_KEY: unique symbol = Symbol('tagged')
 export const CONTROLLER_METADATA_KEY: unique symbol = Symbol('controller')
 export const ROUTE_METADATA_KEY: unique symbol = Symbol('route')
 export const MIDDLEWARE_METADATA_KEY: unique symbol = Symbol('middleware')
+export const METHOD_MIDDLEWARE_METADATA_KEY: unique symbol = Symbol('method middleware')
 export const PARAM_METADATA_KEY: unique symbol = Symbol('param')
 
 // Decorator metadata interfaces
@@ -191,11 +191,11 @@ function createRouteDecorator(method: string, path: string, options?: { middlewa
 export function UseMiddleware(...middleware: Function[]): ClassDecorator & MethodDecorator {
   return function (target: any, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) {
     if (propertyKey && descriptor) {
-      // Method decorator
-      if (!target.constructor[MIDDLEWARE_METADATA_KEY]) {
-        target.constructor[MIDDLEWARE_METADATA_KEY] = new Map()
+      // Method decorator - kept apart from class middleware so both can be used together
+      if (!target.constructor[METHOD_MIDDLEWARE_METADATA_KEY]) {
+        target.constructor[METHOD_MIDDLEWARE_METADATA_KEY] = new Map()
       }
-      target.constructor[MIDDLEWARE_METADATA_KEY].set(propertyKey, middleware)
+      target.constructor[METHOD_MIDDLEWARE_METADATA_KEY].set(propertyKey, middleware)
     }
     else {
       // Class decorator
@@ -286,7 +286,7 @@ export class MetadataReader {
 
   static getMiddlewareMetadata(target: Function, propertyKey?: string | symbol): Function[] {
     if (propertyKey) {
-      const methodMiddleware = (target as any)[MIDDLEWARE_METADATA_KEY]?.get(propertyKey)
+      const methodMiddleware = (target as any)[METHOD_MIDDLEWARE_METADATA_KEY]?.get(propertyKey)
       return methodMiddleware || []
     }
     return (target as any)[MIDDLEWARE_METADATA_KEY] || []
@@ -325,28 +325,21 @@ export class DecoratorContainer extends Container {
    * Enhanced resolve method that handles decorator metadata
    */
   resolve<T>(token: string | symbol | Function, context?: ResolutionContext): T {
-    // Check if token is a class with injectable metadata
-    if (typeof token === 'function') {
+    // Register injectable classes with their declared scope before the
+    // container would auto-register them as transient
+    if (typeof token === 'function' && !this.isBound(token)) {
       const metadata = MetadataReader.getInjectableMetadata(token)
       if (metadata) {
-        // Auto-register if not already registered
-        try {
-          // Try to resolve first to see if it exists
-          return super.resolve<T>(token, context)
-        }
-        catch {
-          // If it doesn't exist, register it
-          const scope = metadata.scope || 'transient'
-          switch (scope) {
-            case 'singleton':
-              this.singleton(token, token as any)
-              break
-            case 'transient':
-              this.transient(token, token as any)
-              break
-            default:
-              this.transient(token, token as any)
-          }
+        const scope = metadata.scope || 'transient'
+        switch (scope) {
+          case 'singleton':
+            this.singleton(token, token as any)
+            break
+          case 'transient':
+            this.transient(token, token as any)
+            break
+          default:
+            this.transient(token, token as any)
         }
       }
     }
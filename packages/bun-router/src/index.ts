@@ -1,10 +1,19 @@
+export * from './api-keys'
 export { default as Auth } from './auth'
 export * from './auth'
+export * from './authorization'
 export * from './config'
 export * as Errors from './errors'
 export * from './middleware'
+export * from './oauth'
+export * from './proxy'
+export * from './pubsub'
+export * from './rate-limit'
 export * from './response/response-factory'
 export * from './router'
+export * from './session'
 export * from './testing'
 export * from './types'
 export * from './utils'
+export * from './websocket/channels'
+export * from './websocket/events'
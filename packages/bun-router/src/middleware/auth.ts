@@ -1,4 +1,6 @@
-import type { EnhancedRequest, Middleware, NextFunction } from '../types'
+import type { ApiKeyInfo, JwtVerifyOptions } from '../auth'
+import type { EnhancedRequest, JwtPayload, Middleware, NextFunction } from '../types'
+import { ApiKeyManager, JWT } from '../auth'
 
 export interface AuthOptions {
   /**
@@ -7,9 +9,10 @@ export interface AuthOptions {
   type: 'basic' | 'bearer' | 'api-key' | 'oauth2' | 'jwt' | 'custom'
 
   /**
-   * Function to validate credentials
+   * Function to validate credentials. Returning a Response rejects the
+   * request with it instead of a 401.
    */
-  validator: (credentials: any, req: EnhancedRequest) => Promise<boolean> | boolean
+  validator: (credentials: any, req: EnhancedRequest) => Promise<boolean | Response> | boolean | Response
 
   /**
    * Extract user information after successful authentication
@@ -161,6 +164,10 @@ export default class AuthMiddleware implements Middleware {
     // Validate credentials
     const isValid = await this.options.validator(credentials, req)
 
+    if (isValid instanceof Response) {
+      return isValid
+    }
+
     if (!isValid) {
       return new Response('Unauthorized', { status: 401 })
     }
@@ -194,19 +201,115 @@ export function bearerAuth(validator: (token: string, req: EnhancedRequest) => P
   })
 }
 
-export function jwtAuth(validator: (token: string, req: EnhancedRequest) => Promise<boolean> | boolean, options: Partial<AuthOptions> = {}): AuthMiddleware {
+export interface JwtAuthOptions extends Partial<AuthOptions> {
+  /**
+   * Claims checked when verifying with a `JWT` instance
+   */
+  verify?: JwtVerifyOptions
+}
+
+/**
+ * Bearer token authentication. Given a `JWT` instance, tokens are verified
+ * with it and their payload becomes `req.user`.
+ */
+export function jwtAuth(validator: JWT | ((token: string, req: EnhancedRequest) => Promise<boolean> | boolean), options: JwtAuthOptions = {}): AuthMiddleware {
+  const { verify, ...authOptions } = options
+
+  if (validator instanceof JWT) {
+    const jwt = validator
+    const payloads = new WeakMap<EnhancedRequest, JwtPayload>()
+
+    return new AuthMiddleware({
+      type: 'jwt',
+      validator: async (token: string, req: EnhancedRequest) => {
+        const payload = await jwt.verify(token, verify)
+        if (payload) {
+          payloads.set(req, payload)
+        }
+        return payload !== null
+      },
+      userExtractor: (_token: string, req: EnhancedRequest) => payloads.get(req),
+      ...authOptions,
+    })
+  }
+
   return new AuthMiddleware({
     type: 'jwt',
     validator,
-    ...options,
+    ...authOptions,
   })
 }
 
-export function apiKeyAuth(validator: (apiKey: string, req: EnhancedRequest) => Promise<boolean> | boolean, options: Partial<AuthOptions> = {}): AuthMiddleware {
+export interface ApiKeyAuthOptions extends Partial<AuthOptions> {
+  /**
+   * Scopes the key must have, checked when validating with an `ApiKeyManager`
+   */
+  scopes?: string[]
+}
+
+/**
+ * API key authentication. Given an `ApiKeyManager`, keys are verified with
+ * it, must hold every required scope and count against their rate limit.
+ * The key's owner becomes `req.user`, with the key's scopes as permissions.
+ */
+export function apiKeyAuth(validator: ApiKeyManager | ((apiKey: string, req: EnhancedRequest) => Promise<boolean> | boolean), options: ApiKeyAuthOptions = {}): AuthMiddleware {
+  const { scopes = [], ...authOptions } = options
+
+  if (validator instanceof ApiKeyManager) {
+    const manager = validator
+    const keys = new WeakMap<EnhancedRequest, ApiKeyInfo>()
+
+    return new AuthMiddleware({
+      type: 'api-key',
+      validator: async (apiKey: string, req: EnhancedRequest) => {
+        const info = await manager.verifyKey(apiKey)
+        if (!info) {
+          return false
+        }
+
+        const missing = scopes.filter(scope => !info.scopes.includes(scope))
+        if (missing.length > 0) {
+          return new Response(JSON.stringify({ error: 'Forbidden', message: `API key is missing scopes: ${missing.join(', ')}` }), {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' },
+          })
+        }
+
+        const limit = await manager.consumeRateLimit(info)
+        if (limit && !limit.allowed) {
+          const retryAfter = Math.max(0, Math.ceil((limit.resetAt.getTime() - Date.now()) / 1000))
+          return new Response(JSON.stringify({
+            error: 'Too Many Requests',
+            message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+            retryAfter,
+          }), {
+            status: 429,
+            headers: {
+              'Content-Type': 'application/json',
+              'Retry-After': retryAfter.toString(),
+              'X-RateLimit-Limit': limit.limit.toString(),
+              'X-RateLimit-Remaining': limit.remaining.toString(),
+              'X-RateLimit-Reset': Math.ceil(limit.resetAt.getTime() / 1000).toString(),
+            },
+          })
+        }
+
+        keys.set(req, info)
+        return true
+      },
+      credentialsExtractor: authOptions.source || authOptions.key ? undefined : (req: EnhancedRequest) => manager.extractFromRequest(req),
+      userExtractor: (_apiKey: string, req: EnhancedRequest) => {
+        const info = keys.get(req)
+        return info && { id: info.owner, permissions: info.scopes, apiKey: info }
+      },
+      ...authOptions,
+    })
+  }
+
   return new AuthMiddleware({
     type: 'api-key',
     validator,
-    ...options,
+    ...authOptions,
   })
 }
 
@@ -0,0 +1,262 @@
+/**
+ * Response Compression Middleware
+ *
+ * Compresses response bodies with the best encoding the client accepts.
+ * Bodies are compressed as they stream and every chunk is flushed, so
+ * streamed responses reach the client incrementally.
+ */
+
+import type { CompressionConfig, EnhancedRequest, Middleware, NextFunction } from '../types'
+import { Duplex } from 'node:stream'
+import zlib from 'node:zlib'
+
+export type CompressionEncoding = 'zstd' | 'br' | 'gzip' | 'deflate'
+
+export interface CompressionOptions extends Partial<CompressionConfig> {
+  /**
+   * Encodings offered, in order of preference when the client accepts several equally
+   * @default ['zstd', 'br', 'gzip', 'deflate']
+   */
+  encodings?: CompressionEncoding[]
+
+  /**
+   * Smallest body compressed, in bytes. Bodies without a Content-Length are
+   * read up to this size while their chunks are already available; bodies
+   * still streaming are compressed without waiting for more.
+   * @default 1024
+   */
+  threshold?: number
+
+  /**
+   * gzip and deflate compression level, 0-9
+   * @default 6
+   */
+  level?: number
+
+  /**
+   * Brotli quality, 0-11
+   * @default 4
+   */
+  brotliQuality?: number
+
+  /**
+   * zstd compression level, 1-22
+   * @default 3
+   */
+  zstdLevel?: number
+
+  /**
+   * Content types compressed. Strings match the media type exactly, or any
+   * subtype when ending in `/*`.
+   * @default text, JSON, JavaScript, XML, SVG and NDJSON types
+   */
+  contentTypes?: (string | RegExp)[]
+}
+
+const DEFAULT_CONTENT_TYPES: (string | RegExp)[] = [
+  'text/*',
+  'application/json',
+  'application/javascript',
+  'application/xml',
+  'application/x-ndjson',
+  'application/graphql-response+json',
+  'image/svg+xml',
+  /^application\/[\w.-]+\+(?:json|xml)$/,
+]
+
+export default class Compression implements Middleware {
+  private options: Required<CompressionOptions>
+
+  constructor(options: CompressionOptions = {}) {
+    this.options = {
+      enabled: options.enabled ?? true,
+      encodings: options.encodings ?? ['zstd', 'br', 'gzip', 'deflate'],
+      threshold: options.threshold ?? 1024,
+      level: options.level ?? 6,
+      brotliQuality: options.brotliQuality ?? 4,
+      zstdLevel: options.zstdLevel ?? 3,
+      contentTypes: options.contentTypes ?? DEFAULT_CONTENT_TYPES,
+    }
+  }
+
+  async handle(req: EnhancedRequest, next: NextFunction): Promise<Response> {
+    const response = await next()
+    if (!response) {
+      return new Response('Not Found', { status: 404 })
+    }
+
+    if (!this.options.enabled || !this.isCompressible(response)) {
+      return response
+    }
+
+    // The body depends on Accept-Encoding from here on, even when sent as is
+    const headers = new Headers(response.headers)
+    appendVary(headers, 'Accept-Encoding')
+
+    const encoding = negotiateEncoding(req.headers.get('accept-encoding'), this.options.encodings)
+    const contentLength = response.headers.get('content-length')
+    if (!encoding || !response.body || (contentLength !== null && Number(contentLength) < this.options.threshold)) {
+      return rebuild(response, response.body, headers)
+    }
+
+    const { body, size, ended } = await peek(response.body, this.options.threshold)
+    if (ended && size < this.options.threshold) {
+      return rebuild(response, body, headers)
+    }
+
+    headers.set('Content-Encoding', encoding)
+    headers.delete('Content-Length')
+    // The encoded body no longer matches a strong validator
+    const etag = headers.get('etag')
+    if (etag && !etag.startsWith('W/')) {
+      headers.set('ETag', `W/${etag}`)
+    }
+
+    return rebuild(response, body.pipeThrough(this.compressor(encoding)), headers)
+  }
+
+  private isCompressible(response: Response): boolean {
+    if (response.status < 200 || response.status === 204 || response.status === 206 || response.status === 304) {
+      return false
+    }
+
+    const encoding = response.headers.get('content-encoding')
+    if (encoding && encoding !== 'identity') {
+      return false
+    }
+
+    if (/\bno-transform\b/i.test(response.headers.get('cache-control') ?? '')) {
+      return false
+    }
+
+    // Server-sent events must reach the client as they're sent
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase()
+    if (!contentType || contentType === 'text/event-stream') {
+      return false
+    }
+
+    return this.options.contentTypes.some(allowed => typeof allowed === 'string'
+      ? allowed === contentType || (allowed.endsWith('/*') && contentType.startsWith(allowed.slice(0, -1)))
+      : allowed.test(contentType))
+  }
+
+  private compressor(encoding: CompressionEncoding): ReadableWritablePair<Uint8Array, Uint8Array> {
+    const { constants } = zlib
+    const stream = {
+      zstd: () => zlib.createZstdCompress({
+        flush: constants.ZSTD_e_flush,
+        params: { [constants.ZSTD_c_compressionLevel]: this.options.zstdLevel },
+      }),
+      br: () => zlib.createBrotliCompress({
+        flush: constants.BROTLI_OPERATION_FLUSH,
+        params: { [constants.BROTLI_PARAM_QUALITY]: this.options.brotliQuality },
+      }),
+      gzip: () => zlib.createGzip({ flush: constants.Z_SYNC_FLUSH, level: this.options.level }),
+      deflate: () => zlib.createDeflate({ flush: constants.Z_SYNC_FLUSH, level: this.options.level }),
+    }[encoding]()
+
+    return Duplex.toWeb(stream) as unknown as ReadableWritablePair<Uint8Array, Uint8Array>
+  }
+}
+
+/**
+ * Pick the encoding the client prefers from those offered, or null to send the body as is
+ */
+export function negotiateEncoding(acceptEncoding: string | null, offered: CompressionEncoding[]): CompressionEncoding | null {
+  if (!acceptEncoding) {
+    return null
+  }
+
+  const weights = new Map<string, number>()
+  for (const part of acceptEncoding.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';')
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='))
+    weights.set(name.trim(), q ? Number(q.slice(2)) || 0 : 1)
+  }
+
+  let best: CompressionEncoding | null = null
+  let bestWeight = 0
+  for (const encoding of offered) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0
+    if (weight > bestWeight) {
+      best = encoding
+      bestWeight = weight
+    }
+  }
+  return best
+}
+
+function appendVary(headers: Headers, field: string): void {
+  const vary = headers.get('vary')
+  if (!vary) {
+    headers.set('Vary', field)
+  }
+  else if (vary.trim() !== '*' && !vary.split(',').some(value => value.trim().toLowerCase() === field.toLowerCase())) {
+    headers.set('Vary', `${vary}, ${field}`)
+  }
+}
+
+/**
+ * Read the start of a body, up to `size` bytes, returning a stream that
+ * still yields the whole body. After the first chunk only chunks already
+ * available are read, so a slow stream isn't held back until it has sent
+ * `size` bytes.
+ */
+async function peek(stream: ReadableStream<Uint8Array>, size: number): Promise<{ body: ReadableStream<Uint8Array>, size: number, ended: boolean }> {
+  const reader = stream.getReader()
+  const head: Uint8Array[] = []
+  let read = 0
+  let ended = false
+  let pending: ReturnType<typeof reader.read> | null = null
+
+  while (read < size) {
+    pending = reader.read()
+    const result = head.length === 0
+      ? await pending
+      : await Promise.race([pending, new Promise<null>(resolve => setImmediate(resolve, null))])
+    if (!result) {
+      break
+    }
+
+    pending = null
+    if (result.done) {
+      ended = true
+      break
+    }
+    head.push(result.value)
+    read += result.value.byteLength
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      head.forEach(chunk => controller.enqueue(chunk))
+      if (ended) {
+        controller.close()
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await (pending ?? reader.read())
+      pending = null
+      if (done) {
+        controller.close()
+        return
+      }
+      controller.enqueue(value)
+    },
+    cancel: reason => reader.cancel(reason),
+  }, { highWaterMark: 0 })
+
+  return { body, size: read, ended }
+}
+
+function rebuild(response: Response, body: ReadableStream<Uint8Array> | null, headers: Headers): Response {
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  })
+}
+
+export function compression(options?: CompressionOptions): Compression {
+  return new Compression(options)
+}
@@ -1,4 +1,4 @@
-import type { UploadedFile } from './file_upload'
+import type { UploadedFile } from '../types'
 
 export interface FileSecurityConfig {
   scanForMalware?: boolean
@@ -33,6 +33,9 @@ export default class FileSecurity {
     ],
   }
 
+  // Bytes at the start of a file its signature is checked against
+  readonly signatureLength = 16
+
   // Dangerous file extensions
   private readonly EXECUTABLE_EXTENSIONS = [
     '.exe',
@@ -65,6 +68,26 @@ export default class FileSecurity {
   }
 
   validateFile(file: UploadedFile): { isValid: boolean, errors: string[] } {
+    const buffer = new Uint8Array(file.buffer ?? new ArrayBuffer(0))
+    const errors = this.validateStart(file, buffer).errors
+
+    // Basic malware scan (simple heuristics)
+    if (this.config.scanForMalware && this.basicMalwareScan(buffer)) {
+      errors.push('Potential malware detected')
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    }
+  }
+
+  /**
+   * Validate a file being received from its name, declared type and first
+   * bytes, before the rest of it has arrived. Malware scanning is left to
+   * `scanChunk()` as the remaining bytes arrive.
+   */
+  validateStart(file: Pick<UploadedFile, 'originalName' | 'mimetype'>, head: Uint8Array): { isValid: boolean, errors: string[] } {
     const errors: string[] = []
 
     // Check filename length
@@ -91,34 +114,34 @@ export default class FileSecurity {
 
     // Validate file signature (magic numbers)
     if (this.config.checkMagicNumbers) {
-      const isValidSignature = this.validateFileSignature(file)
+      const isValidSignature = this.validateFileSignature(file.mimetype, head)
       if (!isValidSignature) {
         errors.push('File signature does not match declared MIME type')
       }
     }
 
-    // Basic malware scan (simple heuristics)
-    if (this.config.scanForMalware) {
-      const malwareDetected = this.basicMalwareScan(file)
-      if (malwareDetected) {
-        errors.push('Potential malware detected')
-      }
-    }
-
     return {
       isValid: errors.length === 0,
       errors,
     }
   }
 
-  private validateFileSignature(file: UploadedFile): boolean {
-    const signatures = this.FILE_SIGNATURES[file.mimetype]
+  /**
+   * Whether part of a file being received looks like malware. Include the end
+   * of the previous chunk to catch patterns split between chunks.
+   */
+  scanChunk(chunk: Uint8Array): boolean {
+    return this.config.scanForMalware && this.basicMalwareScan(chunk)
+  }
+
+  private validateFileSignature(mimetype: string, head: Uint8Array): boolean {
+    const signatures = this.FILE_SIGNATURES[mimetype]
     if (!signatures) {
       // If we don't have signatures for this MIME type, allow it
       return true
     }
 
-    const fileBuffer = new Uint8Array(file.buffer.slice(0, 16)) // Check first 16 bytes
+    const fileBuffer = head.subarray(0, this.signatureLength)
 
     return signatures.some((signature) => {
       if (fileBuffer.length < signature.length)
@@ -148,9 +171,8 @@ export default class FileSecurity {
     return lastDotIndex === -1 ? '' : filename.substring(lastDotIndex)
   }
 
-  private basicMalwareScan(file: UploadedFile): boolean {
+  private basicMalwareScan(buffer: Uint8Array): boolean {
     // Simple heuristic-based malware detection
-    const buffer = new Uint8Array(file.buffer)
     const content = new TextDecoder('utf-8', { fatal: false }).decode(buffer)
 
     // Check for common malware patterns (very basic)
@@ -0,0 +1,67 @@
+import type { FileStorageService, UploadedFile, UploadStream } from '../types'
+import { copyFile, mkdir, open, rm, stat, writeFile } from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+
+export interface LocalFileStorageOptions {
+  directory: string
+  /**
+   * URL the directory is served under
+   * @default '/uploads'
+   */
+  baseUrl?: string
+}
+
+/**
+ * Keeps uploaded files in a directory on the local disk
+ */
+export class LocalFileStorage implements FileStorageService {
+  private directory: string
+  private baseUrl: string
+
+  constructor(options: LocalFileStorageOptions) {
+    this.directory = options.directory
+    this.baseUrl = (options.baseUrl ?? '/uploads').replace(/\/$/, '')
+  }
+
+  async store(file: UploadedFile, path: string = join(this.directory, file.filename)): Promise<string> {
+    await mkdir(dirname(path), { recursive: true })
+    if (file.buffer) {
+      await writeFile(path, new Uint8Array(file.buffer))
+    }
+    else {
+      await copyFile(file.path, path)
+    }
+    return path
+  }
+
+  async storeStream(file: UploadStream, path: string = join(this.directory, file.filename)): Promise<string> {
+    await mkdir(dirname(path), { recursive: true })
+    const handle = await open(path, 'w')
+
+    try {
+      for await (const chunk of file.stream) {
+        await handle.write(chunk)
+      }
+    }
+    catch (error) {
+      await handle.close()
+      await rm(path, { force: true })
+      throw error
+    }
+
+    await handle.close()
+    return path
+  }
+
+  async delete(path: string): Promise<void> {
+    await rm(path, { force: true })
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return stat(path).then(() => true, () => false)
+  }
+
+  getUrl(path: string): string {
+    return `${this.baseUrl}/${relative(this.directory, path).split('\\').join('/')}`
+  }
+}
@@ -1,19 +1,14 @@
-import type { EnhancedRequest, NextFunction } from '../types'
+import type { EnhancedRequest, FileStorageService, NextFunction, UploadedFile } from '../types'
 import type { FileSecurityConfig } from './file_security'
+import type { MultipartPart } from './multipart_parser'
 import { randomUUID } from 'node:crypto'
-import { existsSync, mkdirSync, writeFileSync } from 'node:fs'
-import { basename, extname, join } from 'node:path'
+import { existsSync, mkdirSync } from 'node:fs'
+import { basename, extname } from 'node:path'
 import FileSecurity from './file_security'
+import { LocalFileStorage } from './file_storage'
+import { MultipartError, MultipartParser } from './multipart_parser'
 
-export interface UploadedFile {
-  fieldName: string
-  originalName: string
-  filename: string
-  path: string
-  size: number
-  mimetype: string
-  buffer: ArrayBuffer
-}
+export type { UploadedFile } from '../types'
 
 export interface FileUploadConfig extends FileSecurityConfig {
   destination?: string
@@ -24,6 +19,11 @@ export interface FileUploadConfig extends FileSecurityConfig {
   preserveOriginalName?: boolean
   generateUniqueFilename?: boolean
   createDestination?: boolean
+  /**
+   * Where files are streamed to as they're received
+   * @default LocalFileStorage writing to `destination`
+   */
+  storage?: FileStorageService
 }
 
 export interface FileUploadOptions extends FileUploadConfig {
@@ -31,10 +31,12 @@ export interface FileUploadOptions extends FileUploadConfig {
 }
 
 export default class FileUpload {
-  private config: Required<FileUploadConfig>
+  private config: Required<Omit<FileUploadConfig, 'storage'>>
 
   private fileSecurity: FileSecurity
 
+  private storage: FileStorageService
+
   constructor(config: FileUploadConfig = {}) {
     this.config = {
       destination: config.destination || './uploads',
@@ -53,107 +55,67 @@ export default class FileUpload {
     }
 
     this.fileSecurity = new FileSecurity(config)
+    this.storage = config.storage ?? new LocalFileStorage({ directory: this.config.destination })
 
-    // Create destination directory if it doesn't exist
-    if (this.config.createDestination && !existsSync(this.config.destination)) {
+    // Create destination directory if it doesn't exist, unless files go to a custom storage
+    if (!config.storage && this.config.createDestination && !existsSync(this.config.destination)) {
       mkdirSync(this.config.destination, { recursive: true })
     }
   }
 
   async handle(req: EnhancedRequest, next: NextFunction): Promise<Response> {
-    const contentType = req.headers.get('content-type')
+    const parser = MultipartParser.fromRequest(req, {
+      maxFileSize: this.config.maxFileSize,
+      maxFiles: this.config.maxFiles,
+    })
 
-    if (!contentType || !contentType.includes('multipart/form-data')) {
+    if (!parser) {
       const response = await next()
       return response || new Response('Not Found', { status: 404 })
     }
 
-    try {
-      const formData = await req.formData()
-      const uploadedFiles: UploadedFile[] = []
-      const fields: Record<string, any> = {}
-
-      for (const [key, value] of formData.entries()) {
-        if (value instanceof File) {
-          // Validate file count
-          if (uploadedFiles.length >= this.config.maxFiles) {
-            return this.createErrorResponse(`Maximum ${this.config.maxFiles} files allowed`, 400)
-          }
-
-          // Validate file size
-          if (value.size > this.config.maxFileSize) {
-            return this.createErrorResponse(
-              `File ${value.name} exceeds maximum size of ${this.formatBytes(this.config.maxFileSize)}`,
-              413,
-            )
-          }
-
-          // Validate MIME type
-          if (this.config.allowedMimeTypes.length > 0) {
-            const baseType = value.type.split(';')[0] // Remove charset info
-            if (!this.config.allowedMimeTypes.includes(baseType)) {
-              return this.createErrorResponse(
-                `File type ${baseType} not allowed. Allowed types: ${this.config.allowedMimeTypes.join(', ')}`,
-                415,
-              )
-            }
-          }
-
-          // Validate file extension
-          const fileExtension = extname(value.name).toLowerCase()
-          if (this.config.allowedExtensions.length > 0 && !this.config.allowedExtensions.includes(fileExtension)) {
-            return this.createErrorResponse(
-              `File extension ${fileExtension} not allowed. Allowed extensions: ${this.config.allowedExtensions.join(', ')}`,
-              415,
-            )
-          }
-
-          // Generate filename
-          const filename = this.generateFilename(value.name)
-          const filePath = join(this.config.destination, filename)
-
-          // Convert file to buffer and save
-          const buffer = await value.arrayBuffer()
-
-          const uploadedFile: UploadedFile = {
-            fieldName: key,
-            originalName: value.name,
-            filename,
-            path: filePath,
-            size: value.size,
-            mimetype: value.type,
-            buffer,
-          }
+    const uploadedFiles: UploadedFile[] = []
+    const fields: Record<string, any> = {}
 
-          // Validate file security
-          const securityCheck = this.fileSecurity.validateFile(uploadedFile)
-          if (!securityCheck.isValid) {
-            return this.createErrorResponse(
-              `Security validation failed: ${securityCheck.errors.join(', ')}`,
-              400,
-            )
-          }
+    try {
+      for await (const part of parser.parts()) {
+        if (part.filename === undefined) {
+          const value = await new Response(part.stream).text()
 
-          writeFileSync(filePath, new Uint8Array(buffer))
-          uploadedFiles.push(uploadedFile)
-        }
-        else {
           // Handle regular form fields
-          if (fields[key]) {
+          if (fields[part.name]) {
             // Convert to array if multiple values
-            if (Array.isArray(fields[key])) {
-              fields[key].push(value)
+            if (Array.isArray(fields[part.name])) {
+              fields[part.name].push(value)
             }
             else {
-              fields[key] = [fields[key], value]
+              fields[part.name] = [fields[part.name], value]
             }
           }
           else {
-            fields[key] = value
+            fields[part.name] = value
           }
         }
+        // Browsers send file inputs left empty as a part without a filename
+        else if (part.filename !== '') {
+          uploadedFiles.push(await this.receiveFile(part, part.filename))
+        }
+      }
+    }
+    catch (error) {
+      // Don't keep the files of a rejected upload
+      await Promise.all(uploadedFiles.map(file => this.storage.delete(file.path).catch(() => {})))
+
+      if (error instanceof MultipartError) {
+        return this.createErrorResponse(error.message, error.status)
       }
+      return this.createErrorResponse(
+        `File upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        500,
+      )
+    }
 
+    try {
       // Attach files and fields to request
       Object.defineProperty(req, 'files', {
         value: uploadedFiles,
@@ -180,6 +142,108 @@ export default class FileUpload {
     }
   }
 
+  /**
+   * Validate a file part as it arrives and stream it to storage
+   */
+  private async receiveFile(part: MultipartPart, originalName: string): Promise<UploadedFile> {
+    // Validate MIME type
+    const mimetype = part.contentType
+    if (this.config.allowedMimeTypes.length > 0) {
+      const baseType = mimetype.split(';')[0] // Remove charset info
+      if (!this.config.allowedMimeTypes.includes(baseType)) {
+        throw new MultipartError(
+          `File type ${baseType} not allowed. Allowed types: ${this.config.allowedMimeTypes.join(', ')}`,
+          415,
+        )
+      }
+    }
+
+    // Validate file extension
+    const fileExtension = extname(originalName).toLowerCase()
+    if (this.config.allowedExtensions.length > 0 && !this.config.allowedExtensions.includes(fileExtension)) {
+      throw new MultipartError(
+        `File extension ${fileExtension} not allowed. Allowed extensions: ${this.config.allowedExtensions.join(', ')}`,
+        415,
+      )
+    }
+
+    // Validate file security on the first bytes, before anything is stored
+    const chunks = part.stream[Symbol.asyncIterator]()
+    const head = await this.readHead(chunks)
+    const securityCheck = this.fileSecurity.validateStart({ originalName, mimetype }, head)
+    if (!securityCheck.isValid) {
+      throw new MultipartError(`Security validation failed: ${securityCheck.errors.join(', ')}`, 400)
+    }
+
+    let size = 0
+    let tail = new Uint8Array(0)
+    const inspect = (chunk: Uint8Array): void => {
+      size += chunk.byteLength
+      const scanned = new Uint8Array(tail.byteLength + chunk.byteLength)
+      scanned.set(tail)
+      scanned.set(chunk, tail.byteLength)
+      if (this.fileSecurity.scanChunk(scanned)) {
+        throw new MultipartError('Security validation failed: Potential malware detected', 400)
+      }
+      tail = scanned.slice(-64)
+    }
+    inspect(head)
+
+    const filename = this.generateFilename(originalName)
+    const path = await this.storage.storeStream({
+      fieldName: part.name,
+      originalName,
+      filename,
+      mimetype,
+      stream: new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (head.byteLength > 0) {
+            controller.enqueue(head)
+          }
+        },
+        async pull(controller) {
+          const { done, value } = await chunks.next()
+          if (done) {
+            controller.close()
+            return
+          }
+          inspect(value)
+          controller.enqueue(value)
+        },
+        cancel: async () => {
+          await chunks.return?.()
+        },
+      }, { highWaterMark: 0 }),
+    })
+
+    return {
+      fieldName: part.name,
+      originalName,
+      filename,
+      path,
+      size,
+      mimetype,
+    }
+  }
+
+  /**
+   * Read enough of a file to check its signature
+   */
+  private async readHead(chunks: AsyncIterator<Uint8Array>): Promise<Uint8Array> {
+    let head = new Uint8Array(0)
+    while (head.byteLength < this.fileSecurity.signatureLength) {
+      const { done, value } = await chunks.next()
+      if (done) {
+        break
+      }
+      const joined = new Uint8Array(head.byteLength + value.byteLength)
+      joined.set(head)
+      joined.set(value, head.byteLength)
+      head = joined
+    }
+    return head
+  }
+
   private generateFilename(originalName: string): string {
     // Always sanitize the filename first
     const sanitizedName = this.fileSecurity.getSafeFilename(originalName)
@@ -201,15 +265,6 @@ export default class FileUpload {
     return sanitizedName
   }
 
-  private formatBytes(bytes: number): string {
-    if (bytes === 0)
-      return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`
-  }
-
   private createErrorResponse(message: string, status: number): Response {
     return new Response(
       JSON.stringify({ error: message }),
@@ -0,0 +1,315 @@
+/**
+ * Idempotency-Key Middleware
+ *
+ * Makes retried unsafe requests safe: the first response for an
+ * `Idempotency-Key` is recorded and replayed for every repeat, concurrent
+ * repeats get 409 while the original is still running, and reusing a key
+ * for a different request gets 422.
+ */
+
+import type { SQLiteCache } from '../cache/sqlite-cache'
+import type { EnhancedRequest, Middleware, NextFunction } from '../types'
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+
+export interface IdempotencyOptions {
+  /**
+   * Store used to record keys and responses
+   * @default a process-wide MemoryIdempotencyStore
+   */
+  store?: IdempotencyStore
+
+  /**
+   * Header carrying the idempotency key
+   * @default 'Idempotency-Key'
+   */
+  header?: string
+
+  /**
+   * Methods the middleware applies to
+   * @default ['POST', 'PATCH', 'DELETE']
+   */
+  methods?: string[]
+
+  /**
+   * Reject requests without a key instead of passing them through
+   * @default false
+   */
+  required?: boolean
+
+  /**
+   * How long completed responses are replayed, in seconds
+   * @default 86400 (24 hours)
+   */
+  ttl?: number
+
+  /**
+   * How long an in-flight request holds its key, in seconds. Protects
+   * against keys staying locked forever if a process dies mid-request.
+   * @default 60
+   */
+  lockTimeout?: number
+
+  /**
+   * Scope keys, e.g. per user or API client, so clients can't collide
+   */
+  scope?: (req: EnhancedRequest) => string | Promise<string>
+
+  /**
+   * Custom request fingerprint
+   * @default SHA-256 of method, path, query and body
+   */
+  fingerprint?: (req: EnhancedRequest) => string | Promise<string>
+}
+
+export interface IdempotencyRecord {
+  state: 'processing' | 'completed'
+  fingerprint: string
+  response?: {
+    status: number
+    statusText: string
+    headers: [string, string][] // pairs, so repeated headers like Set-Cookie are kept
+    body: string // base64
+  }
+  createdAt: number
+}
+
+export interface IdempotencyStore {
+  /**
+   * Get the record for a key, or null if it doesn't exist or has expired
+   */
+  get: (key: string) => Promise<IdempotencyRecord | null> | IdempotencyRecord | null
+
+  /**
+   * Store a record only if the key is free. Returns false when it was taken.
+   */
+  lock: (key: string, record: IdempotencyRecord, ttl: number) => Promise<boolean> | boolean
+
+  /**
+   * Store a record, replacing any existing one
+   */
+  set: (key: string, record: IdempotencyRecord, ttl: number) => Promise<void> | void
+
+  /**
+   * Remove a record
+   */
+  delete: (key: string) => Promise<void> | void
+}
+
+const MAX_KEY_LENGTH = 255
+
+// Attempts at claiming a key that keeps expiring between lock() and get()
+const MAX_LOCK_ATTEMPTS = 3
+
+/**
+ * In-memory idempotency store with lazy expiry
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, { record: IdempotencyRecord, expires: number }>()
+
+  get(key: string): IdempotencyRecord | null {
+    const entry = this.records.get(key)
+    if (!entry)
+      return null
+    if (Date.now() > entry.expires) {
+      this.records.delete(key)
+      return null
+    }
+    return entry.record
+  }
+
+  lock(key: string, record: IdempotencyRecord, ttl: number): boolean {
+    if (this.get(key)) {
+      return false
+    }
+    this.set(key, record, ttl)
+    return true
+  }
+
+  set(key: string, record: IdempotencyRecord, ttl: number): void {
+    this.records.set(key, { record, expires: Date.now() + ttl * 1000 })
+  }
+
+  delete(key: string): void {
+    this.records.delete(key)
+  }
+}
+
+/**
+ * Idempotency store backed by a SQLiteCache, so records survive restarts
+ * and are shared between workers using the same database file
+ */
+export class SQLiteIdempotencyStore implements IdempotencyStore {
+  constructor(private cache: SQLiteCache, private prefix: string = 'idempotency:') {}
+
+  get(key: string): IdempotencyRecord | null {
+    return this.cache.get<IdempotencyRecord>(this.prefix + key)
+  }
+
+  lock(key: string, record: IdempotencyRecord, ttl: number): boolean {
+    return this.cache.setnx(this.prefix + key, record, ttl)
+  }
+
+  set(key: string, record: IdempotencyRecord, ttl: number): void {
+    this.cache.set(this.prefix + key, record, ttl)
+  }
+
+  delete(key: string): void {
+    this.cache.delete(this.prefix + key)
+  }
+}
+
+/**
+ * Idempotency-Key Middleware
+ */
+export default class Idempotency implements Middleware {
+  // Shared default store so every instance sees the same keys
+  private static defaultStore: IdempotencyStore | null = null
+
+  private options: Required<Omit<IdempotencyOptions, 'scope' | 'fingerprint'>> & Pick<IdempotencyOptions, 'scope' | 'fingerprint'>
+
+  constructor(options: IdempotencyOptions = {}) {
+    this.options = {
+      store: options.store ?? (Idempotency.defaultStore ??= new MemoryIdempotencyStore()),
+      header: options.header ?? 'Idempotency-Key',
+      methods: (options.methods ?? ['POST', 'PATCH', 'DELETE']).map(method => method.toUpperCase()),
+      required: options.required ?? false,
+      ttl: options.ttl ?? 86400,
+      lockTimeout: options.lockTimeout ?? 60,
+      scope: options.scope,
+      fingerprint: options.fingerprint,
+    }
+  }
+
+  async handle(req: EnhancedRequest, next: NextFunction): Promise<Response | null> {
+    if (!this.options.methods.includes(req.method.toUpperCase())) {
+      return next()
+    }
+
+    const idempotencyKey = req.headers.get(this.options.header)
+    if (!idempotencyKey) {
+      return this.options.required
+        ? this.errorResponse(400, 'MISSING_IDEMPOTENCY_KEY', `Missing ${this.options.header} header`)
+        : next()
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      return this.errorResponse(400, 'INVALID_IDEMPOTENCY_KEY', `${this.options.header} must be at most ${MAX_KEY_LENGTH} characters`)
+    }
+
+    const { store } = this.options
+    const key = this.options.scope ? `${await this.options.scope(req)}:${idempotencyKey}` : idempotencyKey
+    const fingerprint = await this.fingerprintRequest(req)
+
+    let locked = false
+    let existing: IdempotencyRecord | null = null
+    for (let attempt = 0; attempt < MAX_LOCK_ATTEMPTS && !locked && !existing; attempt++) {
+      locked = await store.lock(key, { state: 'processing', fingerprint, createdAt: Date.now() }, this.options.lockTimeout)
+      // When the key expired between lock() and get(), try to claim it again
+      existing = locked ? null : await store.get(key)
+    }
+
+    if (!locked) {
+      if (!existing) {
+        return this.errorResponse(409, 'REQUEST_IN_PROGRESS', 'A request with this idempotency key is still being processed', { 'Retry-After': '1' })
+      }
+
+      if (existing.fingerprint !== fingerprint) {
+        return this.errorResponse(422, 'IDEMPOTENCY_KEY_REUSED', `${this.options.header} was already used for a different request`)
+      }
+
+      if (existing.state === 'processing' || !existing.response) {
+        return this.errorResponse(409, 'REQUEST_IN_PROGRESS', 'A request with this idempotency key is still being processed', { 'Retry-After': '1' })
+      }
+
+      return this.replay(existing.response)
+    }
+
+    let response: Response | null
+    try {
+      response = await next()
+    }
+    catch (error) {
+      // Release the key so the client can retry
+      await store.delete(key)
+      throw error
+    }
+
+    // Server errors are transient - let the client retry instead of replaying them
+    if (!response || response.status >= 500) {
+      await store.delete(key)
+      return response
+    }
+
+    const body = Buffer.from(await response.arrayBuffer())
+    const recorded = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers.entries()],
+      body: body.toString('base64'),
+    }
+
+    await store.set(key, { state: 'completed', fingerprint, response: recorded, createdAt: Date.now() }, this.options.ttl)
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+
+  private async fingerprintRequest(req: EnhancedRequest): Promise<string> {
+    if (this.options.fingerprint) {
+      return this.options.fingerprint(req)
+    }
+
+    const url = new URL(req.url)
+    let body = ''
+    if (!req.bodyUsed) {
+      body = await req.clone().text()
+    }
+    else if (req.jsonBody !== undefined || req.formBody !== undefined) {
+      body = JSON.stringify(req.jsonBody ?? req.formBody)
+    }
+
+    return createHash('sha256')
+      .update(`${req.method.toUpperCase()}\n${url.pathname}\n${url.search}\n${body}`)
+      .digest('hex')
+  }
+
+  private replay(recorded: NonNullable<IdempotencyRecord['response']>): Response {
+    const headers = new Headers(recorded.headers)
+    headers.set('Idempotent-Replayed', 'true')
+
+    return new Response(Buffer.from(recorded.body, 'base64'), {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers,
+    })
+  }
+
+  private errorResponse(status: number, code: string, message: string, headers: Record<string, string> = {}): Response {
+    return new Response(
+      JSON.stringify({
+        error: {
+          code,
+          message,
+        },
+      }),
+      {
+        status,
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+      },
+    )
+  }
+}
+
+/**
+ * Factory function to create idempotency middleware
+ */
+export function idempotency(options?: IdempotencyOptions): Idempotency {
+  return new Idempotency(options)
+}
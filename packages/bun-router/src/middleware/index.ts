@@ -1,3 +1,4 @@
+import type { SessionOptions } from './session'
 import Auth, {
   apiKeyAuth,
   basicAuth,
@@ -8,6 +9,7 @@ import Auth, {
   jwtAuth,
   oauth2Auth,
 } from './auth'
+import Compression from './compression'
 import Cors from './cors'
 import Csrf from './csrf'
 import JsonBody from './json_body'
@@ -18,6 +20,9 @@ import Session from './session'
 
 // Export middleware classes
 export { default as Auth } from './auth'
+export type { ApiKeyAuthOptions, JwtAuthOptions } from './auth'
+export { default as Compression, compression, negotiateEncoding } from './compression'
+export type { CompressionEncoding, CompressionOptions } from './compression'
 export { default as ContentSecurityPolicy } from './content_security_policy'
 export { contentSecurityPolicy } from './content_security_policy'
 export { default as Cors } from './cors'
@@ -25,12 +30,18 @@ export { default as Csrf } from './csrf'
 export { default as DDoSProtection } from './ddos_protection'
 export { ddosProtection } from './ddos_protection'
 export { default as FileSecurity } from './file_security'
+export { LocalFileStorage } from './file_storage'
+export type { LocalFileStorageOptions } from './file_storage'
 export { default as FileUpload } from './file_upload'
 export { documentUpload, fileUpload, imageUpload, multipleFileUpload, singleFileUpload } from './file_upload'
 export { default as Helmet } from './helmet'
+export { default as Idempotency, idempotency, MemoryIdempotencyStore, SQLiteIdempotencyStore } from './idempotency'
+export type { IdempotencyOptions, IdempotencyRecord, IdempotencyStore } from './idempotency'
 export { default as InputValidation } from './input_validation'
 export { inputValidation } from './input_validation'
 export { default as JsonBody } from './json_body'
+export { MultipartError, MultipartParser } from './multipart_parser'
+export type { MultipartParserOptions, MultipartPart } from './multipart_parser'
 export { default as PerformanceAlerting, performanceAlerting } from './performance_alerting'
 export { default as PerformanceDashboard, performanceDashboard } from './performance_dashboard'
 export { default as PerformanceMonitor, performanceMonitor } from './performance_monitor'
@@ -40,7 +51,7 @@ export { rateLimit } from './rate_limit'
 export { default as RequestId } from './request_id'
 export { InMemoryNonceStore, default as RequestSigning, requestSigning, signRequest, verifySignature } from './request_signing'
 export type { NonceStore, RequestSigningOptions, SignatureAlgorithm, SignedPart } from './request_signing'
-export { SignatureError } from './request_signing'
+export { computeSignature, SignatureError } from './request_signing'
 export { default as RequestTracer, requestTracer } from './request_tracer'
 export { default as Security } from './security'
 export { security } from './security'
@@ -48,6 +59,12 @@ export { default as SecuritySuite } from './security_suite'
 export { securitySuite } from './security_suite'
 
 export { default as Session } from './session'
+export type { SessionOptions } from './session'
+export { default as ValidateSignature } from './signed_urls'
+export { signed, signUrl, verifySignedUrl } from './signed_urls'
+export type { SignedUrlOptions, SignUrlOptions } from './signed_urls'
+export { FileTusStore, parseMetadata as parseTusMetadata, TUS_EXTENSIONS, TUS_VERSION, TusServer } from './tus'
+export type { FileTusStoreOptions, TusOptions, TusStore, TusUpload } from './tus'
 
 // Authentication helper exports
 export {
@@ -65,7 +82,7 @@ export {
 export const cors = (): Cors => new Cors()
 export const jsonBody = (): JsonBody => new JsonBody()
 export const requestId = (): RequestId => new RequestId()
-export const session = (): Session => new Session()
+export const session = (options?: SessionOptions): Session => new Session(options)
 export const csrf = (): Csrf => new Csrf()
 export function auth(): Auth {
   return new Auth({
@@ -80,6 +97,7 @@ let _middleware: Record<string, any> | null = null
 function getMiddleware(): Record<string, any> {
   if (!_middleware) {
     _middleware = {
+      'Middleware/Compression': new Compression(),
       'Middleware/Cors': new Cors(),
       'Middleware/JsonBody': new JsonBody(),
       'Middleware/RequestId': new RequestId(),
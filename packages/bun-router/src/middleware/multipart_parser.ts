@@ -0,0 +1,289 @@
+import { Buffer } from 'node:buffer'
+
+export interface MultipartParserOptions {
+  maxFileSize?: number // in bytes
+  maxFieldSize?: number // in bytes
+  maxFiles?: number
+  maxParts?: number
+  maxHeaderSize?: number // in bytes, per part
+}
+
+export interface MultipartPart {
+  name: string
+  filename?: string
+  contentType: string
+  headers: Record<string, string>
+  /**
+   * The part's body, read from the request as it's consumed
+   */
+  stream: ReadableStream<Uint8Array>
+}
+
+/**
+ * A malformed body or a limit being exceeded, with the status to respond with
+ */
+export class MultipartError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'MultipartError'
+  }
+}
+
+/**
+ * Incremental multipart/form-data parser. Parts are yielded one at a time and
+ * their bodies read from the request only as they're consumed, so files never
+ * have to fit in memory.
+ */
+export class MultipartParser {
+  private chunks: AsyncIterator<Uint8Array>
+  private options: Required<MultipartParserOptions>
+  private delimiter: Buffer
+  // The body starts with a delimiter that isn't preceded by a line break
+  private pending = Buffer.from('\r\n')
+  private ended = false
+  private partEnded = true
+  private failure: Error | null = null
+
+  constructor(body: ReadableStream<Uint8Array>, boundary: string, options: MultipartParserOptions = {}) {
+    this.chunks = body[Symbol.asyncIterator]()
+    this.delimiter = Buffer.from(`\r\n--${boundary}`)
+    this.options = {
+      maxFileSize: options.maxFileSize ?? 10 * 1024 * 1024, // 10MB default
+      maxFieldSize: options.maxFieldSize ?? 1024 * 1024,
+      maxFiles: options.maxFiles ?? 10,
+      maxParts: options.maxParts ?? 1000,
+      maxHeaderSize: options.maxHeaderSize ?? 16 * 1024,
+    }
+  }
+
+  /**
+   * Create a parser for a multipart/form-data request, or null for other requests
+   */
+  static fromRequest(req: Request, options: MultipartParserOptions = {}): MultipartParser | null {
+    const contentType = req.headers.get('content-type') ?? ''
+    const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i)
+    if (!contentType.toLowerCase().startsWith('multipart/form-data') || !boundary || !req.body) {
+      return null
+    }
+
+    return new MultipartParser(req.body, (boundary[1] ?? boundary[2]).trim(), options)
+  }
+
+  /**
+   * Yield the parts of the body. Each part must be consumed before the next
+   * is read; a part left unread is skipped.
+   */
+  async* parts(): AsyncGenerator<MultipartPart> {
+    let parts = 0
+    let files = 0
+
+    try {
+      await this.skipPreamble()
+
+      while (await this.nextPart()) {
+        if (++parts > this.options.maxParts) {
+          throw new MultipartError(`Maximum ${this.options.maxParts} parts allowed`, 413)
+        }
+
+        const headers = await this.readHeaders()
+        const disposition = parseDisposition(headers['content-disposition'] ?? '')
+        if (!disposition.name) {
+          throw new MultipartError('Part is missing a Content-Disposition name')
+        }
+
+        const isFile = disposition.filename !== undefined
+        if (isFile && ++files > this.options.maxFiles) {
+          throw new MultipartError(`Maximum ${this.options.maxFiles} files allowed`, 400)
+        }
+
+        const limit = isFile ? this.options.maxFileSize : this.options.maxFieldSize
+        const label = isFile ? `File ${disposition.filename}` : `Field ${disposition.name}`
+        const stream = this.partStream(limit, label)
+
+        yield {
+          name: disposition.name,
+          filename: disposition.filename,
+          contentType: headers['content-type'] ?? (isFile ? 'application/octet-stream' : 'text/plain'),
+          headers,
+          stream,
+        }
+
+        await this.skipPart()
+        if (this.failure) {
+          throw this.failure
+        }
+      }
+    }
+    finally {
+      await this.chunks.return?.()
+    }
+  }
+
+  private partStream(limit: number, label: string): ReadableStream<Uint8Array> {
+    this.partEnded = false
+    let size = 0
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const chunk = await this.readPartChunk()
+          if (!chunk) {
+            controller.close()
+            return
+          }
+
+          size += chunk.byteLength
+          if (size > limit) {
+            throw new MultipartError(`${label} exceeds maximum size of ${formatBytes(limit)}`, 413)
+          }
+          controller.enqueue(chunk)
+        }
+        catch (error) {
+          this.failure = error as Error
+          controller.error(error)
+        }
+      },
+      cancel: () => this.skipPart(),
+    }, { highWaterMark: 0 })
+  }
+
+  /**
+   * Read past the rest of the current part so the next one can be read
+   */
+  private async skipPart(): Promise<void> {
+    try {
+      while (await this.readPartChunk()) {
+        // Discarded
+      }
+    }
+    catch (error) {
+      this.failure ??= error as Error
+    }
+  }
+
+  private async skipPreamble(): Promise<void> {
+    while (!this.pending.includes(this.delimiter)) {
+      // Keep enough of the preamble to find a delimiter split across reads
+      this.pending = this.pending.subarray(Math.max(0, this.pending.length - this.delimiter.length + 1))
+      if (!await this.fill()) {
+        throw new MultipartError('Multipart body has no parts')
+      }
+    }
+    this.pending = this.pending.subarray(this.pending.indexOf(this.delimiter) + this.delimiter.length)
+  }
+
+  /**
+   * After a delimiter: whether another part follows or the body has ended
+   */
+  private async nextPart(): Promise<boolean> {
+    while (this.pending.length < 2) {
+      if (!await this.fill()) {
+        throw new MultipartError('Unexpected end of multipart body')
+      }
+    }
+
+    if (this.pending[0] === 0x2D && this.pending[1] === 0x2D) {
+      return false
+    }
+
+    while (!this.pending.includes('\r\n')) {
+      if (!await this.fill()) {
+        throw new MultipartError('Unexpected end of multipart body')
+      }
+    }
+    this.pending = this.pending.subarray(this.pending.indexOf('\r\n') + 2)
+    return true
+  }
+
+  private async readHeaders(): Promise<Record<string, string>> {
+    while (!this.pending.includes('\r\n\r\n') && !this.pending.subarray(0, 2).equals(Buffer.from('\r\n'))) {
+      if (this.pending.length > this.options.maxHeaderSize) {
+        throw new MultipartError('Part headers too large', 431)
+      }
+      if (!await this.fill()) {
+        throw new MultipartError('Unexpected end of multipart body')
+      }
+    }
+
+    // A part without headers starts right away with the blank line
+    const end = this.pending.subarray(0, 2).equals(Buffer.from('\r\n')) ? 0 : this.pending.indexOf('\r\n\r\n') + 2
+    const headers: Record<string, string> = {}
+    for (const line of this.pending.subarray(0, end).toString('utf8').split('\r\n')) {
+      const colon = line.indexOf(':')
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim()
+      }
+    }
+
+    this.pending = this.pending.subarray(end + 2)
+    return headers
+  }
+
+  /**
+   * Next chunk of the current part's body, or null once the part has ended
+   */
+  private async readPartChunk(): Promise<Uint8Array | null> {
+    if (this.partEnded) {
+      return null
+    }
+
+    while (true) {
+      const index = this.pending.indexOf(this.delimiter)
+      if (index !== -1) {
+        const chunk = this.pending.subarray(0, index)
+        this.pending = this.pending.subarray(index + this.delimiter.length)
+        this.partEnded = true
+        return chunk.length > 0 ? new Uint8Array(chunk) : null
+      }
+
+      // Hold back what could be the start of a delimiter split across reads
+      const safe = this.pending.length - this.delimiter.length + 1
+      if (safe > 0) {
+        const chunk = this.pending.subarray(0, safe)
+        this.pending = this.pending.subarray(safe)
+        return new Uint8Array(chunk)
+      }
+
+      if (!await this.fill()) {
+        throw new MultipartError('Unexpected end of multipart body')
+      }
+    }
+  }
+
+  private async fill(): Promise<boolean> {
+    if (this.ended) {
+      return false
+    }
+
+    const { done, value } = await this.chunks.next()
+    if (done) {
+      this.ended = true
+      return false
+    }
+
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, value]) : Buffer.from(value)
+    return true
+  }
+}
+
+function parseDisposition(header: string): { name?: string, filename?: string } {
+  const params: Record<string, string> = {}
+  for (const match of header.matchAll(/;\s*([\w*]+)=(?:"((?:\\.|[^"\\])*)"|([^;]*))/g)) {
+    params[match[1].toLowerCase()] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim()
+  }
+
+  const encoded = params['filename*']?.match(/^utf-8''(.*)$/i)
+  return {
+    name: params.name,
+    filename: encoded ? decodeURIComponent(encoded[1]) : params.filename,
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0)
+    return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`
+}
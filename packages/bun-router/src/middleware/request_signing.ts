@@ -127,16 +127,17 @@ export type SignatureErrorCode =
   | 'FUTURE_TIMESTAMP'
   | 'NONCE_REUSED'
   | 'SIGNATURE_MISMATCH'
+  | 'EXPIRED_SIGNATURE'
 
 export class SignatureError extends Error {
   public readonly code: SignatureErrorCode
   public readonly statusCode: number
 
-  constructor(code: SignatureErrorCode, message: string) {
+  constructor(code: SignatureErrorCode, message: string, statusCode: number = 401) {
     super(message)
     this.name = 'SignatureError'
     this.code = code
-    this.statusCode = 401
+    this.statusCode = statusCode
   }
 }
 
@@ -391,33 +392,7 @@ export default class RequestSigning implements Middleware {
   }
 
   private async calculateSignature(data: string, secret: string): Promise<string> {
-    const encoder = new TextEncoder()
-    const keyData = encoder.encode(secret)
-    const messageData = encoder.encode(data)
-
-    const algorithmName = {
-      sha256: 'SHA-256',
-      sha384: 'SHA-384',
-      sha512: 'SHA-512',
-    }[this.options.algorithm]
-
-    const key = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: algorithmName },
-      false,
-      ['sign'],
-    )
-
-    const signature = await crypto.subtle.sign('HMAC', key, messageData)
-
-    if (this.options.encoding === 'base64') {
-      return btoa(String.fromCharCode(...new Uint8Array(signature)))
-    }
-
-    return Array.from(new Uint8Array(signature))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('')
+    return computeSignature(data, secret, this.options.algorithm, this.options.encoding)
   }
 
   private timingSafeEqual(a: string, b: string): boolean {
@@ -531,36 +506,7 @@ export async function signRequest(
 
   const stringToSign = parts.join('\n')
 
-  // Calculate signature
-  const encoder = new TextEncoder()
-  const keyData = encoder.encode(secret)
-  const messageData = encoder.encode(stringToSign)
-
-  const algorithmName = {
-    sha256: 'SHA-256',
-    sha384: 'SHA-384',
-    sha512: 'SHA-512',
-  }[algorithm]
-
-  const key = await crypto.subtle.importKey(
-    'raw',
-    keyData,
-    { name: 'HMAC', hash: algorithmName },
-    false,
-    ['sign'],
-  )
-
-  const signatureBuffer = await crypto.subtle.sign('HMAC', key, messageData)
-
-  let signature: string
-  if (encoding === 'base64') {
-    signature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)))
-  }
-  else {
-    signature = Array.from(new Uint8Array(signatureBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('')
-  }
+  const signature = await computeSignature(stringToSign, secret, algorithm, encoding)
 
   // Create new request with signature headers
   const headers = new Headers(request.headers)
@@ -592,9 +538,33 @@ export async function verifySignature(
   algorithm: SignatureAlgorithm = 'sha256',
   encoding: 'hex' | 'base64' = 'hex',
 ): Promise<boolean> {
+  const expectedSignature = await computeSignature(stringToSign, secret, algorithm, encoding)
+
+  // Timing-safe comparison
+  if (signature.length !== expectedSignature.length) {
+    return false
+  }
+
+  let result = 0
+  for (let i = 0; i < signature.length; i++) {
+    result |= signature.charCodeAt(i) ^ expectedSignature.charCodeAt(i)
+  }
+
+  return result === 0
+}
+
+/**
+ * Calculate an HMAC signature for a string (utility function)
+ */
+export async function computeSignature(
+  data: string,
+  secret: string,
+  algorithm: SignatureAlgorithm = 'sha256',
+  encoding: 'hex' | 'base64' = 'hex',
+): Promise<string> {
   const encoder = new TextEncoder()
   const keyData = encoder.encode(secret)
-  const messageData = encoder.encode(stringToSign)
+  const messageData = encoder.encode(data)
 
   const algorithmName = {
     sha256: 'SHA-256',
@@ -610,27 +580,13 @@ export async function verifySignature(
     ['sign'],
   )
 
-  const signatureBuffer = await crypto.subtle.sign('HMAC', key, messageData)
+  const signature = await crypto.subtle.sign('HMAC', key, messageData)
 
-  let expectedSignature: string
   if (encoding === 'base64') {
-    expectedSignature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)))
-  }
-  else {
-    expectedSignature = Array.from(new Uint8Array(signatureBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('')
-  }
-
-  // Timing-safe comparison
-  if (signature.length !== expectedSignature.length) {
-    return false
+    return btoa(String.fromCharCode(...new Uint8Array(signature)))
   }
 
-  let result = 0
-  for (let i = 0; i < signature.length; i++) {
-    result |= signature.charCodeAt(i) ^ expectedSignature.charCodeAt(i)
-  }
-
-  return result === 0
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
 }
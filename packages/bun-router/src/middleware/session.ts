@@ -1,75 +1,252 @@
-import type { EnhancedRequest, NextFunction } from '../types'
+import type { CookieOptions, EnhancedRequest, NextFunction, SessionData, SessionStore } from '../types'
+import { randomBytes } from 'node:crypto'
 import { config } from '../config'
+import { createSessionStore, DEFAULT_SESSION_TTL } from '../session/stores'
+
+export interface SessionOptions {
+  /**
+   * Store used to persist sessions. Defaults to the store described by
+   * `security.auth.session.store`, or a process-wide memory store.
+   */
+  store?: SessionStore
+
+  /**
+   * Session cookie name
+   * @default 'session'
+   */
+  name?: string
+
+  /**
+   * Session lifetime in seconds
+   * @default cookie.maxAge from config, or 86400
+   */
+  ttl?: number
+
+  /**
+   * Re-issue the session cookie on every response to slide its expiry
+   * @default true
+   */
+  rolling?: boolean
+
+  /**
+   * Persist sessions that were never written to
+   * @default the `saveUninitialized` session config, or true
+   */
+  saveUninitialized?: boolean
+
+  /**
+   * Options applied to the session cookie
+   */
+  cookie?: CookieOptions
+
+  /**
+   * Odds of pruning expired sessions on a request, as [chances, outOf]
+   * @default [2, 100]
+   */
+  gcLottery?: [number, number] | false
+
+  /**
+   * Custom session ID generator
+   */
+  genid?: () => string
+}
+
+const SESSION_ID_PATTERN = /^[\w-]{1,128}$/
 
 export default class Session {
-  // Simple in-memory session store
-  private static sessions: Map<string, any> = new Map()
+  // Shared default store so every Session instance sees the same sessions
+  private static defaultStore: SessionStore | null = null
+
+  private options: SessionOptions
+
+  constructor(options: SessionOptions = {}) {
+    this.options = options
+  }
 
   async handle(req: EnhancedRequest, next: NextFunction): Promise<Response> {
     const sessionConfig = config.server?.security?.auth?.session
+    const store = this.getStore()
+    const name = this.options.name || sessionConfig?.name || 'session'
+    const ttl = this.options.ttl
+      ?? (sessionConfig?.cookie?.maxAge ? Math.floor(sessionConfig.cookie.maxAge / 1000) : DEFAULT_SESSION_TTL)
+    const rolling = this.options.rolling ?? sessionConfig?.rolling ?? true
+    const saveUninitialized = this.options.saveUninitialized ?? sessionConfig?.saveUninitialized ?? true
+
+    // Only adopt a client-supplied ID when the store knows it (prevents session fixation)
+    const cookieId = this.readSessionCookie(req, name, this.cookieOptions(ttl))
+    const stored = cookieId && SESSION_ID_PATTERN.test(cookieId) ? await store.get(cookieId) : null
+
+    let sessionId = stored && cookieId ? cookieId : this.generateSessionId()
+    const isNew = !stored
+    let regenerated = false
+    let destroyed = false
+
+    req.session = this.createSession(stored || {}, {
+      id: () => sessionId,
+      regenerate: async () => {
+        await store.destroy(sessionId)
+        sessionId = this.generateSessionId()
+        regenerated = true
+      },
+      destroy: async () => {
+        await store.destroy(sessionId)
+        destroyed = true
+      },
+      save: async () => {
+        await store.set(sessionId, this.snapshot(req.session), ttl)
+      },
+      touch: async () => {
+        await store.touch?.(sessionId, this.snapshot(req.session), ttl)
+      },
+    })
 
-    // Initialize an empty session object
-    req.session = {}
+    this.collectGarbage(store)
 
-    // Get session ID from cookie if it exists
-    const sessionId = req.cookies?.get(sessionConfig?.name || 'session') || this.generateSessionId()
+    // Continue to next middleware
+    const response = await next()
 
-    // If there's a session ID, retrieve the session data
-    if (sessionId && Session.sessions.has(sessionId)) {
-      req.session = Session.sessions.get(sessionId)
+    if (destroyed) {
+      if (!req._cookiesToDelete) {
+        req._cookiesToDelete = []
+      }
+      const { path, domain } = this.cookieOptions(ttl)
+      req._cookiesToDelete.push({ name, options: { path, domain } })
+      return response || new Response('Not Found', { status: 404 })
     }
 
-    // Continue to next middleware
-    const response = await next()
+    const data = this.snapshot(req.session)
+    if (isNew && !saveUninitialized && Object.keys(data).length === 0) {
+      return response || new Response('Not Found', { status: 404 })
+    }
 
     // Store session data
-    Session.sessions.set(sessionId, req.session)
+    await store.set(sessionId, data, ttl)
 
-    // Set session cookie
-    const cookieOptions: any = {
-      maxAge: sessionConfig?.cookie?.maxAge || 86400000,
-      path: sessionConfig?.cookie?.path || '/',
+    // Add cookie to response via _cookiesToSet array
+    if (isNew || regenerated || rolling) {
+      if (!req._cookiesToSet) {
+        req._cookiesToSet = []
+      }
+      req._cookiesToSet.push({
+        name,
+        value: sessionId,
+        options: this.cookieOptions(ttl),
+      })
     }
 
-    if (sessionConfig?.cookie?.httpOnly) {
-      cookieOptions.httpOnly = true
+    return response || new Response('Not Found', { status: 404 })
+  }
+
+  /**
+   * Resolve the store for this middleware instance
+   */
+  private getStore(): SessionStore {
+    if (this.options.store) {
+      return this.options.store
     }
 
-    if (sessionConfig?.cookie?.secure) {
-      cookieOptions.secure = true
+    if (!Session.defaultStore) {
+      const sessionConfig = config.server?.security?.auth?.session
+      const ttl = sessionConfig?.cookie?.maxAge ? Math.floor(sessionConfig.cookie.maxAge / 1000) : undefined
+      Session.defaultStore = createSessionStore(sessionConfig?.store, ttl)
     }
 
-    if (sessionConfig?.cookie?.sameSite) {
-      cookieOptions.sameSite = sessionConfig.cookie.sameSite
+    return Session.defaultStore
+  }
+
+  /**
+   * Build the request session object with non-enumerable lifecycle helpers
+   */
+  private createSession(
+    data: SessionData,
+    helpers: {
+      id: () => string
+      regenerate: () => Promise<void>
+      destroy: () => Promise<void>
+      save: () => Promise<void>
+      touch: () => Promise<void>
+    },
+  ): SessionData {
+    const session: SessionData = { ...data }
+
+    Object.defineProperties(session, {
+      id: { get: helpers.id, enumerable: false, configurable: true },
+      regenerate: { value: helpers.regenerate, enumerable: false, configurable: true },
+      destroy: { value: helpers.destroy, enumerable: false, configurable: true },
+      save: { value: helpers.save, enumerable: false, configurable: true },
+      touch: { value: helpers.touch, enumerable: false, configurable: true },
+    })
+
+    return session
+  }
+
+  /**
+   * Extract the persistable data from a session object
+   */
+  private snapshot(session: SessionData | undefined): SessionData {
+    const data: SessionData = {}
+    for (const [key, value] of Object.entries(session || {})) {
+      if (key !== 'id' && typeof value !== 'function') {
+        data[key] = value
+      }
     }
+    return data
+  }
 
-    // Add cookie to response via _cookiesToSet array
-    if (!req._cookiesToSet) {
-      req._cookiesToSet = []
+  /**
+   * Prune expired sessions according to the GC lottery
+   */
+  private collectGarbage(store: SessionStore): void {
+    const lottery = this.options.gcLottery ?? [2, 100]
+    if (!lottery || !store.prune || Math.random() * lottery[1] >= lottery[0]) {
+      return
     }
-    req._cookiesToSet.push({
-      name: sessionConfig?.name || 'session',
-      value: sessionId,
-      options: cookieOptions,
+
+    store.prune().catch((error) => {
+      console.error('[Session] Failed to prune expired sessions:', error)
     })
+  }
 
-    return response || new Response('Not Found', { status: 404 })
+  /**
+   * Read the session ID, honouring signed and encrypted cookie options
+   */
+  private readSessionCookie(req: EnhancedRequest, name: string, options: CookieOptions): string | undefined {
+    if (options.encrypted) {
+      return req.cookies?.getEncrypted(name)
+    }
+    if (options.signed) {
+      return req.cookies?.getSigned(name)
+    }
+    return req.cookies?.get(name)
   }
 
-  private parseCookies(req: Request): Record<string, string> {
-    const cookieHeader = req.headers.get('cookie')
-    if (!cookieHeader)
-      return {}
+  private cookieOptions(ttl: number): CookieOptions {
+    const cookieConfig = config.server?.security?.auth?.session?.cookie
+    const cookieOptions: CookieOptions = {
+      maxAge: ttl,
+      path: cookieConfig?.path || '/',
+    }
+
+    if (cookieConfig?.domain) {
+      cookieOptions.domain = cookieConfig.domain
+    }
+
+    if (cookieConfig?.httpOnly) {
+      cookieOptions.httpOnly = true
+    }
+
+    if (cookieConfig?.secure) {
+      cookieOptions.secure = true
+    }
+
+    if (cookieConfig?.sameSite) {
+      cookieOptions.sameSite = cookieConfig.sameSite
+    }
 
-    return cookieHeader.split(';').reduce((cookies, cookie) => {
-      const [name, value] = cookie.trim().split('=')
-      cookies[name] = value
-      return cookies
-    }, {} as Record<string, string>)
+    return { ...cookieOptions, ...this.options.cookie }
   }
 
   private generateSessionId(): string {
-    return Array.from({ length: 32 }, () =>
-      Math.floor(Math.random() * 16).toString(16)).join('')
+    return this.options.genid ? this.options.genid() : randomBytes(20).toString('hex')
   }
 }
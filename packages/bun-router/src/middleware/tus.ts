@@ -0,0 +1,499 @@
+/**
+ * tus Resumable Uploads
+ *
+ * Server side of the tus 1.0.0 core protocol with the creation, expiration
+ * and termination extensions. Clients create an upload, append to it with
+ * PATCH requests and, after a dropped connection, ask for the offset the
+ * server has with HEAD and continue from there.
+ *
+ * @see https://tus.io/protocols/resumable-upload
+ */
+
+import type { EnhancedRequest } from '../types'
+import type { FileSecurityConfig } from './file_security'
+import { Buffer } from 'node:buffer'
+import { randomUUID } from 'node:crypto'
+import { createReadStream } from 'node:fs'
+import { mkdir, open, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
+import FileSecurity from './file_security'
+
+export const TUS_VERSION = '1.0.0'
+
+export const TUS_EXTENSIONS = ['creation', 'expiration', 'termination']
+
+export interface TusUpload {
+  id: string
+  /**
+   * Total size declared by the client, in bytes
+   */
+  length: number
+  /**
+   * Bytes received so far
+   */
+  offset: number
+  /**
+   * Decoded `Upload-Metadata`, e.g. `filename` and `filetype`
+   */
+  metadata: Record<string, string>
+  createdAt: number
+  /**
+   * When an unfinished upload is discarded, as a timestamp in milliseconds
+   */
+  expiresAt?: number
+  /**
+   * Where the store keeps the file, if it's on the local disk
+   */
+  path?: string
+}
+
+/**
+ * Storage for uploads in progress
+ */
+export interface TusStore {
+  create: (upload: TusUpload) => Promise<TusUpload>
+  get: (id: string) => Promise<TusUpload | null>
+  /**
+   * Append a request body to an upload, stopping after `limit` bytes.
+   * Resolves with the new offset, keeping what was received even when the
+   * stream errors part way, as the client resumes from there.
+   */
+  append: (id: string, stream: ReadableStream<Uint8Array>, limit: number) => Promise<number>
+  read: (id: string) => ReadableStream<Uint8Array>
+  remove: (id: string) => Promise<void>
+  list: () => Promise<TusUpload[]>
+}
+
+export interface TusOptions {
+  /**
+   * @default FileTusStore writing to `directory`
+   */
+  store?: TusStore
+
+  /**
+   * Directory of the default store
+   * @default './uploads/tus'
+   */
+  directory?: string
+
+  /**
+   * Largest upload accepted, in bytes
+   */
+  maxSize?: number
+
+  /**
+   * Seconds an unfinished upload is kept after it was created, 0 to keep them until removed
+   * @default 86400 (24 hours)
+   */
+  expiration?: number
+
+  /**
+   * Validation run on finished uploads, using the `filename` and `filetype`
+   * metadata. Pass false to turn it off.
+   */
+  security?: FileSecurityConfig | false
+
+  /**
+   * Called before an upload is created. Throw to reject it.
+   */
+  onCreate?: (upload: TusUpload, req: EnhancedRequest) => void | Promise<void>
+
+  /**
+   * Called once all bytes of an upload were received and validated
+   */
+  onComplete?: (upload: TusUpload, req: EnhancedRequest) => void | Promise<void>
+}
+
+export interface FileTusStoreOptions {
+  directory: string
+}
+
+/**
+ * Keeps uploads in progress on the local disk, next to a JSON file with their state
+ */
+export class FileTusStore implements TusStore {
+  private directory: string
+
+  constructor(options: FileTusStoreOptions) {
+    this.directory = options.directory
+  }
+
+  async create(upload: TusUpload): Promise<TusUpload> {
+    await mkdir(this.directory, { recursive: true })
+    const created = { ...upload, path: this.filePath(upload.id) }
+    await writeFile(created.path, new Uint8Array(0))
+    await this.save(created)
+    return created
+  }
+
+  async get(id: string): Promise<TusUpload | null> {
+    if (!/^[\w-]+$/.test(id)) {
+      return null
+    }
+
+    try {
+      const upload = JSON.parse(await readFile(this.infoPath(id), 'utf8')) as TusUpload
+      // The file is the source of truth for the offset should a write have been cut short
+      return { ...upload, offset: (await stat(this.filePath(id))).size }
+    }
+    catch {
+      return null
+    }
+  }
+
+  async append(id: string, stream: ReadableStream<Uint8Array>, limit: number): Promise<number> {
+    const upload = await this.get(id)
+    if (!upload) {
+      throw new Error(`Upload ${id} not found`)
+    }
+
+    const handle = await open(this.filePath(id), 'a')
+    let offset = upload.offset
+    try {
+      for await (const chunk of stream) {
+        const bytes = chunk.subarray(0, limit - (offset - upload.offset))
+        await handle.write(bytes)
+        offset += bytes.byteLength
+        if (bytes.byteLength < chunk.byteLength) {
+          break
+        }
+      }
+    }
+    catch {
+      // Keep what was received, the client resumes from the new offset
+    }
+    finally {
+      await handle.close()
+    }
+
+    await this.save({ ...upload, offset })
+    return offset
+  }
+
+  read(id: string): ReadableStream<Uint8Array> {
+    return Readable.toWeb(createReadStream(this.filePath(id))) as ReadableStream<Uint8Array>
+  }
+
+  async remove(id: string): Promise<void> {
+    await rm(this.filePath(id), { force: true })
+    await rm(this.infoPath(id), { force: true })
+  }
+
+  async list(): Promise<TusUpload[]> {
+    const entries = await readdir(this.directory).catch(() => [] as string[])
+    const uploads = await Promise.all(entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => this.get(entry.slice(0, -'.json'.length))))
+    return uploads.filter(upload => upload !== null)
+  }
+
+  private async save(upload: TusUpload): Promise<void> {
+    await writeFile(this.infoPath(upload.id), JSON.stringify(upload))
+  }
+
+  private filePath(id: string): string {
+    return join(this.directory, id)
+  }
+
+  private infoPath(id: string): string {
+    return join(this.directory, `${id}.json`)
+  }
+}
+
+/**
+ * Handles the requests of a tus endpoint
+ */
+export class TusServer {
+  readonly store: TusStore
+  private options: TusOptions
+  private fileSecurity: FileSecurity | null
+  private locked = new Set<string>()
+
+  constructor(options: TusOptions = {}) {
+    this.options = options
+    this.store = options.store ?? new FileTusStore({ directory: options.directory ?? './uploads/tus' })
+    this.fileSecurity = options.security === false ? null : new FileSecurity(options.security)
+  }
+
+  /**
+   * Advertise the protocol version and extensions
+   */
+  handleOptions(): Response {
+    const headers = this.headers({
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS.join(','),
+    })
+    if (this.options.maxSize) {
+      headers['Tus-Max-Size'] = String(this.options.maxSize)
+    }
+    return new Response(null, { status: 204, headers })
+  }
+
+  /**
+   * Create an upload (creation extension)
+   */
+  async handleCreate(req: EnhancedRequest, location: (id: string) => string): Promise<Response> {
+    const unsupported = this.checkVersion(req)
+    if (unsupported) {
+      return unsupported
+    }
+
+    const lengthHeader = req.headers.get('upload-length')
+    const length = Number(lengthHeader)
+    if (lengthHeader === null || !Number.isSafeInteger(length) || length < 0) {
+      return this.error('Upload-Length must be a non-negative integer', 400)
+    }
+    if (this.options.maxSize && length > this.options.maxSize) {
+      return this.error(`Upload exceeds the maximum size of ${this.options.maxSize} bytes`, 413)
+    }
+
+    const metadata = parseMetadata(req.headers.get('upload-metadata'))
+    if (!metadata) {
+      return this.error('Invalid Upload-Metadata', 400)
+    }
+
+    const expiration = this.options.expiration ?? 86400
+    const createdAt = Date.now()
+    const upload: TusUpload = {
+      id: randomUUID().replace(/-/g, ''),
+      length,
+      offset: 0,
+      metadata,
+      createdAt,
+      expiresAt: expiration > 0 ? createdAt + expiration * 1000 : undefined,
+    }
+
+    await this.options.onCreate?.(upload, req)
+    const created = await this.store.create(upload)
+
+    if (created.length === 0) {
+      const rejected = await this.complete(created, req)
+      if (rejected) {
+        return rejected
+      }
+    }
+
+    return new Response(null, {
+      status: 201,
+      headers: this.headers({ Location: location(created.id) }, created),
+    })
+  }
+
+  /**
+   * Report how much of an upload the server has
+   */
+  async handleHead(req: EnhancedRequest, id: string): Promise<Response> {
+    const found = await this.find(req, id)
+    if (found instanceof Response) {
+      return found
+    }
+
+    return new Response(null, {
+      status: 200,
+      headers: this.headers({
+        'Upload-Offset': String(found.offset),
+        'Upload-Length': String(found.length),
+        'Cache-Control': 'no-store',
+        ...(Object.keys(found.metadata).length > 0 ? { 'Upload-Metadata': formatMetadata(found.metadata) } : {}),
+      }, found),
+    })
+  }
+
+  /**
+   * Append the request body to an upload
+   */
+  async handlePatch(req: EnhancedRequest, id: string): Promise<Response> {
+    const found = await this.find(req, id)
+    if (found instanceof Response) {
+      return found
+    }
+
+    if (req.headers.get('content-type') !== 'application/offset+octet-stream') {
+      return this.error('Content-Type must be application/offset+octet-stream', 415)
+    }
+    const offsetHeader = req.headers.get('upload-offset')
+    if (offsetHeader === null || Number(offsetHeader) !== found.offset) {
+      return this.error(`Upload-Offset does not match the current offset ${found.offset}`, 409)
+    }
+    if (Number(req.headers.get('content-length') ?? 0) > found.length - found.offset) {
+      return this.error('Request body exceeds the Upload-Length', 413)
+    }
+    // Nothing is left to write to a finished upload, so it isn't validated or completed again
+    if (found.offset === found.length) {
+      return new Response(null, {
+        status: 204,
+        headers: this.headers({ 'Upload-Offset': String(found.offset) }, found),
+      })
+    }
+    if (this.locked.has(id)) {
+      return this.error('Upload is being written by another request', 423)
+    }
+
+    this.locked.add(id)
+    try {
+      const offset = req.body
+        ? await this.store.append(id, req.body, found.length - found.offset)
+        : found.offset
+      const upload = { ...found, offset }
+
+      if (offset === upload.length) {
+        const rejected = await this.complete(upload, req)
+        if (rejected) {
+          return rejected
+        }
+      }
+
+      return new Response(null, {
+        status: 204,
+        headers: this.headers({ 'Upload-Offset': String(offset) }, upload),
+      })
+    }
+    finally {
+      this.locked.delete(id)
+    }
+  }
+
+  /**
+   * Discard an upload (termination extension)
+   */
+  async handleDelete(req: EnhancedRequest, id: string): Promise<Response> {
+    const found = await this.find(req, id)
+    if (found instanceof Response) {
+      return found
+    }
+    if (this.locked.has(id)) {
+      return this.error('Upload is being written by another request', 423)
+    }
+
+    await this.store.remove(id)
+    return new Response(null, { status: 204, headers: this.headers() })
+  }
+
+  /**
+   * Remove unfinished uploads past their expiry. Call it on a schedule to
+   * reclaim the space of uploads clients never came back for.
+   */
+  async removeExpired(now: number = Date.now()): Promise<number> {
+    const expired = (await this.store.list())
+      .filter(upload => upload.offset < upload.length && upload.expiresAt && upload.expiresAt <= now)
+    await Promise.all(expired.map(upload => this.store.remove(upload.id)))
+    return expired.length
+  }
+
+  private async find(req: EnhancedRequest, id: string): Promise<TusUpload | Response> {
+    const unsupported = this.checkVersion(req)
+    if (unsupported) {
+      return unsupported
+    }
+
+    const upload = await this.store.get(id)
+    if (!upload) {
+      return this.error('Upload not found', 404)
+    }
+
+    if (upload.offset < upload.length && upload.expiresAt && upload.expiresAt <= Date.now()) {
+      await this.store.remove(id)
+      return this.error('Upload expired', 410)
+    }
+
+    return upload
+  }
+
+  /**
+   * Validate a finished upload and run the completion hook. Returns the
+   * response to send instead when the upload is rejected.
+   */
+  private async complete(upload: TusUpload, req: EnhancedRequest): Promise<Response | null> {
+    if (this.fileSecurity) {
+      const errors = await this.validate(upload, this.fileSecurity)
+      if (errors.length > 0) {
+        await this.store.remove(upload.id)
+        return this.error(`Security validation failed: ${errors.join(', ')}`, 400)
+      }
+    }
+
+    await this.options.onComplete?.(upload, req)
+    return null
+  }
+
+  private async validate(upload: TusUpload, fileSecurity: FileSecurity): Promise<string[]> {
+    const file = {
+      originalName: upload.metadata.filename ?? upload.id,
+      mimetype: upload.metadata.filetype ?? 'application/octet-stream',
+    }
+
+    let head = new Uint8Array(0)
+    let tail = new Uint8Array(0)
+    let malware = false
+    for await (const chunk of this.store.read(upload.id)) {
+      if (head.byteLength < fileSecurity.signatureLength) {
+        head = Buffer.concat([head, chunk]).subarray(0, fileSecurity.signatureLength)
+      }
+      const scanned = Buffer.concat([tail, chunk])
+      malware ||= fileSecurity.scanChunk(scanned)
+      tail = scanned.subarray(-64)
+    }
+
+    const errors = fileSecurity.validateStart(file, head).errors
+    if (malware) {
+      errors.push('Potential malware detected')
+    }
+    return errors
+  }
+
+  private checkVersion(req: EnhancedRequest): Response | null {
+    if (req.headers.get('tus-resumable') === TUS_VERSION) {
+      return null
+    }
+
+    return new Response(null, {
+      status: 412,
+      headers: { 'Tus-Resumable': TUS_VERSION, 'Tus-Version': TUS_VERSION },
+    })
+  }
+
+  private headers(headers: Record<string, string> = {}, upload?: TusUpload): Record<string, string> {
+    const result: Record<string, string> = { 'Tus-Resumable': TUS_VERSION, ...headers }
+    if (upload?.expiresAt && upload.offset < upload.length) {
+      result['Upload-Expires'] = new Date(upload.expiresAt).toUTCString()
+    }
+    return result
+  }
+
+  private error(message: string, status: number): Response {
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status,
+        headers: this.headers({ 'Content-Type': 'application/json' }),
+      },
+    )
+  }
+}
+
+/**
+ * Decode `Upload-Metadata`: comma separated keys, each optionally followed by a base64 value
+ */
+export function parseMetadata(header: string | null): Record<string, string> | null {
+  const metadata: Record<string, string> = {}
+  if (!header?.trim()) {
+    return metadata
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ')
+    if (!key || rest.length > 0 || key in metadata || (value && !/^[A-Z0-9+/]*={0,2}$/i.test(value))) {
+      return null
+    }
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : ''
+  }
+
+  return metadata
+}
+
+function formatMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => value ? `${key} ${Buffer.from(value).toString('base64')}` : key)
+    .join(',')
+}
@@ -0,0 +1,10 @@
+export {
+  mapProfile,
+  OAUTH_PROVIDERS,
+  OAuthError,
+  type OAuthLogin,
+  OAuthProvider,
+  type OAuthProviderOptions,
+  type OAuthTokens,
+  type OidcMetadata,
+} from './provider'
@@ -0,0 +1,505 @@
+/**
+ * OAuth 2.0 and OpenID Connect Login
+ *
+ * Runs the authorization code flow against a provider, with PKCE. State,
+ * the PKCE verifier and the OIDC nonce are kept in the session between the
+ * redirect and the callback, and ID tokens are verified with the keys the
+ * provider publishes in its discovery metadata.
+ */
+
+import type { EnhancedRequest, JwtPayload, OAuth2Profile, SessionData, User } from '../types'
+import { Buffer } from 'node:buffer'
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { JwksKeySet, JWT } from '../auth'
+import { AuthenticationException } from '../errors/exceptions'
+import { joinPaths } from '../utils'
+
+export interface OAuthTokens {
+  accessToken: string
+  tokenType?: string
+  refreshToken?: string
+  /**
+   * Seconds until the access token expires
+   */
+  expiresIn?: number
+  idToken?: string
+  scope?: string
+  /**
+   * The token response as sent by the provider
+   */
+  raw: Record<string, unknown>
+}
+
+/**
+ * A completed login
+ */
+export interface OAuthLogin {
+  profile: OAuth2Profile
+  user: User
+  tokens: OAuthTokens
+  /**
+   * Verified ID token claims, for OpenID Connect providers
+   */
+  claims?: JwtPayload
+}
+
+/**
+ * OpenID Connect discovery metadata
+ */
+export interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  userinfo_endpoint?: string
+  jwks_uri?: string
+  id_token_signing_alg_values_supported?: string[]
+  [key: string]: unknown
+}
+
+export interface OAuthProviderOptions {
+  clientId: string
+  clientSecret?: string
+
+  /**
+   * OpenID Connect issuer. Endpoints are discovered from its
+   * `/.well-known/openid-configuration` and ID tokens are verified.
+   */
+  issuer?: string
+
+  /**
+   * Endpoints, for providers without discovery or to override it
+   */
+  authorizeUrl?: string
+  tokenUrl?: string
+  userInfoUrl?: string
+
+  /**
+   * Scopes requested
+   * @default ['openid', 'profile', 'email'] with an issuer, otherwise none
+   */
+  scopes?: string[]
+
+  /**
+   * Extra authorization request parameters, e.g. `{ prompt: 'consent' }`
+   */
+  authorizationParams?: Record<string, string>
+
+  /**
+   * Callback URL registered with the provider
+   * @default the callback path under the prefix the redirect route was matched with
+   */
+  redirectUri?: string
+
+  /**
+   * Route sending users to the provider
+   * @default '/auth/{name}/redirect'
+   */
+  redirectPath?: string
+
+  /**
+   * Route the provider sends users back to
+   * @default '/auth/{name}/callback'
+   */
+  callbackPath?: string
+
+  /**
+   * Send a PKCE code challenge with the authorization request
+   * @default true
+   */
+  pkce?: boolean
+
+  /**
+   * How the client authenticates to the token endpoint
+   * @default 'client_secret_post'
+   */
+  tokenAuthMethod?: 'client_secret_post' | 'client_secret_basic'
+
+  /**
+   * Seconds of clock skew allowed when checking ID token times
+   * @default 30
+   */
+  clockTolerance?: number
+
+  /**
+   * Map the ID token claims and user info to a profile
+   */
+  profile?: (data: Record<string, unknown>, tokens: OAuthTokens) => OAuth2Profile | Promise<OAuth2Profile>
+
+  /**
+   * Map the profile to the user set as `req.user` and stored in the session,
+   * e.g. by finding or creating a local account
+   */
+  user?: (profile: OAuth2Profile, tokens: OAuthTokens, req: EnhancedRequest) => User | Promise<User>
+}
+
+/**
+ * Endpoints and scopes of well-known providers, picked by the provider name
+ */
+export const OAUTH_PROVIDERS: Record<string, Partial<OAuthProviderOptions>> = {
+  github: {
+    authorizeUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userInfoUrl: 'https://api.github.com/user',
+    scopes: ['read:user', 'user:email'],
+  },
+  google: {
+    issuer: 'https://accounts.google.com',
+  },
+}
+
+/**
+ * A failed login. `error` holds the OAuth error code, such as `access_denied`
+ * when the user declined, or `invalid_state` for a forged or replayed callback.
+ */
+export class OAuthError extends AuthenticationException {
+  public readonly error: string
+
+  constructor(error: string, message: string) {
+    super(message)
+    this.error = error
+  }
+}
+
+interface PendingLogin {
+  state: string
+  redirectUri: string
+  codeVerifier?: string
+  nonce?: string
+}
+
+interface Endpoints {
+  authorizeUrl: string
+  tokenUrl: string
+  userInfoUrl?: string
+  jwksUrl?: string
+  algorithms?: string[]
+}
+
+const SESSION_KEY = 'oauth'
+
+export class OAuthProvider {
+  readonly name: string
+  readonly redirectPath: string
+  readonly callbackPath: string
+  private options: OAuthProviderOptions
+  private discovery: Promise<Endpoints> | null = null
+  private verifier: JWT | null = null
+
+  constructor(name: string, options: OAuthProviderOptions) {
+    this.name = name
+    this.options = { ...OAUTH_PROVIDERS[name], ...options }
+    this.redirectPath = this.options.redirectPath ?? `/auth/${name}/redirect`
+    this.callbackPath = this.options.callbackPath ?? `/auth/${name}/callback`
+  }
+
+  /**
+   * Start a login, redirecting the user to the provider
+   */
+  async redirect(req: EnhancedRequest): Promise<Response> {
+    const session = requireSession(req)
+    const endpoints = await this.endpoints()
+    const pending: PendingLogin = {
+      state: randomToken(),
+      redirectUri: this.options.redirectUri ?? this.defaultRedirectUri(req),
+    }
+
+    const url = new URL(endpoints.authorizeUrl)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', this.options.clientId)
+    url.searchParams.set('redirect_uri', pending.redirectUri)
+    url.searchParams.set('state', pending.state)
+
+    const scopes = this.options.scopes ?? (this.options.issuer ? ['openid', 'profile', 'email'] : [])
+    if (scopes.length > 0) {
+      url.searchParams.set('scope', scopes.join(' '))
+    }
+
+    if (this.options.pkce ?? true) {
+      pending.codeVerifier = randomToken()
+      url.searchParams.set('code_challenge', createHash('sha256').update(pending.codeVerifier).digest('base64url'))
+      url.searchParams.set('code_challenge_method', 'S256')
+    }
+
+    if (this.options.issuer) {
+      pending.nonce = randomToken()
+      url.searchParams.set('nonce', pending.nonce)
+    }
+
+    for (const [key, value] of Object.entries(this.options.authorizationParams ?? {})) {
+      url.searchParams.set(key, value)
+    }
+
+    session[SESSION_KEY] = { ...(session[SESSION_KEY] as Record<string, PendingLogin> | undefined), [this.name]: pending }
+
+    return new Response(null, {
+      status: 302,
+      headers: { 'Location': url.toString(), 'Cache-Control': 'no-store' },
+    })
+  }
+
+  /**
+   * Complete a login from the provider's callback. The user is set as
+   * `req.user` and stored in a regenerated session.
+   */
+  async callback(req: EnhancedRequest): Promise<OAuthLogin> {
+    const session = requireSession(req)
+    const logins = session[SESSION_KEY] as Record<string, PendingLogin> | undefined
+    const pending = logins?.[this.name]
+
+    // A pending login is only good for one callback
+    if (logins) {
+      const { [this.name]: _, ...rest } = logins
+      if (Object.keys(rest).length > 0) {
+        session[SESSION_KEY] = rest
+      }
+      else {
+        delete session[SESSION_KEY]
+      }
+    }
+
+    const query = new URL(req.url).searchParams
+    const error = query.get('error')
+    if (error) {
+      throw new OAuthError(error, query.get('error_description') ?? `Login with ${this.name} failed: ${error}`)
+    }
+
+    const state = query.get('state') ?? ''
+    if (!pending || !safeEqual(state, pending.state)) {
+      throw new OAuthError('invalid_state', 'Login state does not match, start the login again')
+    }
+
+    const code = query.get('code')
+    if (!code) {
+      throw new OAuthError('invalid_request', 'Callback is missing the authorization code')
+    }
+
+    const tokens = await this.exchangeCode(code, pending.redirectUri, pending.codeVerifier)
+    const claims = this.options.issuer ? await this.verifyIdToken(tokens.idToken, pending.nonce) : undefined
+    const userInfo = await this.fetchUserInfo(tokens.accessToken)
+
+    // User info must describe the user the ID token was issued for
+    if (claims && userInfo && userInfo.sub !== claims.sub) {
+      throw new OAuthError('invalid_token', 'User info does not match the ID token subject')
+    }
+
+    const data = { ...claims, ...userInfo }
+    const profile = this.options.profile ? await this.options.profile(data, tokens) : mapProfile(this.name, data)
+    const user = this.options.user ? await this.options.user(profile, tokens, req) : defaultUser(profile)
+
+    // A new session id on login prevents session fixation
+    await session.regenerate?.()
+    session.user = user
+    session.userId = String(user.id)
+    req.user = user
+
+    return { profile, user, tokens, claims }
+  }
+
+  /**
+   * Exchange an authorization code for tokens
+   */
+  async exchangeCode(code: string, redirectUri: string, codeVerifier?: string): Promise<OAuthTokens> {
+    const { tokenUrl } = await this.endpoints()
+    const body = new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: redirectUri })
+    if (codeVerifier) {
+      body.set('code_verifier', codeVerifier)
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    }
+    if (this.options.tokenAuthMethod === 'client_secret_basic' && this.options.clientSecret !== undefined) {
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    }
+    else {
+      body.set('client_id', this.options.clientId)
+      if (this.options.clientSecret !== undefined) {
+        body.set('client_secret', this.options.clientSecret)
+      }
+    }
+
+    const response = await fetch(tokenUrl, { method: 'POST', headers, body })
+    const raw = await response.json().catch(() => ({})) as Record<string, unknown>
+
+    // Some providers report errors with a 200 status
+    if (!response.ok || typeof raw.error === 'string' || typeof raw.access_token !== 'string') {
+      const error = typeof raw.error === 'string' ? raw.error : 'invalid_grant'
+      throw new OAuthError(error, typeof raw.error_description === 'string' ? raw.error_description : `Token exchange with ${this.name} failed`)
+    }
+
+    return {
+      accessToken: raw.access_token,
+      tokenType: stringClaim(raw.token_type),
+      refreshToken: stringClaim(raw.refresh_token),
+      expiresIn: typeof raw.expires_in === 'number' ? raw.expires_in : undefined,
+      idToken: stringClaim(raw.id_token),
+      scope: stringClaim(raw.scope),
+      raw,
+    }
+  }
+
+  /**
+   * Verify an ID token's signature, issuer, audience, times and nonce
+   */
+  async verifyIdToken(idToken: string | undefined, nonce?: string): Promise<JwtPayload> {
+    if (!idToken) {
+      throw new OAuthError('invalid_token', `${this.name} did not return an ID token`)
+    }
+
+    const endpoints = await this.endpoints()
+    this.verifier ??= new JWT({
+      jwks: endpoints.jwksUrl ? new JwksKeySet({ url: endpoints.jwksUrl }) : undefined,
+      secret: this.options.clientSecret,
+    })
+
+    const claims = await this.verifier.verify(idToken, {
+      issuer: this.options.issuer,
+      audience: this.options.clientId,
+      algorithms: endpoints.algorithms?.filter(alg => alg !== 'none'),
+      clockTolerance: this.options.clockTolerance ?? 30,
+    })
+
+    if (!claims || typeof claims.sub !== 'string') {
+      throw new OAuthError('invalid_token', `ID token from ${this.name} could not be verified`)
+    }
+
+    // Tokens issued to several clients must name this one as the authorized party
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== this.options.clientId) {
+      throw new OAuthError('invalid_token', 'ID token was issued to another client')
+    }
+
+    if (nonce !== undefined && (typeof claims.nonce !== 'string' || !safeEqual(claims.nonce, nonce))) {
+      throw new OAuthError('invalid_token', 'ID token nonce does not match')
+    }
+
+    return claims
+  }
+
+  /**
+   * Fetch the user from the user info endpoint, when the provider has one
+   */
+  async fetchUserInfo(accessToken: string): Promise<Record<string, unknown> | null> {
+    const { userInfoUrl } = await this.endpoints()
+    if (!userInfoUrl) {
+      return null
+    }
+
+    const response = await fetch(userInfoUrl, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+    })
+    if (!response.ok) {
+      throw new OAuthError('invalid_token', `Fetching the user from ${this.name} failed: ${response.status}`)
+    }
+    return await response.json() as Record<string, unknown>
+  }
+
+  /**
+   * Callback URL next to the redirect route, keeping the web, API or group
+   * prefix the route was registered under
+   */
+  private defaultRedirectUri(req: EnhancedRequest): string {
+    const pathname = new URL(req.url).pathname.replace(/\/$/, '')
+    const prefix = pathname.endsWith(this.redirectPath) ? pathname.slice(0, -this.redirectPath.length) : ''
+    return new URL(joinPaths(prefix, this.callbackPath), req.url).toString()
+  }
+
+  /**
+   * Endpoints from the options, completed by discovery for OpenID Connect providers
+   */
+  private endpoints(): Promise<Endpoints> {
+    this.discovery ??= this.discover().catch((error) => {
+      // Try again on the next login
+      this.discovery = null
+      throw error
+    })
+    return this.discovery
+  }
+
+  private async discover(): Promise<Endpoints> {
+    const { issuer, authorizeUrl, tokenUrl, userInfoUrl } = this.options
+    if (!issuer) {
+      if (!authorizeUrl || !tokenUrl) {
+        throw new Error(`OAuth provider ${this.name} needs an issuer, or an authorizeUrl and tokenUrl`)
+      }
+      return { authorizeUrl, tokenUrl, userInfoUrl }
+    }
+
+    const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`)
+    if (!response.ok) {
+      throw new Error(`OpenID Connect discovery for ${this.name} failed: ${response.status}`)
+    }
+
+    const metadata = await response.json() as OidcMetadata
+    if (metadata.issuer !== issuer) {
+      throw new Error(`OpenID Connect discovery for ${this.name} returned issuer ${metadata.issuer}, expected ${issuer}`)
+    }
+
+    return {
+      authorizeUrl: authorizeUrl ?? metadata.authorization_endpoint,
+      tokenUrl: tokenUrl ?? metadata.token_endpoint,
+      userInfoUrl: userInfoUrl ?? metadata.userinfo_endpoint,
+      jwksUrl: metadata.jwks_uri,
+      algorithms: metadata.id_token_signing_alg_values_supported,
+    }
+  }
+}
+
+/**
+ * Map OpenID Connect claims, or a provider's own user fields, to a profile
+ */
+export function mapProfile(provider: string, data: Record<string, unknown>): OAuth2Profile {
+  const id = data.sub ?? data.id
+  if (typeof id !== 'string' && typeof id !== 'number') {
+    throw new OAuthError('invalid_token', `Profile from ${provider} has no user id`)
+  }
+
+  return {
+    id: String(id),
+    provider,
+    email: stringClaim(data.email),
+    emailVerified: typeof data.email_verified === 'boolean' ? data.email_verified : undefined,
+    name: stringClaim(data.name),
+    firstName: stringClaim(data.given_name),
+    lastName: stringClaim(data.family_name),
+    displayName: stringClaim(data.name) ?? stringClaim(data.preferred_username) ?? stringClaim(data.login),
+    username: stringClaim(data.preferred_username) ?? stringClaim(data.login),
+    avatar: stringClaim(data.picture) ?? stringClaim(data.avatar_url),
+    profileUrl: stringClaim(data.profile) ?? stringClaim(data.html_url),
+    locale: stringClaim(data.locale),
+    timezone: stringClaim(data.zoneinfo),
+    raw: data,
+  }
+}
+
+function defaultUser(profile: OAuth2Profile): User {
+  return {
+    id: profile.id,
+    email: profile.email,
+    name: profile.name ?? profile.displayName,
+    username: profile.username,
+    provider: profile.provider,
+  }
+}
+
+function requireSession(req: EnhancedRequest): SessionData {
+  if (!req.session) {
+    throw new Error('OAuth login needs the session middleware to keep the login state')
+  }
+  return req.session
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function stringClaim(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
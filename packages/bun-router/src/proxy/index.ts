@@ -0,0 +1,10 @@
+export {
+  type HeaderRewrite,
+  LoadBalancer,
+  type ProxiedSocket,
+  type ProxyOptions,
+  type ProxyStrategy,
+  type ProxyTarget,
+  ReverseProxy,
+  type Upstream,
+} from './reverse-proxy'
@@ -0,0 +1,515 @@
+import type { ServerWebSocket } from 'bun'
+import type { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerRegistry } from '../errors/circuit-breaker'
+import type { EnhancedRequest, WebSocketRouteHandlers } from '../types'
+import { globalCircuitBreakerRegistry } from '../errors/circuit-breaker'
+
+export type ProxyStrategy = 'round-robin' | 'least-connections' | 'weighted'
+
+export interface ProxyTarget {
+  url: string
+  /**
+   * Share of requests relative to the other targets, for the `weighted` strategy
+   * @default 1
+   */
+  weight?: number
+}
+
+/**
+ * Headers to set on the way through, or null to remove. A function can
+ * rewrite the headers in place instead.
+ */
+export type HeaderRewrite = Record<string, string | null> | ((headers: Headers, req: EnhancedRequest) => void)
+
+export interface ProxyOptions {
+  targets: (string | ProxyTarget)[]
+
+  /**
+   * @default 'round-robin'
+   */
+  strategy?: ProxyStrategy
+
+  /**
+   * Forward the path after the route's wildcard instead of the full path,
+   * e.g. `/billing/invoices` on `/billing/*` goes to `{target}/invoices`
+   * @default false
+   */
+  stripPrefix?: boolean
+
+  requestHeaders?: HeaderRewrite
+  responseHeaders?: HeaderRewrite
+
+  /**
+   * Send the client's Host header upstream instead of the target's
+   * @default false
+   */
+  preserveHost?: boolean
+
+  /**
+   * Add `X-Forwarded-For`, `X-Forwarded-Host` and `X-Forwarded-Proto`
+   * @default true
+   */
+  xForwarded?: boolean
+
+  /**
+   * Keep the `X-Forwarded-*` headers of the request, for proxies behind
+   * another trusted proxy. Otherwise they're replaced.
+   * @default false
+   */
+  trustProxy?: boolean
+
+  /**
+   * Milliseconds to wait for the response headers of a target
+   * @default 30000
+   */
+  timeout?: number
+
+  /**
+   * Circuit breaker settings used to take failing targets out of rotation.
+   * Connection errors, timeouts and 5xx responses count as failures.
+   */
+  circuitBreaker?: Partial<Omit<CircuitBreakerConfig, 'name'>>
+
+  /**
+   * Registry the target circuit breakers are kept in
+   * @default globalCircuitBreakerRegistry
+   */
+  registry?: CircuitBreakerRegistry
+
+  /**
+   * Pass WebSocket upgrades through to the targets
+   * @default true
+   */
+  websocket?: boolean
+}
+
+/**
+ * A target with its load balancing and health state
+ */
+export interface Upstream {
+  url: string
+  weight: number
+  /**
+   * Requests currently being proxied to the target
+   */
+  active: number
+  breaker: CircuitBreaker
+  currentWeight: number
+}
+
+/**
+ * Picks the target for each request among the healthy ones
+ */
+export class LoadBalancer {
+  readonly upstreams: Upstream[]
+  private next = 0
+
+  constructor(upstreams: Upstream[], private strategy: ProxyStrategy = 'round-robin') {
+    this.upstreams = upstreams
+  }
+
+  /**
+   * Pick a healthy target, skipping those already tried for this request
+   */
+  pick(exclude: Set<Upstream> = new Set()): Upstream | null {
+    const candidates = this.upstreams.filter(upstream => !exclude.has(upstream) && isAvailable(upstream.breaker))
+    if (candidates.length === 0) {
+      return null
+    }
+
+    switch (this.strategy) {
+      case 'least-connections':
+        return candidates.reduce((best, upstream) => upstream.active < best.active ? upstream : best)
+      case 'weighted': {
+        // Smooth weighted round-robin, which spreads picks of heavier targets out
+        const total = candidates.reduce((sum, upstream) => sum + upstream.weight, 0)
+        candidates.forEach(upstream => upstream.currentWeight += upstream.weight)
+        const best = candidates.reduce((best, upstream) => upstream.currentWeight > best.currentWeight ? upstream : best)
+        best.currentWeight -= total
+        return best
+      }
+      case 'round-robin':
+        return candidates[this.next++ % candidates.length]
+    }
+  }
+}
+
+// Headers that only apply to a single connection
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]
+
+/**
+ * A client socket relayed to a socket opened on a target
+ */
+export interface ProxiedSocket {
+  handlers: WebSocketRouteHandlers
+  /**
+   * Subprotocol the target picked
+   */
+  protocol: string
+  /**
+   * Close the target socket when the client's upgrade fails
+   */
+  close: () => void
+}
+
+/**
+ * A target answered with a server error, counted as a failure by its circuit breaker
+ */
+class UpstreamError extends Error {
+  constructor(public response: Response) {
+    super(`Upstream responded with ${response.status}`)
+  }
+}
+
+/**
+ * Forwards requests to a pool of upstream servers, streaming bodies both ways
+ */
+export class ReverseProxy {
+  readonly balancer: LoadBalancer
+  private options: ProxyOptions
+
+  constructor(options: ProxyOptions) {
+    if (options.targets.length === 0) {
+      throw new Error('A proxy needs at least one target')
+    }
+
+    this.options = options
+    const registry = options.registry ?? globalCircuitBreakerRegistry
+    const upstreams = options.targets.map((target) => {
+      const { url, weight = 1 } = typeof target === 'string' ? { url: target } : target
+      const name = `proxy:${url}`
+      const breaker = registry.get(name) ?? registry.register({
+        failureThreshold: 5,
+        recoveryTimeout: 30000,
+        timeout: options.timeout ?? 30000,
+        monitoringPeriod: 60000,
+        minimumRequests: 10,
+        errorThresholdPercentage: 50,
+        halfOpenMaxCalls: 1,
+        resetTimeout: 30000,
+        ...options.circuitBreaker,
+        name,
+      })
+      return { url: url.replace(/\/$/, ''), weight, active: 0, breaker, currentWeight: 0 }
+    })
+
+    this.balancer = new LoadBalancer(upstreams, options.strategy)
+  }
+
+  /**
+   * Forward a request to a target. Requests without a body are retried on
+   * the next target when one can't be reached.
+   */
+  async handle(req: EnhancedRequest, clientIp?: string): Promise<Response> {
+    const tried = new Set<Upstream>()
+    const retryable = req.body === null
+
+    while (true) {
+      const upstream = this.balancer.pick(tried)
+      if (!upstream) {
+        return errorResponse(tried.size > 0 ? 'Bad gateway' : 'No upstream available', tried.size > 0 ? 502 : 503)
+      }
+      tried.add(upstream)
+
+      try {
+        return await this.forward(upstream, req, clientIp)
+      }
+      catch (error) {
+        if (error instanceof UpstreamError) {
+          return error.response
+        }
+        if (!retryable) {
+          return errorResponse('Bad gateway', 502)
+        }
+      }
+    }
+  }
+
+  /**
+   * Open a socket on a target for a WebSocket upgrade request, with handlers
+   * relaying the client socket to it once upgraded
+   */
+  async connect(req: EnhancedRequest, clientIp?: string): Promise<ProxiedSocket | Response> {
+    const tried = new Set<Upstream>()
+
+    while (true) {
+      const upstream = this.balancer.pick(tried)
+      if (!upstream) {
+        return errorResponse(tried.size > 0 ? 'Bad gateway' : 'No upstream available', tried.size > 0 ? 502 : 503)
+      }
+      tried.add(upstream)
+
+      const url = new URL(this.targetUrl(upstream, req))
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+      const headers = this.requestHeaders(upstream, req, clientIp)
+      const protocols = (req.headers.get('sec-websocket-protocol') ?? '').split(',').map(protocol => protocol.trim()).filter(Boolean)
+      // The socket client negotiates these itself
+      for (const name of ['sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions', 'sec-websocket-protocol']) {
+        headers.delete(name)
+      }
+
+      try {
+        const timeout = this.options.timeout ?? 30000
+        const socket = await upstream.breaker.execute({
+          timeout,
+          execute: () => openSocket(url.toString(), headers, protocols, timeout),
+        })
+        return relay(socket, upstream)
+      }
+      catch {
+        // Try the next target
+      }
+    }
+  }
+
+  /**
+   * The target URL for a request
+   */
+  targetUrl(upstream: Upstream, req: EnhancedRequest): string {
+    const url = new URL(req.url)
+    const path = this.options.stripPrefix ? `/${req.params?.wildcard ?? ''}` : url.pathname
+    return `${upstream.url}${path === '/' && this.options.stripPrefix ? '' : path}${url.search}`
+  }
+
+  /**
+   * Headers to send upstream
+   */
+  requestHeaders(upstream: Upstream, req: EnhancedRequest, clientIp?: string): Headers {
+    const headers = withoutHopByHop(req.headers)
+    const url = new URL(req.url)
+
+    if (!this.options.preserveHost) {
+      headers.set('Host', new URL(upstream.url).host)
+    }
+
+    if (this.options.xForwarded ?? true) {
+      const trusted = this.options.trustProxy ?? false
+      const forwardedFor = trusted ? req.headers.get('x-forwarded-for') : null
+      // IPv4 clients of dual-stack servers show up as IPv4-mapped IPv6 addresses
+      const ip = clientIp?.replace(/^::ffff:(?=\d+\.)/i, '')
+      if (ip) {
+        headers.set('X-Forwarded-For', forwardedFor ? `${forwardedFor}, ${ip}` : ip)
+      }
+      else if (!trusted) {
+        headers.delete('X-Forwarded-For')
+      }
+      headers.set('X-Forwarded-Host', (trusted && req.headers.get('x-forwarded-host')) || req.headers.get('host') || url.host)
+      headers.set('X-Forwarded-Proto', (trusted && req.headers.get('x-forwarded-proto')) || url.protocol.slice(0, -1))
+    }
+
+    rewriteHeaders(headers, this.options.requestHeaders, req)
+    return headers
+  }
+
+  private async forward(upstream: Upstream, req: EnhancedRequest, clientIp?: string): Promise<Response> {
+    upstream.active++
+    let released = false
+    const release = () => {
+      if (!released) {
+        released = true
+        upstream.active--
+      }
+    }
+
+    try {
+      const response = await upstream.breaker.execute({
+        // Only the response headers are waited on, the body streams afterwards
+        timeout: this.options.timeout ?? 30000,
+        execute: async () => {
+          const timeout = new AbortController()
+          const timer = setTimeout(() => timeout.abort(), this.options.timeout ?? 30000)
+          try {
+            const response = await fetch(this.targetUrl(upstream, req), {
+              method: req.method,
+              headers: this.requestHeaders(upstream, req, clientIp),
+              body: req.body,
+              redirect: 'manual',
+              // Pass encoded bodies through untouched
+              decompress: false,
+              signal: AbortSignal.any([req.signal, timeout.signal]),
+            })
+            if (response.status >= 500) {
+              throw new UpstreamError(response)
+            }
+            return response
+          }
+          finally {
+            clearTimeout(timer)
+          }
+        },
+      })
+
+      return this.respond(response, req, release)
+    }
+    catch (error) {
+      if (error instanceof UpstreamError) {
+        throw new UpstreamError(this.respond(error.response, req, release))
+      }
+      release()
+      throw error
+    }
+  }
+
+  /**
+   * Stream the upstream response back, counting the target as busy until it ends
+   */
+  private respond(response: Response, req: EnhancedRequest, release: () => void): Response {
+    const headers = withoutHopByHop(response.headers)
+    rewriteHeaders(headers, this.options.responseHeaders, req)
+
+    if (!response.body) {
+      release()
+      return new Response(null, { status: response.status, statusText: response.statusText, headers })
+    }
+
+    const reader = response.body.getReader()
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read()
+          if (done) {
+            release()
+            controller.close()
+            return
+          }
+          controller.enqueue(value)
+        }
+        catch (error) {
+          release()
+          controller.error(error)
+        }
+      },
+      cancel: async (reason) => {
+        release()
+        await reader.cancel(reason)
+      },
+    }, { highWaterMark: 0 })
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers })
+  }
+}
+
+function openSocket(url: string, headers: Headers, protocols: string[], timeout: number): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    // Bun's client accepts headers alongside the subprotocols
+    const socket = new (WebSocket as unknown as new (url: string, options: { headers: Record<string, string>, protocols: string[] }) => WebSocket)(
+      url,
+      { headers: Object.fromEntries(headers), protocols },
+    )
+    socket.binaryType = 'arraybuffer'
+
+    const timer = setTimeout(() => {
+      socket.close()
+      reject(new Error(`WebSocket connection to ${url} timed out`))
+    }, timeout)
+    socket.addEventListener('open', () => {
+      clearTimeout(timer)
+      resolve(socket)
+    }, { once: true })
+    socket.addEventListener('error', () => {
+      clearTimeout(timer)
+      reject(new Error(`WebSocket connection to ${url} failed`))
+    }, { once: true })
+  })
+}
+
+function relay(socket: WebSocket, upstream: Upstream): ProxiedSocket {
+  // Messages the target sends before the client's socket opens
+  const pending: (string | ArrayBuffer)[] = []
+  let client: ServerWebSocket<any> | null = null
+  let closed: { code: number, reason: string } | null = null
+
+  upstream.active++
+  socket.addEventListener('message', (event) => {
+    if (client) {
+      client.send(event.data)
+    }
+    else {
+      pending.push(event.data)
+    }
+  })
+  socket.addEventListener('close', (event) => {
+    upstream.active--
+    closed = { code: closeCode(event.code), reason: event.reason }
+    client?.close(closed.code, closed.reason)
+  }, { once: true })
+
+  return {
+    protocol: socket.protocol,
+    close: () => socket.close(),
+    handlers: {
+      open: (ws) => {
+        client = ws
+        pending.splice(0).forEach(message => ws.send(message))
+        if (closed) {
+          ws.close(closed.code, closed.reason)
+        }
+      },
+      message: (_ws, message) => {
+        socket.send(message)
+      },
+      close: (_ws, code, reason) => {
+        if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+          socket.close(closeCode(code), reason)
+        }
+      },
+    },
+  }
+}
+
+/**
+ * Close codes that can't be sent, like 1006 for a dropped connection, become
+ * the nearest code that can
+ */
+function closeCode(code: number): number {
+  if ((code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1014) || (code >= 3000 && code <= 4999)) {
+    return code
+  }
+  return code === 1005 ? 1000 : 1011
+}
+
+function isAvailable(breaker: CircuitBreaker): boolean {
+  const { state, nextAttemptTime } = breaker.getMetrics()
+  return state !== 'OPEN' || !nextAttemptTime || nextAttemptTime <= new Date()
+}
+
+function withoutHopByHop(source: Headers): Headers {
+  const headers = new Headers(source)
+  const listed = (source.get('connection') ?? '').split(',').map(name => name.trim()).filter(Boolean)
+  for (const name of [...HOP_BY_HOP_HEADERS, ...listed]) {
+    headers.delete(name)
+  }
+  return headers
+}
+
+function rewriteHeaders(headers: Headers, rewrite: HeaderRewrite | undefined, req: EnhancedRequest): void {
+  if (typeof rewrite === 'function') {
+    rewrite(headers, req)
+    return
+  }
+
+  for (const [name, value] of Object.entries(rewrite ?? {})) {
+    if (value === null) {
+      headers.delete(name)
+    }
+    else {
+      headers.set(name, value)
+    }
+  }
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,354 @@
+/**
+ * Pub/Sub Adapters
+ *
+ * Transports that carry WebSocket, cluster and SSE broadcasts between
+ * processes. Every adapter delivers a message to all subscribers of its
+ * channel, including those in the publishing process.
+ */
+
+import type { PubSubAdapter, PubSubListener, RedisClientLike, RedisSubscriberLike } from '../types'
+import { Database } from 'bun:sqlite'
+
+/**
+ * Listeners of one process, grouped by channel
+ */
+class ListenerRegistry {
+  private channels = new Map<string, Set<PubSubListener>>()
+
+  /**
+   * Returns true for the first listener of a channel
+   */
+  add(channel: string, listener: PubSubListener): boolean {
+    const listeners = this.channels.get(channel)
+    if (listeners) {
+      listeners.add(listener)
+      return false
+    }
+    this.channels.set(channel, new Set([listener]))
+    return true
+  }
+
+  /**
+   * Returns true when the channel has no listeners left
+   */
+  remove(channel: string, listener: PubSubListener): boolean {
+    const listeners = this.channels.get(channel)
+    if (!listeners?.delete(listener) || listeners.size > 0) {
+      return false
+    }
+    this.channels.delete(channel)
+    return true
+  }
+
+  emit(channel: string, message: string): void {
+    for (const listener of this.channels.get(channel) ?? []) {
+      try {
+        listener(message, channel)
+      }
+      catch (error) {
+        console.error(`Pub/sub listener for "${channel}" failed:`, error)
+      }
+    }
+  }
+
+  has(channel: string): boolean {
+    return this.channels.has(channel)
+  }
+
+  names(): string[] {
+    return [...this.channels.keys()]
+  }
+
+  clear(): void {
+    this.channels.clear()
+  }
+}
+
+/**
+ * In-memory adapter
+ *
+ * Delivers within the current process only. The default for single-process apps and tests.
+ */
+export class MemoryPubSub implements PubSubAdapter {
+  private listeners = new ListenerRegistry()
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.listeners.emit(channel, message)
+  }
+
+  async subscribe(channel: string, listener: PubSubListener): Promise<() => Promise<void>> {
+    this.listeners.add(channel, listener)
+    return async () => {
+      this.listeners.remove(channel, listener)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear()
+  }
+}
+
+export interface BroadcastChannelPubSubOptions {
+  /**
+   * Name of the underlying `BroadcastChannel`, shared by all workers
+   * @default 'bun-router'
+   */
+  name?: string
+}
+
+/**
+ * `BroadcastChannel` adapter
+ *
+ * Reaches the main thread and every `Worker` of the current process, e.g.
+ * one server per worker with `reusePort`.
+ */
+export class BroadcastChannelPubSub implements PubSubAdapter {
+  private channel: BroadcastChannel
+  private listeners = new ListenerRegistry()
+
+  constructor(options: BroadcastChannelPubSubOptions = {}) {
+    this.channel = new BroadcastChannel(options.name ?? 'bun-router')
+    // Don't keep the process alive just for pub/sub
+    this.channel.unref()
+    this.channel.onmessage = (event) => {
+      const { channel, message } = event.data as { channel: string, message: string }
+      this.listeners.emit(channel, message)
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.channel.postMessage({ channel, message })
+    // A BroadcastChannel doesn't receive its own messages
+    this.listeners.emit(channel, message)
+  }
+
+  async subscribe(channel: string, listener: PubSubListener): Promise<() => Promise<void>> {
+    this.listeners.add(channel, listener)
+    return async () => {
+      this.listeners.remove(channel, listener)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear()
+    this.channel.close()
+  }
+}
+
+export interface SQLitePubSubOptions {
+  /**
+   * Database file shared by the processes
+   * @default 'pubsub.sqlite'
+   */
+  filename?: string
+
+  /**
+   * Use an existing database connection instead of opening `filename`
+   */
+  database?: Database
+
+  /**
+   * Table messages are written to
+   * @default 'pubsub_messages'
+   */
+  table?: string
+
+  /**
+   * Milliseconds between polls for new messages
+   * @default 100
+   */
+  pollInterval?: number
+
+  /**
+   * Seconds messages are kept before they are pruned
+   * @default 60
+   */
+  retention?: number
+}
+
+/**
+ * SQLite adapter backed by `bun:sqlite`
+ *
+ * Processes on the same host share a database file: published messages are
+ * appended to a table that every process polls. Needs no server, at the cost
+ * of up to `pollInterval` of latency between processes.
+ */
+export class SQLitePubSub implements PubSubAdapter {
+  private db: Database
+  private ownsDatabase: boolean
+  private listeners = new ListenerRegistry()
+  private origin = crypto.randomUUID()
+  private lastId: number
+  private lastPrune = Date.now()
+  private pollInterval: number
+  private retention: number
+  private timer: Timer | null = null
+  private statements: {
+    insert: ReturnType<Database['prepare']>
+    since: ReturnType<Database['prepare']>
+    prune: ReturnType<Database['prepare']>
+  }
+
+  constructor(options: SQLitePubSubOptions = {}) {
+    const table = options.table ?? 'pubsub_messages'
+    if (!/^\w+$/.test(table)) {
+      throw new Error(`Invalid pub/sub table name: ${table}`)
+    }
+
+    this.ownsDatabase = !options.database
+    this.db = options.database ?? new Database(options.filename ?? 'pubsub.sqlite')
+    this.pollInterval = options.pollInterval ?? 100
+    this.retention = options.retention ?? 60
+
+    // Wait for other processes holding the lock instead of failing at once
+    this.db.exec('PRAGMA busy_timeout = 5000')
+    this.db.exec('PRAGMA journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        channel TEXT NOT NULL,
+        message TEXT NOT NULL,
+        origin TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `)
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_created_at ON ${table}(created_at)`)
+
+    this.statements = {
+      insert: this.db.prepare(`INSERT INTO ${table} (channel, message, origin, created_at) VALUES (?, ?, ?, ?)`),
+      since: this.db.prepare(`SELECT id, channel, message, origin FROM ${table} WHERE id > ? ORDER BY id`),
+      prune: this.db.prepare(`DELETE FROM ${table} WHERE created_at < ?`),
+    }
+
+    // Only messages published from now on are delivered
+    const row = this.db.prepare(`SELECT MAX(id) as id FROM ${table}`).get() as { id: number | null }
+    this.lastId = row.id ?? 0
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.statements.insert.run(channel, message, this.origin, Date.now())
+    // Subscribers in this process don't wait for the next poll
+    this.listeners.emit(channel, message)
+  }
+
+  async subscribe(channel: string, listener: PubSubListener): Promise<() => Promise<void>> {
+    this.listeners.add(channel, listener)
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        // A failed poll, e.g. on a database locked too long, is retried on the next tick
+        try {
+          this.poll()
+        }
+        catch (error) {
+          console.error('Pub/sub poll failed:', error)
+        }
+      }, this.pollInterval)
+      this.timer.unref()
+    }
+
+    return async () => {
+      this.listeners.remove(channel, listener)
+    }
+  }
+
+  /**
+   * Deliver messages published by other processes since the last poll
+   */
+  poll(): void {
+    const rows = this.statements.since.all(this.lastId) as Array<{ id: number, channel: string, message: string, origin: string }>
+    for (const row of rows) {
+      this.lastId = row.id
+      if (row.origin !== this.origin) {
+        this.listeners.emit(row.channel, row.message)
+      }
+    }
+
+    const now = Date.now()
+    if (now - this.lastPrune >= this.retention * 1000) {
+      this.lastPrune = now
+      this.statements.prune.run(now - this.retention * 1000)
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.listeners.clear()
+    if (this.ownsDatabase) {
+      this.db.close()
+    }
+  }
+}
+
+export interface RedisPubSubOptions {
+  /**
+   * Redis-protocol client used to publish, e.g. `new RedisClient(url)` from 'bun'
+   */
+  client: RedisClientLike
+
+  /**
+   * Separate connection used to subscribe
+   */
+  subscriber: RedisSubscriberLike
+
+  /**
+   * Prefix for channel names
+   * @default ''
+   */
+  prefix?: string
+}
+
+/**
+ * Redis-protocol adapter
+ *
+ * Uses PUBLISH/SUBSCRIBE on Redis, Valkey, KeyDB or any server speaking
+ * RESP, so messages reach processes on every host.
+ */
+export class RedisPubSub implements PubSubAdapter {
+  private client: RedisClientLike
+  private subscriber: RedisSubscriberLike
+  private prefix: string
+  private listeners = new ListenerRegistry()
+  private subscribing = new Map<string, Promise<unknown>>()
+
+  constructor(options: RedisPubSubOptions) {
+    this.client = options.client
+    this.subscriber = options.subscriber
+    this.prefix = options.prefix ?? ''
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.send('PUBLISH', [this.prefix + channel, message])
+  }
+
+  async subscribe(channel: string, listener: PubSubListener): Promise<() => Promise<void>> {
+    // Listeners are only added once SUBSCRIBE succeeds, so a failed
+    // subscription leaves nothing behind and can be retried
+    if (!this.listeners.has(channel)) {
+      let subscribing = this.subscribing.get(channel)
+      if (!subscribing) {
+        subscribing = this.subscriber.subscribe(this.prefix + channel, message => this.listeners.emit(channel, message))
+          .finally(() => this.subscribing.delete(channel))
+        this.subscribing.set(channel, subscribing)
+      }
+      await subscribing
+    }
+    this.listeners.add(channel, listener)
+
+    return async () => {
+      if (this.listeners.remove(channel, listener)) {
+        await this.subscriber.unsubscribe(this.prefix + channel)
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const channel of this.listeners.names()) {
+      await this.subscriber.unsubscribe(this.prefix + channel)
+    }
+    this.listeners.clear()
+  }
+}
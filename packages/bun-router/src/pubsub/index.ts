@@ -0,0 +1,11 @@
+export {
+  BroadcastChannelPubSub,
+  type BroadcastChannelPubSubOptions,
+  MemoryPubSub,
+  RedisPubSub,
+  type RedisPubSubOptions,
+  SQLitePubSub,
+  type SQLitePubSubOptions,
+} from './adapters'
+
+export { PubSubRelay } from './relay'
@@ -0,0 +1,51 @@
+import type { PubSubAdapter } from '../types'
+
+interface Envelope<T> {
+  origin: string
+  payload: T
+}
+
+/**
+ * Relays broadcasts of one component (WebSocket topics, cluster rooms, SSE
+ * events) to its counterparts in other processes. Components deliver locally
+ * themselves, so messages that come back from this relay are skipped.
+ */
+export class PubSubRelay<T> {
+  readonly origin: string = crypto.randomUUID()
+  private unsubscribe: Promise<() => Promise<void>> | null = null
+
+  constructor(
+    private adapter: PubSubAdapter,
+    private channel: string,
+    private deliver: (payload: T) => void,
+  ) {}
+
+  /**
+   * Start receiving broadcasts from other processes
+   */
+  async start(): Promise<void> {
+    this.unsubscribe ??= this.adapter.subscribe(this.channel, (message) => {
+      const envelope = JSON.parse(message) as Envelope<T>
+      if (envelope.origin !== this.origin) {
+        this.deliver(envelope.payload)
+      }
+    })
+    await this.unsubscribe
+  }
+
+  /**
+   * Send a broadcast to the other processes
+   */
+  async publish(payload: T): Promise<void> {
+    const envelope: Envelope<T> = { origin: this.origin, payload }
+    await this.adapter.publish(this.channel, JSON.stringify(envelope))
+  }
+
+  async stop(): Promise<void> {
+    const unsubscribe = this.unsubscribe
+    this.unsubscribe = null
+    if (unsubscribe) {
+      await (await unsubscribe)()
+    }
+  }
+}
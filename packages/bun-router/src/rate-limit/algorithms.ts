@@ -0,0 +1,124 @@
+import type { RateLimitResult, RateLimitRule } from '../types'
+
+/**
+ * Counter of the current fixed window
+ */
+export interface FixedWindowState {
+  count: number
+  resetTime: number
+}
+
+/**
+ * Per-key state kept by a store: a window counter, a log of hit times,
+ * or the GCRA theoretical arrival time
+ */
+export type RateLimitState = FixedWindowState | number[] | number
+
+/**
+ * A counted hit: the result, the state to store and when that state can be dropped
+ */
+export interface RateLimitOutcome {
+  result: RateLimitResult
+  state: RateLimitState
+  expiresAt: number
+}
+
+// Float division in GCRA can land just below a whole number of slots
+const EPSILON = 1e-6
+
+/**
+ * Count a hit against a rule given the stored state. Stores that keep
+ * state themselves run this inside a lock or transaction.
+ */
+export function applyRateLimit(rule: RateLimitRule, state: RateLimitState | undefined, now: number): RateLimitOutcome {
+  switch (rule.algorithm) {
+    case 'sliding-log':
+      return slidingLog(rule, Array.isArray(state) ? state : [], now)
+    case 'gcra':
+      return gcra(rule, typeof state === 'number' ? state : now, now)
+    default:
+      return fixedWindow(rule, typeof state === 'object' && !Array.isArray(state) ? state : undefined, now)
+  }
+}
+
+function fixedWindow(rule: RateLimitRule, state: FixedWindowState | undefined, now: number): RateLimitOutcome {
+  const next = !state || now >= state.resetTime
+    ? { count: 1, resetTime: now + rule.windowMs }
+    : { count: state.count + 1, resetTime: state.resetTime }
+
+  return {
+    result: fixedWindowResult(rule, next.count, next.resetTime, now),
+    state: next,
+    expiresAt: next.resetTime,
+  }
+}
+
+function slidingLog(rule: RateLimitRule, log: number[], now: number): RateLimitOutcome {
+  const hits = log.filter(time => time > now - rule.windowMs)
+  const allowed = hits.length < rule.limit
+  if (allowed) {
+    hits.push(now)
+  }
+
+  return {
+    result: slidingLogResult(rule, allowed, hits.length, hits[0], now),
+    state: hits,
+    expiresAt: hits[hits.length - 1] + rule.windowMs,
+  }
+}
+
+function gcra(rule: RateLimitRule, tat: number, now: number): RateLimitOutcome {
+  const interval = rule.windowMs / rule.limit
+  const arrival = Math.max(tat, now)
+  const allowed = arrival + interval - rule.windowMs <= now + EPSILON
+  const next = allowed ? arrival + interval : arrival
+
+  return {
+    result: gcraResult(rule, allowed, next, now),
+    state: next,
+    expiresAt: next,
+  }
+}
+
+/**
+ * Result of a fixed window holding `count` hits
+ */
+export function fixedWindowResult(rule: RateLimitRule, count: number, resetTime: number, now: number): RateLimitResult {
+  const allowed = count <= rule.limit
+  return {
+    allowed,
+    hits: count,
+    remaining: Math.max(0, rule.limit - count),
+    resetTime,
+    retryAfter: allowed ? 0 : Math.max(0, resetTime - now),
+  }
+}
+
+/**
+ * Result of a log holding `count` hits, the oldest at `oldest`
+ */
+export function slidingLogResult(rule: RateLimitRule, allowed: boolean, count: number, oldest: number, now: number): RateLimitResult {
+  const resetTime = oldest + rule.windowMs
+  return {
+    allowed,
+    hits: count,
+    remaining: Math.max(0, rule.limit - count),
+    resetTime,
+    retryAfter: allowed ? 0 : Math.max(0, resetTime - now),
+  }
+}
+
+/**
+ * Result of GCRA given the theoretical arrival time after the hit
+ */
+export function gcraResult(rule: RateLimitRule, allowed: boolean, tat: number, now: number): RateLimitResult {
+  const interval = rule.windowMs / rule.limit
+  const remaining = Math.min(rule.limit, Math.max(0, Math.floor((now + rule.windowMs - tat) / interval + EPSILON)))
+  return {
+    allowed,
+    hits: rule.limit - remaining,
+    remaining,
+    resetTime: Math.ceil(tat),
+    retryAfter: allowed ? 0 : Math.max(0, Math.ceil(tat + interval - rule.windowMs - now)),
+  }
+}
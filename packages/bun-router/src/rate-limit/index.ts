@@ -0,0 +1,16 @@
+export {
+  applyRateLimit,
+  type FixedWindowState,
+  type RateLimitOutcome,
+  type RateLimitState,
+} from './algorithms'
+export {
+  createRateLimitStore,
+  MemoryRateLimitStore,
+  type MemoryRateLimitStoreOptions,
+  type RateLimitStoreConfig,
+  RedisRateLimitStore,
+  type RedisRateLimitStoreOptions,
+  SQLiteRateLimitStore,
+  type SQLiteRateLimitStoreOptions,
+} from './stores'
@@ -0,0 +1,264 @@
+/**
+ * Rate Limit Stores
+ *
+ * Backends keeping rate limit state for route throttling. Every store
+ * counts a hit atomically, so processes sharing the SQLite file or the
+ * Redis server enforce a single limit between them.
+ */
+
+import type { RateLimitConfig, RateLimitResult, RateLimitRule, RateLimitStore, RedisClientLike } from '../types'
+import type { RateLimitState } from './algorithms'
+import { RedisClient } from 'bun'
+import { Database } from 'bun:sqlite'
+import { randomUUID } from 'node:crypto'
+import { LRUCache } from '../cache/lru-cache'
+import { applyRateLimit, fixedWindowResult, gcraResult, slidingLogResult } from './algorithms'
+
+export type RateLimitStoreConfig = NonNullable<RateLimitConfig['stores']>
+
+export interface MemoryRateLimitStoreOptions {
+  /**
+   * Keys tracked before the least recently used are dropped
+   * @default 10000
+   */
+  maxKeys?: number
+}
+
+/**
+ * In-memory rate limit store. State is private to the process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private cache: LRUCache<RateLimitState>
+
+  constructor(options: MemoryRateLimitStoreOptions = {}) {
+    this.cache = new LRUCache<RateLimitState>({ maxSize: options.maxKeys ?? 10000 })
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now()
+    const { result, state, expiresAt } = applyRateLimit(rule, this.cache.get(key), now)
+    this.cache.set(key, state, Math.max(1, expiresAt - now))
+    return result
+  }
+
+  async reset(key: string): Promise<void> {
+    this.cache.delete(key)
+  }
+}
+
+export interface SQLiteRateLimitStoreOptions {
+  /**
+   * Database file, or ':memory:' for an in-memory database
+   * @default 'rate-limits.sqlite'
+   */
+  filename?: string
+
+  /**
+   * Use an existing database connection instead of opening `filename`
+   */
+  database?: Database
+
+  /**
+   * Table used to store rate limit state
+   * @default 'rate_limits'
+   */
+  table?: string
+}
+
+/**
+ * SQLite rate limit store backed by `bun:sqlite`
+ *
+ * Each hit is counted in an immediate transaction, which holds the write
+ * lock between reading and updating a key, so every process on the host
+ * sharing the file sees one limit.
+ */
+export class SQLiteRateLimitStore implements RateLimitStore {
+  private db: Database
+  private statements: {
+    get: ReturnType<Database['prepare']>
+    set: ReturnType<Database['prepare']>
+    delete: ReturnType<Database['prepare']>
+    prune: ReturnType<Database['prepare']>
+  }
+
+  private hit: (key: string, rule: RateLimitRule, now: number) => RateLimitResult
+
+  constructor(options: SQLiteRateLimitStoreOptions = {}) {
+    const table = options.table ?? 'rate_limits'
+    if (!/^\w+$/.test(table)) {
+      throw new Error(`Invalid rate limit table name: ${table}`)
+    }
+
+    this.db = options.database ?? new Database(options.filename ?? 'rate-limits.sqlite')
+
+    // Wait for other processes holding the lock instead of failing at once
+    this.db.exec('PRAGMA busy_timeout = 5000')
+    this.db.exec('PRAGMA journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        key TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        expires INTEGER NOT NULL
+      )
+    `)
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_expires ON ${table}(expires)`)
+
+    this.statements = {
+      get: this.db.prepare(`SELECT state FROM ${table} WHERE key = ? AND expires > ?`),
+      set: this.db.prepare(`INSERT OR REPLACE INTO ${table} (key, state, expires) VALUES (?, ?, ?)`),
+      delete: this.db.prepare(`DELETE FROM ${table} WHERE key = ?`),
+      prune: this.db.prepare(`DELETE FROM ${table} WHERE expires <= ?`),
+    }
+
+    const transaction = this.db.transaction((key: string, rule: RateLimitRule, now: number) => {
+      const row = this.statements.get.get(key, now) as { state: string } | null
+      const { result, state, expiresAt } = applyRateLimit(rule, row ? JSON.parse(row.state) : undefined, now)
+      this.statements.set.run(key, JSON.stringify(state), Math.ceil(expiresAt))
+      return result
+    })
+    this.hit = (key, rule, now) => transaction.immediate(key, rule, now)
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    return this.hit(key, rule, Date.now())
+  }
+
+  async reset(key: string): Promise<void> {
+    this.statements.delete.run(key)
+  }
+
+  /**
+   * Delete state of keys whose limits have fully reset
+   */
+  async prune(): Promise<number> {
+    return this.statements.prune.run(Date.now()).changes
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  close(): void {
+    this.db.close()
+  }
+}
+
+// Scripts read the server clock so that hosts with skewed clocks agree.
+// Fractional times are returned as strings, since Redis truncates Lua numbers.
+const NOW = `local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)`
+
+const FIXED_WINDOW_SCRIPT = `${NOW}
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { count, tostring(now + ttl), tostring(now) }`
+
+const SLIDING_LOG_SCRIPT = `${NOW}
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or tostring(now), tostring(now) }`
+
+const GCRA_SCRIPT = `${NOW}
+local interval = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local tat = math.max(tonumber(redis.call('GET', KEYS[1])) or now, now)
+if tat + interval - window > now + 1e-6 then
+  return { 0, tostring(tat), tostring(now) }
+end
+tat = tat + interval
+redis.call('SET', KEYS[1], tostring(tat), 'PX', math.max(1, math.ceil(tat - now)))
+return { 1, tostring(tat), tostring(now) }`
+
+export interface RedisRateLimitStoreOptions {
+  /**
+   * Redis-protocol client, e.g. `new RedisClient(url)` from 'bun'
+   */
+  client: RedisClientLike
+
+  /**
+   * Key prefix for rate limit entries
+   * @default 'ratelimit:'
+   */
+  prefix?: string
+}
+
+/**
+ * Redis-protocol rate limit store
+ *
+ * Each algorithm runs as a Lua script, so a hit is checked and counted in
+ * one atomic step on the server, shared by every process connected to it.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisClientLike
+  private prefix: string
+
+  constructor(options: RedisRateLimitStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'ratelimit:'
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const redisKey = `${this.prefix}${rule.algorithm}:${key}`
+
+    switch (rule.algorithm) {
+      case 'sliding-log': {
+        const [allowed, count, oldest, now] = await this.eval(SLIDING_LOG_SCRIPT, redisKey, [rule.limit, rule.windowMs, randomUUID()])
+        return slidingLogResult(rule, Number(allowed) === 1, Number(count), Number(oldest), Number(now))
+      }
+      case 'gcra': {
+        const [allowed, tat, now] = await this.eval(GCRA_SCRIPT, redisKey, [rule.windowMs / rule.limit, rule.windowMs])
+        return gcraResult(rule, Number(allowed) === 1, Number(tat), Number(now))
+      }
+      default: {
+        const [count, resetTime, now] = await this.eval(FIXED_WINDOW_SCRIPT, redisKey, [rule.windowMs])
+        return fixedWindowResult(rule, Number(count), Number(resetTime), Number(now))
+      }
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.send('DEL', ['fixed-window', 'sliding-log', 'gcra'].map(algorithm => `${this.prefix}${algorithm}:${key}`))
+  }
+
+  private async eval(script: string, key: string, args: (string | number)[]): Promise<unknown[]> {
+    return await this.client.send('EVAL', [script, '1', key, ...args.map(String)]) as unknown[]
+  }
+}
+
+/**
+ * Build a rate limit store from the `server.rateLimit.stores` config block
+ */
+export function createRateLimitStore(storeConfig?: RateLimitStoreConfig): RateLimitStore {
+  switch (storeConfig?.type) {
+    case 'custom':
+      if (!storeConfig.custom) {
+        throw new Error('Rate limit store type "custom" requires a `custom` store instance')
+      }
+      return storeConfig.custom
+    case 'redis':
+      if (!storeConfig.redis) {
+        throw new Error('Rate limit store type "redis" requires a `redis` configuration')
+      }
+      return new RedisRateLimitStore({
+        client: new RedisClient(storeConfig.redis.url),
+        prefix: storeConfig.redis.prefix,
+      })
+    case 'sqlite':
+      return new SQLiteRateLimitStore(storeConfig.sqlite)
+    default:
+      return new MemoryRateLimitStore()
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Cookie Jar Cryptography
+ *
+ * HMAC signing and AES-256-GCM encryption for cookie values, backed by a
+ * rotatable key ring. The first key writes; every key is tried on read so
+ * cookies issued before a rotation keep working until they expire.
+ */
+
+import type { CookieConfig } from '../types'
+import { Buffer } from 'node:buffer'
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'node:crypto'
+
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+interface DerivedKey {
+  signing: Buffer
+  encryption: Buffer
+}
+
+/**
+ * Rotatable key ring used to sign and encrypt cookie values
+ */
+export class CookieKeyRing {
+  private keys: DerivedKey[]
+
+  constructor(secrets: string[]) {
+    if (secrets.length === 0) {
+      throw new Error('CookieKeyRing requires at least one key')
+    }
+
+    this.keys = secrets.map(secret => ({
+      signing: Buffer.from(hkdfSync('sha256', secret, 'bun-router', 'cookie-signing', 32)),
+      encryption: Buffer.from(hkdfSync('sha256', secret, 'bun-router', 'cookie-encryption', 32)),
+    }))
+  }
+
+  /**
+   * Append an HMAC-SHA256 signature bound to the cookie name
+   */
+  sign(name: string, value: string): string {
+    return `${value}.${this.mac(this.keys[0], name, value)}`
+  }
+
+  /**
+   * Return the original value if the signature matches any key, otherwise undefined
+   */
+  unsign(name: string, signed: string): string | undefined {
+    const separator = signed.lastIndexOf('.')
+    if (separator === -1)
+      return undefined
+
+    const value = signed.slice(0, separator)
+    const signature = Buffer.from(signed.slice(separator + 1))
+
+    for (const key of this.keys) {
+      const expected = Buffer.from(this.mac(key, name, value))
+      if (expected.length === signature.length && timingSafeEqual(expected, signature)) {
+        return value
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Encrypt a value with AES-256-GCM, using the cookie name as associated data
+   */
+  encrypt(name: string, value: string): string {
+    const iv = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv('aes-256-gcm', this.keys[0].encryption, iv)
+    cipher.setAAD(Buffer.from(name))
+
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+    return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64url')
+  }
+
+  /**
+   * Decrypt a value with any key in the ring, or return undefined if it was tampered with
+   */
+  decrypt(name: string, encrypted: string): string | undefined {
+    const payload = Buffer.from(encrypted, 'base64url')
+    if (payload.length < IV_LENGTH + TAG_LENGTH)
+      return undefined
+
+    const iv = payload.subarray(0, IV_LENGTH)
+    const tag = payload.subarray(payload.length - TAG_LENGTH)
+    const ciphertext = payload.subarray(IV_LENGTH, payload.length - TAG_LENGTH)
+
+    for (const key of this.keys) {
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', key.encryption, iv)
+        decipher.setAAD(Buffer.from(name))
+        decipher.setAuthTag(tag)
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+      }
+      catch {
+        // Authentication failed with this key - try the next one
+      }
+    }
+
+    return undefined
+  }
+
+  private mac(key: DerivedKey, name: string, value: string): string {
+    return createHmac('sha256', key.signing).update(`${name}=${value}`).digest('base64url')
+  }
+}
+
+const keyRingCache = new WeakMap<string[], CookieKeyRing>()
+
+/**
+ * Get the key ring for a cookie config, or null when no keys are configured
+ */
+export function getCookieKeyRing(cookieConfig?: CookieConfig): CookieKeyRing | null {
+  const keys = cookieConfig?.keys
+  if (!keys || keys.length === 0)
+    return null
+
+  let keyRing = keyRingCache.get(keys)
+  if (!keyRing) {
+    keyRing = new CookieKeyRing(keys)
+    keyRingCache.set(keys, keyRing)
+  }
+  return keyRing
+}
+
+/**
+ * Sign or encrypt a cookie value according to its options
+ */
+export function protectCookieValue(
+  name: string,
+  value: string,
+  options: { signed?: boolean, encrypted?: boolean },
+  cookieConfig?: CookieConfig,
+): string {
+  if (!options.signed && !options.encrypted)
+    return value
+
+  const keyRing = getCookieKeyRing(cookieConfig)
+  if (!keyRing) {
+    throw new Error('Signed and encrypted cookies require `cookies.keys` in the router config')
+  }
+
+  return options.encrypted ? keyRing.encrypt(name, value) : keyRing.sign(name, value)
+}
@@ -0,0 +1,193 @@
+/**
+ * Content Negotiation
+ *
+ * Picks between routes that share a method and path but differ in the media
+ * types they `produces` (matched against `Accept`) or `consumes` (matched
+ * against `Content-Type`).
+ */
+
+import type { Route } from '../types'
+
+export interface MediaRange {
+  type: string
+  subtype: string
+  q: number
+}
+
+export type NegotiationResult =
+  | { route: Route, mediaType?: string, vary: string[] }
+  | { status: 406 | 415, available: string[], vary: string[] }
+
+const BODY_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE'])
+
+/**
+ * Parse an `Accept` style header into media ranges, most preferred first
+ */
+export function parseMediaRanges(header: string | null): MediaRange[] {
+  if (!header) {
+    return [{ type: '*', subtype: '*', q: 1 }]
+  }
+
+  const ranges: MediaRange[] = []
+  for (const part of header.split(',')) {
+    const [mediaType, ...params] = part.trim().split(';')
+    const [type, subtype] = mediaType.trim().toLowerCase().split('/')
+    if (!type || !subtype) {
+      continue
+    }
+
+    let q = 1
+    for (const param of params) {
+      const [key, value] = param.trim().split('=')
+      if (key === 'q') {
+        q = Number.parseFloat(value)
+        q = Number.isNaN(q) ? 0 : Math.min(Math.max(q, 0), 1)
+      }
+    }
+
+    ranges.push({ type, subtype, q })
+  }
+
+  // Stable sort keeps header order for equal quality
+  return ranges.sort((a, b) => b.q - a.q)
+}
+
+/**
+ * Quality with which a set of media ranges accepts a concrete media type.
+ * The most specific matching range wins, as in RFC 9110.
+ */
+export function mediaTypeQuality(ranges: MediaRange[], mediaType: string): number {
+  const [type, subtype] = mediaType.toLowerCase().split(';')[0].trim().split('/')
+  let best: { specificity: number, q: number } | null = null
+
+  for (const range of ranges) {
+    const typeMatches = range.type === '*' || range.type === type
+    const subtypeMatches = range.subtype === '*' || range.subtype === subtype
+    if (!typeMatches || !subtypeMatches) {
+      continue
+    }
+
+    const specificity = (range.type === '*' ? 0 : 1) + (range.subtype === '*' ? 0 : 1)
+    if (!best || specificity > best.specificity) {
+      best = { specificity, q: range.q }
+    }
+  }
+
+  return best?.q ?? 0
+}
+
+/**
+ * Check a request Content-Type against the types a route consumes
+ */
+function consumesType(route: Route, contentType: string): boolean {
+  if (!route.consumes?.length) {
+    return true
+  }
+  return route.consumes.some(type => mediaTypeQuality(parseMediaRanges(type), contentType) > 0)
+}
+
+/**
+ * Pick the route variant that best matches the request's Accept and Content-Type headers.
+ * Variants are tried in declaration order, so declare the default representation first.
+ */
+export function negotiateRoute(variants: Route[], req: Request): NegotiationResult {
+  const vary: string[] = []
+  let candidates = variants
+
+  // Content-Type -> consumes
+  if (variants.some(route => route.consumes?.length)) {
+    vary.push('Content-Type')
+
+    const contentType = req.headers.get('content-type')
+    if (contentType || BODY_METHODS.has(req.method.toUpperCase())) {
+      const explicit = contentType ? variants.filter(route => route.consumes?.length && consumesType(route, contentType)) : []
+      candidates = explicit.length > 0 ? explicit : variants.filter(route => !route.consumes?.length)
+
+      if (candidates.length === 0 && contentType) {
+        return { status: 415, available: [...new Set(variants.flatMap(route => route.consumes ?? []))], vary }
+      }
+      if (candidates.length === 0) {
+        candidates = variants
+      }
+    }
+  }
+
+  // Accept -> produces
+  if (!candidates.some(route => route.produces?.length)) {
+    return { route: candidates[0], vary }
+  }
+
+  vary.push('Accept')
+  const ranges = parseMediaRanges(req.headers.get('accept'))
+  let best: { route: Route, mediaType?: string, q: number } | null = null
+
+  for (const route of candidates) {
+    if (!route.produces?.length) {
+      // Routes without `produces` are a fallback for anything the client accepts
+      if (!best) {
+        best = { route, q: 0.001 }
+      }
+      continue
+    }
+
+    for (const mediaType of route.produces) {
+      const q = mediaTypeQuality(ranges, mediaType)
+      if (q > 0 && (!best || q > best.q)) {
+        best = { route, mediaType, q }
+      }
+    }
+  }
+
+  if (!best) {
+    return { status: 406, available: [...new Set(candidates.flatMap(route => route.produces ?? []))], vary }
+  }
+
+  return { route: best.route, mediaType: best.mediaType, vary }
+}
+
+/**
+ * Add fields to a response's Vary header without duplicating existing ones
+ */
+export function appendVary(response: Response, fields: string[]): Response {
+  if (fields.length === 0) {
+    return response
+  }
+
+  const existing = (response.headers.get('Vary') || '').split(',').map(field => field.trim()).filter(Boolean)
+  const merged = [...existing]
+  for (const field of fields) {
+    if (!merged.some(value => value === '*' || value.toLowerCase() === field.toLowerCase())) {
+      merged.push(field)
+    }
+  }
+
+  if (merged.length === existing.length) {
+    return response
+  }
+
+  try {
+    response.headers.set('Vary', merged.join(', '))
+    return response
+  }
+  catch {
+    // Immutable headers (e.g. a proxied fetch response) - copy the response
+    const headers = new Headers(response.headers)
+    headers.set('Vary', merged.join(', '))
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+  }
+}
+
+/**
+ * Build the automatic 406 / 415 response for a failed negotiation
+ */
+export function negotiationErrorResponse(result: Extract<NegotiationResult, { status: number }>): Response {
+  const message = result.status === 406 ? 'Not Acceptable' : 'Unsupported Media Type'
+
+  return appendVary(new Response(JSON.stringify({ success: false, message, supported: result.available }), {
+    status: result.status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(result.status === 415 ? { Accept: result.available.join(', ') } : {}),
+    },
+  }), result.vary)
+}
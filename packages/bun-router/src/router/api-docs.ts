@@ -0,0 +1,429 @@
+import type { DocsConfig, EnhancedRequest, JsonSchema, MiddlewareHandler } from '../types'
+import type { Router } from './router'
+import { createOpenAPIDocument } from '../cli/openapi'
+import { joinPaths } from '../utils'
+
+export interface ApiDocsOptions extends Partial<Omit<DocsConfig, 'output'>> {
+  /**
+   * Only describe this API version (see `router.version()`)
+   */
+  apiVersion?: string
+
+  /**
+   * Middleware for the explorer and specification routes, e.g. to keep them internal
+   */
+  middleware?: (string | MiddlewareHandler)[]
+}
+
+type ResolvedDocsConfig = Omit<ApiDocsOptions, 'middleware'> & Pick<DocsConfig, 'groupBy' | 'includeExamples' | 'title' | 'description' | 'version'>
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head']
+
+/**
+ * Options passed to `router.docs()`, falling back to the router's `docs` config
+ */
+function resolveDocsConfig(router: Router, options: ApiDocsOptions): ResolvedDocsConfig {
+  const { middleware: _middleware, ...overrides } = options
+  return {
+    groupBy: 'path',
+    includeExamples: true,
+    title: 'API Documentation',
+    description: '',
+    version: '1.0.0',
+    ...router.config.docs,
+    ...overrides,
+  }
+}
+
+/**
+ * Build the OpenAPI document served by `router.docs()` from the current route table
+ */
+export function createApiDocsSpec(router: Router, options: ApiDocsOptions = {}, exclude: string[] = []): any {
+  const config = resolveDocsConfig(router, options)
+  const document = createOpenAPIDocument(router, {
+    title: config.title,
+    description: config.description,
+    version: config.version,
+    servers: config.baseUrl,
+    apiVersion: config.apiVersion,
+  })
+
+  if (config.contact) {
+    document.info.contact = config.contact
+  }
+
+  document.components.securitySchemes = { ...document.components.securitySchemes, ...config.security }
+
+  // The explorer's own routes aren't part of the API
+  for (const path of exclude) {
+    delete document.paths[path]
+  }
+
+  return document
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Follow a `#/components/schemas/...` reference
+ */
+function resolveSchema(document: any, schema: JsonSchema | undefined): JsonSchema {
+  if (schema?.$ref?.startsWith('#/components/schemas/')) {
+    return document.components.schemas[schema.$ref.slice('#/components/schemas/'.length)] || {}
+  }
+  return schema || {}
+}
+
+/**
+ * Short description of a schema's type, e.g. "string (email)" or "User[]"
+ */
+function typeLabel(schema: JsonSchema): string {
+  if (schema.$ref) {
+    return schema.$ref.split('/').pop()!
+  }
+  if (schema.type === 'array') {
+    return `${schema.items ? typeLabel(schema.items) : 'any'}[]`
+  }
+  if (schema.enum) {
+    return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ')
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type || 'any'
+  return schema.format ? `${type} (${schema.format})` : type
+}
+
+function constraints(schema: JsonSchema): string {
+  const keywords = ['minLength', 'maxLength', 'minimum', 'maximum', 'minItems', 'maxItems', 'pattern']
+  return keywords
+    .filter(keyword => schema[keyword] !== undefined)
+    .map(keyword => `${keyword}: ${schema[keyword]}`)
+    .join(', ')
+}
+
+/**
+ * Table rows for the fields of an object schema, with nested fields in dot notation
+ */
+function schemaRows(document: any, schema: JsonSchema, prefix = '', depth = 0): string {
+  const resolved = resolveSchema(document, schema)
+  if (depth > 5 || !resolved.properties) {
+    return ''
+  }
+
+  return Object.entries(resolved.properties).map(([name, property]) => {
+    const field = `${prefix}${name}`
+    const required = resolved.required?.includes(name) ? 'required' : ''
+    const row = `<tr><td><code>${escapeHtml(field)}</code></td><td>${escapeHtml(typeLabel(property))}</td><td>${required}</td><td>${escapeHtml(constraints(property))}</td></tr>`
+    const items = property.type === 'array' && property.items ? schemaRows(document, property.items, `${field}[].`, depth + 1) : ''
+    return row + schemaRows(document, property, `${field}.`, depth + 1) + items
+  }).join('')
+}
+
+/**
+ * Sample value for a schema, used to prefill request bodies
+ */
+export function exampleFromSchema(document: any, schema: JsonSchema | undefined, depth = 0): unknown {
+  const resolved = resolveSchema(document, schema)
+  if (depth > 5) {
+    return null
+  }
+  if (resolved.example !== undefined) {
+    return resolved.example
+  }
+  if (resolved.enum) {
+    return resolved.enum[0]
+  }
+
+  switch (resolved.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(resolved.properties || {}).map(([name, property]) => [name, exampleFromSchema(document, property, depth + 1)]))
+    case 'array':
+      return [exampleFromSchema(document, resolved.items, depth + 1)]
+    case 'integer':
+    case 'number':
+      return resolved.minimum ?? 1
+    case 'boolean':
+      return true
+    case 'string':
+      switch (resolved.format) {
+        case 'email': return 'user@example.com'
+        case 'uri': return 'https://example.com'
+        case 'uuid': return '123e4567-e89b-42d3-a456-426614174000'
+        case 'date-time': return new Date(0).toISOString()
+        default: return 'string'
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Group key for an operation according to `groupBy`
+ */
+function groupKey(groupBy: DocsConfig['groupBy'], path: string, method: string, operation: any): string {
+  switch (groupBy) {
+    case 'method':
+      return method.toUpperCase()
+    case 'tag':
+      return operation.tags?.[0] || 'untagged'
+    default: {
+      const segments = path.split('/').filter(segment => segment && !segment.startsWith('{'))
+      return (segments[0] === 'api' ? segments[1] : segments[0]) || 'root'
+    }
+  }
+}
+
+function renderOperation(document: any, config: ResolvedDocsConfig, path: string, method: string, operation: any): string {
+  const parameters: any[] = operation.parameters || []
+  const requestSchema = operation.requestBody?.content ? Object.values(operation.requestBody.content as Record<string, { schema?: JsonSchema }>)[0]?.schema : undefined
+  const contentType = operation.requestBody?.content ? Object.keys(operation.requestBody.content)[0] : undefined
+  const secured = (operation.security || []).length > 0
+
+  let html = `<details class="operation method-${method}" id="${escapeHtml(operation.operationId)}">`
+  html += `<summary><span class="method">${method.toUpperCase()}</span><code class="path">${escapeHtml(path)}</code>`
+  html += `<span class="summary">${escapeHtml(operation.summary)}</span>`
+  if (secured) {
+    html += '<span class="badge">auth</span>'
+  }
+  if (operation.deprecated) {
+    html += '<span class="badge deprecated">deprecated</span>'
+  }
+  html += '</summary><div class="body">'
+
+  if (operation.description) {
+    html += `<p>${escapeHtml(operation.description)}</p>`
+  }
+
+  if (parameters.length > 0) {
+    html += '<h4>Parameters</h4><table><tr><th>Name</th><th>In</th><th>Type</th><th>Required</th></tr>'
+    for (const parameter of parameters) {
+      html += `<tr><td><code>${escapeHtml(parameter.name)}</code></td><td>${escapeHtml(parameter.in)}</td><td>${escapeHtml(typeLabel(parameter.schema || {}))}</td><td>${parameter.required ? 'required' : ''}</td></tr>`
+    }
+    html += '</table>'
+  }
+
+  if (requestSchema) {
+    const rows = schemaRows(document, requestSchema)
+    html += `<h4>Request body <small>${escapeHtml(contentType)}</small></h4>`
+    html += rows ? `<table><tr><th>Field</th><th>Type</th><th>Required</th><th>Constraints</th></tr>${rows}</table>` : `<p>${escapeHtml(typeLabel(requestSchema))}</p>`
+  }
+
+  html += '<h4>Responses</h4><table><tr><th>Status</th><th>Description</th><th>Schema</th></tr>'
+  for (const [status, response] of Object.entries(operation.responses || {}) as [string, any][]) {
+    const schema = response.content ? (Object.values(response.content)[0] as { schema?: JsonSchema }).schema : undefined
+    html += `<tr><td>${escapeHtml(status)}</td><td>${escapeHtml(response.description)}</td><td>${schema ? escapeHtml(typeLabel(schema)) : ''}</td></tr>`
+  }
+  html += '</table>'
+
+  // Try it out
+  html += `<form class="try" data-method="${method.toUpperCase()}" data-path="${escapeHtml(path)}">`
+  for (const parameter of parameters) {
+    html += `<label>${escapeHtml(parameter.name)} <small>${escapeHtml(parameter.in)}</small><input name="${escapeHtml(parameter.name)}" data-in="${escapeHtml(parameter.in)}"${parameter.required ? ' required' : ''}></label>`
+  }
+  if (requestSchema) {
+    const example = config.includeExamples ? JSON.stringify(exampleFromSchema(document, requestSchema), null, 2) : ''
+    html += `<label>Body<textarea name="body" data-content-type="${escapeHtml(contentType)}" rows="6">${escapeHtml(example)}</textarea></label>`
+  }
+  html += '<button type="submit">Send request</button><pre class="output" hidden></pre></form>'
+
+  return `${html}</div></details>`
+}
+
+const EXPLORER_STYLES = `
+*{box-sizing:border-box}body{margin:0;font:14px/1.5 system-ui,-apple-system,Segoe UI,sans-serif;color:#1f2933;background:#f7f8fa}
+header,main{max-width:1040px;margin:0 auto;padding:16px 24px}header{border-bottom:1px solid #e1e4e8}h1{margin:0 0 4px}
+.meta{color:#52606d}.meta a{color:inherit}section{margin:24px 0}h2{text-transform:capitalize;border-bottom:1px solid #e1e4e8;padding-bottom:4px}
+.operation{background:#fff;border:1px solid #d9dee3;border-left:4px solid #9aa5b1;border-radius:4px;margin:8px 0}
+.operation summary{cursor:pointer;padding:8px 12px;display:flex;gap:12px;align-items:center}
+.method{font-weight:700;min-width:64px}.path{font-weight:600}.summary{color:#52606d;flex:1}
+.method-get{border-left-color:#2f9e44}.method-post{border-left-color:#1c7ed6}.method-put{border-left-color:#f08c00}
+.method-patch{border-left-color:#ae3ec9}.method-delete{border-left-color:#e03131}
+.badge{font-size:12px;padding:0 6px;border-radius:8px;background:#e1e4e8}.deprecated{background:#ffe3e3;color:#c92a2a}
+.body{padding:0 12px 12px}table{border-collapse:collapse;width:100%;margin-bottom:8px}th,td{text-align:left;padding:4px 8px;border-bottom:1px solid #eef0f2}
+label{display:block;margin:6px 0}input,textarea{display:block;width:100%;font:13px ui-monospace,monospace;padding:4px;border:1px solid #cbd2d9;border-radius:3px}
+button{margin-top:6px;padding:6px 14px;border:0;border-radius:3px;background:#1c7ed6;color:#fff;cursor:pointer}
+pre{background:#1f2933;color:#f5f7fa;padding:8px;border-radius:3px;overflow:auto;max-height:400px}
+#authorize{background:#fff;border:1px solid #d9dee3;border-radius:4px;padding:8px 12px}
+`
+
+const EXPLORER_SCRIPT = `
+(function () {
+  var config = JSON.parse(document.getElementById('api-docs-config').textContent)
+  var base = (config.server || '').replace(/\\/$/, '')
+  var inputs = document.querySelectorAll('[data-scheme]')
+
+  inputs.forEach(function (input) {
+    input.value = sessionStorage.getItem('api-docs:' + input.dataset.scheme) || ''
+    input.addEventListener('input', function () { sessionStorage.setItem('api-docs:' + input.dataset.scheme, input.value) })
+  })
+
+  function applyAuth(headers, query) {
+    inputs.forEach(function (input) {
+      var scheme = config.security[input.dataset.scheme]
+      if (!input.value || !scheme) return
+      if (scheme.type === 'apiKey') {
+        if (scheme.in === 'query') query.set(scheme.name, input.value)
+        else if (scheme.in === 'header') headers[scheme.name] = input.value
+      }
+      else if (scheme.type === 'http' && scheme.scheme === 'basic') headers.Authorization = 'Basic ' + btoa(input.value)
+      else headers.Authorization = 'Bearer ' + input.value
+    })
+  }
+
+  document.querySelectorAll('form.try').forEach(function (form) {
+    form.addEventListener('submit', function (event) {
+      event.preventDefault()
+      var path = form.dataset.path
+      var query = new URLSearchParams()
+      var headers = {}
+      var body
+
+      form.querySelectorAll('[data-in]').forEach(function (input) {
+        if (!input.value) return
+        if (input.dataset.in === 'path') path = path.replace('{' + input.name + '}', encodeURIComponent(input.value))
+        else if (input.dataset.in === 'query') query.set(input.name, input.value)
+        else if (input.dataset.in === 'header') headers[input.name] = input.value
+      })
+
+      var textarea = form.querySelector('textarea[name=body]')
+      if (textarea && textarea.value) {
+        body = textarea.value
+        headers['Content-Type'] = textarea.dataset.contentType
+      }
+
+      applyAuth(headers, query)
+
+      var output = form.querySelector('.output')
+      output.hidden = false
+      output.textContent = 'Sending...'
+
+      var search = query.toString()
+      fetch(base + path + (search ? '?' + search : ''), { method: form.dataset.method, headers: headers, body: body })
+        .then(function (response) {
+          return response.text().then(function (text) {
+            try { text = JSON.stringify(JSON.parse(text), null, 2) }
+            catch (error) {}
+            output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + text
+          })
+        })
+        .catch(function (error) { output.textContent = String(error) })
+    })
+  })
+})()
+`
+
+/**
+ * Render the self-contained HTML explorer for an OpenAPI document. Styles
+ * and scripts are inlined so it works without network access.
+ */
+export function renderApiExplorer(document: any, config: ResolvedDocsConfig, specUrl: string): string {
+  const groups = new Map<string, string[]>()
+
+  for (const [path, pathItem] of Object.entries(document.paths as Record<string, any>)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method]
+      if (!operation) {
+        continue
+      }
+
+      const key = groupKey(config.groupBy, path, method, operation)
+      groups.set(key, [...(groups.get(key) || []), renderOperation(document, config, path, method, operation)])
+    }
+  }
+
+  const contact = document.info.contact
+  const contactLinks = contact
+    ? [
+        contact.name ? escapeHtml(contact.name) : '',
+        contact.email ? `<a href="mailto:${escapeHtml(contact.email)}">${escapeHtml(contact.email)}</a>` : '',
+        contact.url ? `<a href="${escapeHtml(contact.url)}">${escapeHtml(contact.url)}</a>` : '',
+      ].filter(Boolean).join(' · ')
+    : ''
+
+  const securitySchemes: Record<string, any> = document.components.securitySchemes || {}
+  const authorize = Object.entries(securitySchemes).map(([name, scheme]) => {
+    const hint = scheme.type === 'apiKey'
+      ? `API key (${scheme.in} ${scheme.name})`
+      : scheme.scheme === 'basic' ? 'username:password' : 'Bearer token'
+    return `<label>${escapeHtml(name)} <small>${escapeHtml(hint)}</small><input type="password" data-scheme="${escapeHtml(name)}" autocomplete="off"></label>`
+  }).join('')
+
+  // Embedded as JSON; escape `<` so the payload can't close the script element
+  const clientConfig = JSON.stringify({ server: document.servers?.[0]?.url === '/' ? '' : document.servers?.[0]?.url, security: securitySchemes }).replace(/</g, '\\u003c')
+
+  const sections = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([group, operations]) => `<section><h2>${escapeHtml(group)}</h2>${operations.join('')}</section>`)
+    .join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.info.title)}</title>
+<style>${EXPLORER_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(document.info.title)} <small>${escapeHtml(document.info.version)}</small></h1>
+<p>${escapeHtml(document.info.description)}</p>
+<p class="meta">${contactLinks ? `${contactLinks} · ` : ''}<a href="${escapeHtml(specUrl)}">OpenAPI ${escapeHtml(document.openapi)} specification</a></p>
+</header>
+<main>
+${authorize ? `<div id="authorize"><h3>Authorize</h3>${authorize}</div>` : ''}
+${sections || '<p>No API routes are registered.</p>'}
+</main>
+<script type="application/json" id="api-docs-config">${clientConfig}</script>
+<script>${EXPLORER_SCRIPT}</script>
+</body>
+</html>`
+}
+
+/**
+ * API documentation extension for Router class
+ */
+export function registerApiDocs(RouterClass: typeof Router): void {
+  Object.defineProperties(RouterClass.prototype, {
+    /**
+     * Serve an API explorer and the OpenAPI document built from the live route table
+     */
+    docs: {
+      async value(this: Router, path: string = '/docs', options: ApiDocsOptions = {}): Promise<Router> {
+        const specPath = joinPaths(path, 'openapi.json')
+        const exclude = [path, specPath]
+
+        await this.get(specPath, () => Response.json(createApiDocsSpec(this, options, exclude)), undefined, undefined, options.middleware)
+
+        await this.get(path, (req: EnhancedRequest) => {
+          const document = createApiDocsSpec(this, options, exclude)
+          // Next to the matched path, so the link keeps web/API and group prefixes
+          const specUrl = joinPaths(new URL(req.url).pathname, 'openapi.json')
+          const html = renderApiExplorer(document, resolveDocsConfig(this, options), specUrl)
+          return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+        }, undefined, undefined, options.middleware)
+
+        return this
+      },
+      writable: true,
+      configurable: true,
+    },
+  })
+}
+
+declare module './router' {
+  interface Router {
+    /**
+     * Serve an interactive API explorer at `path` and its OpenAPI document at `{path}/openapi.json`
+     * @example
+     * await router.docs('/docs', { title: 'Acme API', groupBy: 'tag' })
+     */
+    docs: (path?: string, options?: ApiDocsOptions) => Promise<Router>
+  }
+}
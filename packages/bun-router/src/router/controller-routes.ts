@@ -0,0 +1,241 @@
+import type { Container } from '../container/container'
+import type { ParamMetadata } from '../container/decorators'
+import type { EnhancedRequest, MiddlewareHandler, NextFunction } from '../types'
+import type { Router } from './router'
+import { randomUUID } from 'node:crypto'
+import { getContainer } from '../container/container'
+import { MetadataReader } from '../container/decorators'
+import { joinPaths } from '../utils'
+import { wrapResponse } from './handler-resolver'
+
+export type ControllerClass = new (...args: any[]) => any
+
+export interface ControllerRegistrationOptions {
+  /**
+   * Container controllers and their dependencies are resolved from
+   * @default the global container from getContainer()
+   */
+  container?: Container
+
+  /**
+   * Route type, which decides whether the API or web prefix applies
+   * @default 'web'
+   */
+  type?: 'api' | 'web'
+}
+
+interface RouteDefinition {
+  method: string
+  path: string
+  propertyKey: string | symbol
+  middleware?: ((...args: any[]) => any)[]
+}
+
+const INVALID_BODY = Symbol('invalid body')
+
+class InvalidBodyError extends Error {
+  constructor() {
+    super('Invalid request body')
+    this.name = 'InvalidBodyError'
+  }
+}
+
+/**
+ * Turn decorator middleware into a handler. Middleware classes with a
+ * `handle` method are resolved through the container.
+ */
+function toMiddlewareHandler(middleware: (...args: any[]) => any, container: Container): MiddlewareHandler {
+  if (typeof middleware.prototype?.handle === 'function') {
+    return async (req: EnhancedRequest, next: NextFunction) => {
+      const instance = container.resolve<{ handle: MiddlewareHandler }>(middleware)
+      return instance.handle(req, next)
+    }
+  }
+  return middleware as MiddlewareHandler
+}
+
+/**
+ * Read the request body for `@Body()` parameters
+ */
+async function readBody(req: EnhancedRequest): Promise<unknown> {
+  // Already parsed by middleware
+  if (req.jsonBody != null) {
+    return req.jsonBody
+  }
+  if (req.formBody != null) {
+    return req.formBody
+  }
+  if (req.bodyUsed || !req.body) {
+    return undefined
+  }
+
+  const contentType = req.headers.get('content-type') || ''
+
+  try {
+    if (contentType.includes('application/json')) {
+      return await req.json()
+    }
+    if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+      const formData = await req.formData()
+      const result: Record<string, unknown> = {}
+      for (const [key, value] of formData.entries()) {
+        result[key] = value
+      }
+      return result
+    }
+    return await req.text()
+  }
+  catch {
+    return INVALID_BODY
+  }
+}
+
+/**
+ * Build the arguments for a controller method from its parameter decorators.
+ * Parameters without a decorator receive the request.
+ */
+async function resolveArguments(
+  params: ParamMetadata[],
+  arity: number,
+  req: EnhancedRequest,
+  container: Container,
+  scopeId: string,
+): Promise<unknown[]> {
+  const args: unknown[] = []
+  let body: unknown
+
+  for (let index = 0; index < Math.max(params.length, arity, 1); index++) {
+    const param = params[index]
+    if (!param) {
+      args.push(req)
+      continue
+    }
+
+    if (param.token) {
+      args.push(container.resolve(param.token, { requestId: scopeId }))
+      continue
+    }
+
+    let value: unknown
+    switch (param.type) {
+      case 'param':
+        value = param.key ? req.params?.[param.key] : req.params
+        break
+      case 'query': {
+        const searchParams = new URL(req.url).searchParams
+        value = param.key ? searchParams.get(param.key) ?? undefined : Object.fromEntries(searchParams)
+        break
+      }
+      case 'body':
+        body ??= await readBody(req)
+        if (body === INVALID_BODY) {
+          throw new InvalidBodyError()
+        }
+        value = body
+        break
+      case 'header':
+        value = param.key ? req.headers.get(param.key) ?? undefined : Object.fromEntries(req.headers.entries())
+        break
+      case 'cookie':
+        value = param.key ? req.cookies?.get(param.key) : req.cookies?.getAll()
+        break
+    }
+
+    args.push(param.transform ? param.transform(value) : value)
+  }
+
+  return args
+}
+
+/**
+ * Register the routes declared on a `@Controller` class
+ */
+export async function registerController(
+  router: Router,
+  controller: ControllerClass,
+  options: ControllerRegistrationOptions = {},
+): Promise<void> {
+  const metadata = MetadataReader.getControllerMetadata(controller)
+  if (!metadata) {
+    throw new Error(`Class ${controller.name} is not decorated with @Controller`)
+  }
+
+  const container = options.container ?? getContainer()
+
+  // A fresh controller per request; scoped dependencies are shared within the request
+  if (!container.isBound(controller)) {
+    container.bind(controller).to(controller).inScopedScope().build()
+  }
+
+  const controllerMiddleware = [
+    ...(metadata.middleware || []),
+    ...MetadataReader.getMiddlewareMetadata(controller),
+  ] as ((...args: any[]) => any)[]
+
+  for (const definition of MetadataReader.getAllRoutes(controller) as RouteDefinition[]) {
+    const { method, propertyKey } = definition
+    const params = MetadataReader.getParamMetadata(controller, propertyKey)
+    const arity = (controller.prototype[propertyKey] as (...args: any[]) => any).length
+
+    const middleware = [
+      ...controllerMiddleware,
+      ...(definition.middleware || []),
+      ...MetadataReader.getMiddlewareMetadata(controller, propertyKey),
+    ].map(mw => toMiddlewareHandler(mw as (...args: any[]) => any, container))
+
+    const handler = async (req: EnhancedRequest): Promise<Response> => {
+      // Scopes are keyed per invocation: the request id may come from the
+      // client's X-Request-ID header, so concurrent requests can share it
+      const scopeId = randomUUID()
+
+      try {
+        const instance = container.resolve<Record<string | symbol, (...args: unknown[]) => unknown>>(controller, { requestId: scopeId })
+        const args = await resolveArguments(params, arity, req, container, scopeId)
+        return wrapResponse(await instance[propertyKey](...args))
+      }
+      catch (error) {
+        if (error instanceof InvalidBodyError) {
+          return Response.json({ success: false, message: error.message }, { status: 400 })
+        }
+        throw error
+      }
+      finally {
+        container.disposeScope(scopeId)
+      }
+    }
+
+    await router.match([method], joinPaths(metadata.prefix || '', definition.path), handler, options.type, undefined, middleware)
+  }
+}
+
+/**
+ * Controller registration extension for Router class
+ */
+export function registerControllerRoutes(RouterClass: typeof Router): void {
+  Object.defineProperties(RouterClass.prototype, {
+    /**
+     * Register the routes declared with @Controller, @Get, @Post, ... decorators
+     */
+    registerControllers: {
+      async value(this: Router, controllers: ControllerClass[], options: ControllerRegistrationOptions = {}): Promise<Router> {
+        for (const controller of controllers) {
+          await registerController(this, controller, options)
+        }
+        return this
+      },
+      writable: true,
+      configurable: true,
+    },
+  })
+}
+
+declare module './router' {
+  interface Router {
+    /**
+     * Register the routes declared on decorated controller classes
+     * @example
+     * await router.registerControllers([UserController, PostController])
+     */
+    registerControllers: (controllers: ControllerClass[], options?: ControllerRegistrationOptions) => Promise<Router>
+  }
+}
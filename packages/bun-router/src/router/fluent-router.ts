@@ -7,12 +7,15 @@
 import type {
   ActionHandler,
   EnhancedRequest,
+  JsonSchema,
   MiddlewareHandler,
   Route,
   RouteHandler,
 } from '../types'
 import type { Router } from './router'
+import { requestCan, unauthorized } from '../authorization/gate'
 import { matchPath } from '../utils'
+import { createSignedRoute } from './signed-routes'
 
 // ============================================================================
 // Types
@@ -73,6 +76,9 @@ export interface FluentRoute {
   whereUuid: (param: string) => FluentRoute
   whereSlug: (param: string) => FluentRoute
   can: (ability: string, model?: string) => FluentRoute
+  produces: (...mediaTypes: string[]) => FluentRoute
+  consumes: (...mediaTypes: string[]) => FluentRoute
+  responds: (status: number, schema: JsonSchema | string, description?: string, contentType?: string) => FluentRoute
   missing: (handler: (req: EnhancedRequest) => Response) => FluentRoute
   withTrashed: () => FluentRoute
   scopeBindings: () => FluentRoute
@@ -396,6 +402,21 @@ export class FluentRouter {
     return url
   }
 
+  /**
+   * Get a signed URL for a named route
+   */
+  signedRoute(name: string, params: Record<string, string | number> = {}): Promise<string> {
+    return createSignedRoute(this.router, name, params)
+  }
+
+  /**
+   * Get a signed URL for a named route that expires at the given time
+   * (a Date, or seconds from now)
+   */
+  temporarySignedRoute(name: string, expiresAt: Date | number, params: Record<string, string | number> = {}): Promise<string> {
+    return createSignedRoute(this.router, name, params, expiresAt)
+  }
+
   // ============================================================================
   // Fallback & Error Handling
   // ============================================================================
@@ -431,7 +452,7 @@ export class FluentRouter {
     if (route.name) {
       this.router.namedRoutes.set(route.name, route)
     }
-    return new FluentRouteBuilder(this.router, fullPath, method)
+    return new FluentRouteBuilder(this.router, fullPath, method, route)
   }
 
   /**
@@ -552,11 +573,13 @@ export class FluentRouteBuilder implements FluentRoute {
   private scopeBindingsEnabled: boolean = false
   private ability: string | null = null
   private abilityModel: string | null = null
+  private route: Route | null
 
-  constructor(router: Router, path: string, method: string) {
+  constructor(router: Router, path: string, method: string, route?: Route) {
     this.router = router
     this.path = path
     this.method = method
+    this.route = route ?? null
   }
 
   /**
@@ -651,19 +674,21 @@ export class FluentRouteBuilder implements FluentRoute {
   }
 
   /**
-   * Add authorization check
+   * Add authorization check against the router's gate. `model` names a
+   * route-bound model, which is passed to the ability and picks the policy.
    */
   can(ability: string, model?: string): this {
     this.ability = ability
     this.abilityModel = model || null
     // Add authorization middleware
     const authMiddleware: MiddlewareHandler = async (req, next) => {
-      // Check if user can perform ability
       const user = req.user
       if (!user) {
         return new Response('Unauthorized', { status: 401 })
       }
-      // Authorization logic would go here
+      if (!(await requestCan(this.router.gate, req, ability, model ? [model] : []))) {
+        throw unauthorized(ability)
+      }
       return next()
     }
     const route = this.findRoute()
@@ -673,6 +698,41 @@ export class FluentRouteBuilder implements FluentRoute {
     return this
   }
 
+  /**
+   * Declare the media types the route responds with
+   */
+  produces(...mediaTypes: string[]): this {
+    const route = this.findRoute()
+    if (route) {
+      route.produces = mediaTypes
+      this.router.negotiatedRoutes.add(`${route.domain || ''}:${route.method}:${route.path}`)
+    }
+    return this
+  }
+
+  /**
+   * Declare the request body media types the route accepts
+   */
+  consumes(...mediaTypes: string[]): this {
+    const route = this.findRoute()
+    if (route) {
+      route.consumes = mediaTypes
+      this.router.negotiatedRoutes.add(`${route.domain || ''}:${route.method}:${route.path}`)
+    }
+    return this
+  }
+
+  /**
+   * Document a response of the route
+   */
+  responds(status: number, schema: JsonSchema | string, description?: string, contentType?: string): this {
+    const route = this.findRoute()
+    if (route) {
+      route.responses = { ...route.responses, [status]: { schema, description, contentType } }
+    }
+    return this
+  }
+
   /**
    * Handle missing model binding
    */
@@ -698,6 +758,10 @@ export class FluentRouteBuilder implements FluentRoute {
   }
 
   private findRoute(): Route | undefined {
+    // Several routes can share a path when they negotiate on media types
+    if (this.route) {
+      return this.route
+    }
     return this.router.routes.find(r =>
       r.path === this.path && r.method === this.method.toUpperCase(),
     )
@@ -14,6 +14,7 @@ export class FluentRouteBuilder {
   private middleware: MiddlewareHandler[] = []
   private cacheConfig?: RouteCacheConfig
   private throttleConfig?: ThrottleConfig
+  private throttleName?: string
   private routeName?: string
   private modelBindings: Record<string, BunQueryBuilderModel> = {}
 
@@ -50,7 +51,8 @@ export class FluentRouteBuilder {
   /**
    * Add route throttling with narrow type checking
    */
-  throttle(limit: ThrottlePattern | ThrottleConfig, _name?: string): this {
+  throttle(limit: ThrottlePattern | ThrottleConfig, name?: string): this {
+    this.throttleName = name
     if (typeof limit === 'string') {
       const parsed = parseThrottleString(limit)
       this.throttleConfig = {
@@ -102,7 +104,7 @@ export class FluentRouteBuilder {
 
     // Add throttling middleware
     if (this.throttleConfig) {
-      const throttleMiddleware = createRateLimitMiddleware(this.throttleConfig)
+      const throttleMiddleware = createRateLimitMiddleware(this.throttleConfig, this.throttleName)
       finalMiddleware.push(throttleMiddleware as MiddlewareHandler)
     }
 
@@ -23,6 +23,7 @@ export function registerHttpMethods(RouterClass: typeof Router): void {
         let routePath = path
         let routeMiddleware: MiddlewareHandler[] = []
         const routeType = type || 'web'
+        const version = this.currentGroup?.version
 
         if (this.currentGroup) {
           // Apply prefix if it exists
@@ -70,6 +71,10 @@ export function registerHttpMethods(RouterClass: typeof Router): void {
           middleware: routeMiddleware,
         }
 
+        if (version) {
+          route.version = version
+        }
+
         // Apply constraints from patterns map
         const paramNames = extractParamNames(routePath)
         const constraints: Record<string, string> = {}
@@ -1,5 +1,7 @@
 import type { ActionHandler, Route } from '../types'
 import { Dependencies, globalMiddlewarePipeline, MiddlewareFactory, MiddlewarePipeline, SkipConditions } from '../middleware/pipeline'
+import { registerApiDocs } from './api-docs'
+import { registerControllerRoutes } from './controller-routes'
 import { registerFileBasedRouting } from './file-based-routing'
 import { registerFileStreaming } from './file-streaming'
 import { FluentRouteBuilder, FluentRouter, RouteFactory, router, RouterUtils } from './fluent-routing'
@@ -7,11 +9,15 @@ import { registerGroupOrganization } from './group-organization'
 import { registerHttpMethods, registerRedirectMethods } from './http-methods'
 import { registerMiddlewareHandling } from './middleware'
 import { registerModelBinding } from './model-binding'
+import { registerOAuth } from './oauth'
 import { registerOptimizedRouteMatching } from './optimized-route-matching'
+import { registerProxy } from './proxy'
 import { registerRouteBuilding } from './route-building'
 import { registerRouteMatching } from './route-matching'
 import { Router } from './router'
 import { registerServerHandling } from './server'
+import { registerSignedRoutes } from './signed-routes'
+import { registerTus } from './tus'
 import { registerViewRendering } from './view-rendering'
 import { registerWebSocketHandling } from './websocket'
 import '../types' // Import types for type augmentation
@@ -30,6 +36,12 @@ registerServerHandling(Router)
 registerRouteBuilding(Router)
 registerModelBinding(Router)
 registerFileBasedRouting(Router)
+registerSignedRoutes(Router)
+registerControllerRoutes(Router)
+registerApiDocs(Router)
+registerTus(Router)
+registerProxy(Router)
+registerOAuth(Router)
 
 // Export the Router class and fluent routing features
 export { Router }
@@ -169,15 +181,33 @@ declare module './router' {
 export { Dependencies, FluentRouteBuilder, FluentRouter, globalMiddlewarePipeline, MiddlewareFactory, MiddlewarePipeline, RouteFactory, router, RouterUtils, SkipConditions }
 
 // Export routing features
+export * from '../routing/api-versioning'
 export * from '../routing/route-caching'
 export * from '../routing/route-throttling'
 export * from '../routing/subdomain-routing'
 
+// Export JSON Schema conversion of validation rules
+export { fieldToJsonSchema, rulesToJsonSchema } from '../validation/json-schema'
+
+// Export the API explorer
+export type { ApiDocsOptions } from './api-docs'
+export { createApiDocsSpec, renderApiExplorer } from './api-docs'
+
+// Export decorator-based controller registration
+export type { ControllerClass, ControllerRegistrationOptions } from './controller-routes'
+export { registerController } from './controller-routes'
+
 // Export handler resolution utilities
 export { createHandlerResolver, resolveHandler, wrapResponse } from './handler-resolver'
 
+// Export signed URL generation
+export { createSignedRoute } from './signed-routes'
+
 // Export validation integration
 export * from './validation-integration'
 
 // Export file-based routing
 export type { DiscoveredRoute, FileBasedRoutingConfig } from './file-based-routing'
+
+// Export per-route WebSocket options
+export type { WebSocketRouteOptions } from './websocket'
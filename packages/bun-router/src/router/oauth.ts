@@ -0,0 +1,88 @@
+import type { OAuthLogin, OAuthProviderOptions } from '../oauth'
+import type { EnhancedRequest, MiddlewareHandler } from '../types'
+import type { Router } from './router'
+import { OAuthError, OAuthProvider } from '../oauth'
+
+export interface OAuthRouteOptions extends OAuthProviderOptions {
+  /**
+   * Middleware run on the redirect and callback routes. The session
+   * middleware must be among them, or run globally.
+   */
+  middleware?: (string | MiddlewareHandler)[]
+
+  /**
+   * Where users are sent after logging in
+   * @default '/'
+   */
+  successRedirect?: string
+
+  /**
+   * Respond to a completed login instead of redirecting to `successRedirect`
+   */
+  onSuccess?: (req: EnhancedRequest, login: OAuthLogin) => Response | Promise<Response>
+
+  /**
+   * Respond to a failed login. Without it the OAuthError is thrown, which answers with a 401.
+   */
+  onError?: (req: EnhancedRequest, error: OAuthError) => Response | Promise<Response>
+}
+
+/**
+ * OAuth login extension for Router class
+ */
+export function registerOAuth(RouterClass: typeof Router): void {
+  Object.defineProperties(RouterClass.prototype, {
+    /**
+     * Register the redirect and callback routes logging users in with a provider
+     */
+    oauth: {
+      async value(this: Router, name: string, options: OAuthRouteOptions): Promise<OAuthProvider> {
+        const provider = new OAuthProvider(name, options)
+
+        const callback = async (req: EnhancedRequest): Promise<Response> => {
+          let login: OAuthLogin
+          try {
+            login = await provider.callback(req)
+          }
+          catch (error) {
+            if (options.onError && error instanceof OAuthError) {
+              return options.onError(req, error)
+            }
+            throw error
+          }
+
+          if (options.onSuccess) {
+            return options.onSuccess(req, login)
+          }
+          return new Response(null, {
+            status: 302,
+            headers: { 'Location': options.successRedirect ?? '/', 'Cache-Control': 'no-store' },
+          })
+        }
+
+        await this.get(provider.redirectPath, (req: EnhancedRequest) => provider.redirect(req), undefined, `oauth.${name}.redirect`, options.middleware)
+        await this.get(provider.callbackPath, callback, undefined, `oauth.${name}.callback`, options.middleware)
+
+        return provider
+      },
+      writable: true,
+      configurable: true,
+    },
+  })
+}
+
+declare module './router' {
+  interface Router {
+    /**
+     * Log users in with an OAuth 2.0 or OpenID Connect provider, registering
+     * `/auth/{name}/redirect` and `/auth/{name}/callback`
+     * @example
+     * router.use(session())
+     * await router.oauth('github', {
+     *   clientId: process.env.GITHUB_CLIENT_ID!,
+     *   clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+     * })
+     */
+    oauth: (name: string, options: OAuthRouteOptions) => Promise<OAuthProvider>
+  }
+}
@@ -0,0 +1,69 @@
+import type { ProxyOptions } from '../proxy'
+import type { EnhancedRequest, MiddlewareHandler } from '../types'
+import type { Router } from './router'
+import { ReverseProxy } from '../proxy'
+import { upgradeSocket } from './websocket'
+
+export interface ProxyRouteOptions extends ProxyOptions {
+  /**
+   * Middleware run before requests are forwarded, e.g. authentication or rate limiting
+   */
+  middleware?: (string | MiddlewareHandler)[]
+}
+
+/**
+ * Reverse proxy extension for Router class
+ */
+export function registerProxy(RouterClass: typeof Router): void {
+  Object.defineProperties(RouterClass.prototype, {
+    /**
+     * Forward every request matching a path to a pool of upstream servers
+     */
+    proxy: {
+      async value(this: Router, path: string, options: ProxyRouteOptions): Promise<ReverseProxy> {
+        const proxy = new ReverseProxy(options)
+
+        const forward = async (req: EnhancedRequest): Promise<Response> => {
+          const clientIp = this.serverInstance?.requestIP(req.nativeRequest ?? req)?.address
+
+          if ((options.websocket ?? true) && req.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+            const socket = await proxy.connect(req, clientIp)
+            if (socket instanceof Response) {
+              return socket
+            }
+
+            const response = upgradeSocket(this, req, socket.handlers, socket.protocol ? { 'Sec-WebSocket-Protocol': socket.protocol } : undefined)
+            if (response.status !== 101) {
+              socket.close()
+            }
+            return response
+          }
+
+          return proxy.handle(req, clientIp)
+        }
+
+        await this.any(path, forward, undefined, undefined, options.middleware)
+
+        return proxy
+      },
+      writable: true,
+      configurable: true,
+    },
+  })
+}
+
+declare module './router' {
+  interface Router {
+    /**
+     * Forward requests matching `path` to upstream servers, streaming bodies
+     * both ways. WebSocket upgrades are relayed to the targets too.
+     * @example
+     * await router.proxy('/billing/*', {
+     *   targets: ['http://billing-1:3000', { url: 'http://billing-2:3000', weight: 2 }],
+     *   strategy: 'weighted',
+     *   stripPrefix: true,
+     * })
+     */
+    proxy: (path: string, options: ProxyRouteOptions) => Promise<ReverseProxy>
+  }
+}
@@ -1,22 +1,38 @@
 import type { Server } from 'bun'
+import type { AuthorizationGate } from '../authorization/gate'
 import type { MiddlewareDependency, MiddlewarePipeline, MiddlewarePipelineStats, MiddlewareSkipCondition } from '../middleware/pipeline'
+import type { PubSubRelay } from '../pubsub/relay'
+import type { NegotiationResult } from '../request/negotiation'
+import type { ApiVersion, VersionResolution } from '../routing/api-versioning'
 import type {
   ActionHandler,
+  ApiVersionOptions,
   CookieOptions,
   CookieToSet,
   EnhancedRequest,
+  JsonSchema,
   MiddlewareHandler,
   NextFunction,
   Route,
   RouteGroup,
   RouteHandler,
   RouterConfig,
+  RouteResponse,
   ThrottlePattern,
   WebSocketConfig,
   WebSocketData,
 } from '../types'
+import type { ChannelManager } from '../websocket/channels'
+import type { TopicBroadcast } from './websocket'
+import { Gate, requestCan } from '../authorization/gate'
+import { RouterException } from '../errors/exceptions'
+import { signed } from '../middleware/signed_urls'
+import { getCookieKeyRing, protectCookieValue } from '../request/cookie-jar'
+import { appendVary, negotiateRoute, negotiationErrorResponse } from '../request/negotiation'
+import { applyVersionHeaders, isSunset, replaceVersionSegment, requestedVersion, selectVersionedRoute, versionChain, versionErrorResponse, versionVary } from '../routing/api-versioning'
 import { createRateLimitMiddleware, parseThrottleString } from '../routing/route-throttling'
 import { extractParamNames, joinPaths, matchPath } from '../utils'
+import { createWebSocketDispatcher, topicRelay } from './websocket'
 
 /**
  * Route compiler interface for pattern matching
@@ -70,6 +86,12 @@ export class Router {
   precompiledPatterns: Map<string, RegExp> = new Map()
   domainPatternCache: Map<string, RegExp> = new Map()
   routeCompiler: RouteCompiler | null = null
+  negotiatedRoutes: Set<string> = new Set()
+  apiVersions: Map<string, ApiVersion> = new Map()
+  schemas: Map<string, JsonSchema> = new Map()
+  pubsubRelay: PubSubRelay<TopicBroadcast> | null = null
+  channelManager: ChannelManager | null = null
+  gate: AuthorizationGate = Gate
 
   // Advanced middleware features
   private middlewareGroups: Map<string, MiddlewareHandler[]> = new Map()
@@ -133,6 +155,13 @@ export class Router {
       }
       return response
     })
+
+    // Signed URL middleware, checked against the keys this router signs with
+    this.namedMiddleware.set('signed', (): MiddlewareHandler => {
+      return async (req: EnhancedRequest, next: NextFunction) => {
+        return signed({ keys: this.config.signedUrls?.keys }).handle(req, next)
+      }
+    })
   }
 
   /**
@@ -227,6 +256,7 @@ export class Router {
     let routePath = path
     let routeMiddleware: MiddlewareHandler[] = []
     const routeType = type || 'web'
+    const version = this.currentGroup?.version
 
     if (this.currentGroup) {
       // Apply prefix if it exists
@@ -274,6 +304,10 @@ export class Router {
       middleware: routeMiddleware,
     }
 
+    if (version) {
+      route.version = version
+    }
+
     // Apply constraints from patterns map
     const paramNames = extractParamNames(routePath)
     const constraints: Record<string, string> = {}
@@ -423,6 +457,179 @@ export class Router {
     return this.match(methods, path, handler, type, name, middleware)
   }
 
+  /**
+   * Declare the media types the most recently added route responds with
+   */
+  produces(...mediaTypes: string[]): Router {
+    const lastRoute = this.routes[this.routes.length - 1]
+    if (lastRoute) {
+      lastRoute.produces = mediaTypes
+      this.negotiatedRoutes.add(`${lastRoute.domain || ''}:${lastRoute.method}:${lastRoute.path}`)
+    }
+    return this
+  }
+
+  /**
+   * Declare the request body media types the most recently added route accepts
+   */
+  consumes(...mediaTypes: string[]): Router {
+    const lastRoute = this.routes[this.routes.length - 1]
+    if (lastRoute) {
+      lastRoute.consumes = mediaTypes
+      this.negotiatedRoutes.add(`${lastRoute.domain || ''}:${lastRoute.method}:${lastRoute.path}`)
+    }
+    return this
+  }
+
+  /**
+   * Document a response of the most recently added route
+   * @example
+   * await router.get('/users/{id}', showUser)
+   * router.responds(200, 'User').responds(404, { type: 'object' }, 'User not found')
+   */
+  responds(status: number, schema: JsonSchema | string, description?: string, contentType?: string): Router {
+    const lastRoute = this.routes[this.routes.length - 1]
+    if (lastRoute) {
+      const response: RouteResponse = { schema, description, contentType }
+      lastRoute.responses = { ...lastRoute.responses, [status]: response }
+    }
+    return this
+  }
+
+  /**
+   * Register a named schema, emitted under `components.schemas` in the
+   * OpenAPI document and referenced by name from `responds()`
+   */
+  schema(name: string, schema: JsonSchema): Router {
+    this.schemas.set(name, schema)
+    return this
+  }
+
+  /**
+   * Pick the variant of a matched route for the request's Accept and Content-Type
+   * headers. Returns null when no route at that method and path declares media types.
+   */
+  negotiate(route: Route, req: Request): NegotiationResult | null {
+    if (!this.negotiatedRoutes.has(`${route.domain || ''}:${route.method}:${route.path}`)) {
+      return null
+    }
+
+    const candidates = route.domain ? [...this.routes, ...(this.domains[route.domain] || [])] : this.routes
+    const variants = [...new Set(candidates)].filter(candidate =>
+      candidate.method === route.method && candidate.path === route.path && candidate.domain === route.domain && candidate.version === route.version,
+    )
+
+    return negotiateRoute(variants, req)
+  }
+
+  /**
+   * Register routes for an API version. With the `path` strategy the version is
+   * also a path prefix, e.g. `/v2/users`; with `header` and `media-type` the
+   * routes share paths with other versions and are picked per request.
+   */
+  async version(
+    name: string,
+    options: ApiVersionOptions | (() => void | Promise<void>),
+    callback?: () => void | Promise<void>,
+  ): Promise<Router> {
+    if (typeof options === 'function') {
+      callback = options
+      options = {}
+    }
+
+    this.apiVersions.set(name, { name, ...options })
+
+    const previousGroup = this.currentGroup
+    const strategy = this.config.versioning?.strategy ?? 'path'
+
+    this.currentGroup = {
+      ...previousGroup,
+      prefix: strategy === 'path' ? joinPaths(previousGroup?.prefix || '', name) : previousGroup?.prefix,
+      version: name,
+    }
+
+    try {
+      await callback?.()
+    }
+    finally {
+      this.currentGroup = previousGroup
+    }
+
+    this.routeCache.clear()
+    return this
+  }
+
+  /**
+   * Resolve the API version for a request: pick the requested version's route,
+   * or inherit one from the versions it falls back to. Returns null when the
+   * request isn't versioned.
+   */
+  resolveVersion(
+    match: { route: Route, params: Record<string, string> } | undefined,
+    req: Request,
+    url: URL,
+    domain?: string,
+  ): VersionResolution | null {
+    if (this.apiVersions.size === 0) {
+      return null
+    }
+
+    const config = this.config.versioning ?? {}
+    const vary = versionVary(config)
+    const supported = [...this.apiVersions.keys()]
+    const requested = requestedVersion(req, url, config, this.apiVersions)
+
+    if (requested && !this.apiVersions.has(requested)) {
+      return { status: 400, message: `Unsupported API version: ${requested}`, supported, vary }
+    }
+
+    let resolved: { route: Route, params: Record<string, string> } | undefined
+    let name: string | undefined
+
+    if ((config.strategy ?? 'path') === 'path') {
+      name = match ? match.route.version ?? requested ?? undefined : requested ?? undefined
+
+      // /v2/users isn't registered - try /v1/users and so on down the chain
+      resolved = match
+      if (!resolved && requested) {
+        for (const fallback of versionChain(this.apiVersions, requested).slice(1)) {
+          const candidate = this.matchRoute(replaceVersionSegment(url.pathname, requested, fallback), req.method, domain)
+          if (candidate?.route.version === fallback) {
+            resolved = candidate
+            break
+          }
+        }
+      }
+    }
+    else {
+      if (!match) {
+        return null
+      }
+
+      const candidates = match.route.domain ? [...this.routes, ...(this.domains[match.route.domain] || [])] : this.routes
+      const variants = [...new Set(candidates)].filter(candidate =>
+        candidate.method === match.route.method && candidate.path === match.route.path && candidate.domain === match.route.domain,
+      )
+      if (!variants.some(variant => variant.version)) {
+        return null
+      }
+
+      name = requested ?? config.defaultVersion ?? match.route.version
+      const route = name ? selectVersionedRoute(variants, versionChain(this.apiVersions, name)) : match.route
+      if (!route) {
+        return { status: 404, message: `Not available in API version ${name}`, supported, vary }
+      }
+      resolved = { route, params: match.params }
+    }
+
+    const version = name ? this.apiVersions.get(name) : undefined
+    if (version && isSunset(version)) {
+      return { status: 410, message: `API version ${version.name} is no longer available`, version, supported, vary }
+    }
+
+    return resolved ? { ...resolved, version, vary } : null
+  }
+
   /**
    * Set fallback handler for unmatched routes
    */
@@ -498,12 +705,15 @@ export class Router {
     const serverOptions = {
       ...options,
       fetch: this.handleRequest.bind(this),
-      websocket: this.wsConfig,
+      websocket: createWebSocketDispatcher(this),
     } as Parameters<typeof Bun.serve>[0]
 
     // Start the server
     this.serverInstance = Bun.serve(serverOptions) as Server<WebSocketData>
 
+    // Receive topics published by other processes
+    await topicRelay(this)?.start()
+
     if (this.config.verbose) {
       const port = this.serverInstance.port
       const hostname = this.serverInstance.hostname
@@ -549,26 +759,48 @@ export class Router {
       const hostname = url.hostname || req.headers.get('host')?.split(':')[0] || 'localhost'
 
       // Find a matching route
-      const match = this.matchRoute(url.pathname, req.method as any, hostname)
+      let match = this.matchRoute(url.pathname, req.method as any, hostname)
+
+      // Pick the route for the requested API version, falling back to older versions
+      const versioning = this.resolveVersion(match, req, url, hostname)
+      if (versioning && 'status' in versioning) {
+        return versionErrorResponse(versioning)
+      }
+      if (versioning) {
+        match = { route: versioning.route, params: versioning.params }
+      }
 
       // Enhance the request with params and other utilities
       const enhancedReq = this.enhanceRequest(req, match?.params || {})
 
       if (match) {
+        // Pick the route variant for the Accept and Content-Type headers
+        const negotiation = this.negotiate(match.route, req)
+        if (negotiation && 'status' in negotiation) {
+          return negotiationErrorResponse(negotiation)
+        }
+        const route = negotiation?.route ?? match.route
+
         // Add the matched route to the request
-        enhancedReq.route = match.route
+        enhancedReq.route = route
+        if (negotiation?.mediaType) {
+          enhancedReq.negotiatedType = negotiation.mediaType
+        }
+        if (versioning?.version) {
+          enhancedReq.apiVersion = versioning.version.name
+        }
 
         // Collect all middleware to run
         const middlewareStack = [...this.globalMiddleware]
 
         // Add route-specific middleware
-        if (match.route.middleware && match.route.middleware.length > 0) {
-          middlewareStack.push(...match.route.middleware)
+        if (route.middleware && route.middleware.length > 0) {
+          middlewareStack.push(...route.middleware)
         }
 
         // Create a final middleware that executes the route handler
         const routeHandlerMiddleware = async (req: EnhancedRequest, _next: NextFunction) => {
-          return await this.resolveHandler(match.route.handler, req)
+          return await this.resolveHandler(route.handler, req)
         }
 
         // Add the route handler as the final middleware
@@ -579,7 +811,8 @@ export class Router {
 
         // Apply modified cookies to the response
         if (response) {
-          return this.applyModifiedCookies(response, enhancedReq)
+          const varied = appendVary(response, [...(versioning?.vary ?? []), ...(negotiation?.vary ?? [])])
+          return this.applyModifiedCookies(applyVersionHeaders(varied, versioning?.version), enhancedReq)
         }
 
         // This should not happen since we're always returning a response now
@@ -643,7 +876,9 @@ export class Router {
       })
     }
     catch (error) {
-      console.error('Error handling request:', error)
+      if (!(error instanceof RouterException) || error.statusCode >= 500) {
+        console.error('Error handling request:', error)
+      }
 
       // Still run global middleware for CORS headers on errors
       if (this.globalMiddleware.length > 0) {
@@ -652,6 +887,9 @@ export class Router {
           if (this.errorHandler) {
             return this.errorHandler(error as Error)
           }
+          if (error instanceof RouterException && error.statusCode < 500) {
+            return error.toResponse()
+          }
           return new Response(JSON.stringify({
             error: 'Internal Server Error',
             message: error instanceof Error ? error.message : String(error),
@@ -677,6 +915,11 @@ export class Router {
         return this.errorHandler(error as Error)
       }
 
+      // Client errors such as denied authorization keep their status
+      if (error instanceof RouterException && error.statusCode < 500) {
+        return error.toResponse()
+      }
+
       // Default error response
       return new Response(JSON.stringify({
         error: 'Internal Server Error',
@@ -928,6 +1171,9 @@ export class Router {
       json: () => req.json(),
       text: () => req.text(),
 
+      // Native request for Bun APIs such as server.upgrade()
+      nativeRequest: req,
+
       // Enhanced properties
       params,
       query,
@@ -972,6 +1218,14 @@ export class Router {
     // Add cookie utilities
     enhancedReq.cookies = {
       get: (name: string) => getCookies()[name],
+      getSigned: (name: string) => {
+        const value = getCookies()[name]
+        return value === undefined ? undefined : getCookieKeyRing(this.config.cookies)?.unsign(name, value)
+      },
+      getEncrypted: (name: string) => {
+        const value = getCookies()[name]
+        return value === undefined ? undefined : getCookieKeyRing(this.config.cookies)?.decrypt(name, value)
+      },
       set: (name: string, value: string, options: CookieOptions = {}) => {
         enhancedReq._cookiesToSet!.push({ name, value, options })
       },
@@ -1092,6 +1346,8 @@ export class Router {
       return value !== undefined && value !== null ? [value as T] : []
     }
 
+    ;(enhancedReq as any).can = (ability: string, ...args: unknown[]): Promise<boolean> => requestCan(this.gate, enhancedReq, ability, args)
+
     return enhancedReq as EnhancedRequest
   }
 
@@ -1134,7 +1390,8 @@ export class Router {
    * Serialize a cookie for the Set-Cookie header
    */
   serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
-    let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+    const protectedValue = protectCookieValue(name, value, options, this.config.cookies)
+    let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(protectedValue)}`
 
     if (options.maxAge !== undefined) {
       cookie += `; Max-Age=${options.maxAge}`
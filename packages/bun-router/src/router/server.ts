@@ -1,6 +1,12 @@
 import type { Server } from 'bun'
 import type { EnhancedRequest, HTTPMethod, ServerOptions } from '../types'
 import type { Router } from './router'
+import { requestCan } from '../authorization/gate'
+import { RouterException } from '../errors/exceptions'
+import { getCookieKeyRing, protectCookieValue } from '../request/cookie-jar'
+import { appendVary, negotiationErrorResponse } from '../request/negotiation'
+import { applyVersionHeaders, versionErrorResponse } from '../routing/api-versioning'
+import { createWebSocketDispatcher, topicRelay } from './websocket'
 
 /**
  * Server handling extension for Router class
@@ -27,14 +33,15 @@ export function registerServerHandling(RouterClass: typeof Router): void {
           fetch: this.handleRequest.bind(this),
         }
 
-        // Apply WebSocket configuration if provided
-        if (this.wsConfig) {
-          serverOptions.websocket = this.wsConfig
-        }
+        // Dispatch sockets to their route's handlers, or the router.websocket() config
+        serverOptions.websocket = createWebSocketDispatcher(this)
 
         // Start the server
         this.serverInstance = Bun.serve(serverOptions)
 
+        // Receive topics published by other processes
+        await topicRelay(this)?.start()
+
         if (this.config.verbose) {
           const port = this.serverInstance.port
           const hostname = this.serverInstance.hostname
@@ -71,7 +78,7 @@ export function registerServerHandling(RouterClass: typeof Router): void {
           port,
           hostname,
           fetch: this.handleRequest.bind(this),
-          websocket: this.wsConfig || undefined,
+          websocket: createWebSocketDispatcher(this),
         })
 
         if (this.config.verbose) {
@@ -116,26 +123,48 @@ export function registerServerHandling(RouterClass: typeof Router): void {
           const hostname = url.hostname || req.headers.get('host')?.split(':')[0] || 'localhost'
 
           // Find a matching route
-          const match = this.matchRoute(url.pathname, req.method as HTTPMethod, hostname)
+          let match = this.matchRoute(url.pathname, req.method as HTTPMethod, hostname)
+
+          // Pick the route for the requested API version, falling back to older versions
+          const versioning = this.resolveVersion(match, req, url, hostname)
+          if (versioning && 'status' in versioning) {
+            return versionErrorResponse(versioning)
+          }
+          if (versioning) {
+            match = { route: versioning.route, params: versioning.params }
+          }
 
           // Enhance the request with params and other utilities
           const enhancedReq = this.enhanceRequest(req, match?.params || {})
 
           if (match) {
+            // Pick the route variant for the Accept and Content-Type headers
+            const negotiation = this.negotiate(match.route, req)
+            if (negotiation && 'status' in negotiation) {
+              return negotiationErrorResponse(negotiation)
+            }
+            const route = negotiation?.route ?? match.route
+
             // Add the matched route to the request
-            enhancedReq.route = match.route
+            enhancedReq.route = route
+            if (negotiation?.mediaType) {
+              enhancedReq.negotiatedType = negotiation.mediaType
+            }
+            if (versioning?.version) {
+              enhancedReq.apiVersion = versioning.version.name
+            }
 
             // Collect all middleware to run
             const middlewareStack = [...this.globalMiddleware]
 
             // Add route-specific middleware
-            if (match.route.middleware && match.route.middleware.length > 0) {
-              middlewareStack.push(...match.route.middleware)
+            if (route.middleware && route.middleware.length > 0) {
+              middlewareStack.push(...route.middleware)
             }
 
             // Create a final middleware that executes the route handler
             const routeHandlerMiddleware = async (req: EnhancedRequest, _next: any) => {
-              return await this.resolveHandler(match.route.handler, req)
+              return await this.resolveHandler(route.handler, req)
             }
 
             // Add the route handler as the final middleware
@@ -146,7 +175,8 @@ export function registerServerHandling(RouterClass: typeof Router): void {
 
             // Apply modified cookies to the response
             if (response) {
-              return this.applyModifiedCookies(response, enhancedReq)
+              const varied = appendVary(response, [...(versioning?.vary ?? []), ...(negotiation?.vary ?? [])])
+              return this.applyModifiedCookies(applyVersionHeaders(varied, versioning?.version), enhancedReq)
             }
 
             // This should not happen since we're always returning a response now
@@ -188,13 +218,24 @@ export function registerServerHandling(RouterClass: typeof Router): void {
           })
         }
         catch (error) {
-          console.error('Error handling request:', error)
+          if (!(error instanceof RouterException) || error.statusCode >= 500) {
+            console.error('Error handling request:', error)
+          }
 
           // Use custom error handler if available
           if (this.errorHandler) {
             return this.errorHandler(error as Error)
           }
 
+          // Client errors such as denied authorization keep their status
+          if (error instanceof RouterException && error.statusCode < 500) {
+            const response = error.toResponse()
+            response.headers.set('Access-Control-Allow-Origin', '*')
+            response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS')
+            response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, Accept, Origin')
+            return response
+          }
+
           // Default error response with CORS headers
           return new Response(JSON.stringify({
             success: false,
@@ -243,6 +284,14 @@ export function registerServerHandling(RouterClass: typeof Router): void {
         // Create cookie utilities with lazy parsing
         const cookies = {
           get: (name: string) => getCookies()[name],
+          getSigned: (name: string) => {
+            const value = getCookies()[name]
+            return value === undefined ? undefined : getCookieKeyRing(this.config.cookies)?.unsign(name, value)
+          },
+          getEncrypted: (name: string) => {
+            const value = getCookies()[name]
+            return value === undefined ? undefined : getCookieKeyRing(this.config.cookies)?.decrypt(name, value)
+          },
           set: (name: string, value: string, options: any = {}) => {
             const enhancedRequest = req as EnhancedRequest
             if (!enhancedRequest._cookiesToSet) {
@@ -263,6 +312,7 @@ export function registerServerHandling(RouterClass: typeof Router): void {
         // Create enhanced request
         const enhancedReq = Object.assign(req, {
           params,
+          nativeRequest: req,
           cookies: getCookies(), // Set cookies as plain object for direct access
           _cookiesToSet: [],
           _cookiesToDelete: [],
@@ -270,6 +320,9 @@ export function registerServerHandling(RouterClass: typeof Router): void {
 
         // Add cookie methods to the request
         Object.assign(enhancedReq, { cookies: { ...getCookies(), ...cookies } })
+        Object.assign(enhancedReq, {
+          can: (ability: string, ...args: unknown[]): Promise<boolean> => requestCan(this.gate, enhancedReq, ability, args),
+        })
 
         return enhancedReq
       },
@@ -321,7 +374,8 @@ export function registerServerHandling(RouterClass: typeof Router): void {
      */
     serializeCookie: {
       value(name: string, value: string, options: any = {}): string {
-        let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+        const protectedValue = protectCookieValue(name, value, options, this.config.cookies)
+        let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(protectedValue)}`
 
         if (options.maxAge !== undefined) {
           cookie += `; Max-Age=${options.maxAge}`
@@ -0,0 +1,114 @@
+import type { EnhancedRequest } from '../types'
+import type { Router } from './router'
+import { signUrl, verifySignedUrl } from '../middleware/signed_urls'
+
+/**
+ * Build a signed URL for a named route. Parameters that don't fill a path
+ * placeholder are appended to the query string and covered by the signature.
+ */
+export async function createSignedRoute(
+  router: Router,
+  name: string,
+  params: Record<string, string | number> = {},
+  expiresAt?: Date | number,
+): Promise<string> {
+  const route = router.namedRoutes.get(name)
+  if (!route) {
+    throw new Error(`Route with name "${name}" not found`)
+  }
+
+  let url = route.path
+  const query = new URLSearchParams()
+  for (const [param, value] of Object.entries(params)) {
+    const encoded = encodeURIComponent(String(value))
+    if (url.includes(`{${param}}`) || url.includes(`{${param}?}`)) {
+      url = url.replace(`{${param}}`, encoded).replace(`{${param}?}`, encoded)
+    }
+    else {
+      query.set(param, String(value))
+    }
+  }
+
+  // Drop any optional parameters that weren't supplied
+  url = url.replace(/\/\{[^}]+\?\}/g, '')
+
+  const search = query.toString()
+  return signUrl(search ? `${url}?${search}` : url, router.config.signedUrls?.keys ?? [], {
+    // Numeric expiries are seconds from now
+    expiresAt: typeof expiresAt === 'number' ? new Date(Date.now() + expiresAt * 1000) : expiresAt,
+  })
+}
+
+/**
+ * Signed URL extension for Router class
+ */
+export function registerSignedRoutes(RouterClass: typeof Router): void {
+  Object.defineProperties(RouterClass.prototype, {
+    /**
+     * Generate a signed URL for a named route
+     */
+    signedRoute: {
+      async value(this: Router, name: string, params: Record<string, string | number> = {}): Promise<string> {
+        return createSignedRoute(this, name, params)
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Generate a signed URL for a named route that expires at the given time
+     */
+    temporarySignedRoute: {
+      async value(
+        this: Router,
+        name: string,
+        expiresAt: Date | number,
+        params: Record<string, string | number> = {},
+      ): Promise<string> {
+        return createSignedRoute(this, name, params, expiresAt)
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Check whether a request carries a valid, unexpired URL signature
+     */
+    hasValidSignature: {
+      async value(this: Router, req: EnhancedRequest): Promise<boolean> {
+        try {
+          await verifySignedUrl(req.url, this.config.signedUrls?.keys ?? [])
+          return true
+        }
+        catch {
+          return false
+        }
+      },
+      writable: true,
+      configurable: true,
+    },
+  })
+}
+
+declare module './router' {
+  interface Router {
+    /**
+     * Generate a signed URL for a named route
+     * @example
+     * await router.signedRoute('unsubscribe', { user: 42 })
+     */
+    signedRoute: (name: string, params?: Record<string, string | number>) => Promise<string>
+
+    /**
+     * Generate a signed URL that expires at `expiresAt` (a Date, or seconds from now)
+     * @example
+     * await router.temporarySignedRoute('downloads.show', 3600, { file: 'report.pdf' })
+     */
+    temporarySignedRoute: (name: string, expiresAt: Date | number, params?: Record<string, string | number>) => Promise<string>
+
+    /**
+     * Check whether a request carries a valid, unexpired URL signature
+     */
+    hasValidSignature: (req: EnhancedRequest) => Promise<boolean>
+  }
+}
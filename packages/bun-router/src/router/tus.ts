@@ -0,0 +1,55 @@
+import type { TusOptions } from '../middleware/tus'
+import type { EnhancedRequest, MiddlewareHandler } from '../types'
+import type { Router } from './router'
+import { TusServer } from '../middleware/tus'
+import { joinPaths } from '../utils'
+
+export interface TusRouteOptions extends TusOptions {
+  /**
+   * Middleware run before every tus request, e.g. authentication
+   */
+  middleware?: (string | MiddlewareHandler)[]
+}
+
+/**
+ * tus upload extension for Router class
+ */
+export function registerTus(RouterClass: typeof Router): void {
+  Object.defineProperties(RouterClass.prototype, {
+    /**
+     * Serve a tus resumable upload endpoint
+     */
+    tus: {
+      async value(this: Router, path: string, options: TusRouteOptions = {}): Promise<TusServer> {
+        const server = new TusServer(options)
+        const uploadPath = joinPaths(path, '{id}')
+        // Built from the matched path, which includes web/API and group prefixes
+        const location = (req: EnhancedRequest, id: string) => new URL(joinPaths(new URL(req.url).pathname, id), req.url).toString()
+        const { middleware } = options
+
+        await this.options(path, () => server.handleOptions(), undefined, undefined, middleware)
+        await this.post(path, (req: EnhancedRequest) => server.handleCreate(req, id => location(req, id)), undefined, undefined, middleware)
+        await this.options(uploadPath, () => server.handleOptions(), undefined, undefined, middleware)
+        await this.match(['HEAD'], uploadPath, (req: EnhancedRequest) => server.handleHead(req, req.params.id), undefined, undefined, middleware)
+        await this.patch(uploadPath, (req: EnhancedRequest) => server.handlePatch(req, req.params.id), undefined, undefined, middleware)
+        await this.delete(uploadPath, (req: EnhancedRequest) => server.handleDelete(req, req.params.id), undefined, undefined, middleware)
+
+        return server
+      },
+      writable: true,
+      configurable: true,
+    },
+  })
+}
+
+declare module './router' {
+  interface Router {
+    /**
+     * Serve a tus 1.0 resumable upload endpoint: uploads are created with a
+     * POST to `path` and continued at `{path}/{id}`
+     * @example
+     * await router.tus('/uploads', { maxSize: 2 * 1024 ** 3, onComplete: upload => processVideo(upload) })
+     */
+    tus: (path: string, options?: TusRouteOptions) => Promise<TusServer>
+  }
+}
@@ -1,5 +1,134 @@
-import type { WebSocketConfig } from '../types'
+import type { ServerWebSocket } from 'bun'
+import type { ChannelAuthorizer, EnhancedRequest, MiddlewareHandler, PresenceMember, User, WebSocketConfig, WebSocketData, WebSocketRouteData, WebSocketRouteHandlers } from '../types'
 import type { Router } from './router'
+import { Buffer } from 'node:buffer'
+import { PubSubRelay } from '../pubsub/relay'
+import { ChannelManager } from '../websocket/channels'
+import { findEventSocket } from '../websocket/events'
+
+/**
+ * Options for `router.ws()`
+ */
+export interface WebSocketRouteOptions {
+  /**
+   * Route name, for `router.route()`
+   */
+  name?: string
+  type?: 'api' | 'web'
+  /**
+   * Middleware run on the upgrade request, e.g. authentication or rate limiting
+   */
+  middleware?: (string | MiddlewareHandler)[]
+}
+
+// Handlers of the route each socket was upgraded on, keyed by the socket's data
+const socketHandlers = new WeakMap<WebSocketData, WebSocketRouteHandlers<any, any>>()
+
+/**
+ * A `router.publish()` call relayed to other processes
+ */
+export interface TopicBroadcast {
+  topic: string
+  /**
+   * Base64 when `binary` is set
+   */
+  data: string
+  binary: boolean
+  compress: boolean
+}
+
+/**
+ * Relay of `router.publish()` through the `pubsub` adapter of the router config
+ */
+export function topicRelay(router: Router): PubSubRelay<TopicBroadcast> | null {
+  if (!router.config.pubsub) {
+    return null
+  }
+
+  router.pubsubRelay ??= new PubSubRelay<TopicBroadcast>(router.config.pubsub, 'bun-router:websocket', ({ topic, data, binary, compress }) => {
+    router.serverInstance?.publish(topic, binary ? Buffer.from(data, 'base64') : data, compress)
+  })
+  return router.pubsubRelay
+}
+
+/**
+ * Channel authorization and presence for `router.channel()` and `router.join()`
+ */
+export function channelManager(router: Router): ChannelManager {
+  router.channelManager ??= new ChannelManager((channel, message) => {
+    if (router.serverInstance || router.config.pubsub) {
+      router.publish(channel, message)
+    }
+  })
+  return router.channelManager
+}
+
+/**
+ * Unwrap a request enhanced by the router for Bun's server APIs
+ */
+function nativeRequest(request: Request): Request {
+  return (request as EnhancedRequest).nativeRequest ?? request
+}
+
+/**
+ * Server WebSocket handlers that dispatch each socket to the handlers of the
+ * route it was upgraded on. Sockets upgraded with `router.upgrade()` go to the
+ * handlers configured with `router.websocket()`.
+ */
+export function createWebSocketDispatcher(router: Router): WebSocketConfig<any> {
+  const fallback = router.wsConfig
+  const handlers = (ws: { data: WebSocketData }): Partial<WebSocketRouteHandlers<any, any>> | null =>
+    socketHandlers.get(ws.data) ?? fallback
+
+  return {
+    ...fallback,
+    open: ws => handlers(ws)?.open?.(ws),
+    message: (ws, message) => {
+      // Sockets speaking the event protocol handle their own frames
+      const events = findEventSocket(ws)
+      return events ? events.handle(message) : handlers(ws)?.message?.(ws, message)
+    },
+    close: (ws, code, reason) => {
+      // Announce presence members leaving before the route's own handler runs
+      router.channelManager?.leaveAll(ws)
+      findEventSocket(ws)?.close()
+      return handlers(ws)?.close?.(ws, code, reason)
+    },
+    ping: (ws, data) => handlers(ws)?.ping?.(ws, data),
+    pong: (ws, data) => handlers(ws)?.pong?.(ws, data),
+    drain: ws => handlers(ws)?.drain?.(ws),
+    error: (ws, error) => handlers(ws)?.error?.(ws, error),
+  }
+}
+
+/**
+ * Upgrade a matched request to a socket dispatched to `handlers`, with the
+ * route params and user in `ws.data`
+ */
+export function upgradeSocket(router: Router, req: EnhancedRequest, handlers: WebSocketRouteHandlers<any, any>, headers?: Record<string, string>): Response {
+  if (!router.serverInstance) {
+    throw new Error('Server not started, cannot upgrade to WebSocket')
+  }
+
+  const user = req.user
+  const data: WebSocketRouteData = {
+    id: crypto.randomUUID(),
+    connectedAt: Date.now(),
+    params: req.params,
+    user,
+    userId: user?.id,
+    ip: router.serverInstance.requestIP(nativeRequest(req))?.address,
+    userAgent: req.headers.get('user-agent') || undefined,
+  }
+  socketHandlers.set(data, handlers)
+
+  if (!router.serverInstance.upgrade(nativeRequest(req), { data, headers })) {
+    return new Response('Upgrade Required', { status: 426, headers: { Upgrade: 'websocket' } })
+  }
+
+  // Bun ignores the response once the connection is upgraded
+  return new Response(null, { status: 101 })
+}
 
 /**
  * WebSocket extension for Router class
@@ -19,15 +148,86 @@ export function registerWebSocketHandling(RouterClass: typeof Router): void {
     },
 
     /**
-     * Publish a message to a WebSocket topic
+     * Register a WebSocket endpoint. The upgrade request is matched and runs
+     * through middleware like any GET route, then the socket is dispatched to
+     * this route's handlers.
+     */
+    ws: {
+      async value(this: Router, path: string, handlers: WebSocketRouteHandlers, options: WebSocketRouteOptions = {}): Promise<Router> {
+        const upgrade = async (req: EnhancedRequest): Promise<Response> => upgradeSocket(this, req, handlers)
+
+        return this.get(path, upgrade, options.type, options.name, options.middleware)
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Register the authorizer for private and presence channels matching a pattern
+     */
+    channel: {
+      value(this: Router, pattern: string, authorize: ChannelAuthorizer): Router {
+        channelManager(this).define(pattern, authorize)
+        return this
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Subscribe a socket to a channel once the channel's authorizer allows it
+     */
+    join: {
+      value(this: Router, ws: ServerWebSocket<WebSocketData>, channel: string): Promise<boolean> {
+        return channelManager(this).join(ws, channel)
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Unsubscribe a socket from a channel
+     */
+    leave: {
+      value(this: Router, ws: ServerWebSocket<WebSocketData>, channel: string): void {
+        channelManager(this).leave(ws, channel)
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Members of a presence channel
+     */
+    members: {
+      value(this: Router, channel: string): PresenceMember[] {
+        return channelManager(this).members(channel)
+      },
+      writable: true,
+      configurable: true,
+    },
+
+    /**
+     * Publish a message to a WebSocket topic. With a `pubsub` adapter the
+     * message also reaches subscribers connected to other processes.
      */
     publish: {
-      value(topic: string, data: string | ArrayBuffer | Uint8Array, compress = false): number {
-        if (!this.serverInstance) {
+      value(this: Router, topic: string, data: string | ArrayBuffer | Uint8Array, compress = false): number {
+        const relay = topicRelay(this)
+        if (!this.serverInstance && !relay) {
           throw new Error('Server not started, cannot publish to WebSocket topics')
         }
 
-        return this.serverInstance.publish(topic, data, compress)
+        if (relay) {
+          const binary = typeof data !== 'string'
+          const encoded = typeof data === 'string' ? data : Buffer.from(data instanceof ArrayBuffer ? new Uint8Array(data) : data).toString('base64')
+          relay.publish({ topic, data: encoded, binary, compress }).catch((error) => {
+            console.error(`Failed to relay WebSocket topic "${topic}":`, error)
+          })
+        }
+
+        // Returns the bytes sent to subscribers of this process
+        return this.serverInstance?.publish(topic, data, compress) ?? 0
       },
       writable: true,
       configurable: true,
@@ -61,7 +261,7 @@ export function registerWebSocketHandling(RouterClass: typeof Router): void {
           throw new Error('WebSocket configuration not set, use router.websocket() to configure')
         }
 
-        return this.serverInstance.upgrade(request, options)
+        return this.serverInstance.upgrade(nativeRequest(request), options)
       },
       writable: true,
       configurable: true,
@@ -76,7 +276,7 @@ export function registerWebSocketHandling(RouterClass: typeof Router): void {
           throw new Error('Server not started, cannot set timeout')
         }
 
-        this.serverInstance.timeout(request, seconds)
+        this.serverInstance.timeout(nativeRequest(request), seconds)
       },
       writable: true,
       configurable: true,
@@ -91,10 +291,61 @@ export function registerWebSocketHandling(RouterClass: typeof Router): void {
           throw new Error('Server not started, cannot get request IP')
         }
 
-        return this.serverInstance.requestIP(request)
+        return this.serverInstance.requestIP(nativeRequest(request))
       },
       writable: true,
       configurable: true,
     },
   })
 }
+
+declare module './router' {
+  interface Router {
+    websocket: (config: WebSocketConfig<any>) => Router
+    publish: (topic: string, data: string | ArrayBuffer | Uint8Array, compress?: boolean) => number
+    subscriberCount: (topic: string) => number
+    upgrade: (request: Request, options?: { headers?: Record<string, string>, data?: any }) => boolean
+    timeout: (request: Request, seconds: number) => void
+    requestIP: (request: Request) => { address: string, port: number } | null
+
+    /**
+     * Register a WebSocket endpoint with its own handlers. Middleware runs
+     * before the upgrade, and `ws.data` carries the typed route params and user.
+     * @example
+     * await router.ws('/chat/{room}', {
+     *   open: ws => ws.subscribe(ws.data.params.room),
+     *   message: (ws, message) => {
+     *     ws.publish(ws.data.params.room, message)
+     *   },
+     * }, { middleware: ['auth'] })
+     */
+    ws: <TPath extends string, TUser = User>(
+      path: TPath,
+      handlers: WebSocketRouteHandlers<TPath, TUser>,
+      options?: WebSocketRouteOptions,
+    ) => Promise<Router>
+
+    /**
+     * Register the authorizer for `private-` and `presence-` channels matching
+     * `pattern`. It runs when a socket joins, with the socket's user and the
+     * pattern's params, and returns whether the user may join or, for presence
+     * channels, the member info shown to others.
+     * @example
+     * router.channel('orders.{id}', async (user, { id }) => (await findOrder(id))?.userId === user.id)
+     * router.channel('chat.{room}', user => ({ id: user.id, name: user.name }))
+     */
+    channel: <TPattern extends string, TUser = User>(pattern: TPattern, authorize: ChannelAuthorizer<TPattern, TUser>) => Router
+
+    /**
+     * Authorize a socket and subscribe it to a channel. Resolves false when denied.
+     */
+    join: (ws: ServerWebSocket<any>, channel: string) => Promise<boolean>
+
+    leave: (ws: ServerWebSocket<any>, channel: string) => void
+
+    /**
+     * Members of a presence channel connected to this process
+     */
+    members: (channel: string) => PresenceMember[]
+  }
+}
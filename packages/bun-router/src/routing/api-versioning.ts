@@ -0,0 +1,250 @@
+/**
+ * API Versioning
+ *
+ * Helpers behind `router.version()`: reading the requested version from a
+ * path segment, header or media type, walking `fallbackTo` chains and
+ * emitting `Deprecation` / `Sunset` headers.
+ */
+
+import type { ApiVersionOptions, Route, VersioningConfig } from '../types'
+
+export interface ApiVersion extends ApiVersionOptions {
+  name: string
+}
+
+export type VersionResolution =
+  | { route: Route, params: Record<string, string>, version?: ApiVersion, vary: string[] }
+  | { status: 400 | 404 | 410, message: string, version?: ApiVersion, supported: string[], vary: string[] }
+
+/**
+ * Read the requested version from the request. Path segments only count when
+ * they name a registered version; headers and media types are returned as-is
+ * so unknown versions can be rejected.
+ */
+export function requestedVersion(req: Request, url: URL, config: VersioningConfig, versions: Map<string, ApiVersion>): string | null {
+  const strategy = config.strategy ?? 'path'
+
+  if (strategy === 'path') {
+    return url.pathname.split('/').find(segment => versions.has(segment)) ?? null
+  }
+
+  if (strategy === 'header') {
+    const value = req.headers.get(config.header ?? 'Accept-Version')?.trim()
+    return value ? normalizeVersion(value, versions) : null
+  }
+
+  const accept = req.headers.get('accept')
+  if (!accept) {
+    return null
+  }
+
+  const vendor = config.vendor ? escapeRegExp(config.vendor) : '[^.+;,\\s]+'
+  const vendorMatch = accept.match(new RegExp(`application/vnd\\.${vendor}\\.([^+;,\\s]+)`, 'i'))
+  if (vendorMatch) {
+    return normalizeVersion(vendorMatch[1], versions)
+  }
+
+  const paramMatch = accept.match(/;\s*version=["']?([^;,"'\s]+)/i)
+  return paramMatch ? normalizeVersion(paramMatch[1], versions) : null
+}
+
+/**
+ * Accept `2` for a version registered as `v2`
+ */
+function normalizeVersion(value: string, versions: Map<string, ApiVersion>): string {
+  if (!versions.has(value) && versions.has(`v${value}`)) {
+    return `v${value}`
+  }
+  return value
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * A version followed by its `fallbackTo` chain, e.g. ['v3', 'v2', 'v1']
+ */
+export function versionChain(versions: Map<string, ApiVersion>, name: string): string[] {
+  const chain: string[] = []
+  let current: string | undefined = name
+
+  // Guard against cycles such as v1 -> v2 -> v1
+  while (current && !chain.includes(current)) {
+    chain.push(current)
+    current = versions.get(current)?.fallbackTo
+  }
+
+  return chain
+}
+
+/**
+ * Swap the version segment of a path, e.g. /api/v2/users -> /api/v1/users
+ */
+export function replaceVersionSegment(pathname: string, from: string, to: string): string {
+  const segments = pathname.split('/')
+  const index = segments.indexOf(from)
+  if (index !== -1) {
+    segments[index] = to
+  }
+  return segments.join('/')
+}
+
+export interface VersionedRouteEntry {
+  route: Route
+  /**
+   * Path the route is served at in this version
+   */
+  path: string
+  /**
+   * Version the route is inherited from through `fallbackTo`
+   */
+  inheritedFrom?: string
+}
+
+/**
+ * Every route a version serves: its own routes, then routes inherited from
+ * the versions it falls back to that it doesn't override
+ */
+export function routesForVersion(routes: Route[], versions: Map<string, ApiVersion>, name: string): VersionedRouteEntry[] {
+  const entries: VersionedRouteEntry[] = []
+  const seen = new Set<string>()
+
+  for (const source of versionChain(versions, name)) {
+    for (const route of routes) {
+      if (route.version !== source) {
+        continue
+      }
+
+      const path = source === name ? route.path : replaceVersionSegment(route.path, source, name)
+      const key = `${route.domain || ''}:${route.method}:${path}`
+      if (seen.has(key)) {
+        continue
+      }
+
+      seen.add(key)
+      entries.push(source === name ? { route, path } : { route, path, inheritedFrom: source })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Pick the route for a version from routes sharing a method and path,
+ * following the fallback chain and ending with unversioned routes
+ */
+export function selectVersionedRoute(variants: Route[], chain: string[]): Route | undefined {
+  for (const name of chain) {
+    const route = variants.find(variant => variant.version === name)
+    if (route) {
+      return route
+    }
+  }
+  return variants.find(variant => !variant.version)
+}
+
+/**
+ * Request headers a versioned response varies on
+ */
+export function versionVary(config: VersioningConfig): string[] {
+  switch (config.strategy ?? 'path') {
+    case 'header':
+      return [config.header ?? 'Accept-Version']
+    case 'media-type':
+      return ['Accept']
+    default:
+      return []
+  }
+}
+
+/**
+ * Parse a `deprecatedAt` / `sunsetAt` option
+ */
+export function toDate(value: Date | string | undefined): Date | undefined {
+  if (!value) {
+    return undefined
+  }
+  const date = value instanceof Date ? value : new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Whether a version is past its sunset date
+ */
+export function isSunset(version: ApiVersion, now: Date = new Date()): boolean {
+  const sunsetAt = toDate(version.sunsetAt)
+  return !!sunsetAt && sunsetAt <= now
+}
+
+/**
+ * `Deprecation` (RFC 9745), `Sunset` (RFC 8594) and deprecation `Link` headers for a version
+ */
+export function versionHeaders(version: ApiVersion): Record<string, string> {
+  const headers: Record<string, string> = {}
+
+  const deprecatedAt = toDate(version.deprecatedAt)
+  if (deprecatedAt) {
+    headers.Deprecation = `@${Math.floor(deprecatedAt.getTime() / 1000)}`
+  }
+
+  const sunsetAt = toDate(version.sunsetAt)
+  if (sunsetAt) {
+    headers.Sunset = sunsetAt.toUTCString()
+  }
+
+  if (version.deprecationLink) {
+    headers.Link = `<${version.deprecationLink}>; rel="deprecation"; type="text/html"`
+  }
+
+  return headers
+}
+
+function setVersionHeaders(target: Headers, headers: [string, string][]): void {
+  for (const [name, value] of headers) {
+    if (name === 'Link') {
+      target.append(name, value)
+    }
+    else {
+      target.set(name, value)
+    }
+  }
+}
+
+/**
+ * Add a version's headers to a response
+ */
+export function applyVersionHeaders(response: Response, version: ApiVersion | undefined): Response {
+  const headers = version ? Object.entries(versionHeaders(version)) : []
+  if (headers.length === 0) {
+    return response
+  }
+
+  try {
+    setVersionHeaders(response.headers, headers)
+    return response
+  }
+  catch {
+    // Immutable headers (e.g. a proxied fetch response) - copy the response
+    const copy = new Headers(response.headers)
+    setVersionHeaders(copy, headers)
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers: copy })
+  }
+}
+
+/**
+ * Build the automatic 400 / 404 / 410 response for a failed version resolution
+ */
+export function versionErrorResponse(result: Extract<VersionResolution, { status: number }>): Response {
+  const headers = new Headers({ 'Content-Type': 'application/json' })
+  if (result.vary.length > 0) {
+    headers.set('Vary', result.vary.join(', '))
+  }
+
+  const response = new Response(JSON.stringify({ success: false, message: result.message, supported: result.supported }), {
+    status: result.status,
+    headers,
+  })
+
+  return applyVersionHeaders(response, result.version)
+}
@@ -1,5 +1,6 @@
-import type { EnhancedRequest, MiddlewareHandler, NextFunction, ThrottlePattern } from '../types'
-import { LRUCache } from '../cache/lru-cache'
+import type { EnhancedRequest, MiddlewareHandler, NextFunction, RateLimitAlgorithm, RateLimitStore, ThrottlePattern } from '../types'
+import { config as routerConfig } from '../config'
+import { createRateLimitStore, MemoryRateLimitStore } from '../rate-limit'
 
 /**
  * Throttle configuration for rate limiting
@@ -12,6 +13,8 @@ export interface ThrottleConfig {
   onLimitReached?: (req: EnhancedRequest, info: RateLimitInfo) => Response // Custom response when limit reached
   headers?: boolean // Include rate limit headers in response
   maxRequests?: number
+  algorithm?: RateLimitAlgorithm // Defaults to the registry's algorithm
+  store?: RateLimitStore // Defaults to the registry's store
 }
 
 /**
@@ -24,30 +27,94 @@ export interface RateLimitInfo {
   remaining: number
   limit: number
   windowMs: number
+  retryAfter?: number // Milliseconds until a limited request may be retried
 }
 
 /**
- * Rate limit entry stored in cache
+ * Global rate limiters registry
  */
-interface RateLimitEntry {
-  count: number
-  resetTime: number
-  firstHit: number
+export class RateLimitRegistry {
+  private limiters = new Map<string, RateLimiter>()
+  private defaultStore?: RateLimitStore
+
+  /**
+   * Algorithm of limiters not choosing their own
+   */
+  algorithm: RateLimitAlgorithm = 'fixed-window'
+
+  /**
+   * Store of limiters not given their own, built from `server.rateLimit.stores`
+   * on first use. Share a SQLite or Redis store to enforce limits across processes.
+   */
+  get store(): RateLimitStore {
+    this.defaultStore ??= createRateLimitStore(routerConfig.server?.rateLimit?.stores)
+    return this.defaultStore
+  }
+
+  set store(store: RateLimitStore) {
+    this.defaultStore = store
+  }
+
+  /**
+   * Set the defaults used by every limiter, including `throttle:` middleware
+   */
+  configure(options: { store?: RateLimitStore, algorithm?: RateLimitAlgorithm }): this {
+    if (options.store) {
+      this.store = options.store
+    }
+    if (options.algorithm) {
+      this.algorithm = options.algorithm
+    }
+    return this
+  }
+
+  /**
+   * Register a rate limiter
+   */
+  register(name: string, config: ThrottleConfig): RateLimiter {
+    const limiter = new RateLimiter(config, name)
+    this.limiters.set(name, limiter)
+    return limiter
+  }
+
+  /**
+   * Get rate limiter by name
+   */
+  get(name: string): RateLimiter | undefined {
+    return this.limiters.get(name)
+  }
+
+  /**
+   * Create or get rate limiter
+   */
+  getOrCreate(name: string, config: ThrottleConfig): RateLimiter {
+    const existing = this.limiters.get(name)
+    if (existing) {
+      return existing
+    }
+    return this.register(name, config)
+  }
 }
 
+/**
+ * Global rate limit registry instance
+ */
+export const rateLimitRegistry: RateLimitRegistry = new RateLimitRegistry()
+
 /**
  * Rate limiter implementation
  */
 export class RateLimiter {
-  private cache: LRUCache<RateLimitEntry>
   private config: ThrottleConfig
+  private name?: string
 
-  constructor(config: ThrottleConfig, cacheSize: number = 10000) {
+  /**
+   * Limiters sharing a name share their counters. Unnamed limiters share
+   * counters with limiters of the same limit, window and algorithm.
+   */
+  constructor(config: ThrottleConfig, name?: string) {
     this.config = config
-    this.cache = new LRUCache<RateLimitEntry>({
-      maxSize: cacheSize,
-      ttl: config.windowMs * 2, // Keep entries longer than window for cleanup
-    })
+    this.name = name
   }
 
   /**
@@ -68,37 +135,41 @@ export class RateLimiter {
       }
     }
 
-    const key = this.generateKey(req)
-    const now = Date.now()
-
-    let entry = this.cache.get(key)
-
-    // Clean up expired entry or create new one
-    if (!entry || now >= entry.resetTime) {
-      entry = {
-        count: 1,
-        resetTime: now + this.config.windowMs,
-        firstHit: now,
-      }
-    }
-    else {
-      entry.count++
-    }
-
-    // Update cache
-    this.cache.set(key, entry)
+    const result = await this.store.consume(this.storeKey(this.generateKey(req)), {
+      algorithm: this.algorithm,
+      limit: this.config.maxAttempts,
+      windowMs: this.config.windowMs,
+    })
 
     const info: RateLimitInfo = {
-      totalHits: entry.count,
-      resetTime: new Date(entry.resetTime),
-      remaining: Math.max(0, this.config.maxAttempts - entry.count),
+      totalHits: result.hits,
+      resetTime: new Date(result.resetTime),
+      remaining: result.remaining,
       limit: this.config.maxAttempts,
       windowMs: this.config.windowMs,
+      retryAfter: result.retryAfter,
     }
 
-    const allowed = entry.count <= this.config.maxAttempts
+    return { allowed: result.allowed, info }
+  }
+
+  /**
+   * Clear the counters of a key produced by the key generator
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.reset(this.storeKey(key))
+  }
+
+  private get store(): RateLimitStore {
+    return this.config.store ?? rateLimitRegistry.store
+  }
 
-    return { allowed, info }
+  private get algorithm(): RateLimitAlgorithm {
+    return this.config.algorithm ?? rateLimitRegistry.algorithm
+  }
+
+  private storeKey(key: string): string {
+    return `${this.name ?? `${this.config.maxAttempts},${this.config.windowMs},${this.algorithm}`}:${key}`
   }
 
   /**
@@ -147,10 +218,10 @@ export class RateLimiter {
   /**
    * Get current statistics
    */
-  getStats(): ReturnType<LRUCache<RateLimitEntry>['getStats']> & { config: { maxAttempts: number, windowMs: number } } {
+  getStats(): { config: { algorithm: RateLimitAlgorithm, maxAttempts: number, windowMs: number } } {
     return {
-      ...this.cache.getStats(),
       config: {
+        algorithm: this.algorithm,
         maxAttempts: this.config.maxAttempts,
         windowMs: this.config.windowMs,
       },
@@ -158,45 +229,6 @@ export class RateLimiter {
   }
 }
 
-/**
- * Global rate limiters registry
- */
-export class RateLimitRegistry {
-  private limiters = new Map<string, RateLimiter>()
-
-  /**
-   * Register a rate limiter
-   */
-  register(name: string, config: ThrottleConfig): RateLimiter {
-    const limiter = new RateLimiter(config)
-    this.limiters.set(name, limiter)
-    return limiter
-  }
-
-  /**
-   * Get rate limiter by name
-   */
-  get(name: string): RateLimiter | undefined {
-    return this.limiters.get(name)
-  }
-
-  /**
-   * Create or get rate limiter
-   */
-  getOrCreate(name: string, config: ThrottleConfig): RateLimiter {
-    const existing = this.limiters.get(name)
-    if (existing) {
-      return existing
-    }
-    return this.register(name, config)
-  }
-}
-
-/**
- * Global rate limit registry instance
- */
-export const rateLimitRegistry: RateLimitRegistry = new RateLimitRegistry()
-
 /**
  * Create rate limiting middleware
  */
@@ -215,9 +247,10 @@ export function createRateLimitMiddleware(config: ThrottleConfig, name?: string)
       }
 
       // Default rate limit response
+      const retryAfter = Math.ceil((info.retryAfter ?? info.resetTime.getTime() - Date.now()) / 1000)
       const headers = new Headers({
         'Content-Type': 'application/json',
-        'Retry-After': Math.ceil((info.resetTime.getTime() - Date.now()) / 1000).toString(),
+        'Retry-After': retryAfter.toString(),
       })
 
       if (config.headers !== false) {
@@ -229,8 +262,8 @@ export function createRateLimitMiddleware(config: ThrottleConfig, name?: string)
       return new Response(
         JSON.stringify({
           error: 'Too Many Requests',
-          message: `Rate limit exceeded. Try again in ${Math.ceil((info.resetTime.getTime() - Date.now()) / 1000)} seconds.`,
-          retryAfter: Math.ceil((info.resetTime.getTime() - Date.now()) / 1000),
+          message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+          retryAfter,
         }),
         {
           status: 429,
@@ -451,7 +484,7 @@ export const RateLimitUtils = {
    * Get rate limit info for a request without incrementing
    */
   getInfo: async (req: EnhancedRequest, config: ThrottleConfig): Promise<RateLimitInfo> => {
-    const limiter: RateLimiter = new RateLimiter(config)
+    const limiter: RateLimiter = new RateLimiter({ ...config, store: new MemoryRateLimitStore() })
     const { info } = await limiter.checkLimit(req)
     return info
   },
@@ -459,10 +492,11 @@ export const RateLimitUtils = {
   /**
    * Reset rate limit for a specific key
    */
-  reset: (limiterName: string, key: string): boolean => {
+  reset: async (limiterName: string, key: string): Promise<boolean> => {
     const limiter = rateLimitRegistry.get(limiterName)
     if (limiter) {
-      return (limiter as any).cache.delete(key)
+      await limiter.reset(key)
+      return true
     }
     return false
   },
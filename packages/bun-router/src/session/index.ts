@@ -0,0 +1,14 @@
+export {
+  type BaseSessionStoreOptions,
+  createSessionStore,
+  DEFAULT_SESSION_TTL,
+  FileSessionStore,
+  type FileSessionStoreOptions,
+  jsonSessionSerializer,
+  MemorySessionStore,
+  RedisSessionStore,
+  type RedisSessionStoreOptions,
+  type SessionStoreConfig,
+  SQLiteSessionStore,
+  type SQLiteSessionStoreOptions,
+} from './stores'
@@ -0,0 +1,514 @@
+/**
+ * Session Stores
+ *
+ * Pluggable persistence backends for the Session middleware.
+ * All stores express TTLs in seconds and drop expired sessions on read.
+ */
+
+import type { RedisClientLike, SecurityConfig, SessionData, SessionSerializer, SessionStore } from '../types'
+import { RedisClient } from 'bun'
+import { Database } from 'bun:sqlite'
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+/**
+ * Default session lifetime in seconds (24 hours)
+ */
+export const DEFAULT_SESSION_TTL = 86400
+
+/**
+ * JSON serializer used when no custom serializer is configured
+ */
+export const jsonSessionSerializer: SessionSerializer = {
+  stringify: (data: SessionData): string => JSON.stringify(data),
+  parse: (data: string): SessionData => JSON.parse(data) as SessionData,
+}
+
+export type SessionStoreConfig = NonNullable<SecurityConfig['auth']['session']['store']>
+
+export interface BaseSessionStoreOptions {
+  /**
+   * Default TTL in seconds when `set()` is called without one
+   * @default 86400
+   */
+  ttl?: number
+
+  /**
+   * Serializer used to encode session payloads
+   */
+  serializer?: SessionSerializer
+}
+
+/**
+ * Only allow session ids that are safe to use as keys and filenames
+ */
+function assertValidSessionId(sid: string): void {
+  if (!/^[\w-]{1,128}$/.test(sid)) {
+    throw new Error(`Invalid session id: ${sid}`)
+  }
+}
+
+/**
+ * In-memory session store
+ *
+ * Sessions are kept per process and are lost on restart. Payloads are
+ * serialized so handlers can never mutate stored state by reference.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { payload: string, expires: number }>()
+  private ttl: number
+  private serializer: SessionSerializer
+
+  constructor(options: BaseSessionStoreOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_SESSION_TTL
+    this.serializer = options.serializer ?? jsonSessionSerializer
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const entry = this.sessions.get(sid)
+    if (!entry)
+      return null
+
+    if (entry.expires <= Date.now()) {
+      this.sessions.delete(sid)
+      return null
+    }
+
+    return this.serializer.parse(entry.payload)
+  }
+
+  async set(sid: string, session: SessionData, ttl?: number): Promise<void> {
+    this.sessions.set(sid, {
+      payload: this.serializer.stringify(session),
+      expires: Date.now() + (ttl ?? this.ttl) * 1000,
+    })
+  }
+
+  async destroy(sid: string): Promise<void> {
+    this.sessions.delete(sid)
+  }
+
+  async touch(sid: string, _session: SessionData, ttl?: number): Promise<void> {
+    const entry = this.sessions.get(sid)
+    if (entry) {
+      entry.expires = Date.now() + (ttl ?? this.ttl) * 1000
+    }
+  }
+
+  async all(): Promise<Record<string, SessionData>> {
+    await this.prune()
+    const result: Record<string, SessionData> = {}
+    for (const [sid, entry] of this.sessions) {
+      result[sid] = this.serializer.parse(entry.payload)
+    }
+    return result
+  }
+
+  async length(): Promise<number> {
+    await this.prune()
+    return this.sessions.size
+  }
+
+  async clear(): Promise<void> {
+    this.sessions.clear()
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now()
+    let removed = 0
+    for (const [sid, entry] of this.sessions) {
+      if (entry.expires <= now) {
+        this.sessions.delete(sid)
+        removed++
+      }
+    }
+    return removed
+  }
+}
+
+export interface FileSessionStoreOptions extends BaseSessionStoreOptions {
+  /**
+   * Directory where session files are written
+   * @default 'storage/sessions'
+   */
+  directory?: string
+}
+
+/**
+ * File-based session store
+ *
+ * Writes one JSON file per session. Suitable for single-host deployments
+ * where sessions must survive restarts.
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string
+  private ttl: number
+  private serializer: SessionSerializer
+  private ready: Promise<string | undefined> | null = null
+
+  constructor(options: FileSessionStoreOptions = {}) {
+    this.directory = options.directory ?? 'storage/sessions'
+    this.ttl = options.ttl ?? DEFAULT_SESSION_TTL
+    this.serializer = options.serializer ?? jsonSessionSerializer
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const entry = await this.read(sid)
+    if (!entry)
+      return null
+
+    if (entry.expires <= Date.now()) {
+      await this.destroy(sid)
+      return null
+    }
+
+    return this.serializer.parse(entry.payload)
+  }
+
+  async set(sid: string, session: SessionData, ttl?: number): Promise<void> {
+    await this.write(sid, {
+      payload: this.serializer.stringify(session),
+      expires: Date.now() + (ttl ?? this.ttl) * 1000,
+    })
+  }
+
+  async destroy(sid: string): Promise<void> {
+    await rm(this.pathFor(sid), { force: true })
+  }
+
+  async touch(sid: string, _session: SessionData, ttl?: number): Promise<void> {
+    const entry = await this.read(sid)
+    if (entry) {
+      entry.expires = Date.now() + (ttl ?? this.ttl) * 1000
+      await this.write(sid, entry)
+    }
+  }
+
+  async all(): Promise<Record<string, SessionData>> {
+    const result: Record<string, SessionData> = {}
+    for (const sid of await this.ids()) {
+      const session = await this.get(sid)
+      if (session) {
+        result[sid] = session
+      }
+    }
+    return result
+  }
+
+  async length(): Promise<number> {
+    return Object.keys(await this.all()).length
+  }
+
+  async clear(): Promise<void> {
+    for (const sid of await this.ids()) {
+      await this.destroy(sid)
+    }
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now()
+    let removed = 0
+    for (const sid of await this.ids()) {
+      const entry = await this.read(sid)
+      if (!entry || entry.expires <= now) {
+        await this.destroy(sid)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  private pathFor(sid: string): string {
+    assertValidSessionId(sid)
+    return join(this.directory, `${sid}.json`)
+  }
+
+  private async ids(): Promise<string[]> {
+    await this.ensureDirectory()
+    const files = await readdir(this.directory)
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+  }
+
+  private async read(sid: string): Promise<{ payload: string, expires: number } | null> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(sid), 'utf8'))
+    }
+    catch {
+      return null
+    }
+  }
+
+  private async write(sid: string, entry: { payload: string, expires: number }): Promise<void> {
+    await this.ensureDirectory()
+    await writeFile(this.pathFor(sid), JSON.stringify(entry))
+  }
+
+  private ensureDirectory(): Promise<string | undefined> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true })
+    }
+    return this.ready
+  }
+}
+
+export interface SQLiteSessionStoreOptions extends BaseSessionStoreOptions {
+  /**
+   * Database file, or ':memory:' for an in-memory database
+   * @default 'sessions.sqlite'
+   */
+  filename?: string
+
+  /**
+   * Use an existing database connection instead of opening `filename`
+   */
+  database?: Database
+
+  /**
+   * Table used to store sessions
+   * @default 'sessions'
+   */
+  table?: string
+}
+
+/**
+ * SQLite session store backed by `bun:sqlite`
+ *
+ * Sessions survive restarts and can be shared by every process on the host.
+ */
+export class SQLiteSessionStore implements SessionStore {
+  private db: Database
+  private ttl: number
+  private serializer: SessionSerializer
+  private statements: {
+    get: ReturnType<Database['prepare']>
+    set: ReturnType<Database['prepare']>
+    destroy: ReturnType<Database['prepare']>
+    touch: ReturnType<Database['prepare']>
+    all: ReturnType<Database['prepare']>
+    count: ReturnType<Database['prepare']>
+    clear: ReturnType<Database['prepare']>
+    prune: ReturnType<Database['prepare']>
+  }
+
+  constructor(options: SQLiteSessionStoreOptions = {}) {
+    const table = options.table ?? 'sessions'
+    if (!/^\w+$/.test(table)) {
+      throw new Error(`Invalid session table name: ${table}`)
+    }
+
+    this.db = options.database ?? new Database(options.filename ?? 'sessions.sqlite')
+    this.ttl = options.ttl ?? DEFAULT_SESSION_TTL
+    this.serializer = options.serializer ?? jsonSessionSerializer
+
+    // Wait for other processes holding the lock instead of failing at once
+    this.db.exec('PRAGMA busy_timeout = 5000')
+    this.db.exec('PRAGMA journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        payload TEXT NOT NULL,
+        expires INTEGER NOT NULL
+      )
+    `)
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_expires ON ${table}(expires)`)
+
+    this.statements = {
+      get: this.db.prepare(`SELECT payload FROM ${table} WHERE id = ? AND expires > ?`),
+      set: this.db.prepare(`INSERT OR REPLACE INTO ${table} (id, payload, expires) VALUES (?, ?, ?)`),
+      destroy: this.db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+      touch: this.db.prepare(`UPDATE ${table} SET expires = ? WHERE id = ?`),
+      all: this.db.prepare(`SELECT id, payload FROM ${table} WHERE expires > ?`),
+      count: this.db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE expires > ?`),
+      clear: this.db.prepare(`DELETE FROM ${table}`),
+      prune: this.db.prepare(`DELETE FROM ${table} WHERE expires <= ?`),
+    }
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const row = this.statements.get.get(sid, Date.now()) as { payload: string } | null
+    return row ? this.serializer.parse(row.payload) : null
+  }
+
+  async set(sid: string, session: SessionData, ttl?: number): Promise<void> {
+    this.statements.set.run(sid, this.serializer.stringify(session), Date.now() + (ttl ?? this.ttl) * 1000)
+  }
+
+  async destroy(sid: string): Promise<void> {
+    this.statements.destroy.run(sid)
+  }
+
+  async touch(sid: string, _session: SessionData, ttl?: number): Promise<void> {
+    this.statements.touch.run(Date.now() + (ttl ?? this.ttl) * 1000, sid)
+  }
+
+  async all(): Promise<Record<string, SessionData>> {
+    const rows = this.statements.all.all(Date.now()) as Array<{ id: string, payload: string }>
+    const result: Record<string, SessionData> = {}
+    for (const row of rows) {
+      result[row.id] = this.serializer.parse(row.payload)
+    }
+    return result
+  }
+
+  async length(): Promise<number> {
+    const row = this.statements.count.get(Date.now()) as { count: number }
+    return row.count
+  }
+
+  async clear(): Promise<void> {
+    this.statements.clear.run()
+  }
+
+  async prune(): Promise<number> {
+    return this.statements.prune.run(Date.now()).changes
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  close(): void {
+    this.db.close()
+  }
+}
+
+export interface RedisSessionStoreOptions extends BaseSessionStoreOptions {
+  /**
+   * Redis-protocol client, e.g. `new RedisClient(url)` from 'bun'
+   */
+  client: RedisClientLike
+
+  /**
+   * Key prefix for session entries
+   * @default 'session:'
+   */
+  prefix?: string
+
+  /**
+   * COUNT hint used when scanning keys for `all()`, `length()` and `clear()`
+   * @default 100
+   */
+  scanCount?: number
+}
+
+/**
+ * Redis-protocol session store
+ *
+ * Works with Redis, Valkey, KeyDB or any server speaking RESP. Expiry is
+ * delegated to the server, so `prune()` has nothing to collect.
+ */
+export class RedisSessionStore implements SessionStore {
+  private client: RedisClientLike
+  private prefix: string
+  private scanCount: number
+  private ttl: number
+  private serializer: SessionSerializer
+
+  constructor(options: RedisSessionStoreOptions) {
+    this.client = options.client
+    this.prefix = options.prefix ?? 'session:'
+    this.scanCount = options.scanCount ?? 100
+    this.ttl = options.ttl ?? DEFAULT_SESSION_TTL
+    this.serializer = options.serializer ?? jsonSessionSerializer
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const payload = await this.client.send('GET', [this.prefix + sid])
+    return typeof payload === 'string' ? this.serializer.parse(payload) : null
+  }
+
+  async set(sid: string, session: SessionData, ttl?: number): Promise<void> {
+    await this.client.send('SET', [
+      this.prefix + sid,
+      this.serializer.stringify(session),
+      'PX',
+      this.milliseconds(ttl),
+    ])
+  }
+
+  async destroy(sid: string): Promise<void> {
+    await this.client.send('DEL', [this.prefix + sid])
+  }
+
+  async touch(sid: string, _session: SessionData, ttl?: number): Promise<void> {
+    await this.client.send('PEXPIRE', [this.prefix + sid, this.milliseconds(ttl)])
+  }
+
+  async all(): Promise<Record<string, SessionData>> {
+    const result: Record<string, SessionData> = {}
+    for (const key of await this.keys()) {
+      const sid = key.slice(this.prefix.length)
+      const session = await this.get(sid)
+      if (session) {
+        result[sid] = session
+      }
+    }
+    return result
+  }
+
+  async length(): Promise<number> {
+    return (await this.keys()).length
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.keys()
+    if (keys.length > 0) {
+      await this.client.send('DEL', keys)
+    }
+  }
+
+  async prune(): Promise<number> {
+    return 0
+  }
+
+  private milliseconds(ttl?: number): string {
+    return String(Math.max(1, Math.ceil((ttl ?? this.ttl) * 1000)))
+  }
+
+  private async keys(): Promise<string[]> {
+    const keys: string[] = []
+    let cursor = '0'
+
+    do {
+      const reply = await this.client.send('SCAN', [cursor, 'MATCH', `${this.prefix}*`, 'COUNT', String(this.scanCount)]) as [string, string[]]
+      cursor = String(reply[0])
+      keys.push(...reply[1])
+    } while (cursor !== '0')
+
+    return keys
+  }
+}
+
+/**
+ * Build a session store from the `security.auth.session.store` config block
+ */
+export function createSessionStore(storeConfig?: SessionStoreConfig, ttl?: number): SessionStore {
+  switch (storeConfig?.type) {
+    case 'custom':
+      if (!storeConfig.custom) {
+        throw new Error('Session store type "custom" requires a `custom` store instance')
+      }
+      return storeConfig.custom
+    case 'redis':
+      if (!storeConfig.redis) {
+        throw new Error('Session store type "redis" requires a `redis` configuration')
+      }
+      return new RedisSessionStore({
+        client: new RedisClient(storeConfig.redis.url),
+        prefix: storeConfig.redis.prefix,
+        scanCount: storeConfig.redis.scanCount,
+        serializer: storeConfig.redis.serializer,
+        ttl: storeConfig.redis.ttl ?? ttl,
+      })
+    case 'sqlite':
+      return new SQLiteSessionStore({ ...storeConfig.sqlite, ttl })
+    case 'file':
+      return new FileSessionStore({ ...storeConfig.file, ttl })
+    case 'memory':
+    case undefined:
+      return new MemorySessionStore({ ttl })
+    default:
+      throw new Error(`Unknown session store type "${(storeConfig as { type: string }).type}"`)
+  }
+}
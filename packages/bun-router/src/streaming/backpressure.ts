@@ -0,0 +1,331 @@
+import type { Counter, Gauge } from '../observability/metrics'
+import type { BackpressureOptions, SlowConsumerPolicy } from '../types'
+import { closeSync, openSync, readSync, rmSync, writeSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getMetricsRegistry } from '../observability/metrics'
+
+/**
+ * Flow control statistics of the streams of this process
+ */
+export interface StreamMetrics {
+  /**
+   * Streams currently open
+   */
+  active: number
+  /**
+   * Streams whose client hasn't read for longer than their stall timeout
+   */
+  stalled: number
+  /**
+   * Times a stream stalled
+   */
+  stalls: number
+  droppedChunks: number
+  droppedBytes: number
+  /**
+   * Bytes written to disk by the `buffer` policy
+   */
+  spilledBytes: number
+  /**
+   * Streams ended by the `disconnect` policy
+   */
+  disconnects: number
+}
+
+interface Spill {
+  fd: number
+  path: string
+  readOffset: number
+  writeOffset: number
+  chunks: number[]
+}
+
+const totals = { stalls: 0, droppedChunks: 0, droppedBytes: 0, spilledBytes: 0, disconnects: 0 }
+const writers = new Set<BackpressureWriter>()
+
+/**
+ * Flow control statistics of the streams of this process. With a metrics
+ * registry initialized, they're also exported as `stream_*` metrics.
+ */
+export function streamMetrics(): StreamMetrics {
+  return {
+    active: writers.size,
+    stalled: [...writers].filter(writer => writer.stalled).length,
+    ...totals,
+  }
+}
+
+function countMetric(name: string, help: string, value = 1): void {
+  const registry = getMetricsRegistry()
+  if (registry) {
+    const counter = (registry.get(name) as Counter | undefined) ?? registry.createCounter(name, help)
+    counter.inc(value)
+  }
+}
+
+function updateStalledGauge(): void {
+  const registry = getMetricsRegistry()
+  if (registry) {
+    const gauge = (registry.get('stream_stalled') as Gauge | undefined) ?? registry.createGauge('stream_stalled', 'Streams whose client stopped reading')
+    gauge.set(streamMetrics().stalled)
+  }
+}
+
+/**
+ * Writes a response stream without queueing more than its high-water mark
+ * for a slow client. `write()` waits for the client to catch up, pausing the
+ * producer; `offer()` can't wait and applies the slow consumer policy instead.
+ */
+export class BackpressureWriter {
+  readonly stream: ReadableStream<Uint8Array>
+  private controller!: ReadableStreamDefaultController<Uint8Array>
+  private encoder = new TextEncoder()
+  private state: 'open' | 'closing' | 'closed' = 'open'
+  private waiting: Array<() => void> = []
+  private spill: Spill | null = null
+  private stallTimer?: Timer
+  private isStalled = false
+  private policy: SlowConsumerPolicy
+  private stallTimeout: number
+  private spillDirectory: string
+
+  /**
+   * @param options Flow control options
+   * @param onClose Called once the stream ends, including when the client goes away
+   */
+  constructor(options: BackpressureOptions = {}, private onClose?: () => void) {
+    this.policy = options.policy ?? 'disconnect'
+    this.stallTimeout = options.stallTimeout ?? 30000
+    this.spillDirectory = options.spillDirectory ?? tmpdir()
+
+    this.stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller
+      },
+      pull: () => this.drain(),
+      cancel: () => this.finish(),
+    }, {
+      highWaterMark: options.highWaterMark ?? 65536,
+      size: chunk => chunk?.byteLength ?? 0,
+    })
+
+    writers.add(this)
+  }
+
+  /**
+   * Whether a write would be queued right away
+   */
+  get ready(): boolean {
+    return this.state === 'open' && !this.spill && (this.controller.desiredSize ?? 0) > 0
+  }
+
+  get closed(): boolean {
+    return this.state === 'closed'
+  }
+
+  get stalled(): boolean {
+    return this.isStalled
+  }
+
+  /**
+   * Write a chunk, waiting while the client is backed up. Once stalled for
+   * the stall timeout, the slow consumer policy applies. Resolves false when
+   * the chunk was dropped or the stream has ended, so producers can stop.
+   */
+  async write(chunk: string | Uint8Array): Promise<boolean> {
+    while (this.state === 'open' && !this.ready && !this.isStalled) {
+      this.backedUp()
+      await new Promise<void>(resolve => this.waiting.push(resolve))
+    }
+    return this.offer(chunk)
+  }
+
+  /**
+   * Write a chunk without waiting. When the client is backed up the slow
+   * consumer policy applies; `disconnect` queues the chunk and ends the
+   * stream only if the client is still backed up after the stall timeout.
+   * Returns false when the chunk was dropped or the stream has ended.
+   */
+  offer(chunk: string | Uint8Array): boolean {
+    if (this.state !== 'open') {
+      return false
+    }
+
+    const bytes = typeof chunk === 'string' ? this.encoder.encode(chunk) : chunk
+    if (this.ready) {
+      return this.enqueue(bytes)
+    }
+
+    this.backedUp()
+    switch (this.policy) {
+      case 'drop':
+        totals.droppedChunks++
+        totals.droppedBytes += bytes.byteLength
+        countMetric('stream_dropped_bytes_total', 'Bytes dropped for slow stream clients', bytes.byteLength)
+        return false
+      case 'buffer':
+        this.spillChunk(bytes)
+        return true
+      case 'disconnect':
+        // Let the client catch up until the stall timer ends the stream
+        return this.enqueue(bytes)
+    }
+  }
+
+  /**
+   * Queue a chunk past the high-water mark, for output the client needs in
+   * full before anything else, like a replay written before it starts reading
+   */
+  push(chunk: string | Uint8Array): boolean {
+    if (this.state !== 'open') {
+      return false
+    }
+
+    const bytes = typeof chunk === 'string' ? this.encoder.encode(chunk) : chunk
+    if (this.spill) {
+      this.spillChunk(bytes)
+      return true
+    }
+    return this.enqueue(bytes)
+  }
+
+  /**
+   * End the stream once the client has read what was written
+   */
+  close(): void {
+    if (this.state !== 'open') {
+      return
+    }
+
+    this.state = 'closing'
+    if (!this.spill) {
+      this.controller.close()
+      this.finish()
+    }
+  }
+
+  /**
+   * End the stream with an error
+   */
+  error(error: unknown): void {
+    if (this.state !== 'closed') {
+      this.controller.error(error)
+      this.finish()
+    }
+  }
+
+  /**
+   * The client read from the stream: feed it spilled chunks and resume waiting writers
+   */
+  private drain(): void {
+    while (this.spill && this.spill.chunks.length > 0 && (this.controller.desiredSize ?? 0) > 0) {
+      const length = this.spill.chunks.shift()!
+      const bytes = new Uint8Array(length)
+      readSync(this.spill.fd, bytes, 0, length, this.spill.readOffset)
+      this.spill.readOffset += length
+      this.controller.enqueue(bytes)
+    }
+
+    if (this.spill?.chunks.length === 0) {
+      this.removeSpill()
+    }
+
+    if (this.state === 'closing' && !this.spill) {
+      this.controller.close()
+      this.finish()
+      return
+    }
+
+    if (this.ready) {
+      this.recovered()
+    }
+  }
+
+  private enqueue(bytes: Uint8Array): boolean {
+    try {
+      this.controller.enqueue(bytes)
+      return true
+    }
+    catch {
+      this.finish()
+      return false
+    }
+  }
+
+  private spillChunk(bytes: Uint8Array): void {
+    this.spill ??= (() => {
+      const path = join(this.spillDirectory, `bun-router-stream-${crypto.randomUUID()}`)
+      return { fd: openSync(path, 'w+'), path, readOffset: 0, writeOffset: 0, chunks: [] }
+    })()
+
+    writeSync(this.spill.fd, bytes, 0, bytes.byteLength, this.spill.writeOffset)
+    this.spill.writeOffset += bytes.byteLength
+    this.spill.chunks.push(bytes.byteLength)
+    totals.spilledBytes += bytes.byteLength
+    countMetric('stream_spilled_bytes_total', 'Bytes buffered to disk for slow stream clients', bytes.byteLength)
+  }
+
+  private removeSpill(): void {
+    if (this.spill) {
+      closeSync(this.spill.fd)
+      rmSync(this.spill.path, { force: true })
+      this.spill = null
+    }
+  }
+
+  private backedUp(): void {
+    this.stallTimer ??= setTimeout(() => {
+      this.isStalled = true
+      totals.stalls++
+      countMetric('stream_stalls_total', 'Times a stream client stopped reading')
+      updateStalledGauge()
+
+      if (this.policy === 'disconnect') {
+        this.disconnect()
+      }
+      else {
+        this.wake()
+      }
+    }, this.stallTimeout)
+  }
+
+  private recovered(): void {
+    clearTimeout(this.stallTimer)
+    this.stallTimer = undefined
+    if (this.isStalled) {
+      this.isStalled = false
+      updateStalledGauge()
+    }
+    this.wake()
+  }
+
+  private disconnect(): void {
+    totals.disconnects++
+    countMetric('stream_disconnects_total', 'Streams ended because their client was too slow')
+    this.error(new Error('Stream client too slow'))
+  }
+
+  private wake(): void {
+    const waiting = this.waiting
+    this.waiting = []
+    waiting.forEach(resolve => resolve())
+  }
+
+  private finish(): void {
+    if (this.state === 'closed') {
+      return
+    }
+
+    this.state = 'closed'
+    clearTimeout(this.stallTimer)
+    this.removeSpill()
+    writers.delete(this)
+    if (this.isStalled) {
+      this.isStalled = false
+      updateStalledGauge()
+    }
+    this.wake()
+    this.onClose?.()
+  }
+}
@@ -1,13 +1,23 @@
-export type { SSEConfig, SSEEvent } from '../types'
+export type { BackpressureOptions, SlowConsumerPolicy, SSEConfig, SSEEvent, SSEReplayStore } from '../types'
+
+export { BackpressureWriter, type StreamMetrics, streamMetrics } from './backpressure'
 
 export {
   createSSEMiddleware,
   SSEConnectionManager,
+  type SSEConnectionManagerOptions,
   SSEHandler,
   sseManager,
   SSEUtils,
 } from './sse-handler'
 
+export {
+  MemoryReplayStore,
+  type MemoryReplayStoreOptions,
+  SQLiteReplayStore,
+  type SQLiteReplayStoreOptions,
+} from './sse-replay'
+
 export {
   type BaseStreamConfig,
   FileStreamHandler,
@@ -1,18 +1,21 @@
 import type {
   EnhancedRequest,
   ExtractRouteParams,
+  PubSubAdapter,
   SSEConfig,
   SSEEvent,
+  SSEReplayStore,
   SSERouteHandler,
 } from '../types'
+import { PubSubRelay } from '../pubsub/relay'
+import { BackpressureWriter } from './backpressure'
 
 /**
  * Server-Sent Events handler
  */
 export class SSEHandler {
-  private config: Required<SSEConfig>
-  private controller?: ReadableStreamDefaultController<Uint8Array>
-  private encoder = new TextEncoder()
+  private config: Required<Omit<SSEConfig, 'replay' | 'backpressure'>> & Pick<SSEConfig, 'replay' | 'backpressure'>
+  private writer?: BackpressureWriter
   private isConnected = false
   private heartbeatInterval?: Timer
 
@@ -27,24 +30,30 @@ export class SSEHandler {
       keepAlive: config.keepAlive ?? 30000,
       compression: config.compression ?? 'none',
       headers: config.headers ?? {},
+      replay: config.replay,
+      channel: config.channel ?? 'default',
+      record: config.record ?? true,
+      backpressure: config.backpressure,
     }
   }
 
   /**
-   * Create SSE response stream
+   * Create SSE response stream. Pass the request to replay the events a
+   * reconnecting client missed, as told by its `Last-Event-ID` header.
+   * Events sent while the client is backed up are handled by the
+   * `backpressure` policy, by default ending the stream so the client
+   * reconnects and resumes.
    */
-  createStream(): Response {
-    const stream = new ReadableStream({
-      start: (controller) => {
-        this.controller = controller
-        this.isConnected = true
-        this.setupHeartbeat()
-        this.sendRetryDelay()
-      },
-      cancel: () => {
-        this.disconnect()
-      },
-    })
+  createStream(request?: { headers: Headers }): Response {
+    const lastEventId = request?.headers.get('last-event-id')
+
+    this.writer = new BackpressureWriter(this.config.backpressure, () => this.disconnect())
+    this.isConnected = true
+    this.setupHeartbeat()
+    this.sendRetryDelay()
+    if (lastEventId && this.config.replay) {
+      this.resume(lastEventId)
+    }
 
     const headers = new Headers({
       'Content-Type': 'text/event-stream',
@@ -55,30 +64,50 @@ export class SSEHandler {
       ...this.config.headers,
     })
 
-    return new Response(stream, {
+    return new Response(this.writer.stream, {
       status: 200,
       headers,
     })
   }
 
   /**
-   * Send an SSE event
+   * Send an SSE event, recording it in the channel's replay buffer if there
+   * is one and `record` is on
    */
   send(event: SSEEvent): boolean {
-    if (!this.isConnected || !this.controller) {
+    return this.write(this.config.replay && this.config.record ? this.config.replay.append(this.config.channel, event) : event)
+  }
+
+  /**
+   * Send an SSE event without recording it for replay
+   */
+  write(event: SSEEvent): boolean {
+    if (!this.isConnected || !this.writer) {
       return false
     }
 
-    try {
-      const eventData = this.formatEvent(event)
-      this.controller.enqueue(this.encoder.encode(eventData))
-      return true
+    return this.writer.offer(this.formatEvent(event))
+  }
+
+  /**
+   * Replay the events recorded after `lastEventId`. When they are no longer
+   * buffered, a `reset` event tells the client to reload its state instead.
+   */
+  resume(lastEventId: string): boolean {
+    const missed = this.config.replay?.since(this.config.channel, lastEventId)
+    if (!missed) {
+      // An empty id clears the client's last event id, so it won't ask again
+      return this.write({ event: 'reset', data: { lastEventId }, id: '' })
     }
-    catch (error) {
-      console.error('Failed to send SSE event:', error)
-      this.disconnect()
+    if (!this.isConnected || !this.writer) {
       return false
     }
+
+    // The replay is written before the client reads, so it may exceed the
+    // high-water mark. Cutting it short would have the client resume from
+    // the same id again.
+    const writer = this.writer
+    return missed.every(event => writer.push(this.formatEvent(event)))
   }
 
   /**
@@ -122,19 +151,11 @@ export class SSEHandler {
    * Send a comment (for debugging)
    */
   comment(text: string): boolean {
-    if (!this.isConnected || !this.controller) {
+    if (!this.isConnected || !this.writer) {
       return false
     }
 
-    try {
-      const commentData = `: ${text}\n\n`
-      this.controller.enqueue(this.encoder.encode(commentData))
-      return true
-    }
-    catch (error) {
-      console.error('Failed to send SSE comment:', error)
-      return false
-    }
+    return this.writer.offer(`: ${text}\n\n`)
   }
 
   /**
@@ -142,14 +163,7 @@ export class SSEHandler {
    */
   close(): void {
     this.disconnect()
-    if (this.controller) {
-      try {
-        this.controller.close()
-      }
-      catch (error) {
-        console.error('Error closing SSE connection:', error)
-      }
-    }
+    this.writer?.close()
   }
 
   /**
@@ -225,7 +239,7 @@ export class SSEHandler {
    */
   private sendRetryDelay(): void {
     if (this.config.retryDelay > 0) {
-      this.send({
+      this.write({
         data: '',
         retry: this.config.retryDelay,
       })
@@ -241,12 +255,59 @@ export class SSEHandler {
   }
 }
 
+export interface SSEConnectionManagerOptions {
+  /**
+   * Adapter broadcasts fan out through, so events reach clients connected to other processes
+   */
+  pubsub?: PubSubAdapter
+
+  /**
+   * Pub/sub channel broadcasts are relayed on
+   * @default 'bun-router:sse'
+   */
+  channel?: string
+
+  /**
+   * Buffer broadcasts are recorded in, so connections created with a
+   * reconnecting client's request replay what it missed. With `pubsub`,
+   * use a store shared by every process, like a `SQLiteReplayStore` on one
+   * cache file, so relayed events keep ids that can't collide.
+   */
+  replay?: SSEReplayStore
+
+  /**
+   * Channel of the replay buffer broadcasts are recorded under
+   * @default 'default'
+   */
+  replayChannel?: string
+}
+
 /**
  * SSE connection manager
  */
 export class SSEConnectionManager {
   private connections = new Map<string, SSEHandler>()
   private connectionCounts = new Map<string, number>()
+  private relay: PubSubRelay<SSEEvent> | null = null
+  private replay?: SSEReplayStore
+  private replayChannel: string
+
+  constructor(options: SSEConnectionManagerOptions = {}) {
+    this.replay = options.replay
+    this.replayChannel = options.replayChannel ?? 'default'
+    if (options.pubsub) {
+      void this.usePubSub(options.pubsub, options.channel)
+    }
+  }
+
+  /**
+   * Relay broadcasts through a pub/sub adapter, e.g. for the global `sseManager`
+   */
+  async usePubSub(adapter: PubSubAdapter, channel: string = 'bun-router:sse'): Promise<void> {
+    await this.relay?.stop()
+    this.relay = new PubSubRelay<SSEEvent>(adapter, channel, event => this.broadcastLocal(this.record(event)))
+    await this.relay.start()
+  }
 
   /**
    * Create or get SSE connection
@@ -261,7 +322,8 @@ export class SSEConnectionManager {
       throw new Error(`Maximum connections exceeded for ${connectionId}`)
     }
 
-    const handler = new SSEHandler(config)
+    // Connections replay broadcasts, but what is sent to one of them isn't recorded for all
+    const handler = new SSEHandler({ replay: this.replay, channel: this.replayChannel, record: false, ...config })
     this.connections.set(connectionId, handler)
     this.connectionCounts.set(connectionId, currentCount + 1)
 
@@ -298,12 +360,32 @@ export class SSEConnectionManager {
   }
 
   /**
-   * Broadcast to all connections
+   * Broadcast to all connections, including those of other processes when
+   * a pub/sub adapter is configured. Returns the number of local connections reached.
    */
   broadcast(event: SSEEvent): number {
+    const recorded = this.record(event)
+    this.relay?.publish(recorded).catch((error) => {
+      console.error('Failed to relay SSE broadcast:', error)
+    })
+    return this.broadcastLocal(recorded)
+  }
+
+  /**
+   * Record a broadcast for replay. Events relayed from other processes keep
+   * the id they were given there.
+   */
+  private record(event: SSEEvent): SSEEvent {
+    return this.replay ? this.replay.append(this.replayChannel, event) : event
+  }
+
+  /**
+   * Broadcast to the connections of this process
+   */
+  private broadcastLocal(event: SSEEvent): number {
     let sentCount = 0
     for (const handler of this.connections.values()) {
-      if (handler.send(event)) {
+      if (handler.write(event)) {
         sentCount++
       }
     }
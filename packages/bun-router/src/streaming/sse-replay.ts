@@ -0,0 +1,116 @@
+import type { SQLiteCache } from '../cache/sqlite-cache'
+import type { SSEEvent, SSEReplayStore } from '../types'
+
+export interface MemoryReplayStoreOptions {
+  /**
+   * Events kept per channel
+   * @default 100
+   */
+  size?: number
+}
+
+/**
+ * Replay buffer kept in process memory. Ids restart when the process does,
+ * so clients reconnecting after a restart are told to reset.
+ *
+ * Ids are numbered per process, so don't use it with broadcasts relayed over
+ * pub/sub: an event relayed from another process can carry an id already
+ * given to a local one and be skipped. Share a `SQLiteReplayStore` instead.
+ */
+export class MemoryReplayStore implements SSEReplayStore {
+  private channels = new Map<string, { sequence: number, events: SSEEvent[] }>()
+  private size: number
+
+  constructor(options: MemoryReplayStoreOptions = {}) {
+    this.size = options.size ?? 100
+  }
+
+  append(channel: string, event: SSEEvent): SSEEvent {
+    const buffer = this.channels.get(channel) ?? { sequence: 0, events: [] }
+    this.channels.set(channel, buffer)
+
+    if (event.id !== undefined && buffer.events.some(recorded => String(recorded.id) === String(event.id))) {
+      return event
+    }
+
+    const recorded = { ...event, id: event.id ?? ++buffer.sequence }
+    buffer.events.push(recorded)
+    if (buffer.events.length > this.size) {
+      buffer.events.splice(0, buffer.events.length - this.size)
+    }
+    return recorded
+  }
+
+  since(channel: string, lastEventId: string): SSEEvent[] | null {
+    return eventsAfter(this.channels.get(channel)?.events ?? [], lastEventId)
+  }
+}
+
+export interface SQLiteReplayStoreOptions {
+  /**
+   * Cache the buffers are stored in. Share a file-backed cache between
+   * processes to replay events broadcast by any of them.
+   */
+  cache: SQLiteCache
+
+  /**
+   * Events kept per channel
+   * @default 100
+   */
+  size?: number
+
+  /**
+   * Seconds a channel's buffer is kept after its last event
+   * @default 3600
+   */
+  ttl?: number
+
+  /**
+   * @default 'sse:replay:'
+   */
+  prefix?: string
+}
+
+/**
+ * Replay buffer stored in a `SQLiteCache`, surviving restarts when the cache is file-backed
+ */
+export class SQLiteReplayStore implements SSEReplayStore {
+  private cache: SQLiteCache
+  private size: number
+  private ttl: number
+  private prefix: string
+
+  constructor(options: SQLiteReplayStoreOptions) {
+    this.cache = options.cache
+    this.size = options.size ?? 100
+    this.ttl = options.ttl ?? 3600
+    this.prefix = options.prefix ?? 'sse:replay:'
+  }
+
+  append(channel: string, event: SSEEvent): SSEEvent {
+    const key = `${this.prefix}${channel}`
+
+    // Processes sharing the cache must not overwrite each other's events
+    return this.cache.transaction(() => {
+      const events = this.cache.get<SSEEvent[]>(key) ?? []
+
+      if (event.id !== undefined && events.some(recorded => String(recorded.id) === String(event.id))) {
+        return event
+      }
+
+      const recorded = { ...event, id: event.id ?? this.cache.increment(`${key}:sequence`, 1, this.ttl) ?? Date.now() }
+      events.push(recorded)
+      this.cache.set(key, events.slice(-this.size), this.ttl)
+      return recorded
+    })
+  }
+
+  since(channel: string, lastEventId: string): SSEEvent[] | null {
+    return eventsAfter(this.cache.get<SSEEvent[]>(`${this.prefix}${channel}`) ?? [], lastEventId)
+  }
+}
+
+function eventsAfter(events: SSEEvent[], lastEventId: string): SSEEvent[] | null {
+  const index = events.findIndex(event => String(event.id) === lastEventId)
+  return index === -1 ? null : events.slice(index + 1)
+}
@@ -1,5 +1,6 @@
 import type { BunFile } from 'bun'
 import type {
+  BackpressureOptions,
   BufferedStreamConfig,
   ContentType,
   DirectStreamConfig,
@@ -8,6 +9,7 @@ import type {
   StreamingCompression,
   StreamingFormat,
 } from '../types'
+import { BackpressureWriter } from './backpressure'
 
 /**
  * Base streaming configuration
@@ -19,6 +21,7 @@ export interface BaseStreamConfig {
   bufferSize?: number
   enableCompression?: boolean
   compressionType?: StreamingCompression
+  backpressure?: BackpressureOptions
 }
 
 /**
@@ -87,30 +90,24 @@ export class StreamHandler {
       headers = {},
       status = 200,
       enableCompression: _enableCompression = false,
+      backpressure,
     } = config
 
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const encoder = new TextEncoder()
-          let isFirst = true
-
-          for await (const item of Array.isArray(data) ? data : data) {
-            if (!isFirst && delimiter) {
-              controller.enqueue(encoder.encode(delimiter))
-            }
+    const writer = new BackpressureWriter(backpressure)
+    StreamHandler.produce(writer, async () => {
+      let isFirst = true
 
-            const formatted = StreamHandler.formatData(item, format)
-            controller.enqueue(encoder.encode(formatted))
-            isFirst = false
-          }
-
-          controller.close()
+      for await (const item of data) {
+        if (!isFirst && delimiter && !await writer.write(delimiter)) {
+          break
         }
-        catch (error) {
-          controller.error(error)
+
+        // Stop pulling from the source once the client is gone
+        if (!await writer.write(StreamHandler.formatData(item, format))) {
+          break
         }
-      },
+        isFirst = false
+      }
     })
 
     const responseHeaders = new Headers(headers)
@@ -121,7 +118,7 @@ export class StreamHandler {
       responseHeaders.set('Content-Type', StreamHandler.getContentTypeForFormat(format))
     }
 
-    return new StreamResponse(stream, {
+    return new StreamResponse(writer.stream, {
       headers: responseHeaders,
       status,
     })
@@ -141,51 +138,49 @@ export class StreamHandler {
       contentType,
       headers = {},
       status = 200,
+      highWaterMark,
+      backpressure,
     } = config
 
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const encoder = new TextEncoder()
-          let buffer: string[] = []
-          let bufferLength = 0
-
-          const flush = () => {
-            if (buffer.length > 0) {
-              const chunk = buffer.join('')
-              controller.enqueue(encoder.encode(chunk))
-              buffer = []
-              bufferLength = 0
-            }
-          }
+    const writer = new BackpressureWriter({ highWaterMark, ...backpressure })
+    StreamHandler.produce(writer, async () => {
+      let buffer: string[] = []
+      let bufferLength = 0
 
-          // Set up flush interval
-          const flushTimer = setInterval(flush, flushInterval)
+      const flush = async (): Promise<boolean> => {
+        if (buffer.length === 0) {
+          return true
+        }
+        const chunk = buffer.join('')
+        buffer = []
+        bufferLength = 0
+        return writer.write(chunk)
+      }
 
-          try {
-            for await (const item of Array.isArray(data) ? data : data) {
-              const formatted = StreamHandler.formatData(item, format)
-              buffer.push(formatted)
-              bufferLength += formatted.length
+      // Set up flush interval, skipped while the client is backed up
+      const flushTimer = setInterval(() => {
+        if (writer.ready) {
+          void flush()
+        }
+      }, flushInterval)
 
-              if (bufferLength >= bufferSize) {
-                flush()
-              }
-            }
+      try {
+        for await (const item of data) {
+          const formatted = StreamHandler.formatData(item, format)
+          buffer.push(formatted)
+          bufferLength += formatted.length
 
-            // Final flush
-            flush()
-          }
-          finally {
-            clearInterval(flushTimer)
+          if (bufferLength >= bufferSize && !await flush()) {
+            break
           }
-
-          controller.close()
-        }
-        catch (error) {
-          controller.error(error)
         }
-      },
+
+        // Final flush
+        await flush()
+      }
+      finally {
+        clearInterval(flushTimer)
+      }
     })
 
     const responseHeaders = new Headers(headers)
@@ -196,7 +191,7 @@ export class StreamHandler {
       responseHeaders.set('Content-Type', StreamHandler.getContentTypeForFormat(format))
     }
 
-    return new StreamResponse(stream, {
+    return new StreamResponse(writer.stream, {
       headers: responseHeaders,
       status,
     })
@@ -239,37 +234,38 @@ export class StreamHandler {
   ): StreamResponse {
     const { csvHeaders, ...streamConfig } = config
 
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const encoder = new TextEncoder()
-          const _isFirst = true
-
-          // Write CSV headers if provided
-          if (csvHeaders && csvHeaders.length > 0) {
-            controller.enqueue(encoder.encode(`${csvHeaders.join(',')}\n`))
-          }
-
-          for await (const item of Array.isArray(data) ? data : data) {
-            const csvRow = StreamHandler.objectToCsvRow(item, csvHeaders)
-            controller.enqueue(encoder.encode(`${csvRow}\n`))
-          }
+    const writer = new BackpressureWriter(streamConfig.backpressure)
+    StreamHandler.produce(writer, async () => {
+      // Write CSV headers if provided
+      if (csvHeaders && csvHeaders.length > 0 && !await writer.write(`${csvHeaders.join(',')}\n`)) {
+        return
+      }
 
-          controller.close()
+      for await (const item of data) {
+        const csvRow = StreamHandler.objectToCsvRow(item, csvHeaders)
+        if (!await writer.write(`${csvRow}\n`)) {
+          break
         }
-        catch (error) {
-          controller.error(error)
-        }
-      },
+      }
     })
 
-    return new StreamResponse(stream, {
+    return new StreamResponse(writer.stream, {
       headers: streamConfig.headers,
       status: streamConfig.status,
       contentType: streamConfig.contentType || 'text/csv',
     })
   }
 
+  /**
+   * Run a producer feeding a writer, ending the stream when it finishes or throws
+   */
+  private static produce(writer: BackpressureWriter, producer: () => Promise<void>): void {
+    producer().then(
+      () => writer.close(),
+      error => writer.error(error),
+    )
+  }
+
   /**
    * Format data according to the specified format
    */
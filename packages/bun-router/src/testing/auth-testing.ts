@@ -10,6 +10,9 @@ function createCookieAccessor(cookies: Record<string, string>): CookieAccessor {
   const cookieStore = { ...cookies }
   return {
     get: (name: string) => cookieStore[name],
+    // Test cookies are stored in the clear, so signed and encrypted reads return them as-is
+    getSigned: (name: string) => cookieStore[name],
+    getEncrypted: (name: string) => cookieStore[name],
     set: (name: string, value: string, _options?: CookieOptions) => {
       cookieStore[name] = value
     },
@@ -1,4 +1,4 @@
-import type { EnhancedRequest, UploadedFile } from '../types'
+import type { EnhancedRequest, FileStorageService, UploadedFile, UploadStream } from '../types'
 import type { TestFile } from './types'
 import { mock } from 'bun:test'
 import { createMockRequest } from './test-request'
@@ -235,12 +235,7 @@ export class FileValidationTester {
 export type MiddlewareFn = (req: EnhancedRequest, next: () => Promise<Response>) => Promise<Response>
 
 /** File storage service interface */
-export interface FileStorageService {
-  store: (file: UploadedFile, path?: string) => Promise<string>
-  delete: (path: string) => Promise<void>
-  exists: (path: string) => Promise<boolean>
-  getUrl: (path: string) => string
-}
+export type { FileStorageService } from '../types'
 
 /** Virus scanner interface */
 export interface VirusScanResult {
@@ -343,6 +338,12 @@ export const fileUploadMocks: {
       return storagePath
     }),
 
+    storeStream: mock(async (file: UploadStream, path?: string): Promise<string> => {
+      await new Response(file.stream).arrayBuffer()
+      const storagePath = path || `/uploads/${Date.now()}-${file.filename}`
+      return storagePath
+    }),
+
     delete: mock(async (_path: string): Promise<void> => {
       // Mock file deletion
     }),
@@ -2,6 +2,7 @@ export * from './auth-testing'
 export * from './file-upload-testing'
 export * from './middleware-testing'
 export * from './model-binding-testing'
+export * from './oauth-testing'
 export * from './performance-testing'
 export * from './test-client'
 export * from './test-request'
@@ -0,0 +1,175 @@
+import type { Server } from 'bun'
+import { Buffer } from 'node:buffer'
+import { createHash, generateKeyPairSync, randomBytes } from 'node:crypto'
+import { JWT } from '../auth'
+
+export interface MockOAuthProviderOptions {
+  clientId?: string
+  clientSecret?: string
+  /**
+   * Claims of the user who logs in, returned in ID tokens and from the user info endpoint
+   */
+  claims?: Record<string, unknown>
+}
+
+interface AuthorizationCode {
+  redirectUri: string
+  scope: string
+  codeChallenge?: string
+  nonce?: string
+}
+
+/**
+ * Local OpenID Connect provider for testing login flows
+ *
+ * Serves discovery metadata, a key set, and authorize, token and user info
+ * endpoints. Authorization requests are approved at once by redirecting back
+ * with a code, and token requests check the client and the PKCE verifier.
+ */
+export class MockOAuthProvider {
+  readonly clientId: string
+  readonly clientSecret: string
+  readonly issuer: string
+  /**
+   * Claims of the user who logs in
+   */
+  claims: Record<string, unknown>
+  /**
+   * Claims merged into the next ID tokens, e.g. to test a wrong nonce or audience
+   */
+  idTokenClaims: Record<string, unknown> = {}
+  /**
+   * Error returned to the client instead of approving authorization requests
+   */
+  denyWith: string | null = null
+  /**
+   * Token requests received, as form fields
+   */
+  readonly tokenRequests: Record<string, string>[] = []
+
+  private server: Server<undefined>
+  private signer: JWT
+  private publicJwk: Record<string, unknown>
+  private codes = new Map<string, AuthorizationCode>()
+  private accessTokens = new Set<string>()
+
+  constructor(options: MockOAuthProviderOptions = {}) {
+    this.clientId = options.clientId ?? 'test-client'
+    this.clientSecret = options.clientSecret ?? 'test-secret'
+    this.claims = { sub: 'user-1', name: 'Test User', email: 'test@example.com', email_verified: true, ...options.claims }
+
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    this.publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: 'mock', alg: 'ES256', use: 'sig' }
+    this.signer = new JWT({ privateKey: privateKey.export({ format: 'jwk' }), keyId: 'mock', algorithm: 'ES256' })
+
+    this.server = Bun.serve({ port: 0, fetch: req => this.handle(req) })
+    this.issuer = `http://localhost:${this.server.port}`
+  }
+
+  stop(): void {
+    this.server.stop(true)
+  }
+
+  private async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url)
+
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return Response.json({
+          issuer: this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          userinfo_endpoint: `${this.issuer}/userinfo`,
+          jwks_uri: `${this.issuer}/jwks`,
+          response_types_supported: ['code'],
+          id_token_signing_alg_values_supported: ['ES256'],
+          code_challenge_methods_supported: ['S256'],
+        })
+      case '/jwks':
+        return Response.json({ keys: [this.publicJwk] })
+      case '/authorize':
+        return this.authorize(url.searchParams)
+      case '/token':
+        return this.token(req)
+      case '/userinfo': {
+        const token = req.headers.get('authorization')?.replace(/^Bearer /, '')
+        return token && this.accessTokens.has(token)
+          ? Response.json(this.claims)
+          : Response.json({ error: 'invalid_token' }, { status: 401 })
+      }
+      default:
+        return new Response('Not Found', { status: 404 })
+    }
+  }
+
+  private authorize(params: URLSearchParams): Response {
+    const redirectUri = params.get('redirect_uri')
+    if (params.get('client_id') !== this.clientId || !redirectUri) {
+      return Response.json({ error: 'invalid_client' }, { status: 400 })
+    }
+
+    const callback = new URL(redirectUri)
+    const state = params.get('state')
+    if (state) {
+      callback.searchParams.set('state', state)
+    }
+
+    if (this.denyWith) {
+      callback.searchParams.set('error', this.denyWith)
+    }
+    else {
+      const code = randomBytes(16).toString('hex')
+      this.codes.set(code, {
+        redirectUri,
+        scope: params.get('scope') ?? '',
+        codeChallenge: params.get('code_challenge') ?? undefined,
+        nonce: params.get('nonce') ?? undefined,
+      })
+      callback.searchParams.set('code', code)
+    }
+
+    return new Response(null, { status: 302, headers: { Location: callback.toString() } })
+  }
+
+  private async token(req: Request): Promise<Response> {
+    const form = Object.fromEntries(new URLSearchParams(await req.text()))
+    this.tokenRequests.push(form)
+
+    const basic = req.headers.get('authorization')?.match(/^Basic (.+)$/)
+    const [clientId, clientSecret] = basic
+      ? Buffer.from(basic[1], 'base64').toString().split(':').map(decodeURIComponent)
+      : [form.client_id, form.client_secret]
+    if (clientId !== this.clientId || clientSecret !== this.clientSecret) {
+      return Response.json({ error: 'invalid_client' }, { status: 401 })
+    }
+
+    // Codes can be used once
+    const grant = this.codes.get(form.code)
+    this.codes.delete(form.code)
+    if (form.grant_type !== 'authorization_code' || !grant || grant.redirectUri !== form.redirect_uri) {
+      return Response.json({ error: 'invalid_grant' }, { status: 400 })
+    }
+
+    if (grant.codeChallenge && createHash('sha256').update(form.code_verifier ?? '').digest('base64url') !== grant.codeChallenge) {
+      return Response.json({ error: 'invalid_grant', error_description: 'PKCE verification failed' }, { status: 400 })
+    }
+
+    const accessToken = randomBytes(16).toString('hex')
+    this.accessTokens.add(accessToken)
+
+    return Response.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: grant.scope,
+      ...(grant.scope.split(' ').includes('openid')
+        ? {
+            id_token: await this.signer.sign(
+              { ...this.claims, iss: this.issuer, aud: this.clientId, nonce: grant.nonce, ...this.idTokenClaims },
+              { expiresIn: 300 },
+            ),
+          }
+        : {}),
+    })
+  }
+}
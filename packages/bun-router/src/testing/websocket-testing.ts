@@ -1,6 +1,8 @@
 import type { ServerWebSocket } from 'bun'
+import type { AckFrame, EventError, EventFrame, EventSocket } from '../websocket/events'
 import type { WSTestClient, WSTestMessage } from './types'
 import { mock } from 'bun:test'
+import { findEventSocket } from '../websocket/events'
 
 /**
  * WebSocket testing utilities
@@ -247,6 +249,103 @@ export class MockServerWebSocket {
   }
 }
 
+/**
+ * Drives a socket speaking the event protocol of `events(ws)` without a server
+ */
+export class EventProtocolTester {
+  readonly ws: MockServerWebSocket
+  private ready: Promise<void>
+  private nextId = 1
+
+  /**
+   * @param setup Registers the event handlers, e.g. the route's `open` handler
+   */
+  constructor(setup: (ws: ServerWebSocket<any>) => void | Promise<void>, data: Record<string, any> = {}) {
+    this.ws = new MockServerWebSocket({ id: crypto.randomUUID(), connectedAt: Date.now(), ...data })
+    this.ws.getTester().connect()
+    this.ready = Promise.resolve(setup(this.ws as unknown as ServerWebSocket<any>))
+  }
+
+  /**
+   * Send an event without waiting for an acknowledgement
+   */
+  async emit(event: string, data?: unknown): Promise<void> {
+    await this.send(JSON.stringify({ event, data } satisfies EventFrame))
+  }
+
+  /**
+   * Send an event and return the acknowledgement the server answered with
+   */
+  async request(event: string, data?: unknown): Promise<AckFrame> {
+    const id = `test-${this.nextId++}`
+    await this.send(JSON.stringify({ event, data, id } satisfies EventFrame))
+
+    const ack = this.frames().find((frame): frame is AckFrame => 'ack' in frame && frame.ack === id)
+    if (!ack) {
+      throw new Error(`Event "${event}" was not acknowledged`)
+    }
+    return ack
+  }
+
+  /**
+   * Answer the latest `request()` the server sent for an event
+   */
+  async acknowledge(event: string, data?: unknown, error?: EventError): Promise<void> {
+    const request = this.frames().reverse().find((frame): frame is EventFrame => 'event' in frame && frame.event === event && frame.id !== undefined)
+    if (!request) {
+      throw new Error(`The server did not request "${event}"`)
+    }
+    await this.send(JSON.stringify({ ack: request.id!, data, error } satisfies AckFrame))
+  }
+
+  /**
+   * Send a raw frame, e.g. a malformed one
+   */
+  async send(message: string | Uint8Array): Promise<void> {
+    await this.ready
+    await this.socket().handle(message)
+  }
+
+  /**
+   * Frames the server sent
+   */
+  frames(): Array<EventFrame | AckFrame> {
+    return this.ws.getTester().getSentMessages().filter(message => typeof message.data === 'string').map(message => JSON.parse(message.data as string))
+  }
+
+  /**
+   * Data of the events the server emitted with a name
+   */
+  emitted(event: string): unknown[] {
+    return this.frames()
+      .filter((frame): frame is EventFrame => 'event' in frame && frame.event === event)
+      .map(frame => frame.data)
+  }
+
+  /**
+   * Errors the server reported without an acknowledgement to answer
+   */
+  errors(): EventError[] {
+    return this.emitted('error') as EventError[]
+  }
+
+  /**
+   * Simulate the socket closing
+   */
+  close(): void {
+    findEventSocket(this.ws as unknown as ServerWebSocket<any>)?.close()
+    this.ws.close()
+  }
+
+  private socket(): EventSocket {
+    const socket = findEventSocket(this.ws as unknown as ServerWebSocket<any>)
+    if (!socket) {
+      throw new Error('The setup function must call events(ws)')
+    }
+    return socket
+  }
+}
+
 /**
  * WebSocket handler testing utilities
  */
@@ -541,6 +640,10 @@ export function createMockServerWebSocket(data?: any): MockServerWebSocket {
   return new MockServerWebSocket(data)
 }
 
+export function createEventProtocolTester(setup: (ws: ServerWebSocket<any>) => void | Promise<void>, data?: Record<string, any>): EventProtocolTester {
+  return new EventProtocolTester(setup, data)
+}
+
 /**
  * WebSocket test utilities
  */
@@ -22,6 +22,14 @@ import type {
   MiddlewareParams,
   OAuth2Flows,
   OAuth2Profile,
+  PubSubAdapter,
+  PubSubListener,
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+  RedisClientLike,
+  RedisSubscriberLike,
   RequestContext,
   RequestInput,
   RouteMetadata,
@@ -67,6 +75,14 @@ export type {
   MiddlewareParams,
   OAuth2Flows,
   OAuth2Profile,
+  PubSubAdapter,
+  PubSubListener,
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+  RedisClientLike,
+  RedisSubscriberLike,
   RequestContext,
   RequestInput,
   RouteMetadata,
@@ -144,11 +160,16 @@ export interface RateLimitConfig {
     algorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket'
   }
   stores?: {
-    type: 'memory' | 'redis'
+    type: 'memory' | 'redis' | 'sqlite' | 'custom'
     redis?: {
       url: string
       prefix?: string
     }
+    sqlite?: {
+      filename?: string
+      table?: string
+    }
+    custom?: RateLimitStore
   }
 }
 
@@ -548,7 +569,7 @@ export interface SecurityConfig {
         path?: string
       }
       store?: {
-        type: CacheType
+        type: CacheType | 'sqlite' | 'file'
         redis?: {
           url: string
           prefix: string
@@ -556,6 +577,15 @@ export interface SecurityConfig {
           scanCount?: number
           serializer?: SessionSerializer
         }
+        sqlite?: {
+          filename?: string
+          table?: string
+          serializer?: SessionSerializer
+        }
+        file?: {
+          directory?: string
+          serializer?: SessionSerializer
+        }
         custom?: SessionStore
       }
     }
@@ -732,6 +762,94 @@ export interface RouterConfig {
   views?: ViewEngineConfig
   docs?: DocsConfig
   server?: ServerConfig
+  /**
+   * Signed and encrypted cookie configuration
+   */
+  cookies?: CookieConfig
+  /**
+   * Signed URL configuration
+   */
+  signedUrls?: SignedUrlConfig
+  /**
+   * API versioning configuration
+   */
+  versioning?: VersioningConfig
+  /**
+   * Adapter `router.publish()` fans out through, so WebSocket topics reach
+   * sockets connected to other processes
+   */
+  pubsub?: PubSubAdapter
+}
+
+/**
+ * Key ring for signed and encrypted cookies
+ */
+export interface CookieConfig {
+  /**
+   * Secret keys, newest first. The first key signs and encrypts new cookies;
+   * older keys are still accepted on read so they can be rotated out gradually.
+   */
+  keys: string[]
+}
+
+/**
+ * Key ring for signed route URLs
+ */
+export interface SignedUrlConfig {
+  /**
+   * Secret keys, newest first. The first key signs new URLs; older keys are
+   * still accepted so links sent before a rotation keep working.
+   */
+  keys: string[]
+}
+
+/**
+ * Where `router.version()` groups read the requested API version from
+ */
+export interface VersioningConfig {
+  /**
+   * - `path`: a segment of the URL, e.g. `/api/v2/users` (default)
+   * - `header`: a request header, e.g. `Accept-Version: v2`
+   * - `media-type`: the Accept header, e.g. `application/vnd.acme.v2+json`
+   *   or `application/json; version=v2`
+   */
+  strategy?: 'path' | 'header' | 'media-type'
+  /**
+   * Header read by the `header` strategy (default: 'Accept-Version')
+   */
+  header?: string
+  /**
+   * Vendor name in `application/vnd.<vendor>.<version>+json` media types
+   */
+  vendor?: string
+  /**
+   * Version used when the request doesn't ask for one. Defaults to the
+   * first route declared at the matched path.
+   */
+  defaultVersion?: string
+}
+
+/**
+ * Options for a `router.version()` group
+ */
+export interface ApiVersionOptions {
+  /**
+   * Version whose routes are served when this version has no route for a request
+   */
+  fallbackTo?: string
+  /**
+   * When the version was deprecated, sent as the `Deprecation` header
+   */
+  deprecatedAt?: Date | string
+  /**
+   * When the version stops being served, sent as the `Sunset` header.
+   * Requests after this date get 410 Gone.
+   */
+  sunsetAt?: Date | string
+  /**
+   * Migration guide, sent as a `Link` header with `rel="deprecation"`
+   */
+  deprecationLink?: string
 }
 
 export type RouterOptions = Partial<RouterConfig>
@@ -761,6 +879,14 @@ export interface CookieOptions {
   path?: string
   domain?: string
   sameSite?: 'strict' | 'lax' | 'none'
+  /**
+   * HMAC-sign the value with the router's cookie key ring
+   */
+  signed?: boolean
+  /**
+   * AES-GCM-encrypt the value with the router's cookie key ring
+   */
+  encrypted?: boolean
 }
 
 /**
@@ -768,6 +894,14 @@ export interface CookieOptions {
  */
 export interface CookieAccessor {
   get: (name: string) => string | undefined
+  /**
+   * Read a signed cookie, returning undefined if its signature is invalid
+   */
+  getSigned: (name: string) => string | undefined
+  /**
+   * Read an encrypted cookie, returning undefined if it cannot be decrypted
+   */
+  getEncrypted: (name: string) => string | undefined
   set: (name: string, value: string, options?: CookieOptions) => void
   delete: (name: string, options?: CookieOptions) => void
   getAll: () => Record<string, string>
@@ -802,6 +936,11 @@ export interface EnhancedRequest extends Request, Omit<RequestMacroMethods, 'ip'
    * User data (if authentication middleware is used)
    */
   user?: User
+  /**
+   * Check an ability for the user against the router's authorization gate.
+   * A string as first argument names a route-bound model to check against.
+   */
+  can?: (ability: string, ...args: unknown[]) => Promise<boolean>
   /**
    * Additional context data that can be set by middleware
    */
@@ -875,10 +1014,22 @@ export interface EnhancedRequest extends Request, Omit<RequestMacroMethods, 'ip'
    * SSE connection information
    */
   sse?: SSEConnection
+  /**
+   * The native request, for Bun APIs such as `server.upgrade()` that don't accept the enhanced request
+   */
+  nativeRequest?: Request
   /**
    * The matched route object
    */
   route?: Route
+  /**
+   * Media type picked from the route's `produces` list by content negotiation
+   */
+  negotiatedType?: string
+  /**
+   * API version the request was served for
+   */
+  apiVersion?: string
 }
 
 export interface UploadedFile {
@@ -888,7 +1039,37 @@ export interface UploadedFile {
   path: string
   size: number
   mimetype: string
-  buffer: ArrayBuffer
+  /**
+   * Contents of files held in memory. Streamed uploads aren't buffered,
+   * read them back from their storage `path` instead.
+   */
+  buffer?: ArrayBuffer
+}
+
+/**
+ * A file being received, handed to storage before its size is known
+ */
+export interface UploadStream {
+  fieldName: string
+  originalName: string
+  filename: string
+  mimetype: string
+  stream: ReadableStream<Uint8Array>
+}
+
+/**
+ * Where uploaded files are kept
+ */
+export interface FileStorageService {
+  store: (file: UploadedFile, path?: string) => Promise<string>
+  /**
+   * Store a file while it's still being received. Rejects, without keeping a
+   * partial file, when the stream errors, e.g. because the file is too large.
+   */
+  storeStream: (file: UploadStream, path?: string) => Promise<string>
+  delete: (path: string) => Promise<void>
+  exists: (path: string) => Promise<boolean>
+  getUrl: (path: string) => string
 }
 
 export type RouteHandler = (req: EnhancedRequest) => Response | Promise<Response>
@@ -1020,6 +1201,7 @@ export interface AuthMiddlewareConfig {
 export interface RouteGroup {
   prefix?: string
   middleware?: (string | MiddlewareHandler)[]
+  version?: string
 }
 
 export interface Route {
@@ -1035,6 +1217,49 @@ export interface Route {
   pattern?: {
     exec: (url: URL) => PatternMatchResult | null
   }
+  /**
+   * Media types this route can respond with, matched against `Accept`
+   */
+  produces?: string[]
+  /**
+   * Media types this route accepts as a request body, matched against `Content-Type`
+   */
+  consumes?: string[]
+  /**
+   * API version the route was registered under with `router.version()`
+   */
+  version?: string
+  /**
+   * Documented responses by status code, declared with `router.responds()`
+   */
+  responses?: Record<number, RouteResponse>
+}
+
+/**
+ * JSON Schema (draft 2020-12, the dialect OpenAPI 3.1 uses)
+ */
+export interface JsonSchema {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  items?: JsonSchema
+  required?: string[]
+  $ref?: string
+  [keyword: string]: any
+}
+
+/**
+ * A documented route response
+ */
+export interface RouteResponse {
+  description?: string
+  /**
+   * Inline schema, or the name of a schema registered with `router.schema()`
+   */
+  schema?: JsonSchema | string
+  /**
+   * @default 'application/json'
+   */
+  contentType?: string
 }
 
 /**
@@ -1060,6 +1285,46 @@ export interface WebSocketConfig<T extends WebSocketData = WebSocketData> {
   publishToSelf?: boolean
 }
 
+/**
+ * Data of a socket upgraded by `router.ws()`
+ */
+export interface WebSocketRouteData<TPath extends string = string, TUser = User> extends WebSocketData {
+  /**
+   * Route parameters matched from the upgrade request path
+   */
+  params: string extends TPath ? Record<string, string> : ExtractRouteParams<TPath>
+  /**
+   * User set by authentication middleware before the upgrade
+   */
+  user?: TUser
+}
+
+/**
+ * Handlers of a WebSocket route registered with `router.ws()`. `message` may
+ * be left out when the sockets speak the event protocol of `events(ws)`.
+ */
+export type WebSocketRouteHandlers<TPath extends string = string, TUser = User> = Partial<Pick<
+  WebSocketConfig<WebSocketRouteData<TPath, TUser>>,
+  'open' | 'message' | 'close' | 'ping' | 'pong' | 'drain' | 'error'
+>>
+
+/**
+ * Member of a presence channel
+ */
+export interface PresenceMember {
+  id: string | number
+  info: Record<string, unknown>
+}
+
+/**
+ * Decides whether a user may join a private or presence channel. Return
+ * `true` to allow, or the member info shown to others in presence channels.
+ */
+export type ChannelAuthorizer<TPattern extends string = string, TUser = User> = (
+  user: TUser,
+  params: string extends TPattern ? Record<string, string> : ExtractRouteParams<TPattern>,
+) => boolean | Record<string, unknown> | Promise<boolean | Record<string, unknown>>
+
 export type Compressor =
   | 'disable'
   | 'shared'
@@ -1456,6 +1721,41 @@ export type StreamingFormat = 'json' | 'ndjson' | 'csv' | 'xml' | 'text' | 'bina
 export type StreamingCompression = 'gzip' | 'deflate' | 'br' | 'none'
 export type StreamingMode = 'chunked' | 'buffered' | 'direct'
 
+/**
+ * What a stream does with writes its client is too slow to take
+ * - `drop`: discard them
+ * - `buffer`: queue them in a temporary file until the client catches up
+ * - `disconnect`: queue them, ending the stream if the client is still backed up after the stall timeout
+ */
+export type SlowConsumerPolicy = 'drop' | 'buffer' | 'disconnect'
+
+/**
+ * Flow control for streamed responses
+ */
+export interface BackpressureOptions {
+  /**
+   * Bytes queued for the client before writes wait for it to catch up
+   * @default 65536
+   */
+  highWaterMark?: number
+  /**
+   * Applied to writes that can't wait, like SSE broadcasts, and to
+   * writers stalled for `stallTimeout`
+   * @default 'disconnect'
+   */
+  policy?: SlowConsumerPolicy
+  /**
+   * Milliseconds a client may stop reading before its stream counts as stalled
+   * @default 30000
+   */
+  stallTimeout?: number
+  /**
+   * Directory the `buffer` policy writes to
+   * @default os.tmpdir()
+   */
+  spillDirectory?: string
+}
+
 /**
  * Server-Sent Events configuration
  */
@@ -1469,6 +1769,41 @@ export interface SSEConfig {
   enableHeartbeat?: boolean
   connectionTimeout?: number
   retryDelay?: number
+  /**
+   * Buffer of recent events replayed to clients reconnecting with `Last-Event-ID`
+   */
+  replay?: SSEReplayStore
+  /**
+   * Channel the replay buffer keeps events for
+   * @default 'default'
+   */
+  channel?: string
+  /**
+   * Record events passed to `send()` in the replay buffer. Off for
+   * connections of an `SSEConnectionManager`, which records broadcasts only.
+   * @default true
+   */
+  record?: boolean
+  /**
+   * Flow control for slow clients
+   */
+  backpressure?: BackpressureOptions
+}
+
+/**
+ * Keeps the recent events of SSE channels so reconnecting clients can catch up
+ */
+export interface SSEReplayStore {
+  /**
+   * Record an event, assigning the next id when it has none. Recording an
+   * event whose id is already buffered is a no-op.
+   */
+  append: (channel: string, event: SSEEvent) => SSEEvent
+  /**
+   * Events recorded after `lastEventId`, or null when that id is no longer
+   * buffered and the gap can't be replayed
+   */
+  since: (channel: string, lastEventId: string) => SSEEvent[] | null
 }
 
 /**
@@ -1500,6 +1835,7 @@ export interface DirectStreamConfig {
   contentType?: ContentType
   enableCompression?: boolean
   compressionType?: StreamingCompression
+  backpressure?: BackpressureOptions
 }
 
 /**
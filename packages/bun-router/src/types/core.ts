@@ -119,6 +119,101 @@ export interface SessionStore<T = SessionData> {
   all?: () => Promise<Record<string, T>>
   length?: () => Promise<number>
   clear?: () => Promise<void>
+  prune?: () => Promise<number>
+}
+
+// ============================================================================
+// Redis Types
+// ============================================================================
+
+/**
+ * Minimal Redis-protocol client - satisfied by Bun's `RedisClient`
+ * and by any client exposing a raw command interface
+ */
+export interface RedisClientLike {
+  send: (command: string, args: string[]) => Promise<unknown>
+}
+
+/**
+ * Redis-protocol client in subscriber mode - satisfied by Bun's `RedisClient`.
+ * A subscribed connection can't run other commands, so use a separate client.
+ */
+export interface RedisSubscriberLike {
+  subscribe: (channel: string, listener: (message: string, channel: string) => void) => Promise<unknown>
+  unsubscribe: (channel: string) => Promise<unknown>
+}
+
+// ============================================================================
+// Rate Limit Types
+// ============================================================================
+
+/**
+ * How hits are counted against a limit
+ * - `fixed-window` counts hits per window, allowing bursts at window edges
+ * - `sliding-log` keeps the time of each allowed hit in the last window
+ * - `gcra` spaces hits evenly, allowing bursts up to the limit
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'gcra'
+
+/**
+ * A limit of `limit` hits per `windowMs`
+ */
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm
+  limit: number
+  windowMs: number
+}
+
+/**
+ * Outcome of counting a hit against a rule
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  /**
+   * Hits counted in the current window
+   */
+  hits: number
+  remaining: number
+  /**
+   * Epoch milliseconds at which the limit is fully available again
+   */
+  resetTime: number
+  /**
+   * Milliseconds until a denied hit may be retried, 0 when allowed
+   */
+  retryAfter: number
+}
+
+/**
+ * Shared rate limit state. Each `consume()` must check and count a hit
+ * atomically, so that processes sharing the store enforce one limit.
+ */
+export interface RateLimitStore {
+  consume: (key: string, rule: RateLimitRule) => Promise<RateLimitResult>
+  reset: (key: string) => Promise<void>
+}
+
+// ============================================================================
+// Pub/Sub Types
+// ============================================================================
+
+/**
+ * Receives messages published to a channel
+ */
+export type PubSubListener = (message: string, channel: string) => void
+
+/**
+ * Transport carrying broadcasts between processes. Adapters deliver each
+ * message to every subscriber of the channel, including those in the
+ * publishing process.
+ */
+export interface PubSubAdapter {
+  publish: (channel: string, message: string) => Promise<void>
+  /**
+   * Resolves with a function that removes the listener
+   */
+  subscribe: (channel: string, listener: PubSubListener) => Promise<() => Promise<void>>
+  close?: () => Promise<void>
 }
 
 // ============================================================================
@@ -374,6 +469,8 @@ export interface CookieOptions {
   sameSite?: 'strict' | 'lax' | 'none'
   priority?: 'low' | 'medium' | 'high'
   partitioned?: boolean
+  signed?: boolean
+  encrypted?: boolean
 }
 
 /**
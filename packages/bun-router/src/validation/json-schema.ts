@@ -0,0 +1,198 @@
+/**
+ * Validation Rules to JSON Schema
+ *
+ * Converts Laravel-style validation rules into JSON Schema (draft 2020-12,
+ * the dialect used by OpenAPI 3.1) so generated documentation and clients
+ * describe the same constraints the validator enforces.
+ */
+
+import type { JsonSchema } from '../types'
+import type { ValidationRule, ValidationRules } from './validator'
+
+interface ParsedRule {
+  name: string
+  parameters: string[]
+}
+
+function parseRules(fieldRules: string | ValidationRule[]): ParsedRule[] {
+  if (typeof fieldRules !== 'string') {
+    return fieldRules.map(rule => ({ name: rule.name, parameters: [] }))
+  }
+
+  return fieldRules.split('|').filter(Boolean).map((rule) => {
+    const [name, ...paramParts] = rule.split(':')
+    const parameters = paramParts.length > 0 ? paramParts.join(':').split(',') : []
+    return { name: name.trim(), parameters }
+  })
+}
+
+/**
+ * JSON Schema type implied by a field's rules
+ */
+function schemaType(rules: ParsedRule[]): string | undefined {
+  const names = new Set(rules.map(rule => rule.name))
+
+  if (names.has('integer'))
+    return 'integer'
+  if (names.has('number'))
+    return 'number'
+  if (names.has('boolean'))
+    return 'boolean'
+  if (names.has('array'))
+    return 'array'
+  if (names.has('object'))
+    return 'object'
+  if (['string', 'email', 'url', 'uuid', 'date', 'after', 'before', 'regex', 'alpha', 'alpha_num', 'alpha_dash', 'json'].some(name => names.has(name)))
+    return 'string'
+
+  return undefined
+}
+
+/**
+ * `min` / `max` / `between` bound size for strings and arrays and value for numbers
+ */
+function applyBound(schema: JsonSchema, bound: 'min' | 'max', value: string): void {
+  const limit = Number(value)
+  if (Number.isNaN(limit)) {
+    return
+  }
+
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      schema[bound === 'min' ? 'minimum' : 'maximum'] = limit
+      break
+    case 'array':
+      schema[bound === 'min' ? 'minItems' : 'maxItems'] = limit
+      break
+    default:
+      schema[bound === 'min' ? 'minLength' : 'maxLength'] = limit
+  }
+}
+
+/**
+ * JSON Schema for a single field's rules
+ */
+export function fieldToJsonSchema(fieldRules: string | ValidationRule[]): JsonSchema {
+  const rules = parseRules(fieldRules)
+  const schema: JsonSchema = {}
+
+  const type = schemaType(rules)
+  if (type) {
+    schema.type = type
+  }
+
+  for (const { name, parameters } of rules) {
+    switch (name) {
+      case 'email':
+        schema.format = 'email'
+        break
+      case 'url':
+        schema.format = 'uri'
+        break
+      case 'uuid':
+        schema.format = 'uuid'
+        break
+      case 'date':
+        schema.format = 'date-time'
+        break
+      case 'json':
+        schema.contentMediaType = 'application/json'
+        break
+      case 'min':
+      case 'max':
+        applyBound(schema, name, parameters[0])
+        break
+      case 'between':
+        applyBound(schema, 'min', parameters[0])
+        applyBound(schema, 'max', parameters[1])
+        break
+      case 'in':
+        schema.enum = parameters
+        break
+      case 'not_in':
+        schema.not = { enum: parameters }
+        break
+      case 'regex':
+        schema.pattern = parameters.join(',')
+        break
+      case 'alpha':
+        schema.pattern = '^[a-zA-Z]+$'
+        break
+      case 'alpha_num':
+        schema.pattern = '^[a-zA-Z0-9]+$'
+        break
+      case 'alpha_dash':
+        schema.pattern = '^[\\w-]+$'
+        break
+    }
+  }
+
+  return schema
+}
+
+/**
+ * Whether a field's rules include `required`
+ */
+export function isRequiredField(fieldRules: string | ValidationRule[]): boolean {
+  return parseRules(fieldRules).some(rule => rule.name === 'required')
+}
+
+/**
+ * Field a `confirmed` rule compares against, e.g. password -> password_confirmation
+ */
+function confirmationField(field: string, fieldRules: string | ValidationRule[]): string | undefined {
+  const confirmed = parseRules(fieldRules).find(rule => rule.name === 'confirmed')
+  return confirmed ? confirmed.parameters[0] || `${field}_confirmation` : undefined
+}
+
+function withoutRule(fieldRules: string | ValidationRule[], name: string): string | ValidationRule[] {
+  if (typeof fieldRules !== 'string') {
+    return fieldRules.filter(rule => rule.name !== name)
+  }
+  return fieldRules.split('|').filter(rule => rule.split(':')[0].trim() !== name).join('|')
+}
+
+/**
+ * Object schema for a set of validation rules. Dot notation fields
+ * (`address.city`) become nested object schemas.
+ *
+ * @example
+ * rulesToJsonSchema({ email: 'required|email', age: 'integer|min:18' })
+ * // { type: 'object', properties: { email: { type: 'string', format: 'email' }, age: { type: 'integer', minimum: 18 } }, required: ['email'] }
+ */
+export function rulesToJsonSchema(rules: ValidationRules): JsonSchema {
+  const root: JsonSchema = { type: 'object', properties: {} }
+
+  const addField = (field: string, fieldRules: string | ValidationRule[]) => {
+    const segments = field.split('.')
+    let parent = root
+
+    // Walk (and create) the intermediate objects
+    for (const segment of segments.slice(0, -1)) {
+      parent.properties ??= {}
+      parent.properties[segment] ??= { type: 'object', properties: {} }
+      parent = parent.properties[segment]
+    }
+
+    const name = segments[segments.length - 1]
+    parent.properties ??= {}
+    parent.properties[name] = { ...parent.properties[name], ...fieldToJsonSchema(fieldRules) }
+
+    if (isRequiredField(fieldRules)) {
+      parent.required = [...new Set([...(parent.required || []), name])]
+    }
+  }
+
+  for (const [field, fieldRules] of Object.entries(rules)) {
+    addField(field, fieldRules)
+
+    // `confirmed` expects a matching `<field>_confirmation` field
+    const confirmation = confirmationField(field, fieldRules)
+    if (confirmation && !(confirmation in rules)) {
+      addField(confirmation, withoutRule(fieldRules, 'confirmed'))
+    }
+  }
+
+  return root
+}
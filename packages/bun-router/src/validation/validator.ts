@@ -445,13 +445,21 @@ export class Validator {
  */
 export const globalValidator: Validator = new Validator()
 
+/**
+ * Validation middleware. The rules stay attached so tooling such as the
+ * OpenAPI generator can describe the request.
+ */
+export type ValidationMiddleware = ((req: EnhancedRequest, next: NextFunction) => Promise<Response | null>) & {
+  validationRules: ValidationRules
+}
+
 /**
  * Validation middleware factory
  */
-export function createValidationMiddleware(rules: ValidationRules, config?: ValidatorConfig) {
+export function createValidationMiddleware(rules: ValidationRules, config?: ValidatorConfig): ValidationMiddleware {
   const validator = new Validator(config)
 
-  return async (req: EnhancedRequest, next: NextFunction): Promise<Response | null> => {
+  const middleware = async (req: EnhancedRequest, next: NextFunction): Promise<Response | null> => {
     try {
       // Get data from request body, query, and params
       const data = {
@@ -475,6 +483,8 @@ export function createValidationMiddleware(rules: ValidationRules, config?: Vali
       throw new ValidationException('Validation error occurred')
     }
   }
+
+  return Object.assign(middleware, { validationRules: rules })
 }
 
 /**
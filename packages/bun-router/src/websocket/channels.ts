@@ -0,0 +1,264 @@
+/**
+ * Channel Authorization
+ *
+ * Private and presence channels in the style of Laravel Echo. Channels named
+ * `private-orders.1` or `presence-chat.1` may only be joined by users the
+ * authorizer registered for `orders.{id}` or `chat.{id}` allows. Presence
+ * channels also track who is in them and announce members joining and leaving.
+ */
+
+import type { ServerWebSocket } from 'bun'
+import type { ChannelAuthorizer, PresenceMember, WebSocketData, WebSocketRouteData } from '../types'
+
+export type ChannelType = 'public' | 'private' | 'presence'
+
+/**
+ * Result of authorizing a join
+ */
+export interface ChannelAuthorization {
+  channel: string
+  type: ChannelType
+  /**
+   * Set for presence channels
+   */
+  member?: PresenceMember
+}
+
+/**
+ * Event sent to sockets about presence channels
+ */
+export interface PresenceEvent {
+  event: 'subscription_succeeded' | 'member_added' | 'member_removed'
+  channel: string
+  data: PresenceMember | { members: PresenceMember[] }
+}
+
+interface ChannelDefinition {
+  pattern: RegExp
+  params: string[]
+  authorize: ChannelAuthorizer<any, any>
+}
+
+interface PresenceEntry {
+  member: PresenceMember
+  sockets: Set<string>
+}
+
+/**
+ * Type of a channel from its prefix
+ */
+export function channelType(channel: string): ChannelType {
+  if (channel.startsWith('private-')) {
+    return 'private'
+  }
+  if (channel.startsWith('presence-')) {
+    return 'presence'
+  }
+  return 'public'
+}
+
+/**
+ * Authorizes channel joins and tracks presence channel members
+ */
+export class ChannelManager {
+  private definitions: ChannelDefinition[] = []
+  private presence = new Map<string, Map<string | number, PresenceEntry>>()
+  private socketChannels = new Map<string, Map<string, PresenceMember | undefined>>()
+
+  /**
+   * @param broadcast Sends an event to a channel's subscribers, e.g. `router.publish()`
+   */
+  constructor(private broadcast: (channel: string, message: string) => void = () => {}) {}
+
+  /**
+   * Register the authorizer for channels matching `pattern`, e.g. `orders.{id}`
+   */
+  define<TPattern extends string>(pattern: TPattern, authorize: ChannelAuthorizer<TPattern, any>): this {
+    const params: string[] = []
+    const source = pattern
+      .split(/(\{\w+\})/)
+      .map((part) => {
+        const param = part.match(/^\{(\w+)\}$/)
+        if (param) {
+          params.push(param[1])
+          return '([^.]+)'
+        }
+        return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+      })
+      .join('')
+
+    this.definitions.push({ pattern: new RegExp(`^${source}$`), params, authorize })
+    return this
+  }
+
+  /**
+   * Run the authorizer for a channel. Public channels are always allowed;
+   * private and presence channels need a user and a matching authorizer.
+   * Returns null when the join is denied.
+   */
+  async authorize(channel: string, user: unknown): Promise<ChannelAuthorization | null> {
+    const type = channelType(channel)
+    if (type === 'public') {
+      return { channel, type }
+    }
+    if (!user) {
+      return null
+    }
+
+    const name = channel.slice(type.length + 1)
+    for (const definition of this.definitions) {
+      const match = name.match(definition.pattern)
+      if (!match) {
+        continue
+      }
+
+      // Channel names come from clients, so a malformed escape denies the join
+      let params: Record<string, string>
+      try {
+        params = Object.fromEntries(definition.params.map((param, index) => [param, decodeURIComponent(match[index + 1])]))
+      }
+      catch {
+        return null
+      }
+
+      const result = await definition.authorize(user, params)
+      if (!result) {
+        return null
+      }
+
+      if (type === 'private') {
+        return { channel, type }
+      }
+
+      const info = result === true ? {} : result
+      const id = (info.id ?? (user as { id?: string | number }).id) as string | number | undefined
+      // Users without an id can't be told apart, so they can't be members
+      if (id === undefined || id === null) {
+        return null
+      }
+      return { channel, type, member: { id, info } }
+    }
+
+    return null
+  }
+
+  /**
+   * Authorize a socket and subscribe it to the channel. Joining a presence
+   * channel announces the member to the others and sends the joining socket
+   * the current members. Returns false when the join is denied.
+   */
+  async join(ws: ServerWebSocket<WebSocketData>, channel: string): Promise<boolean> {
+    const authorization = await this.authorize(channel, (ws.data as WebSocketRouteData).user)
+    // The socket may have closed while the authorizer ran
+    if (!authorization || ws.readyState !== 1) {
+      return false
+    }
+
+    const joined = this.socketChannels.get(ws.data.id) ?? new Map<string, PresenceMember | undefined>()
+    if (joined.has(channel)) {
+      return true
+    }
+    this.socketChannels.set(ws.data.id, joined.set(channel, authorization.member))
+
+    const member = authorization.member
+    if (!member) {
+      ws.subscribe(channel)
+      return true
+    }
+
+    const members = this.presence.get(channel) ?? new Map<string | number, PresenceEntry>()
+    this.presence.set(channel, members)
+
+    // A user connected from several tabs is one member
+    const entry = members.get(member.id)
+    if (entry) {
+      entry.sockets.add(ws.data.id)
+    }
+    else {
+      // Announce before subscribing, so the joining socket isn't told about itself
+      this.send(channel, 'member_added', member)
+      members.set(member.id, { member, sockets: new Set([ws.data.id]) })
+    }
+
+    ws.subscribe(channel)
+    ws.send(JSON.stringify({
+      event: 'subscription_succeeded',
+      channel,
+      data: { members: this.members(channel) },
+    } satisfies PresenceEvent))
+
+    return true
+  }
+
+  /**
+   * Unsubscribe a socket from a channel, announcing the member's departure
+   * from a presence channel once their last socket leaves
+   */
+  leave(ws: ServerWebSocket<WebSocketData>, channel: string): void {
+    const joined = this.socketChannels.get(ws.data.id)
+    if (!joined?.has(channel)) {
+      return
+    }
+
+    const member = joined.get(channel)
+    joined.delete(channel)
+    if (joined.size === 0) {
+      this.socketChannels.delete(ws.data.id)
+    }
+
+    // The socket may already be closed
+    if (ws.readyState === 1) {
+      ws.unsubscribe(channel)
+    }
+
+    if (member) {
+      this.removeMember(ws.data.id, channel, member)
+    }
+  }
+
+  /**
+   * Leave every channel the socket joined, e.g. when it closes
+   */
+  leaveAll(ws: ServerWebSocket<WebSocketData>): void {
+    for (const channel of [...this.socketChannels.get(ws.data.id)?.keys() ?? []]) {
+      this.leave(ws, channel)
+    }
+  }
+
+  /**
+   * Members of a presence channel connected to this process
+   */
+  members(channel: string): PresenceMember[] {
+    return [...this.presence.get(channel)?.values() ?? []].map(entry => entry.member)
+  }
+
+  /**
+   * Channels a socket has joined
+   */
+  channels(ws: ServerWebSocket<WebSocketData>): string[] {
+    return [...this.socketChannels.get(ws.data.id)?.keys() ?? []]
+  }
+
+  private removeMember(socketId: string, channel: string, member: PresenceMember): void {
+    const members = this.presence.get(channel)
+    const entry = members?.get(member.id)
+    if (!members || !entry) {
+      return
+    }
+
+    entry.sockets.delete(socketId)
+    if (entry.sockets.size > 0) {
+      return
+    }
+
+    members.delete(member.id)
+    if (members.size === 0) {
+      this.presence.delete(channel)
+    }
+    this.send(channel, 'member_removed', entry.member)
+  }
+
+  private send(channel: string, event: PresenceEvent['event'], member: PresenceMember): void {
+    this.broadcast(channel, JSON.stringify({ event, channel, data: member } satisfies PresenceEvent))
+  }
+}
@@ -6,7 +6,12 @@
 
 import type { ServerWebSocket } from 'bun'
 import type { Buffer } from 'node:buffer'
+import type { PresenceMember, PubSubAdapter } from '../types'
+import type { ChannelManager } from './channels'
 import process from 'node:process'
+import { BroadcastChannelPubSub } from '../pubsub/adapters'
+import { PubSubRelay } from '../pubsub/relay'
+import { channelType } from './channels'
 
 export interface WebSocketClusterConfig {
   workers?: number
@@ -17,6 +22,16 @@ export interface WebSocketClusterConfig {
   closeOnBackpressureLimit?: boolean
   idleTimeout?: number
   maxPayloadLength?: number
+  /**
+   * Adapter carrying room broadcasts and membership between workers
+   * @default BroadcastChannelPubSub, reaching every worker of the process
+   */
+  pubsub?: PubSubAdapter
+  /**
+   * Authorizers for `private-` and `presence-` rooms clients ask to join.
+   * Without them, clients can only join public rooms.
+   */
+  channels?: ChannelManager
 }
 
 export interface ClusterMessage {
@@ -63,7 +78,8 @@ export interface ClusterStats {
  * WebSocket cluster manager for distributing connections across workers
  */
 export class WebSocketCluster {
-  private config: Required<WebSocketClusterConfig>
+  private config: Required<Omit<WebSocketClusterConfig, 'channels'>>
+  private channels?: ChannelManager
   private workers = new Map<string, Worker>()
   private connections = new Map<string, WebSocketConnection>()
   private rooms = new Map<string, WebSocketRoom>()
@@ -72,6 +88,7 @@ export class WebSocketCluster {
   private heartbeatTimer?: Timer
   private isMainWorker: boolean
   private workerId: string
+  private relay: PubSubRelay<ClusterMessage>
 
   constructor(config: WebSocketClusterConfig = {}) {
     this.config = {
@@ -84,11 +101,14 @@ export class WebSocketCluster {
       idleTimeout: config.idleTimeout || 120000,
       maxPayloadLength: config.maxPayloadLength || 16 * 1024 * 1024,
       ...config,
+      pubsub: config.pubsub ?? new BroadcastChannelPubSub({ name: 'bun-router:cluster' }),
     }
 
+    this.channels = config.channels
     this.workerId = this.generateWorkerId()
     this.isMainWorker = !process.env.BUN_WORKER_ID
     this.stats = this.initializeStats()
+    this.relay = new PubSubRelay<ClusterMessage>(this.config.pubsub, 'bun-router:cluster', message => this.handleWorkerMessage(message))
 
     this.setupWorkerCommunication()
     this.startHeartbeat()
@@ -101,6 +121,10 @@ export class WebSocketCluster {
     port?: number
     hostname?: string
     onConnection?: (ws: ServerWebSocket<any>, request: Request) => void
+    /**
+     * Resolve the user of an upgrade request, passed to channel authorizers
+     */
+    user?: (request: Request) => unknown | Promise<unknown>
     onMessage?: (ws: ServerWebSocket<any>, message: string | Buffer) => void
     onClose?: (ws: ServerWebSocket<any>, code?: number, reason?: string) => void
     onError?: (ws: ServerWebSocket<any>, error: Error) => void
@@ -109,17 +133,18 @@ export class WebSocketCluster {
       port: options.port || 3000,
       hostname: options.hostname || 'localhost',
 
-      fetch: (req, server) => {
+      fetch: async (req, server) => {
         const url = new URL(req.url)
 
         if (url.pathname === '/ws') {
+          const user = await options.user?.(req)
           const success = server.upgrade(req, {
             data: {
               connectionId: this.generateConnectionId(),
               workerId: this.workerId,
               connectedAt: Date.now(),
               rooms: new Set<string>(),
-              metadata: {},
+              metadata: user ? { user } : {},
             } as any,
           })
 
@@ -410,6 +435,10 @@ export class WebSocketCluster {
       clearInterval(this.heartbeatTimer)
     }
 
+    this.relay.stop().catch((error) => {
+      console.error('Failed to stop cluster relay:', error)
+    })
+
     // Close all connections
     this.connections.forEach((connection) => {
       if (connection.connected) {
@@ -466,19 +495,14 @@ export class WebSocketCluster {
           env: { ...process.env, BUN_WORKER_ID: `worker_${i}` },
         })
 
-        worker.onmessage = (event) => {
-          this.handleWorkerMessage(event.data)
-        }
-
         this.workers.set(`worker_${i}`, worker)
       }
     }
-    else {
-      // Worker listens for messages from main worker
-      process.on('message', (message) => {
-        this.handleWorkerMessage(message as ClusterMessage)
-      })
-    }
+
+    // Every worker, including the main one, exchanges messages through the pub/sub adapter
+    this.relay.start().catch((error) => {
+      console.error('Failed to subscribe to cluster messages:', error)
+    })
   }
 
   /**
@@ -554,7 +578,7 @@ export class WebSocketCluster {
     switch (message.type) {
       case 'join':
         if (message.roomId) {
-          this.joinRoom(connection.id, message.roomId, message.data || {})
+          void this.authorizeJoin(connection, message.roomId, message.data || {})
         }
         break
 
@@ -581,17 +605,41 @@ export class WebSocketCluster {
   }
 
   /**
-   * Broadcast message to all workers
+   * Join a room a client asked for. Private and presence rooms need the
+   * configured channel authorizer to allow the connection's user.
    */
-  private broadcastToWorkers(message: ClusterMessage): void {
-    if (this.isMainWorker) {
-      this.workers.forEach((worker) => {
-        worker.postMessage(message)
-      })
+  private async authorizeJoin(connection: WebSocketConnection, roomId: string, metadata: Record<string, any>): Promise<boolean> {
+    let authorization: { member?: PresenceMember } | null | undefined
+    try {
+      authorization = channelType(roomId) === 'public'
+        ? { member: undefined }
+        : await this.channels?.authorize(roomId, connection.metadata.user)
+    }
+    catch (error) {
+      console.error(`Failed to authorize join of ${roomId}:`, error)
+      authorization = null
     }
-    else {
-      process.send?.(message)
+
+    if (!authorization) {
+      connection.socket.send(`__cluster__${JSON.stringify({
+        type: 'join',
+        roomId,
+        data: { error: 'Forbidden' },
+        timestamp: Date.now(),
+      })}`)
+      return false
     }
+
+    return this.joinRoom(connection.id, roomId, authorization.member ? { ...metadata, member: authorization.member } : metadata)
+  }
+
+  /**
+   * Broadcast message to all workers
+   */
+  private broadcastToWorkers(message: ClusterMessage): void {
+    this.relay.publish(message).catch((error) => {
+      console.error('Failed to relay cluster message:', error)
+    })
   }
 
   /**
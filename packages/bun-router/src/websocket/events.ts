@@ -0,0 +1,316 @@
+/**
+ * WebSocket Event Protocol
+ *
+ * An optional layer over raw socket messages. Frames are JSON objects naming
+ * an event, handlers are registered per event with `on()`, and frames that
+ * carry an `id` are answered with an acknowledgement holding the handler's
+ * return value or error. The server can ask the client the same way with
+ * `request()`.
+ *
+ * Frames:
+ *   { "event": "chat.send", "data": { ... }, "id": 1 }       event, id is optional
+ *   { "ack": 1, "data": { ... } }                             acknowledgement
+ *   { "ack": 1, "error": { "code": "...", "message": "..." } } failed acknowledgement
+ *   { "event": "error", "data": { "code": "...", "message": "..." } } error without an id to answer
+ */
+
+import type { ServerWebSocket } from 'bun'
+import type { WebSocketData } from '../types'
+import type { ValidationRules } from '../validation/validator'
+import { RouterException, TimeoutException, ValidationException } from '../errors/exceptions'
+import { globalValidator } from '../validation/validator'
+
+export type EventMap = Record<string, any>
+
+export type FrameId = string | number
+
+/**
+ * Frame sent by either side to trigger an event
+ */
+export interface EventFrame<TData = unknown> {
+  event: string
+  data?: TData
+  id?: FrameId
+}
+
+/**
+ * Error reported in an acknowledgement or an `error` event
+ */
+export interface EventError {
+  code: string
+  message: string
+  fields?: Record<string, string[]>
+}
+
+/**
+ * Frame answering an event frame that carried an `id`
+ */
+export interface AckFrame<TData = unknown> {
+  ack: FrameId
+  data?: TData
+  error?: EventError
+}
+
+export interface EventContext<TSocket = ServerWebSocket<any>> {
+  ws: TSocket
+  event: string
+  /**
+   * Set when the client expects an acknowledgement
+   */
+  id?: FrameId
+}
+
+/**
+ * Handles an event. The return value is sent back as the acknowledgement.
+ */
+export type EventHandler<TData = unknown, TSocket = ServerWebSocket<any>> = (
+  data: TData,
+  context: EventContext<TSocket>,
+) => unknown | Promise<unknown>
+
+export interface EventSocketOptions {
+  /**
+   * Milliseconds `request()` waits for the client's acknowledgement
+   * @default 10000
+   */
+  timeout?: number
+}
+
+/**
+ * Error the client sent back for a `request()`
+ */
+export class EventAckError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message)
+    this.name = 'EventAckError'
+  }
+}
+
+interface Listener {
+  handler: EventHandler<any, any>
+  rules?: ValidationRules
+}
+
+interface PendingRequest {
+  resolve: (data: unknown) => void
+  reject: (error: Error) => void
+  timer: Timer
+}
+
+const eventSockets = new WeakMap<object, EventSocket<any, any>>()
+
+/**
+ * The event socket of a WebSocket, if `events(ws)` was called for it
+ */
+export function findEventSocket(ws: { data: WebSocketData }): EventSocket | undefined {
+  return eventSockets.get(ws.data)
+}
+
+/**
+ * Speak the event protocol on a socket. Sockets of `router.ws()` routes hand
+ * their messages to the event socket instead of the route's `message` handler.
+ * @example
+ * router.ws('/chat', {
+ *   open(ws) {
+ *     events<ChatEvents>(ws).on('message.send', { text: 'required|string|max:500' }, async ({ text }) => {
+ *       return { id: await saveMessage(text) }
+ *     })
+ *   },
+ * })
+ */
+export function events<TReceive extends EventMap = EventMap, TSend extends EventMap = EventMap, TSocket extends ServerWebSocket<any> = ServerWebSocket<any>>(
+  ws: TSocket,
+  options?: EventSocketOptions,
+): EventSocket<TReceive, TSend, TSocket> {
+  let socket = eventSockets.get(ws.data)
+  if (!socket) {
+    socket = new EventSocket(ws, options)
+    eventSockets.set(ws.data, socket)
+  }
+  return socket as EventSocket<TReceive, TSend, TSocket>
+}
+
+/**
+ * Event protocol endpoint of one WebSocket
+ */
+export class EventSocket<TReceive extends EventMap = EventMap, TSend extends EventMap = EventMap, TSocket extends ServerWebSocket<any> = ServerWebSocket<any>> {
+  private listeners = new Map<string, Listener>()
+  private pending = new Map<FrameId, PendingRequest>()
+  private nextId = 1
+  private timeout: number
+
+  constructor(readonly ws: TSocket, options: EventSocketOptions = {}) {
+    this.timeout = options.timeout ?? 10000
+  }
+
+  /**
+   * Handle an event, optionally validating its data against rules first.
+   * Invalid data is answered with a `VALIDATION_ERROR` and never reaches the handler.
+   */
+  on<K extends keyof TReceive & string>(event: K, handler: EventHandler<TReceive[K], TSocket>): this
+  on<K extends keyof TReceive & string>(event: K, rules: ValidationRules, handler: EventHandler<TReceive[K], TSocket>): this
+  on(event: string, rulesOrHandler: ValidationRules | EventHandler<any, TSocket>, handler?: EventHandler<any, TSocket>): this {
+    this.listeners.set(event, typeof rulesOrHandler === 'function'
+      ? { handler: rulesOrHandler }
+      : { handler: handler!, rules: rulesOrHandler })
+    return this
+  }
+
+  off(event: keyof TReceive & string): this {
+    this.listeners.delete(event)
+    return this
+  }
+
+  /**
+   * Send an event to the client
+   */
+  emit<K extends keyof TSend & string>(event: K, data?: TSend[K]): void {
+    this.send({ event, data } satisfies EventFrame)
+  }
+
+  /**
+   * Send an event and wait for the client's acknowledgement. Rejects with a
+   * `TimeoutException` when none arrives in time, or an `EventAckError` when
+   * the client answers with an error.
+   */
+  request<TResult = unknown, K extends keyof TSend & string = keyof TSend & string>(
+    event: K,
+    data?: TSend[K],
+    options: { timeout?: number } = {},
+  ): Promise<TResult> {
+    const id = this.nextId++
+    const timeout = options.timeout ?? this.timeout
+
+    return new Promise<TResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new TimeoutException(`No acknowledgement for "${event}" within ${timeout}ms`, timeout))
+      }, timeout)
+
+      this.pending.set(id, { resolve: resolve as (data: unknown) => void, reject, timer })
+      this.send({ event, data, id } satisfies EventFrame)
+    })
+  }
+
+  /**
+   * Handle a raw message received on the socket
+   */
+  async handle(message: string | Uint8Array | ArrayBuffer): Promise<void> {
+    const frame = parseFrame(message)
+    if (!frame) {
+      this.sendError(undefined, { code: 'MALFORMED_FRAME', message: 'Frames must be JSON objects with an "event" or "ack" field' })
+      return
+    }
+
+    if (!('event' in frame)) {
+      this.settle(frame)
+      return
+    }
+
+    const listener = this.listeners.get(frame.event)
+    if (!listener) {
+      this.sendError(frame.id, { code: 'UNKNOWN_EVENT', message: `Unknown event "${frame.event}"` })
+      return
+    }
+
+    try {
+      if (listener.rules) {
+        await globalValidator.validateOrFail(frame.data ?? {}, listener.rules)
+      }
+
+      const result = await listener.handler(frame.data, { ws: this.ws, event: frame.event, id: frame.id })
+      if (frame.id !== undefined) {
+        this.send({ ack: frame.id, data: result } satisfies AckFrame)
+      }
+    }
+    catch (error) {
+      this.sendError(frame.id, toEventError(error))
+    }
+  }
+
+  /**
+   * Reject requests still waiting for an acknowledgement, e.g. when the socket closes
+   */
+  close(): void {
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer)
+      request.reject(new EventAckError('SOCKET_CLOSED', `Socket closed before request ${id} was acknowledged`))
+    }
+    this.pending.clear()
+    eventSockets.delete(this.ws.data)
+  }
+
+  private settle(frame: AckFrame): void {
+    const request = this.pending.get(frame.ack)
+    if (!request) {
+      return
+    }
+
+    this.pending.delete(frame.ack)
+    clearTimeout(request.timer)
+    if (frame.error) {
+      request.reject(new EventAckError(frame.error.code, frame.error.message))
+    }
+    else {
+      request.resolve(frame.data)
+    }
+  }
+
+  private sendError(id: FrameId | undefined, error: EventError): void {
+    this.send(id === undefined
+      ? { event: 'error', data: error } satisfies EventFrame
+      : { ack: id, error } satisfies AckFrame)
+  }
+
+  private send(frame: EventFrame | AckFrame): void {
+    if (this.ws.readyState === 1) {
+      this.ws.send(JSON.stringify(frame))
+    }
+  }
+}
+
+function parseFrame(message: string | Uint8Array | ArrayBuffer): EventFrame | AckFrame | null {
+  if (typeof message !== 'string') {
+    return null
+  }
+
+  let frame: unknown
+  try {
+    frame = JSON.parse(message)
+  }
+  catch {
+    return null
+  }
+
+  if (typeof frame !== 'object' || frame === null || Array.isArray(frame)) {
+    return null
+  }
+
+  const { event, ack, id } = frame as Record<string, unknown>
+  if (id !== undefined && typeof id !== 'string' && typeof id !== 'number') {
+    return null
+  }
+  if (typeof event === 'string') {
+    return frame as EventFrame
+  }
+  if (typeof ack === 'string' || typeof ack === 'number') {
+    return frame as AckFrame
+  }
+  return null
+}
+
+/**
+ * Errors the client may see. Anything other than a router exception is
+ * reported without its message, which may leak internals.
+ */
+function toEventError(error: unknown): EventError {
+  if (error instanceof ValidationException) {
+    return { code: error.code, message: error.message, fields: error.fields }
+  }
+  if (error instanceof RouterException) {
+    return { code: error.code, message: error.message }
+  }
+
+  console.error('WebSocket event handler failed:', error)
+  return { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+}
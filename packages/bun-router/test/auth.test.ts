@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, test } from 'bun:test'
+import { MemoryApiKeyStore } from '../src/api-keys'
 import { ApiKeyManager, JWT, OAuth2Helper } from '../src/auth'
 import { apiKeyAuth, basicAuth, bearerAuth, extractApiKey, extractBasicAuth, extractBearerToken } from '../src/middleware'
 
@@ -236,47 +237,46 @@ describe('Authentication Middleware', () => {
       jwt = new JWT('secret-key')
     })
 
-    test('should sign and verify a token', () => {
+    test('should sign and verify a token', async () => {
       const payload = { user: 'john', id: 123 }
-      const token = jwt.sign(payload)
+      const token = await jwt.sign(payload)
 
       expect(token).toBeString()
       expect(token.split('.')).toHaveLength(3)
 
-      const verified = jwt.verify(token)
+      const verified = await jwt.verify(token)
       expect(verified).toHaveProperty('user', 'john')
       expect(verified).toHaveProperty('id', 123)
       expect(verified).toHaveProperty('iat')
     })
 
-    test('should handle expiration', () => {
+    test('should handle expiration', async () => {
       // Create token that expires in 1 second
-      const token = jwt.sign({ user: 'john' }, { expiresIn: 1 })
+      const token = await jwt.sign({ user: 'john' }, { expiresIn: 1 })
 
       // Token should be valid immediately
-      expect(jwt.verify(token)).not.toBeNull()
+      expect(await jwt.verify(token)).not.toBeNull()
 
       // Wait for token to expire
-      const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-      return wait(1100).then(() => {
-        // Token should now be expired
-        expect(jwt.verify(token)).toBeNull()
-
-        // But we can still decode it
-        const decoded = jwt.decode(token)
-        expect(decoded).not.toBeNull()
-        expect(decoded?.payload).toHaveProperty('user', 'john')
-      })
+      await Bun.sleep(1100)
+
+      // Token should now be expired
+      expect(await jwt.verify(token)).toBeNull()
+
+      // But we can still decode it
+      const decoded = jwt.decode(token)
+      expect(decoded).not.toBeNull()
+      expect(decoded?.payload).toHaveProperty('user', 'john')
     })
 
-    test('should verify audience claim', () => {
-      const token = jwt.sign({ user: 'john' }, { audience: 'app1' })
+    test('should verify audience claim', async () => {
+      const token = await jwt.sign({ user: 'john' }, { audience: 'app1' })
 
       // Valid when audience matches
-      expect(jwt.verify(token, { audience: 'app1' })).not.toBeNull()
+      expect(await jwt.verify(token, { audience: 'app1' })).not.toBeNull()
 
       // Invalid when audience doesn't match
-      expect(jwt.verify(token, { audience: 'app2' })).toBeNull()
+      expect(await jwt.verify(token, { audience: 'app2' })).toBeNull()
     })
   })
 
@@ -284,52 +284,52 @@ describe('Authentication Middleware', () => {
     let manager: ApiKeyManager
 
     beforeEach(() => {
-      manager = new ApiKeyManager()
+      manager = new ApiKeyManager({ store: new MemoryApiKeyStore() })
     })
 
-    test('should generate and validate API keys', () => {
-      const key = manager.generateKey('user1', ['read', 'write'])
+    test('should generate and validate API keys', async () => {
+      const key = await manager.generateKey('user1', ['read', 'write'])
 
       expect(key).toBeString()
       expect(key.startsWith('bun_')).toBe(true)
 
       // Valid with no scopes required
-      expect(manager.validateKey(key)).toBe(true)
+      expect(await manager.validateKey(key)).toBe(true)
 
       // Valid with matching scopes
-      expect(manager.validateKey(key, ['read'])).toBe(true)
-      expect(manager.validateKey(key, ['write'])).toBe(true)
-      expect(manager.validateKey(key, ['read', 'write'])).toBe(true)
+      expect(await manager.validateKey(key, ['read'])).toBe(true)
+      expect(await manager.validateKey(key, ['write'])).toBe(true)
+      expect(await manager.validateKey(key, ['read', 'write'])).toBe(true)
 
       // Invalid with non-matching scopes
-      expect(manager.validateKey(key, ['admin'])).toBe(false)
+      expect(await manager.validateKey(key, ['admin'])).toBe(false)
     })
 
-    test('should respect expiration', () => {
-      const key = manager.generateKey('user1', ['read'], 1) // Expires in 1 second
+    test('should respect expiration', async () => {
+      const key = await manager.generateKey('user1', ['read'], 1) // Expires in 1 second
 
       // Valid immediately
-      expect(manager.validateKey(key)).toBe(true)
+      expect(await manager.validateKey(key)).toBe(true)
 
       // Wait for expiration
       const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-      return wait(1100).then(() => {
-        // Should be invalid after expiration
-        expect(manager.validateKey(key)).toBe(false)
-      })
+      await wait(1100)
+
+      // Should be invalid after expiration
+      expect(await manager.validateKey(key)).toBe(false)
     })
 
-    test('should revoke keys', () => {
-      const key = manager.generateKey('user1')
+    test('should revoke keys', async () => {
+      const key = await manager.generateKey('user1')
 
       // Valid before revocation
-      expect(manager.validateKey(key)).toBe(true)
+      expect(await manager.validateKey(key)).toBe(true)
 
       // Revoke key
-      manager.revokeKey(key)
+      await manager.revokeKey(key)
 
       // Invalid after revocation
-      expect(manager.validateKey(key)).toBe(false)
+      expect(await manager.validateKey(key)).toBe(false)
     })
 
     test('should extract keys from requests', () => {
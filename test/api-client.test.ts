@@ -0,0 +1,112 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createClientSource, schemaToTypeScript } from '../packages/bun-router/src/cli/client'
+import JsonBody from '../packages/bun-router/src/middleware/json_body'
+import { Router } from '../packages/bun-router/src/router/router'
+import { createValidationMiddleware } from '../packages/bun-router/src/validation/validator'
+
+const directory = mkdtempSync(join(tmpdir(), 'api-client-'))
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+// Response.json may be replaced by response macros installed in other suites
+function json(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+async function createRouter(): Promise<Router> {
+  const router = new Router()
+
+  router.schema('User', {
+    type: 'object',
+    properties: { id: { type: 'integer' }, email: { type: 'string' } },
+    required: ['id', 'email'],
+  })
+
+  await router.get('/users', (req: EnhancedRequest) => json([{ id: 1, email: `page ${req.query.page}` }]), 'api', 'users', [
+    createValidationMiddleware({ page: 'integer|min:1' }),
+  ])
+  router.responds(200, { type: 'array', items: { $ref: '#/components/schemas/User' } })
+
+  await router.get('/users/{id}', (req: EnhancedRequest) => json({ id: Number(req.params.id), email: 'ada@example.com' }), 'api', 'users.show')
+  router.responds(200, 'User')
+
+  await router.post('/users', async (req: EnhancedRequest) => json({ id: 2, ...(await req.json() as object) }, 201), 'api', 'users.store', [
+    (req: EnhancedRequest, next) => new JsonBody().handle(req, next),
+    createValidationMiddleware({ email: 'required|email' }),
+  ])
+  router.responds(201, 'User')
+
+  await router.delete('/users/{id}', () => new Response(null, { status: 204 }), 'api', 'users.destroy')
+  router.responds(204, {}, 'Deleted')
+
+  await router.get('/posts/{slug?}', (req: EnhancedRequest) => json({ slug: req.params.slug ?? null }), 'api', 'posts')
+
+  await router.get('/missing', () => json({ message: 'Not here' }, 404), 'api', 'missing')
+
+  // Unnamed routes get no client method
+  await router.get('/internal', () => new Response('ok'), 'api')
+
+  return router
+}
+
+async function loadClient(router: Router): Promise<any> {
+  const file = join(directory, `client-${crypto.randomUUID()}.ts`)
+  writeFileSync(file, createClientSource(router, { baseUrl: 'http://localhost' }))
+  const module = await import(file)
+
+  return module.createApiClient({
+    fetch: (input: string, init?: RequestInit) => router.handleRequest(new Request(input, init)),
+  })
+}
+
+describe('API client generation', () => {
+  test('should map JSON Schema to TypeScript types', () => {
+    expect(schemaToTypeScript({ type: 'array', items: { $ref: '#/components/schemas/User' } })).toBe('Array<User>')
+    expect(schemaToTypeScript({ enum: ['draft', 'published'] })).toBe('\'draft\' | \'published\'')
+    expect(schemaToTypeScript({ type: ['string', 'null'] })).toBe('string | null')
+    expect(schemaToTypeScript({
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'integer' } },
+      required: ['name'],
+    })).toBe('{\n  name: string\n  age?: number\n}')
+  })
+
+  test('should emit one typed method per named route', async () => {
+    const source = createClientSource(await createRouter())
+
+    expect(source).toContain('import type { ExtractRouteParams } from \'bun-router\'')
+    expect(source).toContain('export type User = {')
+    expect(source).toContain('users: Object.assign((input?: { query?: { page?: number } } & RequestOptions): Promise<Array<User>>')
+    expect(source).toContain('show: (input: { params: PathParams<\'/api/users/{id}\'> } & RequestOptions): Promise<User>')
+    expect(source).toContain('store: (input: { body: UsersStoreRequest } & RequestOptions): Promise<User>')
+    expect(source).toContain('destroy: (input: { params: PathParams<\'/api/users/{id}\'> } & RequestOptions): Promise<void>')
+    expect(source).toContain('posts: (input?: { params?: PathParams<\'/api/posts/{slug?}\'> } & RequestOptions): Promise<unknown>')
+    expect(source).not.toContain('/api/internal')
+  })
+
+  test('should call routes through fetch', async () => {
+    const api = await loadClient(await createRouter())
+
+    expect(await api.users.show({ params: { id: 7 } })).toEqual({ id: 7, email: 'ada@example.com' })
+    expect(await api.users({ query: { page: 3 } })).toEqual([{ id: 1, email: 'page 3' }])
+    expect(await api.users.store({ body: { email: 'grace@example.com' } })).toEqual({ id: 2, email: 'grace@example.com' })
+    expect(await api.users.destroy({ params: { id: 7 } })).toBeUndefined()
+    expect(await api.posts()).toEqual({ slug: null })
+    expect(await api.posts({ params: { slug: 'hello' } })).toEqual({ slug: 'hello' })
+  })
+
+  test('should throw ApiError for unsuccessful responses', async () => {
+    const api = await loadClient(await createRouter())
+    const error = await api.missing().catch((error: any) => error)
+
+    expect(error.name).toBe('ApiError')
+    expect(error.status).toBe(404)
+    expect(error.body).toEqual({ message: 'Not here' })
+  })
+})
@@ -0,0 +1,120 @@
+import type { RouterConfig } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { registerApiDocs } from '../packages/bun-router/src/router/api-docs'
+import { Router } from '../packages/bun-router/src/router/router'
+import { createValidationMiddleware } from '../packages/bun-router/src/validation/validator'
+
+registerApiDocs(Router)
+
+async function createRouter(config: Partial<RouterConfig> = {}): Promise<Router> {
+  const router = new Router(config)
+
+  await router.get('/users', () => Response.json([]), 'api', 'users.index')
+  await router.post('/users', () => Response.json({}, { status: 201 }), 'api', 'users.store', [
+    createValidationMiddleware({ email: 'required|email', age: 'integer|min:18' }),
+  ])
+  await router.delete('/posts/{id}', () => new Response(null, { status: 204 }), 'api', 'posts.destroy')
+
+  return router
+}
+
+function request(path: string): Request {
+  return new Request(`http://localhost${path}`)
+}
+
+describe('API docs', () => {
+  test('should serve the OpenAPI document built from the route table', async () => {
+    const router = await createRouter()
+    await router.docs('/docs', { title: 'Acme API', version: '2.0.0' })
+
+    const response = await router.handleRequest(request('/docs/openapi.json'))
+    const document = await response.json() as any
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toMatchObject({ title: 'Acme API', version: '2.0.0' })
+    expect(Object.keys(document.paths)).toEqual(['/api/users', '/api/posts/{id}'])
+  })
+
+  test('should reflect routes added after the explorer', async () => {
+    const router = await createRouter()
+    await router.docs()
+    await router.get('/comments', () => Response.json([]), 'api')
+
+    const document = await (await router.handleRequest(request('/docs/openapi.json'))).json() as any
+    expect(document.paths['/api/comments']).toBeDefined()
+  })
+
+  test('should serve a self-contained HTML explorer', async () => {
+    const router = await createRouter()
+    await router.docs('/docs')
+
+    const response = await router.handleRequest(request('/docs'))
+    const html = await response.text()
+
+    expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8')
+    expect(html).toContain('<code class="path">/api/users</code>')
+    expect(html).toContain('href="/docs/openapi.json"')
+    // Nothing is loaded from a CDN
+    expect(html).not.toMatch(/<script[^>]+src=|<link[^>]+href=/)
+    // The request body is prefilled from the validation rules
+    expect(html).toContain('&quot;email&quot;: &quot;user@example.com&quot;')
+  })
+
+  test('should link the explorer to the spec under the router\'s prefix', async () => {
+    const router = await createRouter({ webPrefix: '/app' })
+    await router.docs('/docs')
+
+    const html = await (await router.handleRequest(request('/app/docs'))).text()
+    expect(html).toContain('href="/app/docs/openapi.json"')
+
+    const response = await router.handleRequest(request('/app/docs/openapi.json'))
+    expect(response.status).toBe(200)
+  })
+
+  test('should group operations by the configured key', async () => {
+    const router = await createRouter()
+    await router.docs('/docs', { groupBy: 'method' })
+
+    const html = await (await router.handleRequest(request('/docs'))).text()
+    const headings = [...html.matchAll(/<h2>([^<]+)<\/h2>/g)].map(match => match[1])
+
+    expect(headings).toEqual(['DELETE', 'GET', 'POST'])
+  })
+
+  test('should use contact and security from the docs config', async () => {
+    const router = await createRouter({
+      docs: {
+        output: 'api-reference.md',
+        groupBy: 'path',
+        includeExamples: false,
+        title: 'Configured API',
+        description: 'From config',
+        version: '1.0.0',
+        baseUrl: 'https://api.example.com',
+        contact: { name: 'API Support', email: 'support@example.com' },
+        security: { ApiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' } },
+      },
+    })
+    await router.docs('/docs')
+
+    const document = await (await router.handleRequest(request('/docs/openapi.json'))).json() as any
+    const html = await (await router.handleRequest(request('/docs'))).text()
+
+    expect(document.info.contact).toEqual({ name: 'API Support', email: 'support@example.com' })
+    expect(document.servers).toEqual([{ url: 'https://api.example.com', description: 'Server 1' }])
+    expect(document.components.securitySchemes.ApiKey).toEqual({ type: 'apiKey', in: 'header', name: 'X-API-Key' })
+    expect(html).toContain('data-scheme="ApiKey"')
+    expect(html).toContain('mailto:support@example.com')
+    expect(html).not.toContain('user@example.com')
+  })
+
+  test('should run middleware before serving the docs', async () => {
+    const router = await createRouter()
+    await router.docs('/internal/docs', {
+      middleware: [async (req, next) => req.headers.get('x-internal') ? next() : new Response('Forbidden', { status: 403 })],
+    })
+
+    const response = await router.handleRequest(request('/internal/docs/openapi.json'))
+    expect(response.status).toBe(403)
+  })
+})
@@ -0,0 +1,127 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { Database } from 'bun:sqlite'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MemoryApiKeyStore, SQLiteApiKeyStore } from '../packages/bun-router/src/api-keys'
+import { ApiKeyManager } from '../packages/bun-router/src/auth'
+import { apiKeyAuth } from '../packages/bun-router/src/middleware/auth'
+
+const directory = mkdtempSync(join(tmpdir(), 'api-keys-'))
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+function request(key?: string): EnhancedRequest {
+  return new Request('http://localhost/reports', { headers: key ? { 'X-API-Key': key } : {} }) as EnhancedRequest
+}
+
+const ok = async () => Response.json({ ok: true })
+
+describe('ApiKeyManager', () => {
+  test('should keep hashed keys in SQLite across restarts', async () => {
+    const filename = join(directory, 'keys.sqlite')
+    const store = new SQLiteApiKeyStore({ filename })
+    const key = await new ApiKeyManager({ store }).generateKey('acme', ['reports:read'])
+    store.close()
+
+    const database = new Database(filename)
+    const row = database.query('SELECT * FROM api_keys').get() as Record<string, unknown>
+    database.close()
+    expect(JSON.stringify(row)).not.toContain(key)
+    expect(key.startsWith(`${row.prefix}_`)).toBe(true)
+
+    const reopened = new SQLiteApiKeyStore({ filename })
+    const manager = new ApiKeyManager({ store: reopened })
+    expect(await manager.validateKey(key, ['reports:read'])).toBe(true)
+    expect(await manager.validateKey(`${key.slice(0, -1)}x`)).toBe(false)
+    expect((await manager.listKeys('acme')).map(info => info.prefix)).toEqual([row.prefix as string])
+    reopened.close()
+  })
+
+  test('should never replace a key whose id is taken', async () => {
+    const store = new SQLiteApiKeyStore({ filename: ':memory:' })
+    const manager = new ApiKeyManager({ store })
+    const existing = await manager.generateKey('acme')
+    const [record] = await store.list()
+
+    expect(await store.add({ ...record, owner: 'mallory', hash: 'other' })).toBe(false)
+    expect(await manager.validateKey(existing)).toBe(true)
+
+    // The first id tried collides, so the manager retries with a fresh one
+    const add = store.add.bind(store)
+    let attempts = 0
+    store.add = async next => add(++attempts === 1 ? { ...next, id: record.id } : next)
+    const key = await manager.generateKey('bob')
+
+    expect(attempts).toBe(2)
+    expect((await manager.getKeyInfo(existing))?.owner).toBe('acme')
+    expect((await manager.getKeyInfo(key))?.owner).toBe('bob')
+    store.close()
+  })
+
+  test('should record when keys were last used', async () => {
+    const manager = new ApiKeyManager({ store: new MemoryApiKeyStore() })
+    const key = await manager.generateKey('acme')
+
+    expect((await manager.getKeyInfo(key))?.lastUsedAt).toBeUndefined()
+    await manager.verifyKey(key)
+    expect((await manager.getKeyInfo(key))?.lastUsedAt).toBeInstanceOf(Date)
+  })
+
+  test('should keep rotated keys working for the grace period', async () => {
+    const manager = new ApiKeyManager({ store: new MemoryApiKeyStore() })
+    const key = await manager.generateKey('acme', ['reports:read'], { rateLimit: { max: 5, window: 60 } })
+
+    const rotated = await manager.rotateKey(key, { gracePeriod: 1 })
+    expect(rotated).not.toBe(key)
+    expect(await manager.getKeyInfo(rotated!)).toMatchObject({ owner: 'acme', scopes: ['reports:read'], rateLimit: { max: 5, window: 60 } })
+    expect(await manager.validateKey(key)).toBe(true)
+
+    await new Promise(resolve => setTimeout(resolve, 1100))
+    expect(await manager.validateKey(key)).toBe(false)
+    expect(await manager.validateKey(rotated!)).toBe(true)
+
+    const immediate = await manager.rotateKey(rotated!)
+    expect(await manager.validateKey(rotated!)).toBe(false)
+    expect(await manager.validateKey(immediate!)).toBe(true)
+  })
+})
+
+describe('apiKeyAuth', () => {
+  test('should enforce route scopes and attach the key owner', async () => {
+    const manager = new ApiKeyManager({ store: new MemoryApiKeyStore() })
+    const reader = await manager.generateKey('acme', ['reports:read'])
+    const middleware = apiKeyAuth(manager, { scopes: ['reports:read'] })
+
+    const req = request(reader)
+    expect((await middleware.handle(req, ok)).status).toBe(200)
+    expect(req.user).toMatchObject({ id: 'acme', permissions: ['reports:read'] })
+
+    const writer = apiKeyAuth(manager, { scopes: ['reports:write'] })
+    expect((await writer.handle(request(reader), ok)).status).toBe(403)
+    expect((await middleware.handle(request(), ok)).status).toBe(401)
+    expect((await middleware.handle(request('bun_000000000000_forged'), ok)).status).toBe(401)
+  })
+
+  test('should rate limit each key separately', async () => {
+    const store = new SQLiteApiKeyStore({ filename: ':memory:' })
+    const manager = new ApiKeyManager({ store })
+    const limited = await manager.generateKey('acme', [], { rateLimit: { max: 2, window: 60 } })
+    const other = await manager.generateKey('globex', [], { rateLimit: { max: 2, window: 60 } })
+    const middleware = apiKeyAuth(manager)
+
+    expect((await middleware.handle(request(limited), ok)).status).toBe(200)
+    expect((await middleware.handle(request(limited), ok)).status).toBe(200)
+
+    const rejected = await middleware.handle(request(limited), ok)
+    expect(rejected.status).toBe(429)
+    expect(rejected.headers.get('x-ratelimit-remaining')).toBe('0')
+    expect(Number(rejected.headers.get('retry-after'))).toBeGreaterThan(0)
+
+    expect((await middleware.handle(request(other), ok)).status).toBe(200)
+    store.close()
+  })
+})
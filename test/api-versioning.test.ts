@@ -0,0 +1,129 @@
+import type { EnhancedRequest, RouterConfig } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { Router } from '../packages/bun-router/src/router/router'
+import { requestedVersion, routesForVersion, versionChain } from '../packages/bun-router/src/routing/api-versioning'
+
+const DEPRECATED_AT = new Date('2025-01-01T00:00:00Z')
+const SUNSET_AT = new Date('2099-01-01T00:00:00Z')
+
+async function createRouter(config: Partial<RouterConfig> = {}): Promise<Router> {
+  const router = new Router(config)
+
+  await router.version('v1', { deprecatedAt: DEPRECATED_AT, sunsetAt: SUNSET_AT, deprecationLink: 'https://example.com/migrate' }, async () => {
+    await router.get('/users', () => Response.json({ version: 1, resource: 'users' }))
+    await router.get('/users/{id}', (req: EnhancedRequest) => Response.json({ version: 1, id: req.params.id }))
+  })
+
+  await router.version('v2', { fallbackTo: 'v1' }, async () => {
+    await router.get('/users', (req: EnhancedRequest) => Response.json({ version: 2, apiVersion: req.apiVersion }))
+  })
+
+  await router.get('/health', () => new Response('ok'))
+
+  return router
+}
+
+function request(path: string, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost${path}`, { headers })
+}
+
+describe('API versioning', () => {
+  test('should prefix version groups with the version', async () => {
+    const router = await createRouter()
+
+    expect(router.routes.map(route => `${route.version ?? '-'} ${route.path}`)).toEqual([
+      'v1 /v1/users',
+      'v1 /v1/users/{id}',
+      'v2 /v2/users',
+      '- /health',
+    ])
+
+    const response = await router.handleRequest(request('/v2/users'))
+    expect(await response.json()).toEqual({ version: 2, apiVersion: 'v2' })
+  })
+
+  test('should inherit unmatched routes from the fallback version', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(request('/v2/users/7'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ version: 1, id: '7' })
+    expect(response.headers.get('Deprecation')).toBeNull()
+  })
+
+  test('should send Deprecation, Sunset and Link headers for deprecated versions', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(request('/v1/users'))
+
+    expect(response.headers.get('Deprecation')).toBe(`@${DEPRECATED_AT.getTime() / 1000}`)
+    expect(response.headers.get('Sunset')).toBe(SUNSET_AT.toUTCString())
+    expect(response.headers.get('Link')).toBe('<https://example.com/migrate>; rel="deprecation"; type="text/html"')
+  })
+
+  test('should respond 410 once a version is past its sunset date', async () => {
+    const router = new Router()
+    await router.version('v0', { sunsetAt: new Date(Date.now() - 1000) }, async () => {
+      await router.get('/users', () => Response.json([]))
+    })
+
+    const response = await router.handleRequest(request('/v0/users'))
+    expect(response.status).toBe(410)
+    expect(response.headers.get('Sunset')).not.toBeNull()
+  })
+
+  test('should leave unversioned routes alone', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(request('/health'))
+
+    expect(await response.text()).toBe('ok')
+    expect(response.headers.get('Deprecation')).toBeNull()
+  })
+
+  test('should pick the version from a header', async () => {
+    const router = await createRouter({ versioning: { strategy: 'header', defaultVersion: 'v2' } })
+
+    const v1 = await router.handleRequest(request('/users', { 'Accept-Version': 'v1' }))
+    const latest = await router.handleRequest(request('/users'))
+    const inherited = await router.handleRequest(request('/users/3', { 'Accept-Version': '2' }))
+    const unknown = await router.handleRequest(request('/users', { 'Accept-Version': 'v9' }))
+
+    expect(await v1.json()).toEqual({ version: 1, resource: 'users' })
+    expect(v1.headers.get('Vary')).toBe('Accept-Version')
+    expect(v1.headers.get('Deprecation')).not.toBeNull()
+    expect(await latest.json()).toEqual({ version: 2, apiVersion: 'v2' })
+    expect(await inherited.json()).toEqual({ version: 1, id: '3' })
+    expect(unknown.status).toBe(400)
+    expect((await unknown.json() as any).supported).toEqual(['v1', 'v2'])
+  })
+
+  test('should pick the version from a vendor media type', async () => {
+    const router = await createRouter({ versioning: { strategy: 'media-type', vendor: 'acme' } })
+
+    const v2 = await router.handleRequest(request('/users', { Accept: 'application/vnd.acme.v2+json' }))
+    const v1 = await router.handleRequest(request('/users', { Accept: 'application/json; version=v1' }))
+
+    expect(await v2.json()).toEqual({ version: 2, apiVersion: 'v2' })
+    expect(await v1.json()).toEqual({ version: 1, resource: 'users' })
+    expect(v2.headers.get('Vary')).toBe('Accept')
+  })
+
+  test('should list each version with its inherited routes', async () => {
+    const router = await createRouter()
+    const v2 = routesForVersion(router.routes, router.apiVersions, 'v2')
+
+    expect(v2.map(entry => [entry.path, entry.inheritedFrom])).toEqual([
+      ['/v2/users', undefined],
+      ['/v2/users/{id}', 'v1'],
+    ])
+  })
+
+  test('should stop fallback chains at cycles', () => {
+    const versions = new Map([
+      ['v1', { name: 'v1', fallbackTo: 'v2' }],
+      ['v2', { name: 'v2', fallbackTo: 'v1' }],
+    ])
+
+    expect(versionChain(versions, 'v2')).toEqual(['v2', 'v1'])
+    expect(requestedVersion(request('/api/v2/users'), new URL('http://localhost/api/v2/users'), {}, versions)).toBe('v2')
+  })
+})
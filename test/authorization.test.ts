@@ -0,0 +1,129 @@
+import type { EnhancedRequest, MiddlewareHandler, User } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { AuthorizationGate } from '../packages/bun-router/src/authorization'
+import { AuthorizationException } from '../packages/bun-router/src/errors/exceptions'
+import { FluentRouter } from '../packages/bun-router/src/router/fluent-router'
+import { Router } from '../packages/bun-router/src/router/router'
+
+class Post {
+  constructor(public id: number, public authorId: number, public published = false) {}
+}
+
+class Draft extends Post {}
+
+class PostPolicy {
+  before(user: User) {
+    return user.roles?.includes('admin') ? true : undefined
+  }
+
+  viewAny() {
+    return true
+  }
+
+  update(user: User, post: Post) {
+    return post.authorId === user.id
+  }
+}
+
+const author: User = { id: 1 }
+const other: User = { id: 2 }
+const admin: User = { id: 3, roles: ['admin'] }
+
+describe('AuthorizationGate', () => {
+  test('should check defined abilities with their arguments', async () => {
+    const gate = new AuthorizationGate().define('update-post', (user: User, post: Post) => post.authorId === user.id)
+    const post = new Post(1, 1)
+
+    expect(gate.has('update-post')).toBe(true)
+    expect(await gate.allows(author, 'update-post', post)).toBe(true)
+    expect(await gate.denies(other, 'update-post', post)).toBe(true)
+    expect(await gate.allows(author, 'delete-post', post)).toBe(false)
+    expect(await gate.allows(null, 'update-post', post)).toBe(false)
+  })
+
+  test('should resolve policies by model class and camelCase the ability', async () => {
+    const gate = new AuthorizationGate().policy(Post, PostPolicy)
+
+    expect(await gate.allows(author, 'update', new Draft(1, 1))).toBe(true)
+    expect(await gate.allows(other, 'update', new Post(1, 1))).toBe(false)
+    expect(await gate.allows(admin, 'update', new Post(1, 1))).toBe(true)
+    expect(await gate.allows(other, 'view-any', Post)).toBe(true)
+    expect(await gate.allows(other, 'delete', new Post(1, 2))).toBe(false)
+  })
+
+  test('should let before callbacks decide or fall through', async () => {
+    const gate = new AuthorizationGate()
+      .define('publish', () => false)
+      .before((user: User, ability) => ability === 'publish' && user.id === 2 ? true : undefined)
+
+    expect(await gate.allows(other, 'publish')).toBe(true)
+    expect(await gate.allows(author, 'publish')).toBe(false)
+  })
+
+  test('should throw AuthorizationException when authorizing a denied ability', async () => {
+    const gate = new AuthorizationGate().define('publish', (user: User) => user.id === 1)
+
+    await gate.forUser(author).authorize('publish')
+    const error = await gate.forUser(other).authorize('publish').catch(error => error)
+
+    expect(error).toBeInstanceOf(AuthorizationException)
+    expect(error.statusCode).toBe(403)
+    expect(error.requiredPermissions).toEqual(['publish'])
+  })
+})
+
+describe('Route authorization', () => {
+  const posts: Record<string, { id: number, authorId: number }> = {
+    1: { id: 1, authorId: 1 },
+    2: { id: 2, authorId: 2 },
+  }
+
+  // Authenticate from a header and bind `post` as model binding middleware would
+  const authenticate: MiddlewareHandler = async (req, next) => {
+    const id = req.headers.get('x-user')
+    if (id) {
+      req.user = { id: Number(id), roles: id === '3' ? ['admin'] : [] }
+    }
+    req.models = { post: posts[req.params.post] }
+    return next()
+  }
+
+  function createRouter(): Router {
+    const router = new Router()
+    router.gate = new AuthorizationGate().policy('post', PostPolicy)
+
+    const fluent = new FluentRouter(router)
+    fluent.put('/posts/{post}', (req: EnhancedRequest) => Response.json({ updated: req.models?.post }))
+      .middleware(authenticate)
+      .can('update', 'post')
+    fluent.get('/posts/{post}', async (req: EnhancedRequest) => Response.json({ canUpdate: await req.can!('update', 'post') }))
+      .middleware(authenticate)
+    return router
+  }
+
+  function request(method: string, path: string, user?: number): Request {
+    return new Request(`http://localhost${path}`, { method, headers: user ? { 'X-User': String(user) } : {} })
+  }
+
+  test('should authorize route-bound models against their policy', async () => {
+    const router = createRouter()
+
+    expect((await router.handleRequest(request('PUT', '/posts/1', 1))).status).toBe(200)
+    expect((await router.handleRequest(request('PUT', '/posts/2', 3))).status).toBe(200)
+    expect((await router.handleRequest(request('PUT', '/posts/1'))).status).toBe(401)
+
+    const denied = await router.handleRequest(request('PUT', '/posts/2', 1))
+    expect(denied.status).toBe(403)
+    expect(((await denied.json()) as { error: { code: string } }).error.code).toBe('AUTHORIZATION_ERROR')
+  })
+
+  test('should expose the gate to handlers as req.can()', async () => {
+    const router = createRouter()
+
+    const owner = await router.handleRequest(request('GET', '/posts/1', 1))
+    const stranger = await router.handleRequest(request('GET', '/posts/1', 2))
+
+    expect(await owner.json()).toEqual({ canUpdate: true })
+    expect(await stranger.json()).toEqual({ canUpdate: false })
+  })
+})
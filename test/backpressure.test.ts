@@ -0,0 +1,150 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { BackpressureWriter, streamMetrics } from '../packages/bun-router/src/streaming/backpressure'
+import { SSEHandler } from '../packages/bun-router/src/streaming/sse-handler'
+import { StreamHandler } from '../packages/bun-router/src/streaming/stream-handler'
+
+const spillDirectory = mkdtempSync(join(tmpdir(), 'backpressure-'))
+
+afterAll(() => {
+  rmSync(spillDirectory, { recursive: true, force: true })
+})
+
+describe('BackpressureWriter', () => {
+  test('should pause producers until the client reads', async () => {
+    let produced = 0
+    async function* rows() {
+      for (let i = 0; i < 100; i++) {
+        produced++
+        yield { id: i }
+      }
+    }
+
+    const response = StreamHandler.direct(rows(), { format: 'ndjson', backpressure: { highWaterMark: 64 } }).toResponse()
+    await Bun.sleep(10)
+    expect(produced).toBeLessThan(20)
+
+    const lines = (await response.text()).split('\n')
+    expect(produced).toBe(100)
+    expect(lines).toHaveLength(100)
+    expect(JSON.parse(lines[99])).toEqual({ id: 99 })
+  })
+
+  test('should stop pulling from the source when the client goes away', async () => {
+    let finished = false
+    async function* rows() {
+      try {
+        for (let i = 0; ; i++) {
+          yield { id: i }
+        }
+      }
+      finally {
+        finished = true
+      }
+    }
+
+    const response = StreamHandler.direct(rows(), { backpressure: { highWaterMark: 64 } }).toResponse()
+    const reader = response.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+    await Bun.sleep(10)
+
+    expect(finished).toBe(true)
+  })
+
+  test('should drop offers the client has no room for with the drop policy', () => {
+    const before = streamMetrics()
+    const writer = new BackpressureWriter({ highWaterMark: 4, policy: 'drop' })
+
+    expect(writer.offer('abcd')).toBe(true)
+    expect(writer.offer('efg')).toBe(false)
+    expect(streamMetrics().droppedChunks).toBe(before.droppedChunks + 1)
+    expect(streamMetrics().droppedBytes).toBe(before.droppedBytes + 3)
+
+    writer.close()
+  })
+
+  test('should buffer offers to disk with the buffer policy', async () => {
+    const before = streamMetrics()
+    const writer = new BackpressureWriter({ highWaterMark: 4, policy: 'buffer', spillDirectory })
+
+    for (const chunk of ['abcd', 'efgh', 'ijkl']) {
+      expect(writer.offer(chunk)).toBe(true)
+    }
+    writer.close()
+
+    expect(readdirSync(spillDirectory)).toHaveLength(1)
+    expect(streamMetrics().spilledBytes).toBe(before.spilledBytes + 8)
+    expect(await new Response(writer.stream).text()).toBe('abcdefghijkl')
+    expect(readdirSync(spillDirectory)).toHaveLength(0)
+  })
+
+  test('should end the stream with the disconnect policy once the client stalls', async () => {
+    const before = streamMetrics()
+    let closed = false
+    const writer = new BackpressureWriter({ highWaterMark: 4, stallTimeout: 20 }, () => {
+      closed = true
+    })
+
+    writer.offer('abcd')
+    expect(writer.offer('e')).toBe(true)
+    expect(closed).toBe(false)
+
+    await Bun.sleep(40)
+    expect(writer.offer('f')).toBe(false)
+    expect(closed).toBe(true)
+    expect(writer.closed).toBe(true)
+    expect(streamMetrics().disconnects).toBe(before.disconnects + 1)
+    await expect(new Response(writer.stream).text()).rejects.toThrow('too slow')
+  })
+
+  test('should count stalled streams and apply the policy to stalled writes', async () => {
+    const before = streamMetrics()
+    const writer = new BackpressureWriter({ highWaterMark: 4, policy: 'buffer', stallTimeout: 20, spillDirectory })
+
+    await writer.write('abcd')
+    const waiting = writer.write('efgh')
+    await Bun.sleep(5)
+    expect(writer.stalled).toBe(false)
+
+    expect(await waiting).toBe(true)
+    expect(writer.stalled).toBe(true)
+    expect(streamMetrics().stalled).toBe(before.stalled + 1)
+    expect(streamMetrics().stalls).toBe(before.stalls + 1)
+
+    writer.close()
+    expect(await new Response(writer.stream).text()).toBe('abcdefgh')
+    expect(writer.stalled).toBe(false)
+    expect(streamMetrics().active).toBe(before.active)
+  })
+})
+
+describe('SSE backpressure', () => {
+  test('should disconnect clients that stop reading', async () => {
+    const sse = new SSEHandler({ enableHeartbeat: false, retryDelay: 0, backpressure: { highWaterMark: 64, stallTimeout: 20 } })
+    sse.createStream()
+
+    for (let i = 0; i < 10; i++) {
+      expect(sse.send({ data: 'x'.repeat(20) })).toBe(true)
+    }
+    expect(sse.connected).toBe(true)
+
+    await Bun.sleep(40)
+    expect(sse.connected).toBe(false)
+    expect(sse.send({ data: 'x' })).toBe(false)
+  })
+
+  test('should keep sending to clients that read', async () => {
+    const sse = new SSEHandler({ enableHeartbeat: false, retryDelay: 0, backpressure: { highWaterMark: 64 } })
+    const reader = sse.createStream().body!.getReader()
+
+    for (let i = 0; i < 10; i++) {
+      expect(sse.send({ data: 'x'.repeat(20) })).toBe(true)
+      await reader.read()
+    }
+
+    sse.close()
+  })
+})
@@ -0,0 +1,143 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import zlib from 'node:zlib'
+import Compression, { negotiateEncoding } from '../packages/bun-router/src/middleware/compression'
+
+const json = JSON.stringify({ items: Array.from({ length: 100 }, (_, id) => ({ id, name: `Item ${id}` })) })
+
+function createRequest(acceptEncoding: string = 'gzip, deflate, br, zstd'): EnhancedRequest {
+  return new Request('http://localhost/items', { headers: { 'Accept-Encoding': acceptEncoding } }) as EnhancedRequest
+}
+
+function respond(body: ConstructorParameters<typeof Response>[0], headers: Record<string, string> = { 'Content-Type': 'application/json' }) {
+  return async () => new Response(body, { headers })
+}
+
+describe('Compression middleware', () => {
+  test('should compress responses with the preferred encoding', async () => {
+    const middleware = new Compression()
+
+    const response = await middleware.handle(createRequest(), respond(json, { 'Content-Type': 'application/json', 'ETag': '"v1"' }))
+    const body = new Uint8Array(await response.arrayBuffer())
+
+    expect(response.headers.get('content-encoding')).toBe('zstd')
+    expect(response.headers.get('vary')).toBe('Accept-Encoding')
+    expect(response.headers.get('etag')).toBe('W/"v1"')
+    expect(body.byteLength).toBeLessThan(json.length)
+    expect(zlib.zstdDecompressSync(body).toString()).toBe(json)
+  })
+
+  for (const [encoding, decompress] of [
+    ['br', zlib.brotliDecompressSync],
+    ['gzip', zlib.gunzipSync],
+    ['deflate', zlib.inflateSync],
+  ] as const) {
+    test(`should compress with ${encoding}`, async () => {
+      const response = await new Compression().handle(createRequest(encoding), respond(json))
+
+      expect(response.headers.get('content-encoding')).toBe(encoding)
+      expect(decompress(new Uint8Array(await response.arrayBuffer())).toString()).toBe(json)
+    })
+  }
+
+  test('should send bodies below the threshold as they are', async () => {
+    const response = await new Compression().handle(createRequest(), respond('{"ok":true}'))
+
+    expect(response.headers.get('content-encoding')).toBeNull()
+    expect(response.headers.get('vary')).toBe('Accept-Encoding')
+    expect(await response.text()).toBe('{"ok":true}')
+  })
+
+  test('should skip event streams, encoded bodies and other content types', async () => {
+    const middleware = new Compression({ threshold: 0 })
+
+    const skipped: Record<string, string>[] = [
+      { 'Content-Type': 'text/event-stream' },
+      { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' },
+      { 'Content-Type': 'image/png' },
+      { 'Content-Type': 'text/plain', 'Cache-Control': 'no-transform' },
+    ]
+
+    for (const headers of skipped) {
+      const response = await middleware.handle(createRequest(), respond(json, headers))
+
+      expect(response.headers.get('content-encoding')).toBe(headers['Content-Encoding'] ?? null)
+      expect(response.headers.get('vary')).toBeNull()
+    }
+  })
+
+  test('should keep other Vary fields', async () => {
+    const response = await new Compression().handle(createRequest('identity'), respond(json, { 'Content-Type': 'text/html', 'Vary': 'Cookie' }))
+
+    expect(response.headers.get('content-encoding')).toBeNull()
+    expect(response.headers.get('vary')).toBe('Cookie, Accept-Encoding')
+  })
+
+  test('should compress streamed bodies incrementally', async () => {
+    let finish!: () => void
+    const finished = new Promise<void>(resolve => finish = resolve)
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode('a'.repeat(2048)))
+        await finished
+        controller.enqueue(new TextEncoder().encode('b'.repeat(2048)))
+        controller.close()
+      },
+    })
+
+    const response = await new Compression().handle(createRequest('gzip'), respond(stream, { 'Content-Type': 'application/x-ndjson' }))
+    const reader = response.body!.getReader()
+    const first = await reader.read()
+
+    // The first chunk arrives complete while the handler is still streaming
+    expect(zlib.gunzipSync(first.value!, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString()).toBe('a'.repeat(2048))
+
+    finish()
+    const rest: Uint8Array[] = [first.value!]
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      rest.push(chunk.value)
+    }
+    expect(zlib.gunzipSync(Buffer.concat(rest)).toString()).toBe(`${'a'.repeat(2048)}${'b'.repeat(2048)}`)
+  })
+
+  test('should not hold back streams sending less than the threshold', async () => {
+    let finish!: () => void
+    const finished = new Promise<void>(resolve => finish = resolve)
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"progress":1}\n'))
+        await finished
+        controller.enqueue(new TextEncoder().encode('{"progress":2}\n'))
+        controller.close()
+      },
+    })
+
+    const response = await new Compression().handle(createRequest('gzip'), respond(stream, { 'Content-Type': 'application/x-ndjson' }))
+    const reader = response.body!.getReader()
+    const first = await reader.read()
+
+    expect(response.headers.get('content-encoding')).toBe('gzip')
+    expect(zlib.gunzipSync(first.value!, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString()).toBe('{"progress":1}\n')
+
+    finish()
+    const rest: Uint8Array[] = [first.value!]
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      rest.push(chunk.value)
+    }
+    expect(zlib.gunzipSync(Buffer.concat(rest)).toString()).toBe('{"progress":1}\n{"progress":2}\n')
+  })
+})
+
+describe('negotiateEncoding', () => {
+  const offered = ['zstd', 'br', 'gzip', 'deflate'] as const
+
+  test('should honor quality values and the server preference', () => {
+    expect(negotiateEncoding('gzip, br', [...offered])).toBe('br')
+    expect(negotiateEncoding('gzip;q=1.0, br;q=0.5', [...offered])).toBe('gzip')
+    expect(negotiateEncoding('*', [...offered])).toBe('zstd')
+    expect(negotiateEncoding('*, zstd;q=0', [...offered])).toBe('br')
+    expect(negotiateEncoding('identity', [...offered])).toBeNull()
+    expect(negotiateEncoding(null, [...offered])).toBeNull()
+  })
+})
@@ -0,0 +1,140 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { mediaTypeQuality, negotiateRoute, parseMediaRanges } from '../packages/bun-router/src/request/negotiation'
+import { FluentRouter } from '../packages/bun-router/src/router/fluent-router'
+import { Router } from '../packages/bun-router/src/router/router'
+
+async function createRouter(): Promise<Router> {
+  const router = new Router()
+
+  await router.get('/reports', () => Response.json({ format: 'json' }))
+  router.produces('application/json')
+  await router.get('/reports', () => new Response('format\ncsv', { headers: { 'Content-Type': 'text/csv' } }))
+  router.produces('text/csv')
+
+  await router.get('/users', () => Response.json({ version: 1 }))
+  router.produces('application/vnd.acme.v1+json', 'application/json')
+  await router.get('/users', () => Response.json({ version: 2 }))
+  router.produces('application/vnd.acme.v2+json')
+
+  await router.post('/imports', () => new Response('json import'))
+  router.consumes('application/json')
+  await router.post('/imports', () => new Response('csv import'))
+  router.consumes('text/csv')
+
+  return router
+}
+
+function request(path: string, headers: Record<string, string> = {}, method: string = 'GET'): Request {
+  return new Request(`http://localhost${path}`, { method, headers, body: method === 'GET' ? undefined : 'data' })
+}
+
+describe('Media type parsing', () => {
+  test('should order ranges by quality', () => {
+    const ranges = parseMediaRanges('text/html;q=0.5, application/json, */*;q=0.1')
+
+    expect(ranges.map(range => `${range.type}/${range.subtype}`)).toEqual(['application/json', 'text/html', '*/*'])
+  })
+
+  test('should use the most specific matching range', () => {
+    const ranges = parseMediaRanges('text/*;q=0.3, text/csv;q=0, */*;q=0.8')
+
+    expect(mediaTypeQuality(ranges, 'text/csv')).toBe(0)
+    expect(mediaTypeQuality(ranges, 'text/plain')).toBe(0.3)
+    expect(mediaTypeQuality(ranges, 'application/json')).toBe(0.8)
+  })
+})
+
+describe('Content negotiation', () => {
+  test('should pick the route matching the Accept header', async () => {
+    const router = await createRouter()
+
+    const csv = await router.handleRequest(request('/reports', { Accept: 'text/csv' }))
+    const json = await router.handleRequest(request('/reports', { Accept: 'application/json' }))
+
+    expect(await csv.text()).toBe('format\ncsv')
+    expect(await json.json()).toEqual({ format: 'json' })
+    expect(csv.headers.get('Vary')).toBe('Accept')
+  })
+
+  test('should honour quality values and fall back to the first declared route', async () => {
+    const router = await createRouter()
+
+    const weighted = await router.handleRequest(request('/reports', { Accept: 'application/json;q=0.4, text/csv;q=0.9' }))
+    const anything = await router.handleRequest(request('/reports'))
+
+    expect(weighted.headers.get('Content-Type')).toBe('text/csv')
+    expect(await anything.json()).toEqual({ format: 'json' })
+  })
+
+  test('should version APIs with vendor media types', async () => {
+    const router = await createRouter()
+
+    const v2 = await router.handleRequest(request('/users', { Accept: 'application/vnd.acme.v2+json' }))
+    const v1 = await router.handleRequest(request('/users', { Accept: 'application/json' }))
+
+    expect(await v2.json()).toEqual({ version: 2 })
+    expect(await v1.json()).toEqual({ version: 1 })
+  })
+
+  test('should respond 406 when nothing acceptable is produced', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(request('/reports', { Accept: 'application/xml' }))
+
+    expect(response.status).toBe(406)
+    expect(response.headers.get('Vary')).toBe('Accept')
+    expect((await response.json() as any).supported).toEqual(['application/json', 'text/csv'])
+  })
+
+  test('should pick the route matching the Content-Type header', async () => {
+    const router = await createRouter()
+
+    const csv = await router.handleRequest(request('/imports', { 'Content-Type': 'text/csv; charset=utf-8' }, 'POST'))
+    const json = await router.handleRequest(request('/imports', { 'Content-Type': 'application/json' }, 'POST'))
+
+    expect(await csv.text()).toBe('csv import')
+    expect(await json.text()).toBe('json import')
+    expect(csv.headers.get('Vary')).toBe('Content-Type')
+  })
+
+  test('should respond 415 for unsupported request bodies', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(request('/imports', { 'Content-Type': 'application/xml' }, 'POST'))
+
+    expect(response.status).toBe(415)
+    expect(response.headers.get('Accept')).toBe('application/json, text/csv')
+  })
+
+  test('should expose the negotiated media type to the handler', async () => {
+    const router = new Router()
+    await router.get('/feed', (req: EnhancedRequest) => new Response(req.negotiatedType))
+    router.produces('application/rss+xml', 'application/atom+xml')
+
+    const response = await router.handleRequest(request('/feed', { Accept: 'application/atom+xml' }))
+    expect(await response.text()).toBe('application/atom+xml')
+  })
+
+  test('should leave routes without media types untouched', async () => {
+    const router = new Router()
+    await router.get('/health', () => new Response('ok'))
+
+    const response = await router.handleRequest(request('/health', { Accept: 'application/xml' }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Vary')).toBeNull()
+  })
+
+  test('should support produces and consumes on fluent routes', async () => {
+    const router = new Router()
+    const fluent = new FluentRouter(router)
+
+    fluent.get('/export', () => Response.json({ format: 'json' })).produces('application/json')
+    fluent.get('/export', () => new Response('csv')).produces('text/csv')
+
+    const variants = router.routes.filter(route => route.path === '/export')
+    expect(variants.map(route => route.produces)).toEqual([['application/json'], ['text/csv']])
+
+    const result = negotiateRoute(variants, request('/export', { Accept: 'text/csv' }))
+    expect('route' in result && result.route).toBe(variants[1])
+  })
+})
@@ -0,0 +1,164 @@
+import type { EnhancedRequest, NextFunction } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { Container } from '../packages/bun-router/src/container/container'
+import { Body, Controller, Delete, Get, Header, Inject, InjectParam, Param, Post, Query, UseMiddleware } from '../packages/bun-router/src/container/decorators'
+import RequestId from '../packages/bun-router/src/middleware/request_id'
+import { registerControllerRoutes } from '../packages/bun-router/src/router/controller-routes'
+import { Router } from '../packages/bun-router/src/router/router'
+
+registerControllerRoutes(Router)
+
+class RequestLog {
+  entries: string[] = []
+}
+
+class UserRepository {
+  constructor(@Inject(RequestLog) public log: RequestLog) {}
+
+  find(id: string): { id: string, name: string } {
+    this.log.entries.push(`find ${id}`)
+    return { id, name: `User ${id}` }
+  }
+}
+
+async function tagResponse(req: EnhancedRequest, next: NextFunction): Promise<Response | null> {
+  const response = await next()
+  response?.headers.set('X-Controller', 'users')
+  return response
+}
+
+@Controller('/users', { middleware: [tagResponse] })
+class UserController {
+  static instances = 0
+
+  constructor(
+    @Inject(UserRepository) private users: UserRepository,
+    @Inject(RequestLog) private log: RequestLog,
+  ) {
+    UserController.instances++
+  }
+
+  @Get()
+  index(@Query('page') page: string | undefined, @Query() query: Record<string, string>) {
+    return { page: page ?? '1', query }
+  }
+
+  @Get('/{id}')
+  show(@Param('id') id: string, @InjectParam(RequestLog) log: RequestLog) {
+    const user = this.users.find(id)
+    return { user, sharedLog: log === this.log && log === this.users.log, entries: log.entries }
+  }
+
+  @Post()
+  store(@Body() body: { name: string }, @Header('x-client') client: string) {
+    return Response.json({ created: body.name, client }, { status: 201 })
+  }
+
+  @Delete('/{id}')
+  @UseMiddleware(async (req: EnhancedRequest, next: NextFunction) => {
+    if (req.headers.get('authorization') !== 'admin') {
+      return new Response('Forbidden', { status: 403 })
+    }
+    return next()
+  })
+  destroy(req: EnhancedRequest) {
+    return `deleted ${req.params.id}`
+  }
+}
+
+class PlainClass {}
+
+function createContainer(): Container {
+  const container = new Container()
+  container.bind(RequestLog).to(RequestLog).inScopedScope().build()
+  return container
+}
+
+async function createRouter(): Promise<Router> {
+  const router = new Router()
+  await router.registerControllers([UserController], { container: createContainer() })
+  return router
+}
+
+describe('Controller decorators', () => {
+  test('should register routes from controller metadata', async () => {
+    const router = await createRouter()
+
+    expect(router.routes.map(route => `${route.method} ${route.path}`)).toEqual([
+      'GET /users',
+      'GET /users/{id}',
+      'POST /users',
+      'DELETE /users/{id}',
+    ])
+  })
+
+  test('should inject @Param values and resolve dependencies per request', async () => {
+    const router = await createRouter()
+    const before = UserController.instances
+
+    const first = await router.handleRequest(new Request('http://localhost/users/42'))
+    const second = await router.handleRequest(new Request('http://localhost/users/7'))
+
+    expect(await first.json()).toEqual({ user: { id: '42', name: 'User 42' }, sharedLog: true, entries: ['find 42'] })
+    // A fresh request scope - the log from the first request isn't reused
+    expect((await second.json() as any).entries).toEqual(['find 7'])
+    expect(UserController.instances - before).toBe(2)
+  })
+
+  test('should not share scopes between concurrent requests with the same X-Request-ID', async () => {
+    const router = await createRouter()
+    await router.use((req, next) => new RequestId().handle(req, next))
+    const request = (id: string) => new Request(`http://localhost/users/${id}`, { headers: { 'X-Request-ID': 'same' } })
+
+    const responses = await Promise.all([router.handleRequest(request('42')), router.handleRequest(request('7'))])
+
+    expect(await Promise.all(responses.map(async response => (await response.json() as any).entries))).toEqual([['find 42'], ['find 7']])
+  })
+
+  test('should inject @Query values', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(new Request('http://localhost/users?page=3&sort=name'))
+
+    expect(await response.json()).toEqual({ page: '3', query: { page: '3', sort: 'name' } })
+  })
+
+  test('should inject @Body and @Header values', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(new Request('http://localhost/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client': 'tests' },
+      body: JSON.stringify({ name: 'Ada' }),
+    }))
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toEqual({ created: 'Ada', client: 'tests' })
+  })
+
+  test('should reject malformed JSON bodies', async () => {
+    const router = await createRouter()
+    const response = await router.handleRequest(new Request('http://localhost/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{ not json',
+    }))
+
+    expect(response.status).toBe(400)
+  })
+
+  test('should run controller and method middleware', async () => {
+    const router = await createRouter()
+
+    const forbidden = await router.handleRequest(new Request('http://localhost/users/5', { method: 'DELETE' }))
+    const allowed = await router.handleRequest(new Request('http://localhost/users/5', { method: 'DELETE', headers: { Authorization: 'admin' } }))
+
+    expect(forbidden.status).toBe(403)
+    expect(await allowed.text()).toBe('deleted 5')
+    expect(allowed.headers.get('X-Controller')).toBe('users')
+  })
+
+  test('should reject classes without @Controller', async () => {
+    const router = new Router()
+
+    await expect(router.registerControllers([PlainClass])).rejects.toThrow('not decorated with @Controller')
+  })
+})
@@ -0,0 +1,110 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { CookieKeyRing, getCookieKeyRing, protectCookieValue } from '../packages/bun-router/src/request/cookie-jar'
+import { Router } from '../packages/bun-router/src/router/router'
+
+function cookieValue(setCookie: string): string {
+  return decodeURIComponent(setCookie.split(';')[0].split('=').slice(1).join('='))
+}
+
+describe('CookieKeyRing', () => {
+  const keyRing = new CookieKeyRing(['current-key'])
+
+  test('should sign and verify values', () => {
+    const signed = keyRing.sign('theme', 'dark')
+
+    expect(signed.startsWith('dark.')).toBe(true)
+    expect(keyRing.unsign('theme', signed)).toBe('dark')
+  })
+
+  test('should reject tampered signed values', () => {
+    const signed = keyRing.sign('role', 'user')
+
+    expect(keyRing.unsign('role', signed.replace('user', 'admin'))).toBeUndefined()
+    expect(keyRing.unsign('role', 'admin')).toBeUndefined()
+  })
+
+  test('should bind signatures to the cookie name', () => {
+    const signed = keyRing.sign('role', 'user')
+    expect(keyRing.unsign('other', signed)).toBeUndefined()
+  })
+
+  test('should encrypt and decrypt values', () => {
+    const encrypted = keyRing.encrypt('cart', '{"items":[1,2,3]}')
+
+    expect(encrypted).not.toContain('items')
+    expect(keyRing.decrypt('cart', encrypted)).toBe('{"items":[1,2,3]}')
+  })
+
+  test('should reject tampered or misnamed encrypted values', () => {
+    const encrypted = keyRing.encrypt('cart', 'secret')
+    const tampered = `${encrypted.slice(0, -2)}${encrypted.endsWith('AA') ? 'BB' : 'AA'}`
+
+    expect(keyRing.decrypt('cart', tampered)).toBeUndefined()
+    expect(keyRing.decrypt('other', encrypted)).toBeUndefined()
+    expect(keyRing.decrypt('cart', 'garbage')).toBeUndefined()
+  })
+
+  test('should accept values written with a rotated-out key', () => {
+    const oldRing = new CookieKeyRing(['old-key'])
+    const rotatedRing = new CookieKeyRing(['new-key', 'old-key'])
+
+    expect(rotatedRing.unsign('theme', oldRing.sign('theme', 'dark'))).toBe('dark')
+    expect(rotatedRing.decrypt('cart', oldRing.encrypt('cart', 'items'))).toBe('items')
+
+    // New values are written with the newest key only
+    expect(oldRing.unsign('theme', rotatedRing.sign('theme', 'dark'))).toBeUndefined()
+  })
+
+  test('should require at least one key', () => {
+    expect(() => new CookieKeyRing([])).toThrow()
+    expect(getCookieKeyRing({ keys: [] })).toBeNull()
+    expect(() => protectCookieValue('a', 'b', { signed: true })).toThrow('cookies.keys')
+  })
+})
+
+describe('Router cookie jar', () => {
+  test('should write signed and encrypted cookies and read them back', async () => {
+    const router = new Router({ cookies: { keys: ['router-secret'] } })
+
+    await router.get('/set', (req: EnhancedRequest) => {
+      req.cookies!.set('theme', 'dark', { signed: true })
+      req.cookies!.set('cart', 'apples', { encrypted: true })
+      return new Response('OK')
+    })
+    await router.get('/read', (req: EnhancedRequest) => Response.json({
+      theme: req.cookies!.getSigned('theme') ?? null,
+      cart: req.cookies!.getEncrypted('cart') ?? null,
+      raw: req.cookies!.get('theme'),
+    }))
+
+    const setResponse = await router.handleRequest(new Request('http://localhost/set'))
+    const [theme, cart] = setResponse.headers.getSetCookie()
+
+    expect(cookieValue(theme)).not.toBe('dark')
+    expect(cookieValue(cart)).not.toContain('apples')
+
+    const cookieHeader = `theme=${encodeURIComponent(cookieValue(theme))}; cart=${encodeURIComponent(cookieValue(cart))}`
+    const readResponse = await router.handleRequest(new Request('http://localhost/read', { headers: { cookie: cookieHeader } }))
+    const body = await readResponse.json() as Record<string, string | null>
+
+    expect(body.theme).toBe('dark')
+    expect(body.cart).toBe('apples')
+    expect(body.raw).toBe(cookieValue(theme))
+  })
+
+  test('should silently drop tampered cookies', async () => {
+    const router = new Router({ cookies: { keys: ['router-secret'] } })
+
+    await router.get('/read', (req: EnhancedRequest) => Response.json({
+      theme: req.cookies!.getSigned('theme') ?? null,
+      cart: req.cookies!.getEncrypted('cart') ?? null,
+    }))
+
+    const response = await router.handleRequest(new Request('http://localhost/read', {
+      headers: { cookie: 'theme=light.forged; cart=not-encrypted' },
+    }))
+
+    expect(await response.json()).toEqual({ theme: null, cart: null })
+  })
+})
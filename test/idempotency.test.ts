@@ -0,0 +1,188 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { SQLiteCache } from '../packages/bun-router/src/cache/sqlite-cache'
+import Idempotency, { MemoryIdempotencyStore, SQLiteIdempotencyStore } from '../packages/bun-router/src/middleware/idempotency'
+
+function createRequest(key?: string, body: unknown = { item: 'book' }, method: string = 'POST'): EnhancedRequest {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (key) {
+    headers['Idempotency-Key'] = key
+  }
+  return new Request('http://localhost/orders', { method, headers, body: JSON.stringify(body) }) as EnhancedRequest
+}
+
+function createHandler() {
+  let calls = 0
+  const next = async () => {
+    calls++
+    return Response.json({ order: calls }, { status: 201, headers: { 'X-Order': String(calls) } })
+  }
+  return { next, calls: () => calls }
+}
+
+describe('Idempotency middleware', () => {
+  test('should replay the first response for repeated keys', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+    const handler = createHandler()
+
+    const first = (await middleware.handle(createRequest('key-1'), handler.next))!
+    const second = (await middleware.handle(createRequest('key-1'), handler.next))!
+
+    expect(handler.calls()).toBe(1)
+    expect(first.status).toBe(201)
+    expect(await first.json()).toEqual({ order: 1 })
+    expect(second.status).toBe(201)
+    expect(second.headers.get('X-Order')).toBe('1')
+    expect(second.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(await second.json()).toEqual({ order: 1 })
+  })
+
+  test('should return 409 while the first request is in flight', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+    let release!: () => void
+    const pending = new Promise<void>(resolve => release = resolve)
+
+    const first = middleware.handle(createRequest('key-1'), async () => {
+      await pending
+      return new Response('created', { status: 201 })
+    })
+    const concurrent = (await middleware.handle(createRequest('key-1'), async () => new Response('duplicate')))!
+
+    expect(concurrent.status).toBe(409)
+    expect((await concurrent.json() as any).error.code).toBe('REQUEST_IN_PROGRESS')
+
+    release()
+    expect((await first)!.status).toBe(201)
+  })
+
+  test('should return 422 when a key is reused for a different request', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+    const handler = createHandler()
+
+    await middleware.handle(createRequest('key-1', { item: 'book' }), handler.next)
+    const response = (await middleware.handle(createRequest('key-1', { item: 'lamp' }), handler.next))!
+
+    expect(response.status).toBe(422)
+    expect((await response.json() as any).error.code).toBe('IDEMPOTENCY_KEY_REUSED')
+    expect(handler.calls()).toBe(1)
+  })
+
+  test('should release the key after server errors', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+
+    const failed = (await middleware.handle(createRequest('key-1'), async () => new Response('boom', { status: 503 })))!
+    const retried = (await middleware.handle(createRequest('key-1'), async () => new Response('ok', { status: 201 })))!
+
+    expect(failed.status).toBe(503)
+    expect(retried.status).toBe(201)
+    expect(retried.headers.get('Idempotent-Replayed')).toBeNull()
+  })
+
+  test('should release the key when the handler throws', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+
+    await expect(middleware.handle(createRequest('key-1'), async () => {
+      throw new Error('database down')
+    })).rejects.toThrow('database down')
+
+    const retried = (await middleware.handle(createRequest('key-1'), async () => new Response('ok', { status: 201 })))!
+    expect(retried.status).toBe(201)
+  })
+
+  test('should pass through safe methods and requests without a key', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+    const handler = createHandler()
+
+    await middleware.handle(new Request('http://localhost/orders', { headers: { 'Idempotency-Key': 'key-1' } }) as EnhancedRequest, handler.next)
+    await middleware.handle(createRequest(), handler.next)
+    await middleware.handle(createRequest(), handler.next)
+
+    expect(handler.calls()).toBe(3)
+  })
+
+  test('should reject requests without a key when required', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore(), required: true })
+    const response = (await middleware.handle(createRequest(), createHandler().next))!
+
+    expect(response.status).toBe(400)
+    expect((await response.json() as any).error.code).toBe('MISSING_IDEMPOTENCY_KEY')
+  })
+
+  test('should scope keys per client', async () => {
+    const middleware = new Idempotency({
+      store: new MemoryIdempotencyStore(),
+      scope: req => req.headers.get('X-Client') ?? 'anonymous',
+    })
+    const handler = createHandler()
+
+    const requestFor = (client: string) => {
+      const req = createRequest('shared-key')
+      req.headers.set('X-Client', client)
+      return req
+    }
+
+    await middleware.handle(requestFor('alice'), handler.next)
+    const other = (await middleware.handle(requestFor('bob'), handler.next))!
+
+    expect(handler.calls()).toBe(2)
+    expect(other.headers.get('Idempotent-Replayed')).toBeNull()
+  })
+
+  test('should record responses in a SQLiteCache', async () => {
+    const cache = new SQLiteCache({ filename: ':memory:', cleanupInterval: 3600 })
+    const middleware = new Idempotency({ store: new SQLiteIdempotencyStore(cache) })
+    const handler = createHandler()
+
+    await middleware.handle(createRequest('key-1'), handler.next)
+    const replayed = (await middleware.handle(createRequest('key-1'), handler.next))!
+
+    expect(handler.calls()).toBe(1)
+    expect(cache.has('idempotency:key-1')).toBe(true)
+    expect(await replayed.json()).toEqual({ order: 1 })
+
+    cache.close()
+  })
+
+  test('should only lock SQLite keys that are free or expired', async () => {
+    const cache = new SQLiteCache({ filename: ':memory:', cleanupInterval: 3600 })
+    const store = new SQLiteIdempotencyStore(cache)
+    const record = { state: 'processing' as const, fingerprint: 'a', createdAt: Date.now() }
+
+    expect(store.lock('key-1', record, 0.01)).toBe(true)
+    expect(store.lock('key-1', { ...record, fingerprint: 'b' }, 60)).toBe(false)
+    expect(store.get('key-1')?.fingerprint).toBe('a')
+
+    await Bun.sleep(20)
+    expect(store.lock('key-1', { ...record, fingerprint: 'b' }, 60)).toBe(true)
+    expect(store.get('key-1')?.fingerprint).toBe('b')
+
+    cache.close()
+  })
+
+  test('should return 409 when a key keeps expiring before it is read', async () => {
+    const store = new MemoryIdempotencyStore()
+    store.lock = () => false
+    const middleware = new Idempotency({ store })
+    const handler = createHandler()
+
+    const response = (await middleware.handle(createRequest('key-1'), handler.next))!
+
+    expect(response.status).toBe(409)
+    expect(handler.calls()).toBe(0)
+  })
+
+  test('should replay every Set-Cookie header', async () => {
+    const middleware = new Idempotency({ store: new MemoryIdempotencyStore() })
+    const next = async () => {
+      const headers = new Headers()
+      headers.append('Set-Cookie', 'a=1')
+      headers.append('Set-Cookie', 'b=2')
+      return new Response('created', { status: 201, headers })
+    }
+
+    await middleware.handle(createRequest('key-1'), next)
+    const replayed = (await middleware.handle(createRequest('key-1'), next))!
+
+    expect(replayed.headers.getSetCookie()).toEqual(['a=1', 'b=2'])
+  })
+})
@@ -0,0 +1,203 @@
+import type { JwtAlgorithm } from '../packages/bun-router/src/auth'
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { createHmac, generateKeyPairSync } from 'node:crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { JwksKeySet, JWT } from '../packages/bun-router/src/auth'
+import { jwtAuth } from '../packages/bun-router/src/middleware/auth'
+
+const directory = mkdtempSync(join(tmpdir(), 'jwks-'))
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+function pemKeys(type: 'rsa' | 'ec', namedCurve?: string) {
+  return generateKeyPairSync(type as 'rsa', {
+    modulusLength: 2048,
+    ...(namedCurve ? { namedCurve } : {}),
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  })
+}
+
+function jwkKeys(kid: string) {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  return {
+    publicJwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'ES256' },
+    privateJwk: { ...privateKey.export({ format: 'jwk' }), kid },
+  }
+}
+
+describe('JWT', () => {
+  test('should produce standard HMAC signatures', async () => {
+    const token = await new JWT('secret').sign({ sub: '1' }, { noTimestamp: true })
+    const [header, payload, signature] = token.split('.')
+
+    expect(signature).toBe(createHmac('sha256', 'secret').update(`${header}.${payload}`).digest('base64url'))
+  })
+
+  const rsa = pemKeys('rsa')
+  const keys: Record<string, { privateKey: string, publicKey: string }> = {
+    RS: rsa,
+    PS: rsa,
+    ES256: pemKeys('ec', 'P-256'),
+    ES384: pemKeys('ec', 'P-384'),
+    ES512: pemKeys('ec', 'P-521'),
+  }
+
+  for (const alg of ['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'] as JwtAlgorithm[]) {
+    test(`should sign and verify ${alg}`, async () => {
+      const pair = keys[alg] ?? keys[alg.slice(0, 2)]
+      const signer = new JWT(alg.startsWith('HS') ? { secret: 'secret', algorithm: alg } : { privateKey: pair.privateKey, algorithm: alg })
+      const verifier = new JWT(alg.startsWith('HS') ? 'secret' : { publicKey: pair.publicKey })
+
+      const token = await signer.sign({ sub: 'user-1', name: 'Zoë' })
+
+      expect(signer.decode(token)?.header.alg).toBe(alg)
+      expect((await verifier.verify(token))?.name).toBe('Zoë')
+      expect(await signer.verify(token)).not.toBeNull()
+      expect(await verifier.verify(`${token.slice(0, -4)}AAAA`)).toBeNull()
+      expect(await verifier.verify(token, { algorithms: ['HS256', 'RS256'].filter(allowed => allowed !== alg) })).toBeNull()
+    })
+  }
+
+  test('should reject wrong secrets, unsigned tokens and critical headers', async () => {
+    const jwt = new JWT('secret')
+    const token = await jwt.sign({ sub: '1' })
+
+    expect(await new JWT('other').verify(token)).toBeNull()
+
+    const unsigned = await jwt.sign({ sub: '1' }, { algorithm: 'none' })
+    expect(unsigned.endsWith('.')).toBe(true)
+    expect(await jwt.verify(unsigned)).toBeNull()
+    expect(await jwt.verify(unsigned, { algorithms: ['none'] })).not.toBeNull()
+
+    expect(await jwt.verify(await jwt.sign({ sub: '1' }, { header: { crit: ['exp'] } }))).toBeNull()
+  })
+
+  test('should not verify RS tokens with the public key as an HMAC secret', async () => {
+    const verifier = new JWT({ publicKey: rsa.publicKey })
+    const forged = await new JWT(rsa.publicKey).sign({ admin: true })
+
+    expect(await verifier.verify(forged)).toBeNull()
+  })
+
+  test('should allow for clock skew on nbf, exp and iat', async () => {
+    const jwt = new JWT('secret')
+    const now = Math.floor(Date.now() / 1000)
+
+    const early = await jwt.sign({ sub: '1' }, { notBefore: 20 })
+    expect(await jwt.verify(early)).toBeNull()
+    expect(await jwt.verify(early, { clockTolerance: 30 })).not.toBeNull()
+
+    const expired = await jwt.sign({ sub: '1', exp: now - 10 })
+    expect(await jwt.verify(expired)).toBeNull()
+    expect(await jwt.verify(expired, { clockTolerance: 30 })).not.toBeNull()
+
+    const future = await jwt.sign({ sub: '1', iat: now + 20 }, { noTimestamp: true })
+    expect(await jwt.verify(future)).toBeNull()
+    expect(await jwt.verify(future, { clockTolerance: 30 })).not.toBeNull()
+  })
+
+  test('should match audiences in arrays', async () => {
+    const jwt = new JWT('secret')
+    const token = await jwt.sign({}, { audience: ['web', 'api'] })
+
+    expect(await jwt.verify(token, { audience: 'api' })).not.toBeNull()
+    expect(await jwt.verify(token, { audience: 'admin' })).toBeNull()
+  })
+})
+
+describe('JWKS', () => {
+  test('should verify tokens by key ID from a file', async () => {
+    const first = jwkKeys('2024')
+    const second = jwkKeys('2025')
+    const file = join(directory, 'jwks.json')
+    writeFileSync(file, JSON.stringify({ keys: [first.publicJwk, second.publicJwk] }))
+
+    const verifier = new JWT({ jwks: new JwksKeySet({ file }) })
+    const token = await new JWT({ privateKey: second.privateJwk, keyId: '2025', algorithm: 'ES256' }).sign({ sub: '1' })
+    const unknown = await new JWT({ privateKey: second.privateJwk, keyId: '2026', algorithm: 'ES256' }).sign({ sub: '1' })
+
+    expect(new JWT('x').decode(token)?.header.kid).toBe('2025')
+    expect(await verifier.verify(token)).not.toBeNull()
+    expect(await verifier.verify(unknown)).toBeNull()
+  })
+
+  test('should cache endpoint key sets and reload them for rotated keys', async () => {
+    const old = jwkKeys('old')
+    const rotated = jwkKeys('new')
+    let keys = [old.publicJwk]
+    let requests = 0
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => {
+        requests++
+        return Response.json({ keys })
+      },
+    })
+
+    try {
+      const verifier = new JWT({ jwks: new JwksKeySet({ url: `http://localhost:${server.port}/.well-known/jwks.json`, cooldown: 0 }) })
+      const sign = (key: ReturnType<typeof jwkKeys>, kid: string) => new JWT({ privateKey: key.privateJwk, keyId: kid, algorithm: 'ES256' }).sign({ sub: '1' })
+
+      expect(await verifier.verify(await sign(old, 'old'))).not.toBeNull()
+      expect(await verifier.verify(await sign(old, 'old'))).not.toBeNull()
+      expect(requests).toBe(1)
+
+      keys = [old.publicJwk, rotated.publicJwk]
+      expect(await verifier.verify(await sign(rotated, 'new'))).not.toBeNull()
+      expect(requests).toBe(2)
+    }
+    finally {
+      server.stop(true)
+    }
+  })
+
+  test('should wait for the cooldown before reloading for unknown keys', async () => {
+    const key = jwkKeys('a')
+    let requests = 0
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => {
+        requests++
+        return Response.json({ keys: [key.publicJwk] })
+      },
+    })
+
+    try {
+      const keySet = new JwksKeySet({ url: `http://localhost:${server.port}`, cooldown: 60 })
+
+      expect(await keySet.getKeys('ES256', 'a')).toHaveLength(1)
+      expect(await keySet.getKeys('ES256', 'b')).toHaveLength(0)
+      expect(await keySet.getKeys('ES256', 'c')).toHaveLength(0)
+      expect(requests).toBe(1)
+    }
+    finally {
+      server.stop(true)
+    }
+  })
+})
+
+describe('jwtAuth', () => {
+  test('should verify bearer tokens and attach their payload', async () => {
+    const jwt = new JWT('secret')
+    const middleware = jwtAuth(jwt, { verify: { issuer: 'app' } })
+    const request = (token: string) => new Request('http://localhost/me', { headers: { Authorization: `Bearer ${token}` } }) as EnhancedRequest
+
+    const req = request(await jwt.sign({ sub: 'user-1' }, { issuer: 'app' }))
+    const response = await middleware.handle(req, async () => Response.json({ ok: true }))
+    expect(response.status).toBe(200)
+    expect(req.user).toMatchObject({ sub: 'user-1', iss: 'app' })
+
+    const other = await middleware.handle(request(await jwt.sign({ sub: 'user-1' }, { issuer: 'other' })), async () => Response.json({ ok: true }))
+    expect(other.status).toBe(401)
+
+    const forged = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${Buffer.from('{"sub":"admin","iss":"app"}').toString('base64url')}.`
+    expect((await middleware.handle(request(forged), async () => Response.json({ ok: true }))).status).toBe(401)
+  })
+})
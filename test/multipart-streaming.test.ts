@@ -0,0 +1,177 @@
+import type { EnhancedRequest, FileStorageService, UploadStream } from '../packages/bun-router/src/types'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { LocalFileStorage } from '../packages/bun-router/src/middleware/file_storage'
+import FileUpload from '../packages/bun-router/src/middleware/file_upload'
+import { MultipartParser } from '../packages/bun-router/src/middleware/multipart_parser'
+
+const directory = mkdtempSync(join(tmpdir(), 'multipart-'))
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+
+/**
+ * A multipart request whose body arrives a few bytes at a time
+ */
+async function createRequest(form: FormData, chunkSize: number = 7): Promise<EnhancedRequest> {
+  const encoded = new Request('http://localhost/upload', { method: 'POST', body: form })
+  const contentType = encoded.headers.get('content-type')!
+  const body = new Uint8Array(await encoded.arrayBuffer())
+  let offset = 0
+
+  return new Request('http://localhost/upload', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body: new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (offset >= body.byteLength) {
+          controller.close()
+          return
+        }
+        controller.enqueue(body.slice(offset, offset += chunkSize))
+      },
+    }),
+  }) as EnhancedRequest
+}
+
+function createStorage() {
+  const stored: Array<UploadStream & { bytes: Uint8Array }> = []
+  const storage: FileStorageService = {
+    store: async file => file.path,
+    storeStream: async (file) => {
+      stored.push({ ...file, bytes: new Uint8Array(await new Response(file.stream).arrayBuffer()) })
+      return `memory/${file.filename}`
+    },
+    delete: async () => {},
+    exists: async () => true,
+    getUrl: path => `/${path}`,
+  }
+  return { storage, stored }
+}
+
+async function upload(middleware: FileUpload, req: EnhancedRequest) {
+  let received: EnhancedRequest | undefined
+  const response = await middleware.handle(req, async () => {
+    received = req
+    return new Response('ok')
+  })
+  return { response, received }
+}
+
+describe('MultipartParser', () => {
+  test('should parse fields and files split across reads', async () => {
+    const form = new FormData()
+    form.append('title', 'Holiday')
+    form.append('video', new File(['x'.repeat(1000)], 'clip.mp4', { type: 'video/mp4' }))
+    form.append('tags', 'beach')
+
+    const parser = MultipartParser.fromRequest(await createRequest(form, 3))!
+    const parts: Array<{ name: string, filename?: string, contentType: string, text: string }> = []
+    for await (const part of parser.parts()) {
+      parts.push({ name: part.name, filename: part.filename, contentType: part.contentType, text: await new Response(part.stream).text() })
+    }
+
+    expect(parts).toEqual([
+      { name: 'title', filename: undefined, contentType: 'text/plain', text: 'Holiday' },
+      { name: 'video', filename: 'clip.mp4', contentType: 'video/mp4', text: 'x'.repeat(1000) },
+      { name: 'tags', filename: undefined, contentType: 'text/plain', text: 'beach' },
+    ])
+  })
+
+  test('should skip parts that are not read', async () => {
+    const form = new FormData()
+    form.append('skipped', new File(['a'.repeat(100)], 'a.txt'))
+    form.append('kept', 'value')
+
+    const names: string[] = []
+    for await (const part of MultipartParser.fromRequest(await createRequest(form))!.parts()) {
+      if (part.name === 'kept') {
+        expect(await new Response(part.stream).text()).toBe('value')
+      }
+      names.push(part.name)
+    }
+
+    expect(names).toEqual(['skipped', 'kept'])
+  })
+
+  test('should ignore requests that are not multipart', () => {
+    const req = new Request('http://localhost/', { method: 'POST', body: '{}', headers: { 'Content-Type': 'application/json' } })
+
+    expect(MultipartParser.fromRequest(req)).toBeNull()
+  })
+})
+
+describe('Streaming file uploads', () => {
+  test('should stream files to storage and attach them to the request', async () => {
+    const { storage, stored } = createStorage()
+    const form = new FormData()
+    form.append('name', 'logo')
+    form.append('image', new File([PNG], 'logo.png', { type: 'image/png' }))
+
+    const { response, received } = await upload(new FileUpload({ storage }), await createRequest(form))
+
+    expect(response.status).toBe(200)
+    expect(stored).toHaveLength(1)
+    expect(stored[0].bytes).toEqual(PNG)
+    expect(received!.formBody).toEqual({ name: 'logo' })
+    expect(received!.files).toEqual([{
+      fieldName: 'image',
+      originalName: 'logo.png',
+      filename: stored[0].filename,
+      path: `memory/${stored[0].filename}`,
+      size: PNG.byteLength,
+      mimetype: 'image/png',
+    }])
+  })
+
+  test('should not create the destination when files go to a custom storage', () => {
+    const destination = join(directory, 'unused')
+    expect(new FileUpload({ storage: createStorage().storage, destination })).toBeInstanceOf(FileUpload)
+    expect(existsSync(destination)).toBe(false)
+  })
+
+  test('should reject files whose first bytes do not match their type before storing them', async () => {
+    const { storage, stored } = createStorage()
+    const form = new FormData()
+    form.append('image', new File(['not a png at all'], 'logo.png', { type: 'image/png' }))
+
+    const { response, received } = await upload(new FileUpload({ storage }), await createRequest(form))
+
+    expect(response.status).toBe(400)
+    expect(((await response.json()) as { error: string }).error).toContain('File signature does not match')
+    expect(stored).toHaveLength(0)
+    expect(received).toBeUndefined()
+  })
+
+  test('should stop oversized files and remove what was already stored', async () => {
+    const destination = join(directory, 'limits')
+    const form = new FormData()
+    form.append('small', new File(['fits'], 'small.txt', { type: 'text/plain' }))
+    form.append('large', new File(['x'.repeat(5000)], 'large.txt', { type: 'text/plain' }))
+
+    const { response } = await upload(new FileUpload({ destination, maxFileSize: 1024 }), await createRequest(form, 256))
+
+    expect(response.status).toBe(413)
+    expect(((await response.json()) as { error: string }).error).toBe('File large.txt exceeds maximum size of 1 KB')
+    expect(readdirSync(destination)).toEqual([])
+  })
+
+  test('should write files to the destination by default', async () => {
+    const destination = join(directory, 'local')
+    const form = new FormData()
+    form.append('doc', new File(['hello world'], 'notes.txt', { type: 'text/plain' }))
+
+    const { response, received } = await upload(new FileUpload({ destination }), await createRequest(form))
+    const [file] = received!.files!
+
+    expect(response.status).toBe(200)
+    expect(file.buffer).toBeUndefined()
+    expect(readFileSync(file.path, 'utf8')).toBe('hello world')
+    expect(new LocalFileStorage({ directory: destination }).getUrl(file.path)).toBe(`/uploads/${file.filename}`)
+  })
+})
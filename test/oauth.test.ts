@@ -0,0 +1,142 @@
+import type { OAuthRouteOptions } from '../packages/bun-router/src/router/oauth'
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test'
+import Session from '../packages/bun-router/src/middleware/session'
+import { registerHttpMethods } from '../packages/bun-router/src/router/http-methods'
+import { registerOAuth } from '../packages/bun-router/src/router/oauth'
+import { Router } from '../packages/bun-router/src/router/router'
+import { MemorySessionStore } from '../packages/bun-router/src/session'
+import { MockOAuthProvider } from '../packages/bun-router/src/testing/oauth-testing'
+
+registerHttpMethods(Router)
+registerOAuth(Router)
+
+const mock = new MockOAuthProvider({ claims: { sub: 'u-42', name: 'Ada Lovelace', email: 'ada@example.com', picture: 'https://example.com/ada.png' } })
+
+afterAll(() => mock.stop())
+
+beforeEach(() => {
+  mock.idTokenClaims = {}
+  mock.denyWith = null
+})
+
+async function createRouter(options: Partial<OAuthRouteOptions> = {}, config: ConstructorParameters<typeof Router>[0] = {}) {
+  const store = new MemorySessionStore()
+  const session = new Session({ store, gcLottery: false })
+  const router = new Router(config)
+  await router.oauth('mock', {
+    clientId: mock.clientId,
+    clientSecret: mock.clientSecret,
+    issuer: mock.issuer,
+    successRedirect: '/dashboard',
+    middleware: [(req, next) => session.handle(req, next)],
+    ...options,
+  })
+  return { router, store }
+}
+
+/**
+ * Run the login from the redirect route through the provider, returning the callback response
+ */
+async function login(router: Router, tamper: (callback: URL) => void = () => {}, redirectUrl: string = 'http://localhost/auth/mock/redirect') {
+  const redirect = await router.handleRequest(new Request(redirectUrl))
+  expect(redirect.status).toBe(302)
+  const cookie = redirect.headers.get('set-cookie')!.split(';')[0]
+
+  const authorize = await fetch(redirect.headers.get('location')!, { redirect: 'manual' })
+  const callback = new URL(authorize.headers.get('location')!)
+  tamper(callback)
+
+  const response = await router.handleRequest(new Request(callback.toString(), { headers: { Cookie: cookie } }))
+  return { redirect, response, cookie }
+}
+
+describe('router.oauth()', () => {
+  test('should send users to the provider with state, nonce and a PKCE challenge', async () => {
+    const { router } = await createRouter()
+    const response = await router.handleRequest(new Request('http://localhost/auth/mock/redirect'))
+    const location = new URL(response.headers.get('location')!)
+
+    expect(`${location.origin}${location.pathname}`).toBe(`${mock.issuer}/authorize`)
+    expect(location.searchParams.get('redirect_uri')).toBe('http://localhost/auth/mock/callback')
+    expect(location.searchParams.get('scope')).toBe('openid profile email')
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256')
+    expect(location.searchParams.get('state')).toBeTruthy()
+    expect(location.searchParams.get('nonce')).toBeTruthy()
+  })
+
+  test('should send users back to the callback under the routes\' prefix', async () => {
+    const { router } = await createRouter({}, { webPrefix: '/app' })
+    const { redirect, response } = await login(router, undefined, 'http://localhost/app/auth/mock/redirect')
+
+    expect(new URL(redirect.headers.get('location')!).searchParams.get('redirect_uri')).toBe('http://localhost/app/auth/mock/callback')
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toBe('/dashboard')
+  })
+
+  test('should log users in and keep the profile in the session', async () => {
+    let user: unknown
+    const { router, store } = await createRouter({
+      onSuccess: (req: EnhancedRequest) => {
+        user = req.user
+        return new Response(null, { status: 302, headers: { Location: '/dashboard' } })
+      },
+    })
+    const { response, cookie } = await login(router)
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toBe('/dashboard')
+    expect(user).toMatchObject({ id: 'u-42', name: 'Ada Lovelace', email: 'ada@example.com', provider: 'mock' })
+    expect(mock.tokenRequests.at(-1)?.code_verifier).toBeTruthy()
+
+    // The session was regenerated on login, dropping the pending state
+    const sessionId = response.headers.get('set-cookie')!.split(';')[0].split('=')[1]
+    expect(cookie.split('=')[1]).not.toBe(sessionId)
+    const data = await store.get(sessionId)
+    expect(data?.user).toMatchObject({ id: 'u-42', name: 'Ada Lovelace', provider: 'mock' })
+    expect(data?.oauth).toBeUndefined()
+  })
+
+  test('should reject callbacks whose state does not match', async () => {
+    const { router } = await createRouter()
+    const { response } = await login(router, callback => callback.searchParams.set('state', 'forged'))
+    expect(response.status).toBe(401)
+  })
+
+  test('should reject ID tokens with the wrong nonce, issuer or audience', async () => {
+    const { router } = await createRouter()
+
+    for (const claims of [{ nonce: 'replayed' }, { iss: 'https://attacker.example' }, { aud: 'other-client' }]) {
+      mock.idTokenClaims = claims
+      const { response } = await login(router)
+      expect(response.status).toBe(401)
+    }
+  })
+
+  test('should hand provider errors to onError', async () => {
+    const { router } = await createRouter({
+      onError: (_req, error) => Response.json({ error: error.error }, { status: 400 }),
+    })
+    mock.denyWith = 'access_denied'
+
+    const { response } = await login(router)
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'access_denied' })
+  })
+
+  test('should support plain OAuth 2.0 providers without discovery', async () => {
+    const { router, store } = await createRouter({
+      issuer: undefined,
+      authorizeUrl: `${mock.issuer}/authorize`,
+      tokenUrl: `${mock.issuer}/token`,
+      userInfoUrl: `${mock.issuer}/userinfo`,
+      scopes: ['read:user'],
+      tokenAuthMethod: 'client_secret_post',
+    })
+    const { response } = await login(router)
+
+    expect(response.status).toBe(302)
+    const sessionId = response.headers.get('set-cookie')!.split(';')[0].split('=')[1]
+    expect((await store.get(sessionId))?.user).toMatchObject({ id: 'u-42', email: 'ada@example.com' })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, expect, test } from 'bun:test'
+import { createOpenAPIDocument } from '../packages/bun-router/src/cli/openapi'
+import { Router } from '../packages/bun-router/src/router/router'
+import { rulesToJsonSchema } from '../packages/bun-router/src/validation/json-schema'
+import { createValidationMiddleware } from '../packages/bun-router/src/validation/validator'
+
+async function createRouter(): Promise<Router> {
+  const router = new Router()
+
+  router.schema('User', {
+    type: 'object',
+    properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+    required: ['id', 'email'],
+  })
+
+  await router.get('/users', () => Response.json([]), 'api', 'users.index', [
+    createValidationMiddleware({ page: 'integer|min:1', sort: 'in:name,created_at' }),
+  ])
+  router.responds(200, { type: 'array', items: { $ref: '#/components/schemas/User' } })
+
+  await router.post('/users', () => Response.json({}, { status: 201 }), 'api', 'users.store', [
+    createValidationMiddleware({ 'email': 'required|email', 'password': 'required|string|min:8|confirmed', 'address.city': 'string|max:100' }),
+  ])
+  router.responds(201, 'User', 'Created user')
+
+  await router.put('/users/{id}', () => Response.json({}), 'api', 'users.update', [
+    createValidationMiddleware({ 'id': 'integer', 'email': 'required|email', 'password': 'required|string|min:8|confirmed', 'address.city': 'string|max:100' }),
+  ])
+
+  await router.get('/health', () => new Response('ok'))
+
+  return router
+}
+
+describe('Validation rules to JSON Schema', () => {
+  test('should map types, formats and bounds', () => {
+    const schema = rulesToJsonSchema({
+      name: 'required|string|between:2,50',
+      age: 'integer|min:18',
+      tags: 'array|max:5',
+      role: 'in:admin,member',
+      website: 'url',
+      id: 'uuid',
+    })
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 50 },
+        age: { type: 'integer', minimum: 18 },
+        tags: { type: 'array', maxItems: 5 },
+        role: { enum: ['admin', 'member'] },
+        website: { type: 'string', format: 'uri' },
+        id: { type: 'string', format: 'uuid' },
+      },
+      required: ['name'],
+    })
+  })
+
+  test('should nest dot notation fields and add confirmation fields', () => {
+    const schema = rulesToJsonSchema({ 'address.city': 'required|string', 'password': 'required|min:8|confirmed' })
+
+    expect(schema.properties?.address).toEqual({
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    })
+    expect(schema.properties?.password_confirmation).toEqual({ minLength: 8 })
+    expect(schema.required).toEqual(['password', 'password_confirmation'])
+  })
+
+  test('should keep the rules on the validation middleware', () => {
+    const middleware = createValidationMiddleware({ email: 'required|email' })
+
+    expect(middleware.validationRules).toEqual({ email: 'required|email' })
+  })
+})
+
+describe('OpenAPI generation', () => {
+  test('should emit OpenAPI 3.1 for API routes only', async () => {
+    const document = createOpenAPIDocument(await createRouter())
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(Object.keys(document.paths)).toEqual(['/api/users', '/api/users/{id}'])
+  })
+
+  test('should describe request bodies from validation rules', async () => {
+    const document = createOpenAPIDocument(await createRouter())
+    const store = document.paths['/api/users'].post
+
+    expect(store.requestBody.required).toBe(true)
+    expect(store.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/UsersStoreRequest' })
+    expect(document.components.schemas.UsersStoreRequest.properties.email).toEqual({ type: 'string', format: 'email' })
+    expect(store.responses['400'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/ValidationError' })
+  })
+
+  test('should reuse identical request schemas', async () => {
+    const document = createOpenAPIDocument(await createRouter())
+    const update = document.paths['/api/users/{id}'].put
+
+    // The id rule applies to the path parameter, leaving the same body as users.store
+    expect(update.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/UsersStoreRequest' })
+    expect(update.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' }, description: 'Path parameter: id' },
+    ])
+    expect(document.components.schemas.UsersUpdateRequest).toBeUndefined()
+  })
+
+  test('should turn rules of GET routes into query parameters', async () => {
+    const document = createOpenAPIDocument(await createRouter())
+
+    expect(document.paths['/api/users'].get.parameters).toEqual([
+      { name: 'page', in: 'query', required: false, schema: { type: 'integer', minimum: 1 } },
+      { name: 'sort', in: 'query', required: false, schema: { enum: ['name', 'created_at'] } },
+    ])
+  })
+
+  test('should emit declared responses and named schemas', async () => {
+    const document = createOpenAPIDocument(await createRouter())
+
+    expect(document.components.schemas.User.required).toEqual(['id', 'email'])
+    expect(document.paths['/api/users'].post.responses['201']).toEqual({
+      description: 'Created user',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+    })
+    expect(document.paths['/api/users/{id}'].put.responses['200']).toEqual({ description: 'Successful response' })
+  })
+
+  test('should define the security schemes operations reference', async () => {
+    const router = new Router()
+    await router.get('/me', () => Response.json({}), 'api', 'me', [
+      async function jwtAuth(req, next) {
+        return next()
+      },
+    ])
+
+    const document = createOpenAPIDocument(router)
+
+    expect(document.paths['/api/me'].get.security).toEqual([{ BearerAuth: [] }])
+    expect(document.components.securitySchemes.BearerAuth).toEqual({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' })
+  })
+})
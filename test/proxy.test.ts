@@ -0,0 +1,207 @@
+import type { Server } from 'bun'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { CircuitBreakerRegistry } from '../packages/bun-router/src/errors/circuit-breaker'
+import { registerHttpMethods } from '../packages/bun-router/src/router/http-methods'
+import { registerOptimizedRouteMatching } from '../packages/bun-router/src/router/optimized-route-matching'
+import { registerProxy } from '../packages/bun-router/src/router/proxy'
+import { Router } from '../packages/bun-router/src/router/router'
+import { registerWebSocketHandling } from '../packages/bun-router/src/router/websocket'
+
+registerHttpMethods(Router)
+registerOptimizedRouteMatching(Router)
+registerWebSocketHandling(Router)
+registerProxy(Router)
+
+let router: Router
+let upstreams: Server<undefined>[] = []
+
+afterEach(() => {
+  router?.serverInstance?.stop(true)
+  upstreams.forEach(upstream => upstream.stop(true))
+  upstreams = []
+})
+
+function upstream(name: string, fetch: (req: Request) => Response | Promise<Response> = req => Response.json({
+  name,
+  path: new URL(req.url).pathname + new URL(req.url).search,
+  headers: Object.fromEntries(req.headers),
+})): string {
+  const server = Bun.serve({ port: 0, fetch })
+  upstreams.push(server)
+  return `http://localhost:${server.port}`
+}
+
+async function serve(path: string, options: Parameters<Router['proxy']>[1]) {
+  router = new Router()
+  const proxy = await router.proxy(path, { registry: new CircuitBreakerRegistry(), ...options })
+  await router.serve({ port: 0 })
+  return { proxy, base: `http://127.0.0.1:${router.serverInstance!.port}` }
+}
+
+async function names(base: string, count: number): Promise<string[]> {
+  const names: string[] = []
+  for (let i = 0; i < count; i++) {
+    names.push(((await (await fetch(`${base}/api/x`)).json()) as { name: string }).name)
+  }
+  return names
+}
+
+describe('Reverse proxy', () => {
+  test('should forward the path, query, body and status', async () => {
+    const target = upstream('a', async req => new Response(`${req.method} ${new URL(req.url).pathname}${new URL(req.url).search} ${await req.text()}`, {
+      status: 201,
+      headers: { 'X-Upstream': 'a' },
+    }))
+    const { base } = await serve('/billing/*', { targets: [target] })
+
+    const response = await fetch(`${base}/billing/invoices?page=2`, { method: 'POST', body: 'total=10' })
+
+    expect(response.status).toBe(201)
+    expect(response.headers.get('x-upstream')).toBe('a')
+    expect(await response.text()).toBe('POST /billing/invoices?page=2 total=10')
+  })
+
+  test('should strip the route prefix', async () => {
+    const { base } = await serve('/billing/*', { targets: [upstream('a')], stripPrefix: true })
+
+    const body = (await (await fetch(`${base}/billing/invoices/7?full=1`)).json()) as { path: string }
+
+    expect(body.path).toBe('/invoices/7?full=1')
+  })
+
+  test('should balance requests round-robin and by weight', async () => {
+    const a = upstream('a')
+    const b = upstream('b')
+
+    const roundRobin = await serve('/api/*', { targets: [a, b] })
+    expect(await names(roundRobin.base, 4)).toEqual(['a', 'b', 'a', 'b'])
+    router.serverInstance!.stop(true)
+
+    const weighted = await serve('/api/*', { targets: [{ url: a, weight: 2 }, b], strategy: 'weighted' })
+    expect(await names(weighted.base, 6)).toEqual(['a', 'b', 'a', 'a', 'b', 'a'])
+  })
+
+  test('should send requests to the target with the fewest open connections', async () => {
+    let release!: () => void
+    const held = new Promise<void>(resolve => release = resolve)
+    const slow = upstream('slow', () => new Response(new ReadableStream({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode('start'))
+        await held
+        controller.close()
+      },
+    })))
+    const fast = upstream('fast')
+    const { base, proxy } = await serve('/api/*', { targets: [slow, fast], strategy: 'least-connections' })
+
+    const streaming = await fetch(`${base}/api/stream`)
+    expect(proxy.balancer.upstreams[0].active).toBe(1)
+    expect(await names(base, 2)).toEqual(['fast', 'fast'])
+
+    release()
+    await streaming.text()
+    expect(proxy.balancer.upstreams[0].active).toBe(0)
+  })
+
+  test('should set X-Forwarded headers and rewrite headers', async () => {
+    const { base } = await serve('/api/*', {
+      targets: [upstream('a', req => new Response(JSON.stringify(Object.fromEntries(req.headers)), { headers: { 'Server': 'internal', 'X-Powered-By': 'x' } }))],
+      requestHeaders: { 'X-Gateway': 'edge', 'Cookie': null },
+      responseHeaders: (headers) => {
+        headers.delete('server')
+        headers.delete('x-powered-by')
+      },
+    })
+
+    const response = await fetch(`${base}/api/x`, { headers: { 'Cookie': 'session=1', 'X-Forwarded-For': '10.0.0.1', 'Connection': 'keep-alive, X-Secret', 'X-Secret': '1' } })
+    const headers = (await response.json()) as Record<string, string>
+
+    expect(headers['x-forwarded-for']).toBe('127.0.0.1')
+    expect(headers['x-forwarded-host']).toBe(`127.0.0.1:${router.serverInstance!.port}`)
+    expect(headers['x-forwarded-proto']).toBe('http')
+    expect(headers['x-gateway']).toBe('edge')
+    expect(headers.cookie).toBeUndefined()
+    expect(headers['x-secret']).toBeUndefined()
+    expect(headers.host).toBe(new URL(upstreams[0].url).host)
+    expect(response.headers.get('server')).toBeNull()
+    expect(response.headers.get('x-powered-by')).toBeNull()
+  })
+
+  test('should append to X-Forwarded-For behind a trusted proxy', async () => {
+    const { base } = await serve('/api/*', { targets: [upstream('a')], trustProxy: true })
+
+    const body = (await (await fetch(`${base}/api/x`, { headers: { 'X-Forwarded-For': '10.0.0.1', 'X-Forwarded-Proto': 'https' } })).json()) as { headers: Record<string, string> }
+
+    expect(body.headers['x-forwarded-for']).toBe('10.0.0.1, 127.0.0.1')
+    expect(body.headers['x-forwarded-proto']).toBe('https')
+  })
+
+  test('should retry unreachable targets and take them out of rotation', async () => {
+    const down = upstream('down')
+    upstreams[0].stop(true)
+    const { base, proxy } = await serve('/api/*', { targets: [down, upstream('up')], circuitBreaker: { failureThreshold: 1 } })
+
+    expect(await names(base, 3)).toEqual(['up', 'up', 'up'])
+    expect(proxy.balancer.upstreams[0].breaker.getState()).toBe('OPEN')
+  })
+
+  test('should pass server errors through and answer 502 or 503 without targets', async () => {
+    const failing = upstream('failing', () => new Response('boom', { status: 500 }))
+    const { base, proxy } = await serve('/api/*', { targets: [failing], circuitBreaker: { failureThreshold: 2 } })
+
+    const first = await fetch(`${base}/api/x`)
+    expect(first.status).toBe(500)
+    expect(await first.text()).toBe('boom')
+    await fetch(`${base}/api/x`)
+    expect(proxy.balancer.upstreams[0].breaker.getState()).toBe('OPEN')
+
+    const open = await fetch(`${base}/api/x`)
+    expect(open.status).toBe(503)
+    expect(((await open.json()) as { error: string }).error).toBe('No upstream available')
+
+    router.serverInstance!.stop(true)
+    upstreams[0].stop(true)
+    const unreachable = await serve('/api/*', { targets: [failing] })
+    const response = await fetch(`${unreachable.base}/api/x`, { method: 'POST', body: 'x' })
+    expect(response.status).toBe(502)
+  })
+
+  test('should relay WebSocket connections', async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch: (req, server) => server.upgrade(req, { headers: { 'Sec-WebSocket-Protocol': 'chat' } }) ? undefined : new Response('Expected a socket', { status: 400 }),
+      websocket: {
+        open: (ws) => {
+          ws.send('welcome')
+        },
+        message: (ws, message) => {
+          ws.send(`echo: ${message}`)
+        },
+      },
+    })
+    upstreams.push(server)
+    const { base } = await serve('/socket/*', { targets: [`http://localhost:${server.port}`] })
+
+    const socket = new WebSocket(`${base.replace('http', 'ws')}/socket/room`, ['chat'])
+    const messages: string[] = []
+    const received = new Promise<void>((resolve) => {
+      socket.addEventListener('message', (event) => {
+        messages.push(event.data as string)
+        if (messages.length === 1) {
+          socket.send('hello')
+        }
+        else {
+          resolve()
+        }
+      })
+    })
+
+    await received
+    expect(socket.protocol).toBe('chat')
+    expect(messages).toEqual(['welcome', 'echo: hello'])
+
+    const closed = new Promise<number>(resolve => socket.addEventListener('close', event => resolve(event.code)))
+    server.stop(true)
+    expect(await closed).toBe(1011)
+  })
+})
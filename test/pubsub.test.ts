@@ -0,0 +1,220 @@
+import type { PubSubAdapter, RedisClientLike, RedisSubscriberLike } from '../packages/bun-router/src/types'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { BroadcastChannelPubSub, MemoryPubSub, PubSubRelay, RedisPubSub, SQLitePubSub } from '../packages/bun-router/src/pubsub'
+import { Router } from '../packages/bun-router/src/router/router'
+import { registerWebSocketHandling } from '../packages/bun-router/src/router/websocket'
+import { SSEConnectionManager } from '../packages/bun-router/src/streaming/sse-handler'
+
+registerWebSocketHandling(Router)
+
+const directory = mkdtempSync(join(tmpdir(), 'pubsub-'))
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+/**
+ * In-process stand-in for a Redis server's PUBLISH/SUBSCRIBE
+ */
+class FakeRedisServer {
+  private channels = new Map<string, Set<(message: string, channel: string) => void>>()
+
+  client(): RedisClientLike {
+    return {
+      send: async (command: string, args: string[]) => {
+        if (command !== 'PUBLISH') {
+          throw new Error(`Unsupported command ${command}`)
+        }
+        const listeners = this.channels.get(args[0]) ?? new Set()
+        listeners.forEach(listener => listener(args[1], args[0]))
+        return listeners.size
+      },
+    }
+  }
+
+  subscriber(): RedisSubscriberLike {
+    const own = new Map<string, (message: string, channel: string) => void>()
+    return {
+      subscribe: async (channel, listener) => {
+        own.set(channel, listener)
+        this.channels.set(channel, (this.channels.get(channel) ?? new Set()).add(listener))
+      },
+      unsubscribe: async (channel) => {
+        this.channels.get(channel)?.delete(own.get(channel)!)
+        own.delete(channel)
+      },
+    }
+  }
+}
+
+const redis = new FakeRedisServer()
+let database = 0
+
+/**
+ * Two adapters standing in for two processes sharing a transport
+ */
+const pairs: Array<[string, () => [PubSubAdapter, PubSubAdapter]]> = [
+  ['BroadcastChannelPubSub', () => {
+    const name = `test-${crypto.randomUUID()}`
+    return [new BroadcastChannelPubSub({ name }), new BroadcastChannelPubSub({ name })]
+  }],
+  ['SQLitePubSub', () => {
+    const filename = join(directory, `pubsub-${database++}.sqlite`)
+    return [new SQLitePubSub({ filename, pollInterval: 5 }), new SQLitePubSub({ filename, pollInterval: 5 })]
+  }],
+  ['RedisPubSub', () => [
+    new RedisPubSub({ client: redis.client(), subscriber: redis.subscriber(), prefix: 'app:' }),
+    new RedisPubSub({ client: redis.client(), subscriber: redis.subscriber(), prefix: 'app:' }),
+  ]],
+]
+
+function received(adapter: PubSubAdapter, channel: string): Promise<string> {
+  return new Promise((resolve) => {
+    void adapter.subscribe(channel, message => resolve(message))
+  })
+}
+
+describe('Pub/sub adapters', () => {
+  test('MemoryPubSub should deliver to subscribers until they unsubscribe', async () => {
+    const adapter = new MemoryPubSub()
+    const messages: string[] = []
+    const unsubscribe = await adapter.subscribe('news', message => messages.push(message))
+
+    await adapter.publish('news', 'one')
+    await adapter.publish('other', 'ignored')
+    await unsubscribe()
+    await adapter.publish('news', 'two')
+
+    expect(messages).toEqual(['one'])
+  })
+
+  for (const [name, create] of pairs) {
+    test(`${name} should deliver across instances and to the publisher`, async () => {
+      const [publisher, subscriber] = create()
+
+      const remote = received(subscriber, 'news')
+      const local = received(publisher, 'news')
+      // Let subscriptions settle before publishing
+      await Bun.sleep(10)
+      await publisher.publish('news', 'hello')
+
+      expect(await remote).toBe('hello')
+      expect(await local).toBe('hello')
+
+      await publisher.close?.()
+      await subscriber.close?.()
+    })
+  }
+
+  test('SQLitePubSub should only deliver messages published after it was created', async () => {
+    const filename = join(directory, 'history.sqlite')
+    const first = new SQLitePubSub({ filename })
+    await first.publish('news', 'old')
+
+    const second = new SQLitePubSub({ filename })
+    const messages: string[] = []
+    await second.subscribe('news', message => messages.push(message))
+    await first.publish('news', 'new')
+    second.poll()
+
+    expect(messages).toEqual(['new'])
+
+    await first.close()
+    await second.close()
+  })
+
+  test('RedisPubSub should only add listeners once SUBSCRIBE succeeds', async () => {
+    const subscriber = redis.subscriber()
+    const subscribe = subscriber.subscribe
+    let failures = 1
+    subscriber.subscribe = async (channel, listener) => {
+      if (failures-- > 0) {
+        throw new Error('connection lost')
+      }
+      return subscribe(channel, listener)
+    }
+
+    const adapter = new RedisPubSub({ client: redis.client(), subscriber, prefix: 'retry:' })
+    const messages: string[] = []
+    await expect(adapter.subscribe('news', message => messages.push(`failed ${message}`))).rejects.toThrow('connection lost')
+    await adapter.subscribe('news', message => messages.push(message))
+    await adapter.publish('news', 'hello')
+
+    expect(messages).toEqual(['hello'])
+    await adapter.close()
+  })
+
+  test('PubSubRelay should skip its own broadcasts', async () => {
+    const adapter = new MemoryPubSub()
+    const own: string[] = []
+    const other: string[] = []
+    const first = new PubSubRelay<string>(adapter, 'relay', payload => own.push(payload))
+    const second = new PubSubRelay<string>(adapter, 'relay', payload => other.push(payload))
+    await first.start()
+    await second.start()
+
+    await first.publish('from first')
+
+    expect(own).toEqual([])
+    expect(other).toEqual(['from first'])
+  })
+})
+
+describe('Pub/sub fan-out', () => {
+  test('router.publish() should reach sockets connected to another router', async () => {
+    const pubsub = new MemoryPubSub()
+    const routers = [new Router({ pubsub }), new Router({ pubsub })]
+
+    for (const router of routers) {
+      await router.ws('/news', {
+        open: (ws) => {
+          ws.subscribe('news')
+          ws.send('ready')
+        },
+        message: () => {},
+      })
+      await router.serve({ port: 0 })
+    }
+
+    const socket = new WebSocket(`ws://localhost:${routers[1].serverInstance!.port}/news`)
+    const messages: string[] = []
+    await new Promise<void>((resolve) => {
+      socket.onmessage = (event) => {
+        messages.push(String(event.data))
+        if (messages.length === 2) {
+          resolve()
+        }
+        else {
+          routers[0].publish('news', 'breaking')
+        }
+      }
+    })
+
+    expect(messages).toEqual(['ready', 'breaking'])
+
+    socket.close()
+    routers.forEach(router => router.serverInstance?.stop(true))
+  })
+
+  test('SSE broadcasts should reach connections of another manager', async () => {
+    const pubsub = new MemoryPubSub()
+    const publisher = new SSEConnectionManager({ pubsub })
+    const subscriber = new SSEConnectionManager()
+    await subscriber.usePubSub(pubsub)
+
+    const response = subscriber.createConnection('client-1', { enableHeartbeat: false }).createStream()
+    const reader = response.body!.getReader()
+    // Skip the retry line sent on connect
+    await reader.read()
+
+    expect(publisher.broadcast({ event: 'update', data: { id: 1 } })).toBe(0)
+
+    const { value } = await reader.read()
+    expect(new TextDecoder().decode(value)).toContain('event: update')
+
+    subscriber.closeConnection('client-1')
+  })
+})
@@ -0,0 +1,124 @@
+import type { RateLimitState } from '../packages/bun-router/src/rate-limit'
+import type { EnhancedRequest, RateLimitRule } from '../packages/bun-router/src/types'
+import { afterAll, afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { applyRateLimit, MemoryRateLimitStore, SQLiteRateLimitStore } from '../packages/bun-router/src/rate-limit'
+import { Router } from '../packages/bun-router/src/router/router'
+import { RateLimiter, rateLimitRegistry } from '../packages/bun-router/src/routing/route-throttling'
+
+const directory = mkdtempSync(join(tmpdir(), 'rate-limit-'))
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+/**
+ * Count hits at the given times, returning which were allowed
+ */
+function run(rule: RateLimitRule, times: number[]): boolean[] {
+  let state: RateLimitState | undefined
+  return times.map((now) => {
+    const outcome = applyRateLimit(rule, state, now)
+    state = outcome.state
+    return outcome.result.allowed
+  })
+}
+
+describe('Rate limit algorithms', () => {
+  test('should not let sliding logs burst across window edges', () => {
+    // A hit opening the window, then hits either side of its edge
+    const times = [0, 990, 995, 1000, 1005, 1010]
+
+    expect(run({ algorithm: 'fixed-window', limit: 3, windowMs: 1000 }, times)).toEqual([true, true, true, true, true, true])
+    expect(run({ algorithm: 'sliding-log', limit: 3, windowMs: 1000 }, times)).toEqual([true, true, true, true, false, false])
+    expect(run({ algorithm: 'sliding-log', limit: 3, windowMs: 1000 }, [...times, 1989, 1990])).toEqual([true, true, true, true, false, false, false, true])
+  })
+
+  test('should allow GCRA bursts up to the limit, then space hits evenly', () => {
+    const rule: RateLimitRule = { algorithm: 'gcra', limit: 4, windowMs: 1000 }
+    expect(run(rule, [0, 0, 0, 0, 0, 100, 250, 400, 500])).toEqual([true, true, true, true, false, false, true, false, true])
+
+    const first = applyRateLimit(rule, undefined, 0)
+    expect(first.result).toMatchObject({ hits: 1, remaining: 3, resetTime: 250 })
+
+    const denied = applyRateLimit(rule, 1000, 100)
+    expect(denied.result).toMatchObject({ allowed: false, remaining: 0, retryAfter: 150 })
+  })
+})
+
+describe('Rate limit stores', () => {
+  test('should enforce one limit for every connection to a SQLite store', async () => {
+    const filename = join(directory, 'shared.sqlite')
+    const stores = [new SQLiteRateLimitStore({ filename }), new SQLiteRateLimitStore({ filename })]
+    const rule: RateLimitRule = { algorithm: 'gcra', limit: 5, windowMs: 60_000 }
+
+    const results = await Promise.all(Array.from({ length: 8 }, (_, i) => stores[i % 2].consume('ip:1', rule)))
+    expect(results.filter(result => result.allowed)).toHaveLength(5)
+
+    await stores[0].reset('ip:1')
+    expect((await stores[1].consume('ip:1', rule)).allowed).toBe(true)
+    stores.forEach(store => store.close())
+  })
+
+  test('should count hits from separate processes sharing a SQLite file', async () => {
+    const filename = join(directory, 'processes.sqlite')
+    const script = `
+      import { SQLiteRateLimitStore } from '${join(import.meta.dir, '../packages/bun-router/src/rate-limit')}'
+      const store = new SQLiteRateLimitStore({ filename: ${JSON.stringify(filename)} })
+      let allowed = 0
+      for (let i = 0; i < 20; i++) {
+        if ((await store.consume('ip:1', { algorithm: 'sliding-log', limit: 15, windowMs: 60000 })).allowed) allowed++
+      }
+      console.log(allowed)
+    `
+    const processes = [0, 1].map(() => Bun.spawn([process.execPath, '-e', script], { stdout: 'pipe' }))
+    const counts = await Promise.all(processes.map(async child => Number(await new Response(child.stdout).text())))
+
+    expect(await Promise.all(processes.map(child => child.exited))).toEqual([0, 0])
+    expect(counts[0] + counts[1]).toBe(15)
+  })
+})
+
+describe('Route throttling', () => {
+  afterEach(() => {
+    rateLimitRegistry.configure({ store: new MemoryRateLimitStore(), algorithm: 'fixed-window' })
+  })
+
+  test('should share throttle middleware limits between routers using one store', async () => {
+    rateLimitRegistry.configure({ store: new SQLiteRateLimitStore({ filename: ':memory:' }), algorithm: 'sliding-log' })
+
+    // Two instances of the same app behind a load balancer
+    const instances = [new Router(), new Router()]
+    for (const router of instances) {
+      await router.get('/search', () => new Response('ok'), undefined, undefined, ['throttle:3,1'])
+    }
+
+    const request = () => new Request('http://localhost/search', { headers: { 'X-Forwarded-For': '10.0.0.1' } })
+    const statuses: number[] = []
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await instances[i % 2].handleRequest(request())).status)
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 429])
+    const limited = await instances[1].handleRequest(request())
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0)
+    expect(limited.headers.get('x-ratelimit-remaining')).toBe('0')
+  })
+
+  test('should not share counters between unnamed limiters using different algorithms', async () => {
+    const store = new MemoryRateLimitStore()
+    const request = new Request('http://localhost/search', { headers: { 'X-Forwarded-For': '10.0.0.1' } }) as EnhancedRequest
+    const fixed = new RateLimiter({ maxAttempts: 2, windowMs: 60_000, algorithm: 'fixed-window', store })
+    const gcra = new RateLimiter({ maxAttempts: 2, windowMs: 60_000, algorithm: 'gcra', store })
+
+    // Hits of one limiter must neither count against nor reset the other
+    const allowed: boolean[] = []
+    for (const limiter of [fixed, gcra, fixed, gcra, fixed, gcra]) {
+      allowed.push((await limiter.checkLimit(request)).allowed)
+    }
+
+    expect(allowed).toEqual([true, true, true, true, false, false])
+  })
+})
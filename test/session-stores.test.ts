@@ -0,0 +1,275 @@
+import type { EnhancedRequest, RedisClientLike, SessionStore } from '../packages/bun-router/src/types'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import Session from '../packages/bun-router/src/middleware/session'
+import {
+  createSessionStore,
+  FileSessionStore,
+  MemorySessionStore,
+  RedisSessionStore,
+  SQLiteSessionStore,
+} from '../packages/bun-router/src/session'
+
+/**
+ * Tiny in-process fake speaking the handful of commands the Redis store uses
+ */
+class FakeRedis implements RedisClientLike {
+  data = new Map<string, { value: string, expires: number }>()
+
+  async send(command: string, args: string[]): Promise<unknown> {
+    const now = Date.now()
+    for (const [key, entry] of this.data) {
+      if (entry.expires <= now)
+        this.data.delete(key)
+    }
+
+    switch (command) {
+      case 'GET':
+        return this.data.get(args[0])?.value ?? null
+      case 'SET':
+        this.data.set(args[0], { value: args[1], expires: now + Number(args[3]) })
+        return 'OK'
+      case 'DEL':
+        args.forEach(key => this.data.delete(key))
+        return args.length
+      case 'PEXPIRE': {
+        const entry = this.data.get(args[0])
+        if (entry)
+          entry.expires = now + Number(args[1])
+        return entry ? 1 : 0
+      }
+      case 'SCAN': {
+        const prefix = args[2].slice(0, -1)
+        return ['0', [...this.data.keys()].filter(key => key.startsWith(prefix))]
+      }
+      default:
+        throw new Error(`Unsupported command ${command}`)
+    }
+  }
+}
+
+function createRequest(cookies: Record<string, string> = {}): EnhancedRequest {
+  const req = new Request('http://localhost/') as EnhancedRequest
+  req.params = {}
+  req.cookies = {
+    get: (name: string) => cookies[name],
+    getSigned: (name: string) => cookies[name],
+    getEncrypted: (name: string) => cookies[name],
+    set: () => {},
+    delete: () => {},
+    getAll: () => ({ ...cookies }),
+  }
+  return req
+}
+
+const next = async () => new Response('OK')
+
+let directory: string
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'bun-router-sessions-'))
+})
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+const stores: Array<[string, () => SessionStore]> = [
+  ['MemorySessionStore', () => new MemorySessionStore()],
+  ['FileSessionStore', () => new FileSessionStore({ directory })],
+  ['SQLiteSessionStore', () => new SQLiteSessionStore({ filename: ':memory:' })],
+  ['RedisSessionStore', () => new RedisSessionStore({ client: new FakeRedis() })],
+]
+
+describe.each(stores)('%s', (_name, createStore) => {
+  test('should store, read and destroy sessions', async () => {
+    const store = createStore()
+
+    await store.set('abc', { cart: [1, 2] }, 60)
+    expect(await store.get('abc')).toEqual({ cart: [1, 2] })
+    expect(await store.length!()).toBe(1)
+
+    await store.destroy('abc')
+    expect(await store.get('abc')).toBeNull()
+  })
+
+  test('should expire sessions after their TTL', async () => {
+    const store = createStore()
+
+    await store.set('short', { a: 1 }, 0.05)
+    await store.set('long', { b: 2 }, 60)
+    await new Promise(resolve => setTimeout(resolve, 80))
+
+    expect(await store.get('short')).toBeNull()
+    expect(await store.get('long')).toEqual({ b: 2 })
+  })
+
+  test('should extend expiry on touch', async () => {
+    const store = createStore()
+
+    await store.set('abc', { a: 1 }, 0.05)
+    await store.touch!('abc', { a: 1 }, 60)
+    await new Promise(resolve => setTimeout(resolve, 80))
+
+    expect(await store.get('abc')).toEqual({ a: 1 })
+  })
+
+  test('should clear every session', async () => {
+    const store = createStore()
+
+    await store.set('one', { a: 1 }, 60)
+    await store.set('two', { b: 2 }, 60)
+    await store.clear!()
+
+    expect(await store.all!()).toEqual({})
+  })
+})
+
+describe('Session garbage collection', () => {
+  test('should prune expired sessions from local stores', async () => {
+    for (const store of [new MemorySessionStore(), new FileSessionStore({ directory }), new SQLiteSessionStore({ filename: ':memory:' })]) {
+      await store.set('stale', { a: 1 }, 0.01)
+      await store.set('fresh', { b: 2 }, 60)
+      await new Promise(resolve => setTimeout(resolve, 30))
+
+      expect(await store.prune()).toBe(1)
+      expect(Object.keys(await store.all())).toEqual(['fresh'])
+    }
+  })
+
+  test('should reject unsafe session ids in the file store', async () => {
+    const store = new FileSessionStore({ directory })
+    await expect(store.set('../escape', {}, 60)).rejects.toThrow('Invalid session id')
+  })
+})
+
+describe('Session middleware with a store', () => {
+  test('should persist session data between requests', async () => {
+    const store = new MemorySessionStore()
+    const session = new Session({ store, gcLottery: false })
+
+    const first = createRequest()
+    await session.handle(first, async () => {
+      first.session!.visits = 1
+      return new Response('OK')
+    })
+
+    const sessionId = first._cookiesToSet![0].value
+    expect(await store.get(sessionId)).toEqual({ visits: 1 })
+
+    const second = createRequest({ session: sessionId })
+    await session.handle(second, next)
+    expect(second.session!.visits).toBe(1)
+    expect(second.session!.id).toBe(sessionId)
+  })
+
+  test('should not adopt unknown session ids from the client', async () => {
+    const store = new MemorySessionStore()
+    const session = new Session({ store, saveUninitialized: true, gcLottery: false })
+
+    const req = createRequest({ session: 'attacker-chosen-id' })
+    await session.handle(req, next)
+
+    expect(req._cookiesToSet![0].value).not.toBe('attacker-chosen-id')
+    expect(await store.get('attacker-chosen-id')).toBeNull()
+  })
+
+  test('should regenerate the session id and keep its data', async () => {
+    const store = new MemorySessionStore()
+    const session = new Session({ store, gcLottery: false })
+    await store.set('old-id', { userId: '42' }, 60)
+
+    const req = createRequest({ session: 'old-id' })
+    await session.handle(req, async () => {
+      await req.session!.regenerate!()
+      return new Response('OK')
+    })
+
+    const newId = req._cookiesToSet![0].value
+    expect(newId).not.toBe('old-id')
+    expect(await store.get('old-id')).toBeNull()
+    expect(await store.get(newId)).toEqual({ userId: '42' })
+  })
+
+  test('should destroy the session and expire its cookie', async () => {
+    const store = new MemorySessionStore()
+    const session = new Session({ store, gcLottery: false })
+    await store.set('doomed', { userId: '42' }, 60)
+
+    const req = createRequest({ session: 'doomed' })
+    await session.handle(req, async () => {
+      await req.session!.destroy!()
+      return new Response('OK')
+    })
+
+    expect(await store.get('doomed')).toBeNull()
+    expect(req._cookiesToDelete![0].name).toBe('session')
+  })
+
+  test('should skip empty new sessions when saveUninitialized is false', async () => {
+    const store = new MemorySessionStore()
+    const session = new Session({ store, saveUninitialized: false, gcLottery: false })
+
+    const req = createRequest()
+    await session.handle(req, next)
+
+    expect(req._cookiesToSet).toBeUndefined()
+    expect(await store.length()).toBe(0)
+  })
+
+  test('should fall back to saveUninitialized from the session config', async () => {
+    // The default config sets saveUninitialized to false
+    const store = new MemorySessionStore()
+    const session = new Session({ store, gcLottery: false })
+
+    await session.handle(createRequest(), next)
+
+    expect(await store.length()).toBe(0)
+  })
+
+  test('should set the cookie max-age from the session ttl', async () => {
+    const session = new Session({ store: new MemorySessionStore(), ttl: 600, saveUninitialized: true, gcLottery: false })
+
+    const req = createRequest()
+    await session.handle(req, next)
+
+    expect(req._cookiesToSet![0].options.maxAge).toBe(600)
+  })
+})
+
+describe('SQLiteSessionStore', () => {
+  test('should wait for another process holding the write lock', async () => {
+    const filename = join(directory, 'locked.sqlite')
+    const store = new SQLiteSessionStore({ filename })
+    const script = `
+      import { Database } from 'bun:sqlite'
+      const db = new Database(${JSON.stringify(filename)})
+      db.exec('BEGIN IMMEDIATE')
+      console.log('locked')
+      await Bun.sleep(200)
+      db.exec('COMMIT')
+    `
+    const child = Bun.spawn([process.execPath, '-e', script], { stdout: 'pipe' })
+    await child.stdout.getReader().read()
+
+    await store.set('shared', { user: 1 })
+
+    expect(await child.exited).toBe(0)
+    expect(await store.get('shared')).toEqual({ user: 1 })
+    store.close()
+  })
+})
+
+describe('createSessionStore', () => {
+  test('should build the store selected by type', () => {
+    expect(createSessionStore()).toBeInstanceOf(MemorySessionStore)
+    expect(createSessionStore({ type: 'sqlite', sqlite: { filename: ':memory:' } })).toBeInstanceOf(SQLiteSessionStore)
+    expect(createSessionStore({ type: 'file', file: { directory } })).toBeInstanceOf(FileSessionStore)
+  })
+
+  test('should throw on unknown store types', () => {
+    expect(() => createSessionStore({ type: 'postgres' } as any)).toThrow('Unknown session store type "postgres"')
+  })
+})
@@ -0,0 +1,110 @@
+import type { EnhancedRequest } from '../packages/bun-router/src/types'
+import { describe, expect, test } from 'bun:test'
+import { signed, signUrl, verifySignedUrl } from '../packages/bun-router/src/middleware/signed_urls'
+import { Router } from '../packages/bun-router/src/router/router'
+import { registerSignedRoutes } from '../packages/bun-router/src/router/signed-routes'
+
+registerSignedRoutes(Router)
+
+const KEYS = ['url-signing-key']
+
+async function createRouter(): Promise<Router> {
+  const router = new Router({ signedUrls: { keys: KEYS } })
+  await router.get('/users/{id}/unsubscribe', () => new Response('OK'), 'web', 'unsubscribe')
+  await router.get('/downloads/{file}', () => new Response('OK'), 'web', 'downloads.show')
+  return router
+}
+
+async function handle(url: string, keys: string[] = KEYS): Promise<Response> {
+  const req = new Request(`http://localhost${url}`) as EnhancedRequest
+  return (await signed({ keys }).handle(req, async () => new Response('OK')))!
+}
+
+describe('Signed URLs', () => {
+  test('should sign named routes and put extra params in the query', async () => {
+    const router = await createRouter()
+    const url = await router.signedRoute('unsubscribe', { id: 42, list: 'news' })
+
+    expect(url).toMatch(/^\/users\/42\/unsubscribe\?list=news&signature=[a-f0-9]{64}$/)
+    expect(await router.hasValidSignature(new Request(`http://localhost${url}`) as EnhancedRequest)).toBe(true)
+  })
+
+  test('should accept valid signatures in the middleware', async () => {
+    const router = await createRouter()
+    const response = await handle(await router.signedRoute('unsubscribe', { id: 42 }))
+
+    expect(response.status).toBe(200)
+  })
+
+  test('should check the router\'s own keys in the named signed middleware', async () => {
+    const router = new Router({ signedUrls: { keys: KEYS } })
+    await router.get('/invoices/{id}', () => new Response('OK'), 'web', 'invoices.show', ['signed'])
+    const url = await router.signedRoute('invoices.show', { id: 7 })
+
+    expect((await router.handleRequest(new Request(`http://localhost${url}`))).status).toBe(200)
+    expect((await router.handleRequest(new Request(`http://localhost${url.replace('/7', '/8')}`))).status).toBe(403)
+  })
+
+  test('should reject missing signatures', async () => {
+    const response = await handle('/users/42/unsubscribe')
+
+    expect(response.status).toBe(403)
+    expect((await response.json() as any).error.code).toBe('MISSING_SIGNATURE')
+  })
+
+  test('should reject tampered paths and queries', async () => {
+    const router = await createRouter()
+    const url = await router.signedRoute('unsubscribe', { id: 42, list: 'news' })
+
+    const tamperedPath = await handle(url.replace('/42/', '/43/'))
+    const tamperedQuery = await handle(url.replace('list=news', 'list=all'))
+    const addedParam = await handle(`${url}&admin=1`)
+
+    expect(tamperedPath.status).toBe(403)
+    expect(tamperedQuery.status).toBe(403)
+    expect(addedParam.status).toBe(403)
+    expect((await tamperedPath.json() as any).error.code).toBe('SIGNATURE_MISMATCH')
+  })
+
+  test('should honour temporary signed route expiry', async () => {
+    const router = await createRouter()
+    const valid = await router.temporarySignedRoute('downloads.show', 60, { file: 'report.pdf' })
+    const expired = await router.temporarySignedRoute('downloads.show', new Date(Date.now() - 5000), { file: 'report.pdf' })
+
+    expect(valid).toContain('expires=')
+    expect((await handle(valid)).status).toBe(200)
+
+    const response = await handle(expired)
+    expect(response.status).toBe(403)
+    expect((await response.json() as any).error.code).toBe('EXPIRED_SIGNATURE')
+  })
+
+  test('should reject an extended expiry', async () => {
+    const router = await createRouter()
+    const url = await router.temporarySignedRoute('downloads.show', new Date(Date.now() - 5000), { file: 'report.pdf' })
+    const extended = url.replace(/expires=\d+/, `expires=${Math.floor(Date.now() / 1000) + 3600}`)
+
+    expect((await handle(extended)).status).toBe(403)
+  })
+
+  test('should accept URLs signed with a rotated-out key', async () => {
+    const url = await signUrl('/downloads/report.pdf', ['old-key'])
+
+    await expect(verifySignedUrl(url, ['new-key', 'old-key'])).resolves.toBeUndefined()
+    await expect(verifySignedUrl(url, ['new-key'])).rejects.toThrow('Invalid URL signature')
+  })
+
+  test('should keep absolute URLs absolute', async () => {
+    const url = await signUrl('https://example.com/downloads/report.pdf?v=2', KEYS)
+
+    expect(url.startsWith('https://example.com/downloads/report.pdf?v=2&signature=')).toBe(true)
+    await expect(verifySignedUrl(url, KEYS)).resolves.toBeUndefined()
+  })
+
+  test('should require signing keys', async () => {
+    const router = new Router()
+    await router.get('/verify', () => new Response('OK'), 'web', 'verify')
+
+    await expect(router.signedRoute('verify')).rejects.toThrow('signedUrls.keys')
+  })
+})
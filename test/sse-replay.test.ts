@@ -0,0 +1,158 @@
+import type { SSEReplayStore } from '../packages/bun-router/src/types'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { SQLiteCache } from '../packages/bun-router/src/cache/sqlite-cache'
+import { SSEConnectionManager, SSEHandler } from '../packages/bun-router/src/streaming/sse-handler'
+import { MemoryReplayStore, SQLiteReplayStore } from '../packages/bun-router/src/streaming/sse-replay'
+
+const cache = new SQLiteCache({ cleanupInterval: 3600 })
+
+afterAll(() => {
+  cache.close()
+})
+
+const stores: Array<[string, () => SSEReplayStore]> = [
+  ['MemoryReplayStore', () => new MemoryReplayStore({ size: 3 })],
+  ['SQLiteReplayStore', () => new SQLiteReplayStore({ cache, size: 3, prefix: `test:${crypto.randomUUID()}:` })],
+]
+
+/**
+ * Read what a stream sent until it has no more queued chunks
+ */
+async function readAvailable(response: Response): Promise<string> {
+  const reader = response.body!.getReader()
+  let text = ''
+  while (true) {
+    const chunk = await Promise.race([reader.read(), Bun.sleep(20).then(() => null)])
+    if (!chunk || chunk.done) {
+      break
+    }
+    text += new TextDecoder().decode(chunk.value)
+  }
+  reader.releaseLock()
+  return text
+}
+
+function reconnect(lastEventId: string): Request {
+  return new Request('http://localhost/events', { headers: { 'Last-Event-ID': lastEventId } })
+}
+
+describe('SSE replay stores', () => {
+  for (const [name, create] of stores) {
+    test(`${name} should assign ids and return the events after one`, () => {
+      const store = create()
+
+      expect(store.append('orders', { data: 'a' }).id).toBe(1)
+      expect(store.append('orders', { data: 'b' }).id).toBe(2)
+      store.append('other', { data: 'x' })
+
+      expect(store.since('orders', '1')).toEqual([{ data: 'b', id: 2 }])
+      expect(store.since('orders', '2')).toEqual([])
+      expect(store.since('orders', '99')).toBeNull()
+    })
+
+    test(`${name} should forget events beyond its size`, () => {
+      const store = create()
+      for (const data of ['a', 'b', 'c', 'd']) {
+        store.append('orders', { data })
+      }
+
+      expect(store.since('orders', '1')).toBeNull()
+      expect(store.since('orders', '2')?.map(event => event.data)).toEqual(['c', 'd'])
+    })
+
+    test(`${name} should record an event with a known id once`, () => {
+      const store = create()
+      const event = store.append('orders', { data: 'a', id: 'evt-1' })
+      store.append('orders', event)
+
+      expect(store.since('orders', 'evt-1')).toEqual([])
+      expect(store.append('orders', { data: 'b' }).id).toBe(1)
+    })
+  }
+})
+
+describe('Resumable SSE streams', () => {
+  test('should replay missed events to a reconnecting client', async () => {
+    const replay = new MemoryReplayStore()
+    const first = new SSEHandler({ replay, channel: 'orders', enableHeartbeat: false, retryDelay: 0 })
+    const stream = first.createStream()
+    first.event('order.created', { id: 1 })
+    first.event('order.created', { id: 2 })
+    first.event('order.shipped', { id: 1 })
+    first.close()
+
+    expect(await readAvailable(stream)).toContain('id: 3\nevent: order.shipped')
+
+    const second = new SSEHandler({ replay, channel: 'orders', enableHeartbeat: false, retryDelay: 0 })
+    const text = await readAvailable(second.createStream(reconnect('1')))
+    second.close()
+
+    expect(text).toBe('id: 2\nevent: order.created\ndata: {"id":2}\n\nid: 3\nevent: order.shipped\ndata: {"id":1}\n\n')
+  })
+
+  test('should replay past the high-water mark without disconnecting', async () => {
+    const replay = new MemoryReplayStore()
+    const payload = 'x'.repeat(1024)
+    for (let i = 0; i < 100; i++) {
+      replay.append('orders', { event: 'order.created', data: payload })
+    }
+
+    // About 100 KB missed, over the default 64 KB high-water mark
+    const handler = new SSEHandler({ replay, channel: 'orders', enableHeartbeat: false, retryDelay: 0 })
+    const text = await readAvailable(handler.createStream(reconnect('1')))
+
+    expect(handler.connected).toBe(true)
+    expect(text.match(/^id: \d+$/gm)).toHaveLength(99)
+    expect(text.endsWith(`id: 100\nevent: order.created\ndata: ${payload}\n\n`)).toBe(true)
+    handler.close()
+  })
+
+  test('should send a reset event when the gap is too old to replay', async () => {
+    const handler = new SSEHandler({ replay: new MemoryReplayStore(), enableHeartbeat: false, retryDelay: 0 })
+    const text = await readAvailable(handler.createStream(reconnect('41')))
+    handler.close()
+
+    expect(text).toBe('id: \nevent: reset\ndata: {"lastEventId":"41"}\n\n')
+  })
+
+  test('should ignore Last-Event-ID without a replay store', async () => {
+    const handler = new SSEHandler({ enableHeartbeat: false, retryDelay: 0 })
+    const text = await readAvailable(handler.createStream(reconnect('41')))
+    handler.close()
+
+    expect(text).toBe('')
+  })
+
+  test('should record broadcasts once and replay them to new connections', async () => {
+    const manager = new SSEConnectionManager({ replay: new MemoryReplayStore() })
+    const connected = manager.createConnection('first', { enableHeartbeat: false, retryDelay: 0 })
+    const stream = connected.createStream()
+
+    manager.broadcast({ event: 'tick', data: 1 })
+    manager.broadcast({ event: 'tick', data: 2 })
+    expect(await readAvailable(stream)).toBe('id: 1\nevent: tick\ndata: 1\n\nid: 2\nevent: tick\ndata: 2\n\n')
+
+    const reconnected = manager.createConnection('second', { enableHeartbeat: false, retryDelay: 0 })
+    expect(await readAvailable(reconnected.createStream(reconnect('1')))).toBe('id: 2\nevent: tick\ndata: 2\n\n')
+
+    manager.closeConnection('first')
+    manager.closeConnection('second')
+  })
+
+  test('should not replay events sent to one connection of a manager to others', async () => {
+    const manager = new SSEConnectionManager({ replay: new MemoryReplayStore() })
+    const connected = manager.createConnection('first', { enableHeartbeat: false, retryDelay: 0 })
+    const stream = connected.createStream()
+
+    manager.broadcast({ event: 'tick', data: 1 })
+    connected.send({ event: 'private', data: 'secret' })
+    manager.broadcast({ event: 'tick', data: 2 })
+    expect(await readAvailable(stream)).toContain('event: private')
+
+    const reconnected = manager.createConnection('second', { enableHeartbeat: false, retryDelay: 0 })
+    expect(await readAvailable(reconnected.createStream(reconnect('1')))).toBe('id: 2\nevent: tick\ndata: 2\n\n')
+
+    manager.closeConnection('first')
+    manager.closeConnection('second')
+  })
+})
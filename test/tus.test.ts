@@ -0,0 +1,162 @@
+import type { TusUpload } from '../packages/bun-router/src/middleware/tus'
+import { afterAll, afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseMetadata } from '../packages/bun-router/src/middleware/tus'
+import { Router } from '../packages/bun-router/src/router'
+
+const directory = mkdtempSync(join(tmpdir(), 'tus-'))
+const TUS = { 'Tus-Resumable': '1.0.0' }
+
+let router: Router
+
+afterEach(() => {
+  router?.serverInstance?.stop(true)
+})
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true })
+})
+
+async function serve(options: Parameters<Router['tus']>[1] = {}, config: ConstructorParameters<typeof Router>[0] = {}) {
+  router = new Router(config)
+  const server = await router.tus('/uploads', { directory: mkdtempSync(join(directory, 'uploads-')), ...options })
+  await router.serve({ port: 0 })
+  return { server, base: `http://localhost:${router.serverInstance!.port}` }
+}
+
+async function create(base: string, length: number, metadata: string = 'filename bm90ZXMudHh0'): Promise<string> {
+  const response = await fetch(`${base}/uploads`, {
+    method: 'POST',
+    headers: { ...TUS, 'Upload-Length': String(length), 'Upload-Metadata': metadata },
+  })
+  expect(response.status).toBe(201)
+  return response.headers.get('location')!
+}
+
+function append(location: string, offset: number, body: string | Uint8Array): Promise<Response> {
+  return fetch(location, {
+    method: 'PATCH',
+    headers: { ...TUS, 'Upload-Offset': String(offset), 'Content-Type': 'application/offset+octet-stream' },
+    body,
+  })
+}
+
+describe('tus uploads', () => {
+  test('should advertise the protocol version and extensions', async () => {
+    const { base } = await serve({ maxSize: 1000 })
+
+    const response = await fetch(`${base}/uploads`, { method: 'OPTIONS' })
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get('tus-version')).toBe('1.0.0')
+    expect(response.headers.get('tus-extension')).toBe('creation,expiration,termination')
+    expect(response.headers.get('tus-max-size')).toBe('1000')
+  })
+
+  test('should resume an upload from the offset the server reports', async () => {
+    const completed: TusUpload[] = []
+    const { base } = await serve({ onComplete: upload => void completed.push(upload) })
+    const location = await create(base, 11)
+
+    expect((await append(location, 0, 'hello')).headers.get('upload-offset')).toBe('5')
+
+    const head = await fetch(location, { method: 'HEAD', headers: TUS })
+    expect(head.headers.get('upload-offset')).toBe('5')
+    expect(head.headers.get('upload-length')).toBe('11')
+    expect(head.headers.get('upload-metadata')).toBe('filename bm90ZXMudHh0')
+    expect(head.headers.get('upload-expires')).not.toBeNull()
+
+    expect((await append(location, 0, 'hello')).status).toBe(409)
+    expect(completed).toHaveLength(0)
+
+    const last = await append(location, 5, ' world')
+    expect(last.status).toBe(204)
+    expect(last.headers.get('upload-offset')).toBe('11')
+
+    expect(completed).toHaveLength(1)
+    expect(completed[0].metadata).toEqual({ filename: 'notes.txt' })
+    expect(readFileSync(completed[0].path!, 'utf8')).toBe('hello world')
+
+    // Empty appends to a finished upload don't complete it again
+    const repeated = await append(location, 11, '')
+    expect(repeated.status).toBe(204)
+    expect(repeated.headers.get('upload-offset')).toBe('11')
+    expect(completed).toHaveLength(1)
+  })
+
+  test('should reject requests without a supported Tus-Resumable version', async () => {
+    const { base } = await serve()
+
+    const response = await fetch(`${base}/uploads`, { method: 'POST', headers: { 'Upload-Length': '5' } })
+
+    expect(response.status).toBe(412)
+    expect(response.headers.get('tus-version')).toBe('1.0.0')
+  })
+
+  test('should enforce the maximum size and the declared length', async () => {
+    const { base } = await serve({ maxSize: 10 })
+
+    const tooLarge = await fetch(`${base}/uploads`, { method: 'POST', headers: { ...TUS, 'Upload-Length': '11' } })
+    expect(tooLarge.status).toBe(413)
+
+    const location = await create(base, 4)
+    expect((await append(location, 0, 'hello')).status).toBe(413)
+  })
+
+  test('should validate finished uploads and discard rejected ones', async () => {
+    const completed: TusUpload[] = []
+    const { base } = await serve({ onComplete: upload => void completed.push(upload) })
+    // filename logo.png, filetype image/png
+    const location = await create(base, 10, 'filename bG9nby5wbmc=,filetype aW1hZ2UvcG5n')
+
+    const response = await append(location, 0, 'not an png')
+
+    expect(response.status).toBe(400)
+    expect(((await response.json()) as { error: string }).error).toContain('File signature does not match')
+    expect(completed).toHaveLength(0)
+    expect((await fetch(location, { method: 'HEAD', headers: TUS })).status).toBe(404)
+  })
+
+  test('should point Location at the prefixed upload path', async () => {
+    const { base } = await serve({}, { webPrefix: '/app' })
+
+    const response = await fetch(`${base}/app/uploads`, { method: 'POST', headers: { ...TUS, 'Upload-Length': '5' } })
+    const location = response.headers.get('location')!
+
+    expect(response.status).toBe(201)
+    expect(new URL(location).pathname).toStartWith('/app/uploads/')
+    expect((await append(location, 0, 'hello')).status).toBe(204)
+  })
+
+  test('should terminate uploads', async () => {
+    const { base } = await serve()
+    const location = await create(base, 10)
+
+    expect((await fetch(location, { method: 'DELETE', headers: TUS })).status).toBe(204)
+    expect((await fetch(location, { method: 'HEAD', headers: TUS })).status).toBe(404)
+  })
+
+  test('should expire unfinished uploads', async () => {
+    const { base, server } = await serve({ expiration: 0.01 })
+    const expired = await create(base, 10)
+    await create(base, 10)
+    await Bun.sleep(20)
+
+    expect((await fetch(expired, { method: 'HEAD', headers: TUS })).status).toBe(410)
+    expect(await server.removeExpired()).toBe(1)
+    expect(await server.store.list()).toEqual([])
+  })
+})
+
+describe('tus metadata', () => {
+  test('should decode keys with and without values', () => {
+    expect(parseMetadata('filename d29ybGRfZG9taW5hdGlvbl9wbGFuLnBkZg==,is_confidential')).toEqual({
+      filename: 'world_domination_plan.pdf',
+      is_confidential: '',
+    })
+    expect(parseMetadata('a b c')).toBeNull()
+    expect(parseMetadata('a x,a y')).toBeNull()
+  })
+})
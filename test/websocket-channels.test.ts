@@ -0,0 +1,169 @@
+import type { EnhancedRequest, NextFunction } from '../packages/bun-router/src/types'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Router } from '../packages/bun-router/src/router/router'
+import { registerWebSocketHandling } from '../packages/bun-router/src/router/websocket'
+import { ChannelManager, channelType } from '../packages/bun-router/src/websocket/channels'
+
+registerWebSocketHandling(Router)
+
+let router: Router
+
+afterEach(() => {
+  router?.serverInstance?.stop(true)
+})
+
+async function authenticate(req: EnhancedRequest, next: NextFunction): Promise<Response | null> {
+  const token = new URL(req.url).searchParams.get('token')
+  req.user = token ? { id: token, name: token.toUpperCase() } : undefined
+  return next()
+}
+
+/**
+ * A connected socket that collects every message it receives
+ */
+async function connect(token?: string): Promise<{ socket: WebSocket, messages: string[], next: () => Promise<any> }> {
+  const socket = new WebSocket(`ws://localhost:${router.serverInstance!.port}/live${token ? `?token=${token}` : ''}`)
+  const messages: string[] = []
+  const waiting: Array<(message: any) => void> = []
+
+  socket.onmessage = (event) => {
+    const message = String(event.data)
+    const resolve = waiting.shift()
+    if (resolve) {
+      resolve(JSON.parse(message))
+    }
+    else {
+      messages.push(message)
+    }
+  }
+  await new Promise(resolve => socket.addEventListener('open', resolve, { once: true }))
+
+  return {
+    socket,
+    messages,
+    next: () => messages.length > 0
+      ? Promise.resolve(JSON.parse(messages.shift()!))
+      : new Promise(resolve => waiting.push(resolve)),
+  }
+}
+
+async function serve(): Promise<void> {
+  router = new Router()
+  router.channel('orders.{id}', (user: { id: string }, { id }) => id === `${user.id}-order`)
+  router.channel('chat.{room}', (user: { id: string, name: string }, { room }) => room !== 'secret' && { name: user.name })
+  await router.ws('/live', {
+    message: async (ws, message) => {
+      const joined = await router.join(ws, String(message))
+      ws.send(JSON.stringify({ joined }))
+    },
+  }, { middleware: [authenticate] })
+  await router.serve({ port: 0 })
+}
+
+describe('Channel authorization', () => {
+  test('should tell channel types apart by prefix', () => {
+    expect(channelType('news')).toBe('public')
+    expect(channelType('private-orders.1')).toBe('private')
+    expect(channelType('presence-chat.1')).toBe('presence')
+  })
+
+  test('should allow public channels and require an authorizer for private ones', async () => {
+    const channels = new ChannelManager()
+    channels.define('orders.{id}', (_user, { id }) => id === '1')
+
+    expect(await channels.authorize('news', undefined)).toEqual({ channel: 'news', type: 'public' })
+    expect(await channels.authorize('private-orders.1', undefined)).toBeNull()
+    expect(await channels.authorize('private-orders.1', { id: 7 })).toEqual({ channel: 'private-orders.1', type: 'private' })
+    expect(await channels.authorize('private-orders.2', { id: 7 })).toBeNull()
+    expect(await channels.authorize('private-invoices.1', { id: 7 })).toBeNull()
+  })
+
+  test('should use the authorizer result as presence member info', async () => {
+    const channels = new ChannelManager()
+    channels.define('chat.{room}', async user => ({ name: (user as { name: string }).name }))
+    channels.define('lobby', () => true)
+
+    expect(await channels.authorize('presence-chat.1', { id: 7, name: 'Ada' })).toEqual({
+      channel: 'presence-chat.1',
+      type: 'presence',
+      member: { id: 7, info: { name: 'Ada' } },
+    })
+    expect((await channels.authorize('presence-lobby', { id: 7 }))?.member).toEqual({ id: 7, info: {} })
+  })
+
+  test('should deny malformed channel names and members without an id', async () => {
+    const channels = new ChannelManager()
+    channels.define('orders.{id}', () => true)
+    channels.define('lobby', () => true)
+
+    expect(await channels.authorize('private-orders.%E0', { id: 7 })).toBeNull()
+    expect(await channels.authorize('presence-lobby', { name: 'Ada' })).toBeNull()
+  })
+})
+
+describe('Channels over WebSockets', () => {
+  test('should only subscribe sockets the authorizer allows', async () => {
+    await serve()
+    const guest = await connect()
+    const ada = await connect('ada')
+
+    guest.socket.send('private-orders.ada-order')
+    expect(await guest.next()).toEqual({ joined: false })
+    ada.socket.send('private-orders.grace-order')
+    expect(await ada.next()).toEqual({ joined: false })
+    ada.socket.send('private-orders.ada-order')
+    expect(await ada.next()).toEqual({ joined: true })
+
+    router.publish('private-orders.ada-order', JSON.stringify({ shipped: true }))
+    expect(await ada.next()).toEqual({ shipped: true })
+
+    guest.socket.close()
+    ada.socket.close()
+  })
+
+  test('should announce presence members joining and leaving', async () => {
+    await serve()
+    const ada = await connect('ada')
+    const grace = await connect('grace')
+
+    ada.socket.send('presence-chat.1')
+    expect(await ada.next()).toEqual({
+      event: 'subscription_succeeded',
+      channel: 'presence-chat.1',
+      data: { members: [{ id: 'ada', info: { name: 'ADA' } }] },
+    })
+    expect(await ada.next()).toEqual({ joined: true })
+
+    grace.socket.send('presence-chat.1')
+    expect(await ada.next()).toEqual({ event: 'member_added', channel: 'presence-chat.1', data: { id: 'grace', info: { name: 'GRACE' } } })
+    expect((await grace.next()).data.members).toHaveLength(2)
+    expect(await grace.next()).toEqual({ joined: true })
+    expect(router.members('presence-chat.1').map(member => member.id)).toEqual(['ada', 'grace'])
+
+    grace.socket.close()
+    expect(await ada.next()).toEqual({ event: 'member_removed', channel: 'presence-chat.1', data: { id: 'grace', info: { name: 'GRACE' } } })
+    expect(router.members('presence-chat.1').map(member => member.id)).toEqual(['ada'])
+
+    ada.socket.close()
+  })
+
+  test('should count a user connected twice as one member', async () => {
+    await serve()
+    const first = await connect('ada')
+    const second = await connect('ada')
+
+    first.socket.send('presence-chat.1')
+    await first.next()
+    await first.next()
+    second.socket.send('presence-chat.1')
+    expect((await second.next()).data.members).toEqual([{ id: 'ada', info: { name: 'ADA' } }])
+    await second.next()
+
+    second.socket.close()
+    await Bun.sleep(20)
+    expect(router.members('presence-chat.1')).toHaveLength(1)
+    expect(first.messages).toEqual([])
+
+    first.socket.close()
+  })
+})
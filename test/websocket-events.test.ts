@@ -0,0 +1,133 @@
+import type { ServerWebSocket } from 'bun'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { NotFoundException, TimeoutException } from '../packages/bun-router/src/errors/exceptions'
+import { Router } from '../packages/bun-router/src/router/router'
+import { registerWebSocketHandling } from '../packages/bun-router/src/router/websocket'
+import { EventProtocolTester } from '../packages/bun-router/src/testing/websocket-testing'
+import { EventAckError, events } from '../packages/bun-router/src/websocket/events'
+
+registerWebSocketHandling(Router)
+
+interface ChatEvents {
+  'message.send': { text: string }
+  'message.delete': { id: number }
+  'typing': { room: string }
+}
+
+function chat(ws: ServerWebSocket<any>): void {
+  events<ChatEvents>(ws)
+    .on('message.send', { text: 'required|string|max:20' }, ({ text }) => ({ id: 1, text }))
+    .on('message.delete', ({ id }) => {
+      throw new NotFoundException('Message not found', 'message', String(id))
+    })
+    .on('typing', ({ room }, { ws }) => {
+      events(ws).emit('typing.started', { room })
+    })
+}
+
+describe('WebSocket event protocol', () => {
+  test('should acknowledge events with the handler result', async () => {
+    const tester = new EventProtocolTester(chat)
+
+    const ack = await tester.request('message.send', { text: 'hello' })
+
+    expect(ack.data).toEqual({ id: 1, text: 'hello' })
+    expect(ack.error).toBeUndefined()
+  })
+
+  test('should only acknowledge events that carry an id', async () => {
+    const tester = new EventProtocolTester(chat)
+
+    await tester.emit('typing', { room: 'general' })
+
+    expect(tester.frames()).toEqual([{ event: 'typing.started', data: { room: 'general' } }])
+    expect(tester.emitted('typing.started')).toEqual([{ room: 'general' }])
+  })
+
+  test('should validate event data before the handler runs', async () => {
+    const tester = new EventProtocolTester(chat)
+
+    const ack = await tester.request('message.send', { text: 'x'.repeat(21) })
+
+    expect(ack.data).toBeUndefined()
+    expect(ack.error?.code).toBe('VALIDATION_ERROR')
+    expect(Object.keys(ack.error?.fields ?? {})).toEqual(['text'])
+  })
+
+  test('should report handler errors without leaking internals', async () => {
+    const tester = new EventProtocolTester((ws) => {
+      chat(ws)
+      events(ws).on('crash', () => {
+        throw new Error('database password is hunter2')
+      })
+    })
+    const originalError = console.error
+    console.error = () => {}
+
+    const notFound = await tester.request('message.delete', { id: 7 })
+    const crash = await tester.request('crash')
+    console.error = originalError
+
+    expect(notFound.error).toEqual({ code: 'NOT_FOUND', message: 'Message not found' })
+    expect(crash.error).toEqual({ code: 'INTERNAL_ERROR', message: 'Internal server error' })
+  })
+
+  test('should reply to malformed frames and unknown events with errors', async () => {
+    const tester = new EventProtocolTester(chat)
+
+    await tester.send('not json')
+    await tester.send(JSON.stringify([1, 2]))
+    await tester.send(new Uint8Array([1, 2]))
+    await tester.emit('unknown')
+    const ack = await tester.request('unknown')
+
+    expect(tester.errors().map(error => error.code)).toEqual(['MALFORMED_FRAME', 'MALFORMED_FRAME', 'MALFORMED_FRAME', 'UNKNOWN_EVENT'])
+    expect(ack.error?.code).toBe('UNKNOWN_EVENT')
+  })
+
+  test('should resolve server requests with the client acknowledgement', async () => {
+    let socket!: ReturnType<typeof events>
+    const tester = new EventProtocolTester((ws) => {
+      socket = events(ws, { timeout: 20 })
+    })
+    await tester.send(JSON.stringify({ ack: 'nothing pending' }))
+
+    const confirmed = socket.request<{ ok: boolean }>('confirm', { question: 'Leave?' })
+    await tester.acknowledge('confirm', { ok: true })
+    expect(await confirmed).toEqual({ ok: true })
+
+    const refused = socket.request('confirm')
+    await tester.acknowledge('confirm', undefined, { code: 'REFUSED', message: 'No' })
+    await expect(refused).rejects.toBeInstanceOf(EventAckError)
+
+    await expect(socket.request('confirm')).rejects.toBeInstanceOf(TimeoutException)
+
+    const pending = socket.request('confirm', undefined, { timeout: 1000 })
+    tester.close()
+    await expect(pending).rejects.toThrow('Socket closed')
+  })
+})
+
+describe('WebSocket event protocol over router.ws()', () => {
+  let router: Router
+
+  afterEach(() => {
+    router?.serverInstance?.stop(true)
+  })
+
+  test('should hand socket messages to the event socket', async () => {
+    router = new Router()
+    await router.ws('/chat', { open: chat })
+    await router.serve({ port: 0 })
+
+    const socket = new WebSocket(`ws://localhost:${router.serverInstance!.port}/chat`)
+    await new Promise(resolve => socket.addEventListener('open', resolve, { once: true }))
+
+    const reply = new Promise<string>(resolve => socket.addEventListener('message', event => resolve(String(event.data)), { once: true }))
+    socket.send(JSON.stringify({ event: 'message.send', data: { text: 'hi' }, id: 42 }))
+
+    expect(JSON.parse(await reply)).toEqual({ ack: 42, data: { id: 1, text: 'hi' } })
+
+    socket.close()
+  })
+})
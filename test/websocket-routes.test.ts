@@ -0,0 +1,120 @@
+import type { EnhancedRequest, NextFunction } from '../packages/bun-router/src/types'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { Router } from '../packages/bun-router/src/router/router'
+import { registerWebSocketHandling } from '../packages/bun-router/src/router/websocket'
+
+registerWebSocketHandling(Router)
+
+let router: Router
+
+afterEach(() => {
+  router?.serverInstance?.stop(true)
+})
+
+async function authenticate(req: EnhancedRequest, next: NextFunction): Promise<Response | null> {
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+  req.user = { id: token }
+  return next()
+}
+
+function connect(path: string): Promise<{ socket: WebSocket, first: string }> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`ws://localhost:${router.serverInstance!.port}${path}`)
+    socket.onmessage = event => resolve({ socket, first: String(event.data) })
+    socket.onerror = () => reject(new Error(`Could not connect to ${path}`))
+  })
+}
+
+function nextMessage(socket: WebSocket): Promise<string> {
+  return new Promise(resolve => socket.addEventListener('message', event => resolve(String(event.data)), { once: true }))
+}
+
+describe('WebSocket routes', () => {
+  test('should dispatch each socket to its own route with params and user', async () => {
+    router = new Router()
+    await router.ws('/chat/{room}', {
+      open: (ws) => {
+        ws.send(`joined ${ws.data.params.room} as ${ws.data.user?.id}`)
+      },
+      message: (ws, message) => {
+        ws.send(`chat:${ws.data.params.room}:${message}`)
+      },
+    }, { middleware: [authenticate] })
+    await router.ws('/echo', {
+      open: (ws) => {
+        ws.send('echo ready')
+      },
+      message: (ws, message) => {
+        ws.send(`echo:${message}`)
+      },
+    })
+    await router.serve({ port: 0 })
+
+    const chat = await connect('/chat/general?token=ada')
+    const echo = await connect('/echo')
+
+    expect(chat.first).toBe('joined general as ada')
+    expect(echo.first).toBe('echo ready')
+
+    chat.socket.send('hi')
+    expect(await nextMessage(chat.socket)).toBe('chat:general:hi')
+    echo.socket.send('hi')
+    expect(await nextMessage(echo.socket)).toBe('echo:hi')
+
+    chat.socket.close()
+    echo.socket.close()
+  })
+
+  test('should run middleware before the upgrade', async () => {
+    router = new Router()
+    await router.ws('/chat/{room}', { message: () => {} }, { middleware: [authenticate] })
+    await router.serve({ port: 0 })
+
+    const response = await fetch(`http://localhost:${router.serverInstance!.port}/chat/general`)
+    expect(response.status).toBe(401)
+    await expect(connect('/chat/general')).rejects.toThrow()
+  })
+
+  test('should reject requests that are not WebSocket upgrades', async () => {
+    router = new Router()
+    await router.ws('/chat/{room}', { message: () => {} })
+    await router.serve({ port: 0 })
+
+    const response = await fetch(`http://localhost:${router.serverInstance!.port}/chat/general`)
+    expect(response.status).toBe(426)
+    expect(response.headers.get('Upgrade')).toBe('websocket')
+  })
+
+  test('should keep router.websocket() handlers for manual upgrades', async () => {
+    router = new Router()
+    router.websocket({
+      open: (ws) => {
+        ws.send('global')
+      },
+      message: () => {},
+    })
+    await router.get('/manual', (req: EnhancedRequest) => {
+      router.upgrade(req, { data: { id: 'manual', connectedAt: Date.now() } })
+      return new Response(null, { status: 101 })
+    })
+    await router.ws('/routed', {
+      open: (ws) => {
+        ws.send('routed')
+      },
+      message: () => {},
+    })
+    await router.serve({ port: 0 })
+
+    const manual = await connect('/manual')
+    const routed = await connect('/routed')
+
+    expect(manual.first).toBe('global')
+    expect(routed.first).toBe('routed')
+
+    manual.socket.close()
+    routed.socket.close()
+  })
+})